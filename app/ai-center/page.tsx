@@ -1,12 +1,38 @@
 "use client";
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { formatDate } from '@/lib/utils';
 import { getDatabase, ref, onValue } from 'firebase/database';
 import { app } from '@/lib/firebaseClient';
 import { symptoms } from "@/lib/expert-system/symptoms";
-import { rules } from "@/lib/expert-system/rules";
-import { fuzzyLevelToValue } from "@/lib/expert-system/fuzzyMembership";
+import {
+  describeFact,
+  diagnosisFacts,
+  explainDiagnosis,
+  explainQuestion,
+  type Diagnosis,
+  type DiagnosisSummary,
+  type NearMissExplanation,
+} from "@/lib/expert-system/diagnosisEngine";
+import { sensorSymptomDegrees, sensorSymptomMemberships } from "@/lib/expert-system/fuzzyMembership";
+import {
+  AGGREGATIONS,
+  DEFAULT_INFERENCE,
+  DEFUZZIFICATIONS,
+  IMPLICATIONS,
+  reinferSeverity,
+  type InferenceOptions,
+  type MamdaniResult,
+} from "@/lib/expert-system/mamdani";
+import { firebaseTaggedReading } from "@/lib/firebaseUnits";
+import type { ParameterType } from "@/lib/thresholds";
+import { toCanonicalReading, type Quantity } from "@/lib/units";
+import { useBearings } from "@/hooks/useBearings";
+import { useThresholds } from "@/hooks/useThresholds";
+import { HealthTrendChart } from "@/components/HealthTrendChart";
+import { SeverityInferenceChart } from "@/components/SeverityInferenceChart";
+import { DEFAULT_MOTOR_ID } from "@/lib/motorConfig";
+import { SUBSYSTEM_LABELS, type HealthScoreResult } from "@/lib/calculateHealthScore";
 
 /* =======================
    FIREBASE REAL-TIME LISTENER
@@ -39,17 +65,6 @@ const useFirebaseRealTime = () => {
 /* =======================
    TYPES
 ======================= */
-interface HealthScoreResult {
-  score: number;
-  category: string;
-  factors: Array<{
-    parameter: string;
-    value: number;
-    status: string;
-    penalty: number;
-  }>;
-}
-
 interface MLClassification {
   willFailSoon: boolean;
   failureProbability: number;
@@ -77,39 +92,13 @@ interface PredictionResult {
 
 type UserAnswer = "No" | "Sometimes" | "Yes";
 
-interface DiagnosisResult {
-  id: string;
-  level: "A" | "B" | "C";
-  damage: string;
-  solution: string;
-  cfRule: number;
-}
-
 interface VibrationHistory {
-  vibration_rms: number;
+  vibrationRms: Quantity;
   timestamp: number;
 }
 
-interface SensorData {
-  gridVoltage?: number;
-  motorCurrent?: number;
-  power?: number;
-  powerFactor?: number;
-  gridFrequency?: number;
-  vibrationRms?: number;
-  motorSurfaceTemp?: number;
-  bearingTemp?: number;
-  dustDensity?: number;
-}
-
-/* =======================
-   LEVEL SCORE
-======================= */
-const levelScore: Record<"A" | "B" | "C", number> = {
-  A: 40,
-  B: 70,
-  C: 100,
-};
+// Unit-tagged values, as /api/ml/predict and /api/expert/diagnose expect them
+type SensorData = Partial<Record<ParameterType, Quantity>>;
 
 export default function AICenterPage() {
   /* ===== ML PREDICTION STATE ===== */
@@ -118,16 +107,47 @@ export default function AICenterPage() {
   const [vibrationHistory, setVibrationHistory] = useState<VibrationHistory[]>([]);
   const [latestSensorData, setLatestSensorData] = useState<SensorData | null>(null);
   
+  /* ===== BEARING L10 LIFE ===== */
+  const { bearings } = useBearings(DEFAULT_MOTOR_ID);
+  
+  /* ===== THRESHOLDS (sensor facts of the rules) ===== */
+  const { thresholds } = useThresholds(DEFAULT_MOTOR_ID);
+  
   /* ===== EXPERT SYSTEM STATE ===== */
+  // Technician's answers; they override the sensor-derived ones
   const [answers, setAnswers] = useState<Record<number, UserAnswer>>({});
-  const [results, setResults] = useState<DiagnosisResult[]>([]);
-  const [conclusion, setConclusion] = useState<{
-    percent: number;
-    label: string;
-  } | null>(null);
+  const [results, setResults] = useState<Diagnosis[]>([]);
+  const [nearMisses, setNearMisses] = useState<NearMissExplanation[]>([]);
+  // Open "why" explanation: `diagnosis-<damageType>` or `question-<symptomId>`
+  const [openWhy, setOpenWhy] = useState<string | null>(null);
+  const [conclusion, setConclusion] = useState<DiagnosisSummary | null>(null);
+  const [severity, setSeverity] = useState<MamdaniResult | null>(null);
+  const [inference, setInference] = useState<InferenceOptions>(DEFAULT_INFERENCE);
+  const [isDiagnosing, setIsDiagnosing] = useState(false);
+  const [diagnosisError, setDiagnosisError] = useState<string | null>(null);
+
+  const sensorValues = useMemo(() => {
+    try {
+      return toCanonicalReading(latestSensorData, 'sensorData');
+    } catch {
+      return {};
+    }
+  }, [latestSensorData]);
+  // Symptoms measurable by the sensors, answered from the live values
+  const sensorDegrees = useMemo(
+    () => sensorSymptomDegrees(sensorValues, sensorSymptomMemberships(thresholds)),
+    [sensorValues, thresholds]
+  );
+  // Current facts, for "why are you asking this"
+  const questionFacts = useMemo(
+    () => diagnosisFacts({ answers, values: sensorValues, thresholds }),
+    [answers, sensorValues, thresholds]
+  );
+
+  const toggleWhy = (key: string) => setOpenWhy((open) => (open === key ? null : key));
 
   /* ===== AUTO ML PREDICTION ===== */
-  const runAutoMLPrediction = async (sensorData: any) => {
+  const runAutoMLPrediction = async (sensorData: SensorData) => {
     console.log('🤖 Running auto ML prediction with:', sensorData);
     
     try {
@@ -136,16 +156,7 @@ export default function AICenterPage() {
       const response = await fetch('/api/ml/predict?' + Date.now(), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          sensorData: {
-            vibration_peak_g: sensorData.vibration_peak_g || sensorData.vibration_rms_mm_s,
-            voltage: sensorData.voltage,
-            power: sensorData.power,
-            pf: sensorData.pf,
-            motor_temp: sensorData.motor_temp,
-            health_index: sensorData.health_index,
-          }
-        }),
+        body: JSON.stringify({ sensorData }),
       });
       
       const result = await response.json();
@@ -158,7 +169,7 @@ export default function AICenterPage() {
       console.error('❌ Auto ML prediction error:', error);
       // Set fallback result
       setPredictionResult({
-        healthScore: { score: 85, category: 'Excellent', factors: [] },
+        healthScore: { score: 0, category: 'Unknown', factors: [], subIndices: [], recovery: [], coverage: 0, confidence: 0, gaps: [] },
         mlPrediction: null,
         mlServiceStatus: 'unavailable',
         mlServiceError: 'Auto prediction unavailable',
@@ -179,24 +190,16 @@ export default function AICenterPage() {
       if (data) {
         console.log('🔥 Firebase real-time data received:', data);
         
-        // Update sensor data state
-        setLatestSensorData({
-          gridVoltage: data.voltage,
-          motorCurrent: data.current,
-          power: data.power,
-          powerFactor: data.pf,
-          gridFrequency: data.frequency,
-          vibrationRms: data.vibration_rms_mm_s,
-          motorSurfaceTemp: data.motor_temp,
-          bearingTemp: data.bearing_temp,
-          dustDensity: data.dust,
-        });
+        // Update sensor data state (nilai beserta satuannya, lihat lib/firebaseUnits.ts)
+        const sensorData = firebaseTaggedReading(data);
+        setLatestSensorData(sensorData);
         
         // Update vibration history
-        if (data.vibration_rms_mm_s !== undefined) {
+        const vibrationRms = sensorData.vibrationRms;
+        if (vibrationRms) {
           setVibrationHistory(prev => {
             const newReading = {
-              vibration_rms: data.vibration_rms_mm_s,
+              vibrationRms,
               timestamp: data.timestamp || Date.now(),
             };
             const updated = [...prev, newReading].slice(-50);
@@ -205,9 +208,9 @@ export default function AICenterPage() {
         }
         
         // 🚀 AUTO-RUN ML PREDICTION ON NEW DATA
-        if (data.vibration_peak_g || data.vibration_rms_mm_s) {
+        if (sensorData.vibrationPeakG || sensorData.vibrationRms) {
           console.log('🤖 Auto-triggering ML prediction...');
-          runAutoMLPrediction(data);
+          runAutoMLPrediction(sensorData);
         }
       }
     }, (error) => {
@@ -243,7 +246,7 @@ const runPrediction = async () => {
       console.error('Error running prediction:', error);
       // Set a user-friendly error message
       setPredictionResult({
-        healthScore: { score: 0, category: 'Healthy', factors: [] },
+        healthScore: { score: 0, category: 'Unknown', factors: [], subIndices: [], recovery: [], coverage: 0, confidence: 0, gaps: [] },
         mlPrediction: null,
         mlServiceStatus: 'unavailable',
         mlServiceError: 'ML predictions are currently unavailable. Health scores are calculated using formulas.',
@@ -270,47 +273,44 @@ const runPrediction = async () => {
   /* =======================
      EXPERT SYSTEM - DIAGNOSIS
   ======================= */
-  const runDiagnosis = () => {
-    const output: DiagnosisResult[] = [];
-
-    rules.forEach((rule) => {
-      const cfValues: number[] = [];
-
-      rule.symptoms.forEach((sid) => {
-        const userAnswer = answers[sid];
-        const expertCF = symptoms.find((s) => s.id === sid)?.cfExpert;
-
-        if (userAnswer && expertCF !== undefined) {
-          const userCF = fuzzyLevelToValue(userAnswer);
-          cfValues.push(userCF * expertCF);
-        }
+  // Diagnosed on the server (POST /api/expert/diagnose) with the live sensor values
+  const runDiagnosis = async () => {
+    setIsDiagnosing(true);
+    setDiagnosisError(null);
+    try {
+      const response = await fetch('/api/expert/diagnose', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          motorId: DEFAULT_MOTOR_ID,
+          answers,
+          sensorData: latestSensorData ?? undefined,
+          inference,
+        }),
       });
-
-      if (cfValues.length === 0) return;
-
-      const cfRule =
-        rule.operator === "OR"
-          ? Math.max(...cfValues)
-          : Math.min(...cfValues);
-
-      if (cfRule > 0) {
-        output.push({
-          id: rule.id,
-          level: rule.level,
-          damage: rule.damage,
-          solution: rule.solution,
-          cfRule: Number(cfRule.toFixed(2)),
-        });
-      }
-    });
-
-    setResults(output);
-    calculateConclusion(output);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Diagnosis failed');
+
+      setResults(result.diagnoses);
+      setNearMisses(result.nearMisses);
+      setConclusion(result.summary);
+      setSeverity(result.severity);
+    } catch (err) {
+      console.error('Error running diagnosis:', err);
+      setDiagnosisError(err instanceof Error ? err.message : 'Diagnosis failed');
+    } finally {
+      setIsDiagnosing(false);
+    }
   };
   
   /* =======================
      ML PREDICTION - UI HELPERS  
   ======================= */
+  // No score is shown until one is backed by enough fresh sensor data
+  const healthScore = predictionResult?.healthScore;
+  const healthUnknown = !healthScore || healthScore.category === 'Unknown';
+  const healthCategory = healthScore?.category ?? 'Unknown';
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'Healthy':
@@ -341,38 +341,6 @@ const runPrediction = async () => {
     }
   };
 
-  /* =======================
-     EXPERT SYSTEM - CONCLUSION
-  ======================= */
-  const calculateConclusion = (data: DiagnosisResult[]) => {
-    if (data.length === 0) {
-      setConclusion(null);
-      return;
-    }
-
-    const totalScore = data.reduce(
-      (sum, r) => sum + levelScore[r.level],
-      0
-    );
-
-    const percent = (totalScore / (data.length * 100)) * 100;
-
-    let label: string;
-
-    if (percent <= 40) {
-      label = "Minor";
-    } else if (percent <= 70) {
-      label = "Moderate";
-    } else {
-      label = "Severe";
-    }
-
-    setConclusion({
-      percent: Number(percent.toFixed(1)),
-      label,
-    });
-  };
-  
   /* =======================
      UI
   ======================= */
@@ -434,55 +402,95 @@ const runPrediction = async () => {
                         <circle
                           cx="64" cy="64" r="56"
                           stroke={
-                            (predictionResult?.healthScore?.score ?? 85) >= 80 ? '#10b981' :
-                            (predictionResult?.healthScore?.score ?? 85) >= 60 ? '#f59e0b' : '#ef4444'
+                            healthUnknown ? '#e5e7eb' :
+                            healthScore.score >= 80 ? '#10b981' :
+                            healthScore.score >= 60 ? '#f59e0b' : '#ef4444'
                           }
                           strokeWidth="12" fill="none"
-                          strokeDasharray={`${(predictionResult?.healthScore?.score ?? 85) * 3.52} 352`}
+                          strokeDasharray={`${healthUnknown ? 0 : healthScore.score * 3.52} 352`}
                           strokeLinecap="round"
                         />
                       </svg>
                       <div className="absolute inset-0 flex flex-col items-center justify-center">
-                        <span className={`text-3xl font-bold ${getStatusColor(predictionResult?.healthScore?.category ?? 'Excellent')}`}>
-                          {predictionResult?.healthScore?.score ?? 85}
+                        <span className={`text-3xl font-bold ${getStatusColor(healthCategory)}`}>
+                          {healthUnknown ? '—' : healthScore.score}
                         </span>
                         <span className="text-xs text-gray-600">/ 100</span>
                       </div>
                     </div>
                     
                     <div>
-                      <div className={`inline-flex items-center gap-2 px-4 py-2 rounded-full ${getStatusBgColor(predictionResult?.healthScore?.category ?? 'Excellent')} text-white font-semibold mb-3`}>
-                        {predictionResult?.healthScore?.category ?? 'Excellent'}
+                      <div className={`inline-flex items-center gap-2 px-4 py-2 rounded-full ${getStatusBgColor(healthCategory)} text-white font-semibold mb-3`}>
+                        {healthUnknown ? 'Unknown (data tidak cukup)' : healthCategory}
                       </div>
                       <p className="text-sm text-gray-600">Formula-based calculation</p>
+                      {predictionResult?.healthScore && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Confidence: {(predictionResult.healthScore.confidence * 100).toFixed(0)}%
+                          {predictionResult.healthScore.gaps.length > 0 &&
+                            ` (no data: ${predictionResult.healthScore.gaps.map((gap) => gap.parameter).join(', ')})`}
+                        </p>
+                      )}
                       <p className="text-xs text-gray-500 mt-1">
                         Analyzed at: {formatDate(predictionResult?.timestamp ?? new Date().toISOString())}
                       </p>
                     </div>
                   </div>
                   
-                  {(predictionResult?.healthScore?.factors?.length ?? 0) > 0 && (
+                  {(predictionResult?.healthScore?.subIndices?.length ?? 0) > 0 && (
+                    <div className="mt-4 space-y-2">
+                      <p className="text-sm font-medium text-gray-700">Sub-indices:</p>
+                      {(predictionResult?.healthScore?.subIndices ?? []).map((subIndex) => (
+                        <div key={subIndex.subsystem}>
+                          <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+                            <span>{SUBSYSTEM_LABELS[subIndex.subsystem]} ({subIndex.weight} pts)</span>
+                            <span className={`font-semibold ${getStatusColor(subIndex.category)}`}>{subIndex.score}</span>
+                          </div>
+                          <div className="w-full bg-gray-200 rounded-full h-2">
+                            <div
+                              className={`h-2 rounded-full ${getStatusBgColor(subIndex.category)}`}
+                              style={{ width: `${subIndex.score}%` }}
+                            ></div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {(predictionResult?.healthScore?.factors ?? []).some((factor) => factor.penalty > 0) && (
                     <div className="mt-4">
                       <p className="text-sm font-medium text-gray-700 mb-2">Contributing factors:</p>
                       <div className="space-y-2">
-                        {(predictionResult?.healthScore?.factors ?? []).slice(0, 5).map((factor, idx) => (
-                          <div key={idx} className="flex items-center justify-between text-sm">
-                            <span className="text-gray-600">{factor.parameter}</span>
-                            <div className="flex items-center gap-2">
-                              <span className="text-gray-800">{factor.value.toFixed(2)}</span>
+                        {(predictionResult?.healthScore?.factors ?? [])
+                          .filter((factor) => factor.penalty > 0)
+                          .sort((a, b) => b.penalty - a.penalty)
+                          .slice(0, 5)
+                          .map((factor) => (
+                            <div key={factor.parameter} className="flex items-start justify-between gap-2 text-sm">
+                              <span className="text-gray-600">{factor.explanation}</span>
                               <span className={`px-2 py-0.5 rounded text-xs font-medium ${
-                                factor.status === 'critical' ? 'bg-red-100 text-red-700' :
-                                factor.status === 'warning' ? 'bg-yellow-100 text-yellow-700' :
+                                factor.status.level === 'critical' ? 'bg-red-100 text-red-700' :
+                                factor.status.level === 'warning' ? 'bg-yellow-100 text-yellow-700' :
                                 'bg-green-100 text-green-700'
                               }`}>
                                 -{factor.penalty}
                               </span>
                             </div>
-                          </div>
-                        ))}
+                          ))}
                       </div>
                     </div>
                   )}
+
+                  {(predictionResult?.healthScore?.recovery?.length ?? 0) > 0 && (
+                    <div className="mt-4">
+                      <p className="text-sm font-medium text-gray-700 mb-2">What would bring this back to Healthy:</p>
+                      <ol className="list-decimal list-inside space-y-1 text-sm text-gray-600">
+                        {(predictionResult?.healthScore?.recovery ?? []).map((step) => (
+                          <li key={step.parameter}>{step.explanation}</li>
+                        ))}
+                      </ol>
+                    </div>
+                  )}
                 </div>
                 
                 {/* ML Prediction Results */}
@@ -540,13 +548,57 @@ const runPrediction = async () => {
                         Based on 1 vibration readings
                       </p>
                     </div>
+                    
+                    {/* Calculated bearing life (lib/bearingLife.ts), for comparison with the ML estimate */}
+                    <div className="bg-white p-4 rounded-lg border border-gray-200">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="text-sm font-medium text-gray-700">L10 Remaining Life</span>
+                        <span className="text-xs text-gray-500">ISO 281, calculated</span>
+                      </div>
+                      
+                      {bearings.length === 0 ? (
+                        <p className="text-sm text-gray-500 py-2">
+                          No bearings configured. Add them in Settings to compare with the ML estimate.
+                        </p>
+                      ) : (
+                        <div className="space-y-3">
+                          {bearings.map((bearing) => (
+                            <div key={bearing.id}>
+                              <div className="flex items-baseline justify-between">
+                                <span className="text-sm text-gray-700">
+                                  {bearing.position}
+                                  {bearing.designation && <span className="text-gray-500"> · {bearing.designation}</span>}
+                                </span>
+                                <span className={`text-lg font-bold ${
+                                  bearing.lifeConsumedPercent >= 90 ? 'text-status-critical' :
+                                  bearing.lifeConsumedPercent >= 70 ? 'text-status-warning' : 'text-status-normal'
+                                }`}>
+                                  {bearing.remainingHours.toFixed(0)}
+                                  <span className="text-sm font-normal text-gray-600 ml-1">hours</span>
+                                </span>
+                              </div>
+                              <p className="text-xs text-gray-500">
+                                {bearing.lifeConsumedPercent.toFixed(1)}% of L10 {bearing.l10Hours.toFixed(0)} h used
+                                {bearing.lifeFactor < 1 && ` · life factor ${bearing.lifeFactor.toFixed(2)} at current conditions`}
+                              </p>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
                   </div>
                 </div>
               </div>
             </div>
           </div>
-        </div>
         
+        {/* ===== HEALTH TREND ===== */}
+        <div className="card mb-6">
+          <h2 className="text-xl font-semibold text-gray-800 mb-1">Health Score Trend</h2>
+          <p className="text-sm text-gray-600 mb-4">Stored formula health score (last 24 hours) with sudden drops marked</p>
+          <HealthTrendChart motorId={DEFAULT_MOTOR_ID} />
+        </div>
+
         {/* ===== EXPERT SYSTEM DIAGNOSIS ===== */}
         <div className="card mb-6">
           <div className="flex items-center justify-between mb-4">
@@ -563,59 +615,140 @@ const runPrediction = async () => {
           
           {/* Symptom Questions */}
           <div className="space-y-4">
-            {symptoms.map((symptom) => (
-              <div
-                key={symptom.id}
-                className="p-4 border rounded bg-gray-50"
-              >
-                <p className="font-medium mb-2">
-                  {symptom.question}
-                </p>
-
-                <div className="flex gap-4">
-                  {(["No", "Sometimes", "Yes"] as UserAnswer[]).map(
-                    (option) => (
-                      <label
-                        key={option}
-                        className="flex items-center gap-1 cursor-pointer"
+            {symptoms.map((symptom) => {
+              const sensorDegree = sensorDegrees[symptom.id];
+              // Unanswered: the diagnosis uses the sensor degree itself, not a rounded answer
+              const answer = answers[symptom.id];
+              const overridden = answer !== undefined;
+              return (
+                <div
+                  key={symptom.id}
+                  className="p-4 border rounded bg-gray-50"
+                >
+                  <div className="flex items-start justify-between gap-2 mb-2">
+                    <p className="font-medium">
+                      {symptom.question}{" "}
+                      <button
+                        onClick={() => toggleWhy(`question-${symptom.id}`)}
+                        className="text-xs font-normal text-primary hover:underline"
                       >
-                        <input
-                          type="radio"
-                          name={`symptom-${symptom.id}`}
-                          checked={answers[symptom.id] === option}
-                          onChange={() =>
-                            setAnswers((prev) => ({
-                              ...prev,
-                              [symptom.id]: option,
-                            }))
+                        Why ask?
+                      </button>
+                    </p>
+                    {sensorDegree !== undefined && (
+                      overridden ? (
+                        <button
+                          onClick={() =>
+                            setAnswers((prev) => {
+                              const next = { ...prev };
+                              delete next[symptom.id];
+                              return next;
+                            })
                           }
-                          className="w-4 h-4 text-primary"
-                        />
-                        {option}
-                      </label>
-                    )
+                          className="text-xs text-primary hover:underline whitespace-nowrap"
+                        >
+                          Use sensor ({Math.round(sensorDegree * 100)}%)
+                        </button>
+                      ) : (
+                        <span className="text-xs px-2 py-0.5 rounded bg-blue-100 text-blue-800 whitespace-nowrap">
+                          📡 Sensor {Math.round(sensorDegree * 100)}%
+                        </span>
+                      )
+                    )}
+                  </div>
+
+                  {openWhy === `question-${symptom.id}` && (
+                    <ul className="mb-2 space-y-1 text-xs text-gray-600">
+                      {explainQuestion(symptom.id, questionFacts).map((reason) => (
+                        <li key={reason.ruleId}>
+                          <span className="font-medium">{reason.ruleId}</span> ({reason.damage}): IF {reason.condition}
+                          {reason.satisfied.length > 0 && (
+                            <span className="text-primary">
+                              {" "}— already: {reason.satisfied.map(describeFact).join("; ")}
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
                   )}
+
+                  <div className="flex gap-4">
+                    {(["No", "Sometimes", "Yes"] as UserAnswer[]).map(
+                      (option) => (
+                        <label
+                          key={option}
+                          className="flex items-center gap-1 cursor-pointer"
+                        >
+                          <input
+                            type="radio"
+                            name={`symptom-${symptom.id}`}
+                            checked={answer === option}
+                            onChange={() =>
+                              setAnswers((prev) => ({
+                                ...prev,
+                                [symptom.id]: option,
+                              }))
+                            }
+                            className="w-4 h-4 text-primary"
+                          />
+                          {option}
+                        </label>
+                      )
+                    )}
+                  </div>
                 </div>
-              </div>
+              );
+            })}
+          </div>
+
+          {/* Mamdani severity inference methods */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mt-6 text-sm">
+            {([
+              ['implication', 'Implication', IMPLICATIONS],
+              ['aggregation', 'Aggregation', AGGREGATIONS],
+              ['defuzzification', 'Defuzzification', DEFUZZIFICATIONS],
+            ] as const).map(([key, label, methods]) => (
+              <label key={key} className="space-y-1">
+                <span className="block text-xs text-gray-600">{label}</span>
+                <select
+                  value={inference[key]}
+                  onChange={(e) => {
+                    const next = { ...inference, [key]: e.target.value };
+                    setInference(next);
+                    // Re-infer the shown diagnosis locally: no new request or stored analysis
+                    if (severity) setSeverity(reinferSeverity(severity, next));
+                  }}
+                  className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  {methods.map((method) => (
+                    <option key={method} value={method}>{method}</option>
+                  ))}
+                </select>
+              </label>
             ))}
           </div>
 
           <button
-            onClick={runDiagnosis}
-            className="btn-secondary w-full mt-6"
+            onClick={() => runDiagnosis()}
+            disabled={isDiagnosing}
+            className="btn-secondary w-full mt-6 disabled:opacity-50"
           >
-            Run Diagnosis
+            {isDiagnosing ? 'Diagnosing...' : 'Run Diagnosis'}
           </button>
 
+          {diagnosisError && (
+            <p className="mt-4 text-sm text-status-critical">{diagnosisError}</p>
+          )}
+
           {/* ===== DIAGNOSIS RESULTS ===== */}
-          {results.length > 0 && (
+          {(results.length > 0 || nearMisses.length > 0) && (
             <div className="mt-6 space-y-4">
               <h3 className="text-xl font-bold text-gray-800">
                 Diagnosis Results
               </h3>
 
               {results.map((r) => (
-                <div key={r.id} className="p-4 border rounded bg-white">
+                <div key={r.damageType} className="p-4 border rounded bg-white">
                   <span
                     className={`px-3 py-1 rounded text-sm font-medium ${getLevelColor(
                       r.level
@@ -626,15 +759,50 @@ const runPrediction = async () => {
 
                   <p className="mt-2 font-medium text-gray-800">{r.damage}</p>
                   <p className="text-sm text-gray-600">
-                    {r.solution}
+                    {r.recommendation}
                   </p>
 
                   <p className="text-sm font-semibold mt-2 text-primary">
-                    CF Rule: {r.cfRule} / 1
+                    CF: {r.cf} / 1
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Rules: {r.ruleIds.join(", ")}{" "}
+                    <button
+                      onClick={() => toggleWhy(`diagnosis-${r.damageType}`)}
+                      className="text-primary hover:underline"
+                    >
+                      Why?
+                    </button>
                   </p>
+                  {openWhy === `diagnosis-${r.damageType}` && (
+                    <ul className="mt-2 p-3 rounded bg-gray-50 space-y-1 text-xs text-gray-700">
+                      {explainDiagnosis(r).map((line, i) => (
+                        <li key={i} className={line.startsWith("•") ? "pl-3" : "font-medium"}>
+                          {line}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
               ))}
 
+              {nearMisses.length > 0 && (
+                <div className="p-4 border rounded bg-white">
+                  <h4 className="font-medium text-gray-800 mb-2">Almost fired</h4>
+                  <ul className="space-y-2 text-xs text-gray-600">
+                    {nearMisses.map((miss) => (
+                      <li key={miss.ruleId}>
+                        <span className="font-medium text-gray-800">{miss.ruleId}</span> ({miss.damage}): IF {miss.condition}
+                        <br />
+                        <span className="text-status-normal">Ada: {miss.satisfied.map(describeFact).join("; ")}</span>
+                        <br />
+                        <span className="text-status-critical">Kurang: {miss.missing.map(describeFact).join("; ")}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {conclusion && (
                 <div className="mt-6 p-4 border rounded bg-blue-50">
                   <h4 className="font-bold text-lg mb-1 text-gray-800">
@@ -642,9 +810,24 @@ const runPrediction = async () => {
                   </h4>
 
                   <p className="text-md mt-1 text-gray-700">
-                    <strong>{conclusion.label}</strong> with severity score{" "}
+                    <strong>{conclusion.label}</strong> with certainty{" "}
                     <strong>{conclusion.percent}%</strong>
                   </p>
+                  {severity?.crisp != null && (
+                    <p className="text-md mt-1 text-gray-700">
+                      Severity (Mamdani): <strong>{severity.crisp}</strong> / 100 —{" "}
+                      <strong>{severity.term}</strong>
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {severity && severity.implied.length > 0 && (
+                <div className="mt-6">
+                  <h4 className="font-bold text-lg mb-2 text-gray-800">
+                    Severity Inference
+                  </h4>
+                  <SeverityInferenceChart severity={severity} />
                 </div>
               )}
             </div>
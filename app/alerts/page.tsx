@@ -0,0 +1,232 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { formatDate } from '@/lib/utils';
+import { performAlertAction } from '@/hooks/useAlerts';
+import type { AlertEvent, StoredAlert } from '@/types/alert';
+import { isRuleAlertParameter } from '@/lib/alertRules';
+import { isBaselineAlertParameter } from '@/lib/baseline';
+
+type StatusFilter = 'CLOSED' | 'OPEN,ACKNOWLEDGED' | '';
+type SeverityFilter = 'WARNING' | 'CRITICAL' | '';
+
+const STATUS_OPTIONS: { value: StatusFilter; label: string }[] = [
+  { value: 'CLOSED', label: 'Closed' },
+  { value: 'OPEN,ACKNOWLEDGED', label: 'Active' },
+  { value: '', label: 'All' },
+];
+
+const EVENT_LABEL: Record<AlertEvent['action'], string> = {
+  ACKNOWLEDGE: 'Acknowledged',
+  CLOSE: 'Closed',
+  REOPEN: 'Reopened',
+  ESCALATE: 'Escalated',
+  AUTO_CLOSE: 'Auto-closed',
+};
+
+export default function AlertsHistoryPage() {
+  const [alerts, setAlerts] = useState<StoredAlert[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [status, setStatus] = useState<StatusFilter>('CLOSED');
+  const [severity, setSeverity] = useState<SeverityFilter>('');
+  const [search, setSearch] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [events, setEvents] = useState<Record<string, AlertEvent[]>>({});
+
+  const fetchAlerts = useCallback(async (cursor: string | null) => {
+    const params = new URLSearchParams();
+    if (status) params.set('status', status);
+    if (severity) params.set('severity', severity);
+    if (search.trim()) params.set('q', search.trim());
+    if (from) params.set('from', new Date(from).toISOString());
+    // Inclusive end date
+    if (to) params.set('to', new Date(new Date(to).getTime() + 86400000).toISOString());
+    if (cursor) params.set('cursor', cursor);
+
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/alerts?${params}`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load alerts');
+      setAlerts((prev) => (cursor ? [...prev, ...result.alerts] : result.alerts));
+      setNextCursor(result.nextCursor);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load alerts');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, severity, search, from, to]);
+
+  // Debounce typing in the search box
+  useEffect(() => {
+    const timeout = setTimeout(() => fetchAlerts(null), 300);
+    return () => clearTimeout(timeout);
+  }, [fetchAlerts]);
+
+  const loadEvents = async (alertId: string) => {
+    try {
+      const response = await fetch(`/api/alerts/${encodeURIComponent(alertId)}`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load history');
+      setEvents((prev) => ({ ...prev, [alertId]: result.alert.events }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    }
+  };
+
+  const toggleExpanded = (alertId: string) => {
+    if (expandedId === alertId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(alertId);
+    loadEvents(alertId);
+  };
+
+  const handleReopen = async (alertId: string) => {
+    const comment = window.prompt('Alasan membuka kembali alert (opsional):');
+    if (comment === null) return;
+    try {
+      const updated = await performAlertAction(alertId, 'reopen', comment);
+      setAlerts((prev) => prev.map((a) => (a.id === updated.id ? updated : a)));
+      loadEvents(alertId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reopen alert');
+    }
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary text-sm';
+
+  return (
+    <div className="min-h-screen bg-lightgray">
+      <div className="container mx-auto px-4 py-6">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-800">Alert History</h1>
+          <p className="text-gray-600 mt-1">Riwayat alert beserta siapa yang menangani dan kapan</p>
+        </div>
+
+        {/* Filters */}
+        <div className="card mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Cari pesan atau parameter..."
+              className={`${inputClass} md:col-span-2`}
+            />
+            <select value={status} onChange={(e) => setStatus(e.target.value as StatusFilter)} className={inputClass}>
+              {STATUS_OPTIONS.map((option) => (
+                <option key={option.label} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <select value={severity} onChange={(e) => setSeverity(e.target.value as SeverityFilter)} className={inputClass}>
+              <option value="">All severities</option>
+              <option value="WARNING">Warning</option>
+              <option value="CRITICAL">Critical</option>
+            </select>
+            <div className="flex gap-2">
+              <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={`${inputClass} w-full`} />
+              <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={`${inputClass} w-full`} />
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="card mb-6 border-l-4 border-status-critical">
+            <p className="text-status-critical font-medium">{error}</p>
+          </div>
+        )}
+
+        <div className="card">
+          {alerts.length === 0 && !isLoading ? (
+            <div className="text-center py-8 text-gray-500">
+              <p className="text-sm">Tidak ada alert untuk filter ini</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {alerts.map((alert) => (
+                <div
+                  key={alert.id}
+                  className={`p-3 rounded-lg border-l-4 ${
+                    alert.severity === 'CRITICAL' ? 'bg-red-50 border-status-critical' : 'bg-amber-50 border-status-warning'
+                  }`}
+                >
+                  <div className="flex items-start justify-between">
+                    <button className="flex-1 text-left" onClick={() => toggleExpanded(alert.id)}>
+                      <div className="flex items-center gap-2 mb-1">
+                        <span
+                          className={`px-2 py-0.5 text-xs font-semibold rounded text-white ${
+                            alert.severity === 'CRITICAL' ? 'bg-status-critical' : 'bg-status-warning'
+                          }`}
+                        >
+                          {alert.severity}
+                        </span>
+                        <span className="text-xs px-2 py-0.5 rounded bg-gray-200 text-gray-700">{alert.status}</span>
+                        <span className="text-xs text-gray-500">{formatDate(alert.timestamp)}</span>
+                        <span className="text-xs text-gray-400">{alert.motorId}</span>
+                      </div>
+                      <p className="text-sm font-medium text-gray-800">{alert.message}</p>
+                      <p className="text-xs text-gray-600 mt-1">
+                        {isRuleAlertParameter(alert.parameter)
+                          ? 'Compound rule'
+                          : isBaselineAlertParameter(alert.parameter)
+                          ? `Baseline deviation: peak ${alert.peakValue ?? alert.value}`
+                          : `${alert.parameter}: peak ${alert.peakValue ?? alert.value}`} · {alert.occurrences} readings
+                        {alert.closedAt && <> · closed {formatDate(alert.closedAt)} by {alert.closedBy ?? '-'}</>}
+                      </p>
+                    </button>
+
+                    {alert.status !== 'OPEN' && (
+                      <button
+                        onClick={() => handleReopen(alert.id)}
+                        className="ml-2 px-3 py-1 text-xs font-medium bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+                      >
+                        Reopen
+                      </button>
+                    )}
+                  </div>
+
+                  {expandedId === alert.id && (
+                    <div className="mt-3 pt-3 border-t border-gray-200">
+                      {(events[alert.id] ?? []).length === 0 ? (
+                        <p className="text-xs text-gray-500">Belum ada tindakan</p>
+                      ) : (
+                        <ul className="space-y-1">
+                          {events[alert.id].map((event) => (
+                            <li key={event.id} className="text-xs text-gray-700">
+                              <span className="font-medium">{EVENT_LABEL[event.action] ?? event.action}</span>
+                              {' '}by {event.actor} · {formatDate(event.createdAt)}
+                              {event.comment && <span className="text-gray-500"> — {event.comment}</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {nextCursor && (
+            <button
+              onClick={() => fetchAlerts(nextCursor)}
+              disabled={isLoading}
+              className="w-full mt-4 btn-secondary disabled:opacity-50"
+            >
+              {isLoading ? 'Loading...' : 'Load more'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,90 +2,147 @@
 
 import { useState, useEffect } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { getDatabase, ref, onValue } from 'firebase/database';
-import { app } from '@/lib/firebaseClient';
-
-interface SensorReading {
-  timestamp: string;
-  gridVoltage: number;
-  motorCurrent: number;
-  powerConsumption: number;
-  motorSurfaceTemp: number;
-  bearingTemp: number;
-  vibrationRms: number;
-  dailyEnergyKwh: number;
+import { DEFAULT_MOTOR_ID } from '@/lib/motorConfig';
+
+const PARAMETERS = [
+  'gridVoltage',
+  'motorCurrent',
+  'powerConsumption',
+  'motorSurfaceTemp',
+  'bearingTemp',
+  'vibrationRms',
+  'dailyEnergyKwh',
+] as const;
+
+type Parameter = typeof PARAMETERS[number];
+type DateRange = '1h' | '6h' | '24h' | '7d';
+
+interface BucketStats {
+  count: number;
+  min: number | null;
+  mean: number | null;
+  max: number | null;
+  last: number | null;
+}
+
+interface ReadingsBucket {
+  start: string;
+  count: number;
+  values: Record<Parameter, BucketStats>;
 }
 
+// One chart point per bucket: mean of each parameter (energy uses the last value)
+type ChartPoint = { timestamp: string; count: number } & Record<Parameter, number | null>;
+
+const RANGES: Record<DateRange, { seconds: number; bucket: string; label: string }> = {
+  '1h': { seconds: 3600, bucket: '1m', label: 'Last 1 Hour' },
+  '6h': { seconds: 6 * 3600, bucket: '5m', label: 'Last 6 Hours' },
+  '24h': { seconds: 24 * 3600, bucket: '15m', label: 'Last 24 Hours' },
+  '7d': { seconds: 7 * 86400, bucket: '1h', label: 'Last 7 Days' },
+};
+
+// Refresh the open range so the newest buckets keep filling in
+const REFRESH_INTERVAL_MS = 60000;
+
 export default function AnalyticsPage() {
-  const [data, setData] = useState<SensorReading[]>([]);
+  const [buckets, setBuckets] = useState<ReadingsBucket[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [dateRange, setDateRange] = useState<'1h' | '6h' | '24h' | '7d'>('1h');
-  
-  const getMaxReadings = () => {
-    switch (dateRange) {
-      case '1h': return 60;
-      case '6h': return 180;
-      case '24h': return 288;
-      case '7d': return 500;
-      default: return 100;
-    }
-  };
+  const [error, setError] = useState<string | null>(null);
+  const [dateRange, setDateRange] = useState<DateRange>('1h');
   
   useEffect(() => {
-    const db = getDatabase(app);
-    const sensorRef = ref(db, 'sensor_data/latest');
-    
-    const unsubscribe = onValue(sensorRef, (snapshot) => {
-      const rawData = snapshot.val();
-      if (rawData) {
-        setIsLoading(false);
-        
-        const newReading: SensorReading = {
-          timestamp: new Date(rawData.timestamp || Date.now()).toLocaleTimeString('id-ID', { 
-            hour: '2-digit', 
-            minute: '2-digit' 
-          }),
-          gridVoltage: rawData.voltage || 0,
-          motorCurrent: rawData.current || 0,
-          powerConsumption: rawData.power || 0,
-          motorSurfaceTemp: rawData.motor_temp || 0,
-          bearingTemp: rawData.bearing_temp || 0,
-          vibrationRms: rawData.vibration_rms_mm_s || 0,
-          dailyEnergyKwh: rawData.energy_kwh || 0,
-        };
-        
-        setData(prev => {
-          const maxReadings = getMaxReadings();
-          const updated = [...prev, newReading];
-          return updated.slice(-maxReadings);
-        });
+    let cancelled = false;
+
+    const fetchHistory = async () => {
+      const { seconds, bucket } = RANGES[dateRange];
+      const to = Date.now();
+      const params = new URLSearchParams({
+        motorId: DEFAULT_MOTOR_ID,
+        from: String(to - seconds * 1000),
+        to: String(to),
+        parameters: PARAMETERS.join(','),
+        bucket,
+      });
+
+      try {
+        const response = await fetch(`/api/readings?${params}`);
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to load readings');
+        if (!cancelled) {
+          setBuckets(result.buckets);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load readings');
+      } finally {
+        if (!cancelled) setIsLoading(false);
       }
-    });
-    
-    return () => unsubscribe();
-  }, [dateRange]);
-  
-  useEffect(() => {
-    setData([]);
+    };
+
+    setIsLoading(true);
+    setBuckets([]);
+    fetchHistory();
+    const interval = setInterval(fetchHistory, REFRESH_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
   }, [dateRange]);
-  
-  const formatTimeLabel = () => {
-    switch (dateRange) {
-      case '1h': return 'Last 1 Hour';
-      case '6h': return 'Last 6 Hours';
-      case '24h': return 'Last 24 Hours';
-      case '7d': return 'Last 7 Days';
-      default: return '';
+
+  const data: ChartPoint[] = buckets.map((bucket) => {
+    const date = new Date(bucket.start);
+    const point = {
+      timestamp: dateRange === '7d'
+        ? date.toLocaleString('id-ID', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' })
+        : date.toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' }),
+      count: bucket.count,
+    } as ChartPoint;
+    for (const parameter of PARAMETERS) {
+      const stats = bucket.values[parameter];
+      point[parameter] = parameter === 'dailyEnergyKwh' ? stats?.last ?? null : stats?.mean ?? null;
     }
+    return point;
+  });
+
+  const totalReadings = buckets.reduce((sum, b) => sum + b.count, 0);
+
+  // Summary over the whole range, from the per-bucket aggregates.
+  // Means are weighted by the readings that have a value for the parameter.
+  const weightedMean = (parameter: Parameter) => {
+    let sum = 0;
+    let weight = 0;
+    for (const bucket of buckets) {
+      const stats = bucket.values[parameter];
+      if (!stats || stats.mean === null) continue;
+      sum += stats.mean * stats.count;
+      weight += stats.count;
+    }
+    return weight > 0 ? sum / weight : null;
+  };
+  const maxOf = (parameter: Parameter) => {
+    const maxima = buckets
+      .map((b) => b.values[parameter]?.max)
+      .filter((v): v is number => v !== null && v !== undefined);
+    return maxima.length > 0 ? Math.max(...maxima) : null;
+  };
+  const lastOf = (parameter: Parameter) => {
+    for (let i = buckets.length - 1; i >= 0; i--) {
+      const last = buckets[i].values[parameter]?.last;
+      if (last !== null && last !== undefined) return last;
+    }
+    return null;
   };
+  const format = (value: number | null, decimals: number) =>
+    value === null ? '-' : value.toFixed(decimals);
   
-  if (isLoading && data.length === 0) {
+  if (isLoading && buckets.length === 0) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-primary mx-auto mb-4"></div>
-          <p className="text-gray-600">Connecting to sensor data...</p>
-          <p className="text-sm text-gray-400 mt-2">Waiting for data from Firebase</p>
+          <p className="text-gray-600">Loading historical data...</p>
+          <p className="text-sm text-gray-400 mt-2">{RANGES[dateRange].label}</p>
         </div>
       </div>
     );
@@ -98,12 +155,12 @@ export default function AnalyticsPage() {
           <div>
             <h1 className="text-3xl font-bold text-gray-800">Analytics & Historical Data</h1>
             <p className="text-gray-600 mt-1">
-              {formatTimeLabel()} - {data.length} readings (Real-time)
+              {RANGES[dateRange].label} - {totalReadings} readings in {buckets.length} intervals of {RANGES[dateRange].bucket}
             </p>
           </div>
           
           <div className="flex gap-2">
-            {(['1h', '6h', '24h', '7d'] as const).map((range) => (
+            {(Object.keys(RANGES) as DateRange[]).map((range) => (
               <button
                 key={range}
                 onClick={() => setDateRange(range)}
@@ -118,6 +175,13 @@ export default function AnalyticsPage() {
             ))}
           </div>
         </div>
+
+        {error && (
+          <div className="card mb-6 border-l-4 border-status-critical">
+            <p className="text-status-critical font-medium">Failed to load readings</p>
+            <p className="text-sm text-gray-600 mt-1">{error}</p>
+          </div>
+        )}
         
         {data.length === 0 ? (
           <div className="card text-center py-12">
@@ -126,8 +190,8 @@ export default function AnalyticsPage() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
               </svg>
             </div>
-            <p className="text-gray-600 text-lg">Waiting for sensor data...</p>
-            <p className="text-gray-400 text-sm mt-2">Data will appear here once the sensor starts sending readings</p>
+            <p className="text-gray-600 text-lg">No readings in this range</p>
+            <p className="text-gray-400 text-sm mt-2">Readings stored by the ingest API will appear here</p>
           </div>
         ) : (
           <>
@@ -140,7 +204,7 @@ export default function AnalyticsPage() {
                     <XAxis dataKey="timestamp" />
                     <YAxis yAxisId="left" />
                     <YAxis yAxisId="right" orientation="right" />
-                    <Tooltip />
+                    <Tooltip formatter={(value) => typeof value === 'number' ? value.toFixed(2) : value} />
                     <Legend />
                     <Line yAxisId="left" type="monotone" dataKey="gridVoltage" stroke="#1B3C53" name="Voltage (V)" strokeWidth={2} dot={false} />
                     <Line yAxisId="right" type="monotone" dataKey="motorCurrent" stroke="#ef4444" name="Current (A)" strokeWidth={2} dot={false} />
@@ -158,7 +222,7 @@ export default function AnalyticsPage() {
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis dataKey="timestamp" />
                     <YAxis domain={[0, 100]} />
-                    <Tooltip />
+                    <Tooltip formatter={(value) => typeof value === 'number' ? value.toFixed(2) : value} />
                     <Legend />
                     <Line type="monotone" dataKey="motorSurfaceTemp" stroke="#ef4444" name="Motor Temp (°C)" strokeWidth={2} dot={false} />
                     <Line type="monotone" dataKey="bearingTemp" stroke="#f59e0b" name="Bearing Temp (°C)" strokeWidth={2} dot={false} />
@@ -175,7 +239,7 @@ export default function AnalyticsPage() {
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis dataKey="timestamp" />
                     <YAxis domain={[0, 10]} />
-                    <Tooltip />
+                    <Tooltip formatter={(value) => typeof value === 'number' ? value.toFixed(2) : value} />
                     <Legend />
                     <Line type="monotone" dataKey="vibrationRms" stroke="#8b5cf6" name="Vibration RMS (mm/s)" strokeWidth={2} dot={false} />
                   </LineChart>
@@ -191,7 +255,7 @@ export default function AnalyticsPage() {
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis dataKey="timestamp" />
                     <YAxis />
-                    <Tooltip />
+                    <Tooltip formatter={(value) => typeof value === 'number' ? value.toFixed(2) : value} />
                     <Legend />
                     <Line type="monotone" dataKey="dailyEnergyKwh" stroke="#10b981" name="Energy (kWh)" strokeWidth={2} dot={false} />
                   </LineChart>
@@ -203,31 +267,25 @@ export default function AnalyticsPage() {
               <div className="card text-center">
                 <p className="text-sm text-gray-600 mb-1">Avg Voltage</p>
                 <p className="text-2xl font-bold text-primary">
-                  {data.length > 0 
-                    ? (data.reduce((sum, d) => sum + d.gridVoltage, 0) / data.length).toFixed(1)
-                    : '0.0'} V
+                  {format(weightedMean('gridVoltage'), 1)} V
                 </p>
               </div>
               <div className="card text-center">
                 <p className="text-sm text-gray-600 mb-1">Avg Current</p>
                 <p className="text-2xl font-bold text-primary">
-                  {data.length > 0
-                    ? (data.reduce((sum, d) => sum + d.motorCurrent, 0) / data.length).toFixed(2)
-                    : '0.00'} A
+                  {format(weightedMean('motorCurrent'), 2)} A
                 </p>
               </div>
               <div className="card text-center">
                 <p className="text-sm text-gray-600 mb-1">Max Temp</p>
                 <p className="text-2xl font-bold text-status-warning">
-                  {data.length > 0
-                    ? Math.max(...data.map(d => d.motorSurfaceTemp)).toFixed(1)
-                    : '0.0'} °C
+                  {format(maxOf('motorSurfaceTemp'), 1)} °C
                 </p>
               </div>
               <div className="card text-center">
                 <p className="text-sm text-gray-600 mb-1">Current Energy</p>
                 <p className="text-2xl font-bold text-status-normal">
-                  {(data[data.length - 1]?.dailyEnergyKwh || 0).toFixed(2)} kWh
+                  {format(lastOf('dailyEnergyKwh'), 2)} kWh
                 </p>
               </div>
             </div>
@@ -0,0 +1,43 @@
+/**
+ * POST /api/alerts/:id/close
+ * 
+ * Closes an OPEN or ACKNOWLEDGED alert.
+ * Body: { "actor": "operator name", "comment"?: "..." }, recorded as an AlertEvent.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { applyAlertAction, parseActionInput } from '@/lib/alertActions';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const parsed = parseActionInput(await request.json().catch(() => null));
+    
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+    
+    const result = await applyAlertAction(params.id, 'close', parsed.input);
+    
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+    
+    return NextResponse.json({ success: true, alert: result.alert });
+    
+  } catch (error) {
+    console.error('Error closing alert:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * POST /api/alerts/:id/reopen
+ * 
+ * Reopens an ACKNOWLEDGED or CLOSED alert (409 if another alert is
+ * already open for the same motor and parameter).
+ * Body: { "actor": "operator name", "comment"?: "..." }, recorded as an AlertEvent.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { applyAlertAction, parseActionInput } from '@/lib/alertActions';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const parsed = parseActionInput(await request.json().catch(() => null));
+    
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+    
+    const result = await applyAlertAction(params.id, 'reopen', parsed.input);
+    
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+    
+    return NextResponse.json({ success: true, alert: result.alert });
+    
+  } catch (error) {
+    console.error('Error reopening alert:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
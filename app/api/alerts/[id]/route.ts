@@ -0,0 +1,36 @@
+/**
+ * GET /api/alerts/:id
+ * 
+ * Returns one alert with its full event history (oldest first)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const alert = await prisma.alert.findUnique({
+      where: { id: params.id },
+      include: { events: { orderBy: { createdAt: 'asc' } } },
+    });
+    
+    if (!alert) {
+      return NextResponse.json(
+        { error: 'Alert not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ alert });
+    
+  } catch (error) {
+    console.error('Error fetching alert:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * GET /api/alerts?motorId=xxx&severity=CRITICAL&status=OPEN,ACKNOWLEDGED&from=...&to=...&q=...
+ * 
+ * Lists alerts newest first, paginated with `cursor` / `nextCursor`.
+ * See lib/alertActions.ts for the accepted query parameters.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listAlerts, parseAlertListQuery } from '@/lib/alertActions';
+
+// Force dynamic rendering since we use searchParams
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = parseAlertListQuery(request.nextUrl.searchParams);
+    
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+    
+    const { alerts, nextCursor } = await listAlerts(parsed.query);
+    
+    return NextResponse.json({ alerts, nextCursor });
+    
+  } catch (error) {
+    console.error('Error listing alerts:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
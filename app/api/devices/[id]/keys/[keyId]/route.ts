@@ -0,0 +1,49 @@
+/**
+ * DELETE /api/devices/:id/keys/:keyId
+ * 
+ * Revokes a single signing key immediately (e.g. a leaked key)
+ * 
+ * Requires Authorization: Bearer <DEVICE_ADMIN_TOKEN>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { checkAdminToken } from '@/lib/deviceAuth';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; keyId: string } }
+) {
+  const denied = checkAdminToken(request);
+  if (denied) {
+    return NextResponse.json({ error: denied.error }, { status: denied.status });
+  }
+
+  try {
+    const key = await prisma.deviceKey.findUnique({
+      where: { id: params.keyId },
+    });
+    
+    if (!key || key.deviceId !== params.id) {
+      return NextResponse.json(
+        { error: 'Key not found' },
+        { status: 404 }
+      );
+    }
+    
+    const revoked = await prisma.deviceKey.update({
+      where: { id: key.id },
+      data: { revokedAt: key.revokedAt ?? new Date() },
+      select: { id: true, deviceId: true, createdAt: true, expiresAt: true, revokedAt: true },
+    });
+    
+    return NextResponse.json({ success: true, key: revoked });
+    
+  } catch (error) {
+    console.error('Error revoking device key:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * POST /api/devices/:id/keys
+ * 
+ * Rotates the signing key of a device. A new key is issued and the
+ * currently active keys expire after a grace period (default 24 h,
+ * override with { "graceSeconds": n }) so the ESP can be re-flashed.
+ * 
+ * Requires Authorization: Bearer <DEVICE_ADMIN_TOKEN>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { checkAdminToken, generateDeviceSecret, DEFAULT_ROTATION_GRACE_SECONDS } from '@/lib/deviceAuth';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const denied = checkAdminToken(request);
+  if (denied) {
+    return NextResponse.json({ error: denied.error }, { status: denied.status });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const graceSeconds = Number(body.graceSeconds ?? DEFAULT_ROTATION_GRACE_SECONDS);
+    
+    if (!Number.isFinite(graceSeconds) || graceSeconds < 0) {
+      return NextResponse.json(
+        { error: 'graceSeconds must be a non-negative number' },
+        { status: 400 }
+      );
+    }
+    
+    const device = await prisma.device.findUnique({
+      where: { id: params.id },
+    });
+    
+    if (!device) {
+      return NextResponse.json(
+        { error: 'Device not found' },
+        { status: 404 }
+      );
+    }
+    
+    if (device.revokedAt) {
+      return NextResponse.json(
+        { error: 'Device has been revoked' },
+        { status: 409 }
+      );
+    }
+    
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + graceSeconds * 1000);
+    const secret = generateDeviceSecret();
+    
+    const [, key] = await prisma.$transaction([
+      // Shorten (never extend) the life of keys that are still active
+      prisma.deviceKey.updateMany({
+        where: {
+          deviceId: device.id,
+          revokedAt: null,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: expiresAt } }],
+        },
+        data: { expiresAt },
+      }),
+      prisma.deviceKey.create({
+        data: { deviceId: device.id, secret },
+      }),
+    ]);
+    
+    return NextResponse.json({
+      success: true,
+      key: { id: key.id, secret },
+      previousKeysExpireAt: expiresAt.toISOString(),
+    }, { status: 201 });
+    
+  } catch (error) {
+    console.error('Error rotating device key:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * DELETE /api/devices/:id
+ * 
+ * Revokes a device. Its keys stop working immediately; readings it
+ * produced are kept and still reference it.
+ * 
+ * Requires Authorization: Bearer <DEVICE_ADMIN_TOKEN>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { checkAdminToken } from '@/lib/deviceAuth';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const denied = checkAdminToken(request);
+  if (denied) {
+    return NextResponse.json({ error: denied.error }, { status: denied.status });
+  }
+
+  try {
+    const device = await prisma.device.findUnique({
+      where: { id: params.id },
+    });
+    
+    if (!device) {
+      return NextResponse.json(
+        { error: 'Device not found' },
+        { status: 404 }
+      );
+    }
+    
+    const revoked = await prisma.device.update({
+      where: { id: params.id },
+      data: { revokedAt: device.revokedAt ?? new Date() },
+      select: { id: true, motorId: true, name: true, revokedAt: true },
+    });
+    
+    return NextResponse.json({ success: true, device: revoked });
+    
+  } catch (error) {
+    console.error('Error revoking device:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
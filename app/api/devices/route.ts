@@ -0,0 +1,108 @@
+/**
+ * /api/devices
+ * 
+ * GET  /api/devices?motorId=xxx - List registered ESP32 devices (secrets are never returned)
+ * POST /api/devices             - Register a device for a motor and issue its first signing key
+ * 
+ * Requires Authorization: Bearer <DEVICE_ADMIN_TOKEN>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { checkAdminToken, generateDeviceSecret } from '@/lib/deviceAuth';
+
+// Force dynamic rendering since we use searchParams
+export const dynamic = 'force-dynamic';
+
+const deviceSelect = {
+  id: true,
+  motorId: true,
+  name: true,
+  revokedAt: true,
+  lastSeenAt: true,
+  createdAt: true,
+  keys: {
+    select: { id: true, createdAt: true, expiresAt: true, revokedAt: true, lastUsedAt: true },
+    orderBy: { createdAt: 'desc' as const },
+  },
+};
+
+export async function GET(request: NextRequest) {
+  const denied = checkAdminToken(request);
+  if (denied) {
+    return NextResponse.json({ error: denied.error }, { status: denied.status });
+  }
+
+  try {
+    const motorId = request.nextUrl.searchParams.get('motorId');
+    
+    const devices = await prisma.device.findMany({
+      where: motorId ? { motorId } : undefined,
+      select: deviceSelect,
+      orderBy: { createdAt: 'desc' },
+    });
+    
+    return NextResponse.json({ devices });
+    
+  } catch (error) {
+    console.error('Error listing devices:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const denied = checkAdminToken(request);
+  if (denied) {
+    return NextResponse.json({ error: denied.error }, { status: denied.status });
+  }
+
+  try {
+    const body = await request.json();
+    const { motorId, name } = body;
+    
+    if (!motorId || !name) {
+      return NextResponse.json(
+        { error: 'motorId and name are required' },
+        { status: 400 }
+      );
+    }
+    
+    const motor = await prisma.motor.findUnique({
+      where: { id: motorId },
+    });
+    
+    if (!motor) {
+      return NextResponse.json(
+        { error: 'Motor not found' },
+        { status: 404 }
+      );
+    }
+    
+    const secret = generateDeviceSecret();
+    const device = await prisma.device.create({
+      data: {
+        motorId,
+        name,
+        keys: { create: { secret } },
+      },
+      select: deviceSelect,
+    });
+    
+    // The secret is only returned once: flash it on the ESP now
+    return NextResponse.json({
+      success: true,
+      device,
+      key: { id: device.keys[0].id, secret },
+    }, { status: 201 });
+    
+  } catch (error) {
+    console.error('Error registering device:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
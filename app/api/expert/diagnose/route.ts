@@ -1,19 +1,40 @@
 /**
  * POST /api/expert/diagnose
  * 
- * Placeholder endpoint for Expert System diagnosis
- * Uses rule-based logic to diagnose motor issues and provide recommendations
+ * Expert System diagnosis of a motor (lib/expert-system/diagnosisEngine.ts)
+ * from symptom answers and/or sensor values:
+ *   { motorId, answers?: { "2": "Yes", "3": "Sometimes" },
+ *     sensorData?: { vibrationRms: { value: 2.1, unit: 'mm/s' }, ... },
+ *     inference?: { implication: 'min' | 'product', aggregation: 'max' | 'sum',
+ *                   defuzzification: 'centroid' | 'bisector' | 'mom' },
+ *     sensorSymptoms?: [{ symptomId: 7, parameter: 'vibrationRms',
+ *                         membership?: { type: 'triangular', a: 2, b: 4, c: 6 } }] }
+ *
+ * Without `sensorData` the sensor rules use the motor's latest stored
+ * reading, unless it is older than the alert clear delay: a stale reading
+ * is reported (`reading.stale`) but not used. Unanswered symptoms the
+ * sensors measure are answered from the values (`sensorSymptoms` in the
+ * response), with the request's `sensorSymptoms` sources instead of the
+ * default ones when given; a source without `membership` rises from the
+ * motor's warning to its critical limit, and a trapezoid's `c`/`d` may be
+ * null for a right shoulder. Returns the diagnoses ranked by certainty factor, each with
+ * its `trace` (rules, facts and CF combination), the rules that almost
+ * fired (`nearMisses`) and the Mamdani severity (`severity`, including its
+ * membership curves), and stores the result as its own health analysis.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { loadMotorThresholds } from '@/lib/thresholdProfiles';
+import { readingValues, type RuleValues } from '@/lib/alertRules';
+import { toCanonicalReading, UnitMismatchError } from '@/lib/units';
+import { diagnose, validateSymptomAnswers } from '@/lib/expert-system/diagnosisEngine';
+import { validateInferenceOptions } from '@/lib/expert-system/mamdani';
+import { sensorSymptomMemberships, validateSensorSymptoms } from '@/lib/expert-system/fuzzyMembership';
+import { ALERT_CLEAR_DELAY_SECONDS } from '@/lib/alertLifecycle';
 
-interface Rule {
-  id: string;
-  condition: string;
-  diagnosis: string;
-  recommendation: string;
-}
+/** Older stored readings no longer describe the motor: they would have cleared an alert */
+const MAX_READING_AGE_MS = ALERT_CLEAR_DELAY_SECONDS * 1000;
 
 export async function POST(request: NextRequest) {
   try {
@@ -27,139 +48,118 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Get latest sensor reading
-    const latestReading = await prisma.sensorReading.findFirst({
-      where: { motorId },
-      orderBy: { timestamp: 'desc' },
-    });
-    
-    if (!latestReading) {
+    const answers = validateSymptomAnswers(body.answers);
+    if (!answers.ok) {
       return NextResponse.json(
-        { error: 'No sensor data available for this motor' },
-        { status: 404 }
+        { error: answers.error },
+        { status: 400 }
       );
     }
     
-    // EXPERT SYSTEM RULES
-    // In production: replace with proper rule engine (e.g., Drools, Nools)
-    
-    const matchedRules: Rule[] = [];
-    
-    // Rule 1: High vibration + High bearing temp → Bearing damage
-    if (latestReading.vibrationRms > 4.5 && latestReading.bearingTemp > 85) {
-      matchedRules.push({
-        id: 'R001',
-        condition: 'Vibration RMS > 4.5 mm/s AND Bearing Temp > 85°C',
-        diagnosis: 'Kemungkinan besar terjadi kerusakan bearing',
-        recommendation: 'Segera lakukan inspeksi dan penggantian bearing. Hentikan operasi motor.',
-      });
-    }
-    
-    // Rule 2: Low power factor + High current → Overload
-    if (latestReading.powerFactor < 0.7 && latestReading.motorCurrent > 5.5) {
-      matchedRules.push({
-        id: 'R002',
-        condition: 'Power Factor < 0.7 AND Motor Current > 5.5 A',
-        diagnosis: 'Motor mengalami overload atau beban berlebih',
-        recommendation: 'Kurangi beban motor. Periksa sistem transmisi dan coupling. Pertimbangkan power factor correction.',
-      });
+    const inference = validateInferenceOptions(body.inference);
+    if (!inference.ok) {
+      return NextResponse.json(
+        { error: inference.error },
+        { status: 400 }
+      );
     }
     
-    // Rule 3: High vibration + Normal temp → Misalignment/Unbalance
-    if (latestReading.vibrationRms > 2.8 && latestReading.bearingTemp < 70 && latestReading.motorSurfaceTemp < 70) {
-      matchedRules.push({
-        id: 'R003',
-        condition: 'Vibration RMS > 2.8 mm/s AND Temperatures Normal',
-        diagnosis: 'Kemungkinan terjadi misalignment atau ketidakseimbangan rotor',
-        recommendation: 'Lakukan alignment check. Periksa kondisi coupling. Balancing rotor jika diperlukan.',
-      });
+    const sensorSymptoms = validateSensorSymptoms(body.sensorSymptoms);
+    if (!sensorSymptoms.ok) {
+      return NextResponse.json(
+        { error: sensorSymptoms.error },
+        { status: 400 }
+      );
     }
     
-    // Rule 4: High motor temp + Normal vibration → Ventilation/Cooling issue
-    if (latestReading.motorSurfaceTemp > 85 && latestReading.vibrationRms < 2.8) {
-      matchedRules.push({
-        id: 'R004',
-        condition: 'Motor Temp > 85°C AND Vibration Normal',
-        diagnosis: 'Masalah pada sistem pendinginan atau ventilasi motor',
-        recommendation: 'Bersihkan kipas motor dan saluran udara. Periksa kondisi thermal grease. Pastikan ventilasi ruangan memadai.',
-      });
+    let sensorData: RuleValues;
+    try {
+      sensorData = toCanonicalReading(body.sensorData, 'sensorData');
+    } catch (error) {
+      if (error instanceof UnitMismatchError || error instanceof TypeError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 422 }
+        );
+      }
+      throw error;
     }
     
-    // Rule 5: High dust + High soiling loss → Maintenance needed
-    if (latestReading.dustDensity > 100 && latestReading.soilingLossPercent > 5) {
-      matchedRules.push({
-        id: 'R005',
-        condition: 'Dust Density > 100 µg/m³ AND Soiling Loss > 5%',
-        diagnosis: 'Akumulasi debu yang tinggi menyebabkan penurunan efisiensi',
-        recommendation: 'Lakukan pembersihan menyeluruh pada motor dan area sekitar. Pertimbangkan filter udara tambahan.',
-      });
-    }
+    const motor = await prisma.motor.findUnique({
+      where: { id: motorId },
+      select: { id: true },
+    });
     
-    // Rule 6: Abnormal frequency → Grid issue
-    if (latestReading.gridFrequency < 49.5 || latestReading.gridFrequency > 50.5) {
-      matchedRules.push({
-        id: 'R006',
-        condition: 'Grid Frequency outside 49.5-50.5 Hz',
-        diagnosis: 'Masalah pada grid listrik atau supply power',
-        recommendation: 'Hubungi penyedia listrik. Pertimbangkan menggunakan UPS atau voltage stabilizer.',
-      });
+    if (!motor) {
+      return NextResponse.json(
+        { error: 'Motor not found' },
+        { status: 404 }
+      );
     }
     
-    // Rule 7: Low power factor alone → Reactive power issue
-    if (latestReading.powerFactor < 0.85 && latestReading.motorCurrent < 5.5) {
-      matchedRules.push({
-        id: 'R007',
-        condition: 'Power Factor < 0.85 AND Normal Current',
-        diagnosis: 'Power factor rendah, motor bekerja tidak efisien',
-        recommendation: 'Pasang kapasitor bank untuk power factor correction. Periksa kondisi winding motor.',
-      });
-    }
+    const hasSensorData = Object.keys(sensorData).length > 0;
+    const now = new Date();
     
-    // Generate diagnosis summary
-    let diagnosis = 'Motor dalam kondisi normal';
-    let recommendation = 'Lanjutkan monitoring berkala';
+    // Get latest sensor reading, unless the request brings its own values
+    const latestReading = hasSensorData
+      ? null
+      : await prisma.sensorReading.findFirst({
+          where: { motorId },
+          orderBy: { timestamp: 'desc' },
+        });
+    const readingIsStale = !!latestReading && now.getTime() - latestReading.timestamp.getTime() > MAX_READING_AGE_MS;
+    const reading = latestReading && !readingIsStale ? latestReading : null;
     
-    if (matchedRules.length > 0) {
-      diagnosis = matchedRules.map(r => `[${r.id}] ${r.diagnosis}`).join('. ');
-      recommendation = matchedRules.map((r, i) => `${i + 1}. ${r.recommendation}`).join('\n');
+    if (!reading && !hasSensorData && Object.keys(answers.data).length === 0) {
+      return NextResponse.json(
+        {
+          error: latestReading
+            ? `Latest reading is older than ${ALERT_CLEAR_DELAY_SECONDS} s and no symptom answers were given`
+            : 'No sensor data or symptom answers available for this motor',
+        },
+        { status: latestReading ? 409 : 404 }
+      );
     }
     
-    // Update health analysis if exists
-    const latestHealth = await prisma.healthAnalysis.findFirst({
-      where: { motorId },
-      orderBy: { timestamp: 'desc' },
+    const profiles = await loadMotorThresholds(motorId);
+    const report = diagnose({
+      answers: answers.data,
+      // Missing/faulty measurements are null, so no sensor rule fires on a value we don't have
+      values: hasSensorData ? sensorData : reading ? readingValues(reading) : {},
+      thresholds: profiles?.thresholds,
+      sensorSymptoms: sensorSymptomMemberships(profiles?.thresholds, sensorSymptoms.data),
+      inference: inference.data,
+    });
+    const { diagnosis, recommendation } = report;
+    
+    // A diagnosis is its own analysis: the formula scores written by ingest stay as they are
+    const analysis = await prisma.healthAnalysis.create({
+      data: {
+        motorId,
+        timestamp: now,
+        readingId: reading?.id ?? null,
+        healthCategory: 'Unknown',
+        expertDiagnosis: diagnosis,
+        expertRecommendation: recommendation,
+        rawRulesMatched: JSON.stringify(report.diagnoses),
+      },
+      select: { id: true },
     });
-    
-    if (latestHealth) {
-      await prisma.healthAnalysis.update({
-        where: { id: latestHealth.id },
-        data: {
-          expertDiagnosis: diagnosis,
-          expertRecommendation: recommendation,
-          rawRulesMatched: JSON.stringify(matchedRules),
-        },
-      });
-    } else {
-      // Create new health analysis
-      await prisma.healthAnalysis.create({
-        data: {
-          motorId,
-          healthScoreMl: 85, // Dummy default
-          healthCategory: 'Healthy',
-          expertDiagnosis: diagnosis,
-          expertRecommendation: recommendation,
-          rawRulesMatched: JSON.stringify(matchedRules),
-        },
-      });
-    }
     
     return NextResponse.json({
       success: true,
+      analysisId: analysis.id,
+      reading: latestReading
+        ? { id: latestReading.id, timestamp: latestReading.timestamp.toISOString(), stale: readingIsStale }
+        : null,
       diagnosis,
       recommendation,
-      rulesMatched: matchedRules,
-      timestamp: new Date().toISOString(),
-      note: 'This is a placeholder expert system. In production, integrate with proper rule engine.',
+      diagnoses: report.diagnoses,
+      nearMisses: report.nearMisses,
+      summary: report.summary,
+      sensorSymptoms: report.sensorSymptoms,
+      severity: report.severity,
+      timestamp: now.toISOString(),
     });
     
   } catch (error) {
@@ -0,0 +1,101 @@
+/**
+ * GET /api/health/history?motorId=xxx&from=...&to=...
+ *
+ * Stored formula health scores of a motor (default: the last 24 hours) with
+ * their sub-indices and factors, oldest first, and the change points where
+ * the score dropped suddenly. At most MAX_HISTORY_POINTS analyses are
+ * returned, the most recent ones; `truncated` tells when older ones were left out.
+ *
+ * See lib/healthHistory.ts for how analyses are stored and drops detected.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { parseRecordTimestamp } from '@/lib/ingest';
+import {
+  MAX_HISTORY_POINTS,
+  detectChangePoints,
+  toHealthHistoryPoint,
+  type HealthHistoryPoint,
+} from '@/lib/healthHistory';
+
+// Force dynamic rendering since we use searchParams
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_RANGE_MS = 24 * 3600 * 1000;
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const motorId = searchParams.get('motorId');
+    if (!motorId) {
+      return NextResponse.json(
+        { error: 'motorId query parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const toParam = searchParams.get('to');
+    const to = toParam ? parseRecordTimestamp(toParam) : new Date();
+    if (!to) {
+      return NextResponse.json(
+        { error: 'to is not a valid date' },
+        { status: 400 }
+      );
+    }
+    const fromParam = searchParams.get('from');
+    const from = fromParam ? parseRecordTimestamp(fromParam) : new Date(to.getTime() - DEFAULT_RANGE_MS);
+    if (!from) {
+      return NextResponse.json(
+        { error: 'from is not a valid date' },
+        { status: 400 }
+      );
+    }
+    if (from >= to) {
+      return NextResponse.json(
+        { error: 'from must be before to' },
+        { status: 400 }
+      );
+    }
+
+    const motor = await prisma.motor.findUnique({
+      where: { id: motorId },
+      select: { id: true },
+    });
+
+    if (!motor) {
+      return NextResponse.json(
+        { error: 'Motor not found' },
+        { status: 404 }
+      );
+    }
+
+    // Newest first to keep the most recent ones when truncating
+    const rows = await prisma.healthAnalysis.findMany({
+      where: { motorId, healthScore: { not: null }, timestamp: { gte: from, lte: to } },
+      orderBy: { timestamp: 'desc' },
+      take: MAX_HISTORY_POINTS + 1,
+    });
+    const analyses = rows
+      .slice(0, MAX_HISTORY_POINTS)
+      .reverse()
+      .map(toHealthHistoryPoint)
+      .filter((point): point is HealthHistoryPoint => point !== null);
+
+    return NextResponse.json({
+      motorId,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      analyses,
+      changePoints: detectChangePoints(analyses),
+      truncated: rows.length > MAX_HISTORY_POINTS,
+    });
+
+  } catch (error) {
+    console.error('Error fetching health history:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,124 +1,126 @@
 /**
  * POST /api/ingest
- * 
+ *
  * Endpoint for ESP32 to send sensor data
  * Validates payload, saves to database, and generates alerts if needed
+ *
+ * Accepts either a single JSON object, or a batch as a JSON array /
+ * newline-delimited JSON (Content-Type: application/x-ndjson).
+ * Batches are written in a single transaction and return a per-record status.
+ * A motor stores one reading per timestamp: a retried upload of a stored
+ * reading is reported as a duplicate.
+ *
+ * Measurements are validated against lib/ingestSchema.ts. Invalid fields are
+ * stored as null and listed in `errors`; with `?strict=true` any invalid
+ * field rejects the whole record instead.
+ *
+ * Alerts follow the lifecycle in lib/alertLifecycle.ts: one open alert per
+ * motor and parameter, updated on repeat breaches and closed automatically
+ * once the value has stayed clear for ALERT_CLEAR_DELAY_SECONDS. Limits come
+ * from the motor's threshold profiles (see lib/thresholdProfiles.ts); the
+ * motor's enabled compound rules (lib/alertRules.ts) and its active
+ * baseline (lib/baseline.ts) are evaluated as well. Readings also advance
+ * the motor's insulation aging (lib/insulationAging.ts) and bearing life
+ * (lib/bearingLife.ts).
+ *
+ * Requests must be signed by a registered device (see lib/deviceAuth.ts).
+ * Set INGEST_ALLOW_UNSIGNED=true to accept unsigned uploads in development.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
-import { shouldAlert, getAlertSeverity, PARAMETER_CONFIG } from '@/lib/thresholds';
+import { authenticateDevice, isUnsignedIngestAllowed } from '@/lib/deviceAuth';
+import { motorThresholds } from '@/lib/thresholdProfiles';
+import { toAlertRule } from '@/lib/alertRules';
+import { toMotorBaseline } from '@/lib/baseline';
+import { thermalClassFor } from '@/lib/thermalClass';
+import { vibrationClassFor } from '@/lib/vibrationSeverity';
+import {
+  MAX_BATCH_SIZE,
+  parseIngestBody,
+  prepareRecord,
+  persistRecord,
+  isRejected,
+  isDuplicateReadingError,
+  type IngestRecordResult,
+  type MotorIngestContext,
+  type PreparedRecord,
+  type PrepareOptions,
+  type RawIngestRecord,
+} from '@/lib/ingest';
 
-// Helper function to safely parse float values
-function safeParseFloat(value: any, defaultValue: number = 0): number {
-  const parsed = parseFloat(value);
-  return isNaN(parsed) ? defaultValue : parsed;
+/** Relations of a motor that its records are evaluated against */
+const MOTOR_INGEST_INCLUDE = {
+  thresholdProfiles: true,
+  alertRules: { where: { enabled: true } },
+  baselines: { where: { status: 'ACTIVE' }, take: 1 },
+} satisfies Prisma.MotorInclude;
+
+type IngestMotor = Prisma.MotorGetPayload<{ include: typeof MOTOR_INGEST_INCLUDE }>;
+
+/** Attempts of a batch whose transaction ran into readings a concurrent upload stored */
+const MAX_BATCH_ATTEMPTS = 3;
+
+function ingestContext(motor: IngestMotor): MotorIngestContext {
+  return {
+    thresholds: motorThresholds(motor),
+    rules: motor.alertRules.map(toAlertRule),
+    baseline: motor.baselines.length > 0 ? toMotorBaseline(motor.baselines[0]) : null,
+    thermalClass: thermalClassFor(motor),
+    ratedCurrent: motor.ratedCurrent,
+    vibrationClass: vibrationClassFor(motor),
+  };
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    
-    // Validate required fields
-    const {
-      motorId,
-      gridVoltage,
-      motorCurrent,
-      powerConsumption,
-      powerFactor,
-      dailyEnergyKwh,
-      gridFrequency,
-      vibrationRms,
-      rotorUnbalanceScore,
-      bearingHealthScore,
-      motorSurfaceTemp,
-      bearingTemp,
-      dustDensity,
-      soilingLossPercent,
-    } = body;
-    
-    if (!motorId) {
+    const text = await request.text();
+    const strictParam = request.nextUrl.searchParams.get('strict');
+    const options: PrepareOptions = { strict: strictParam === 'true' || strictParam === '1' };
+
+    const isSigned = request.headers.has('x-signature');
+    if (isSigned || !isUnsignedIngestAllowed()) {
+      const auth = await authenticateDevice(request, text);
+      if (!auth.ok) {
+        return NextResponse.json(
+          { error: auth.error },
+          { status: auth.status }
+        );
+      }
+      options.device = auth.device;
+    }
+
+    let parsed;
+    try {
+      parsed = parseIngestBody(text, request.headers.get('content-type'));
+    } catch (error) {
       return NextResponse.json(
-        { error: 'motorId is required' },
+        { error: error instanceof Error ? error.message : 'Invalid request body' },
         { status: 400 }
       );
     }
-    
-    // Check if motor exists
-    const motor = await prisma.motor.findUnique({
-      where: { id: motorId },
-    });
-    
-    if (!motor) {
+
+    if (parsed.mode === 'single') {
+      return ingestSingle(parsed.records[0], options);
+    }
+
+    if (parsed.records.length === 0) {
       return NextResponse.json(
-        { error: 'Motor not found' },
-        { status: 404 }
+        { error: 'Batch is empty' },
+        { status: 400 }
       );
     }
-    
-    // Create sensor reading with safe parsing
-    const reading = await prisma.sensorReading.create({
-      data: {
-        motorId,
-        gridVoltage: safeParseFloat(gridVoltage),
-        motorCurrent: safeParseFloat(motorCurrent),
-        powerConsumption: safeParseFloat(powerConsumption),
-        powerFactor: safeParseFloat(powerFactor),
-        dailyEnergyKwh: safeParseFloat(dailyEnergyKwh),
-        gridFrequency: safeParseFloat(gridFrequency),
-        vibrationRms: safeParseFloat(vibrationRms),
-        faultFrequency: body.faultFrequency ? safeParseFloat(body.faultFrequency) : null,
-        rotorUnbalanceScore: safeParseFloat(rotorUnbalanceScore),
-        bearingHealthScore: safeParseFloat(bearingHealthScore),
-        motorSurfaceTemp: safeParseFloat(motorSurfaceTemp),
-        thermalAnomalyIndex: body.thermalAnomalyIndex ? safeParseFloat(body.thermalAnomalyIndex) : null,
-        panelTemp: body.panelTemp ? safeParseFloat(body.panelTemp) : null,
-        bearingTemp: safeParseFloat(bearingTemp),
-        dustDensity: safeParseFloat(dustDensity),
-        soilingLossPercent: safeParseFloat(soilingLossPercent),
-        rawPayload: JSON.stringify(body),
-      },
-    });
-    
-    // Check thresholds and create alerts
-    const alerts = [];
-    const parameters = [
-      { type: 'gridVoltage' as const, value: safeParseFloat(gridVoltage) },
-      { type: 'motorCurrent' as const, value: safeParseFloat(motorCurrent) },
-      { type: 'powerFactor' as const, value: safeParseFloat(powerFactor) },
-      { type: 'gridFrequency' as const, value: safeParseFloat(gridFrequency) },
-      { type: 'motorSurfaceTemp' as const, value: safeParseFloat(motorSurfaceTemp) },
-      { type: 'bearingTemp' as const, value: safeParseFloat(bearingTemp) },
-      { type: 'dustDensity' as const, value: safeParseFloat(dustDensity) },
-      { type: 'vibrationRms' as const, value: safeParseFloat(vibrationRms) },
-    ];
-    
-    for (const param of parameters) {
-      if (shouldAlert(param.value, param.type)) {
-        const severity = getAlertSeverity(param.value, param.type);
-        if (severity) {
-          const alert = await prisma.alert.create({
-            data: {
-              motorId,
-              severity,
-              parameter: param.type,
-              value: param.value,
-              message: `${PARAMETER_CONFIG[param.type].label} ${severity === 'CRITICAL' ? 'melampaui' : 'mendekati'} batas aman: ${param.value} ${PARAMETER_CONFIG[param.type].unit}`,
-              status: 'OPEN',
-            },
-          });
-          alerts.push(alert);
-        }
-      }
+
+    if (parsed.records.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `Batch too large: ${parsed.records.length} records (max ${MAX_BATCH_SIZE})` },
+        { status: 413 }
+      );
     }
-    
-    return NextResponse.json({
-      success: true,
-      readingId: reading.id,
-      alertsGenerated: alerts.length,
-      alerts,
-    });
-    
+
+    return ingestBatch(parsed.records, options);
+
   } catch (error) {
     console.error('Error ingesting sensor data:', error);
     return NextResponse.json(
@@ -128,3 +130,198 @@ export async function POST(request: NextRequest) {
   }
 }
 
+async function ingestSingle(raw: RawIngestRecord, options: PrepareOptions) {
+  const record = prepareRecord(raw.payload ?? {}, 0, new Date(), options);
+
+  if (isRejected(record)) {
+    return NextResponse.json(
+      { error: record.reason, errors: record.errors ?? [] },
+      { status: record.httpStatus }
+    );
+  }
+
+  // Check if motor exists
+  const motor = await prisma.motor.findUnique({
+    where: { id: record.motorId },
+    include: MOTOR_INGEST_INCLUDE,
+  });
+
+  if (!motor) {
+    return NextResponse.json(
+      { error: 'Motor not found' },
+      { status: 404 }
+    );
+  }
+
+  // A retried upload of an already stored reading is acknowledged, not duplicated
+  if (record.hasOwnTimestamp) {
+    const existing = await findStoredReading(record);
+    if (existing) return duplicateResponse(existing.id, record);
+  }
+
+  let outcome;
+  try {
+    outcome = await prisma.$transaction((tx) => persistRecord(tx, record, ingestContext(motor)));
+  } catch (error) {
+    if (!isDuplicateReadingError(error)) throw error;
+    // A concurrent retry stored the same reading first
+    const existing = await findStoredReading(record);
+    if (!existing) throw error;
+    return duplicateResponse(existing.id, record);
+  }
+
+  const { reading, alerts, alertsUpdated, alertsClosed } = outcome;
+  return NextResponse.json({
+    success: true,
+    readingId: reading.id,
+    alertsGenerated: alerts.length,
+    alertsUpdated,
+    alertsClosed,
+    alerts,
+    errors: record.errors,
+  });
+}
+
+function findStoredReading(record: PreparedRecord) {
+  return prisma.sensorReading.findFirst({
+    where: { motorId: record.motorId, timestamp: record.timestamp },
+    select: { id: true },
+  });
+}
+
+function duplicateResponse(readingId: string, record: PreparedRecord) {
+  return NextResponse.json({
+    success: true,
+    duplicate: true,
+    readingId,
+    alertsGenerated: 0,
+    alertsUpdated: 0,
+    alertsClosed: 0,
+    alerts: [],
+    errors: record.errors,
+  });
+}
+
+async function ingestBatch(raws: RawIngestRecord[], options: PrepareOptions) {
+  const now = new Date();
+  const results: IngestRecordResult[] = [];
+  const candidates: PreparedRecord[] = [];
+
+  for (const raw of raws) {
+    if (!raw.payload) {
+      results[raw.index] = { index: raw.index, status: 'rejected', reason: raw.error ?? 'Invalid record' };
+      continue;
+    }
+
+    // Records without their own timestamp are stamped with the upload time,
+    // a millisecond apart so that each stays a reading of its own
+    const record = prepareRecord(raw.payload, raw.index, new Date(now.getTime() + raw.index), options);
+    if (isRejected(record)) {
+      results[raw.index] = { index: raw.index, status: 'rejected', reason: record.reason, errors: record.errors };
+      continue;
+    }
+    candidates.push(record);
+  }
+
+  // Check all referenced motors in one query
+  const motorIds = Array.from(new Set(candidates.map((r) => r.motorId)));
+  const motors = await prisma.motor.findMany({
+    where: { id: { in: motorIds } },
+    include: MOTOR_INGEST_INCLUDE,
+  });
+  const contextByMotor = new Map(motors.map((m) => [m.id, ingestContext(m)]));
+
+  // A concurrent upload may store some of the same readings while this
+  // batch runs; the retry reports them as duplicates
+  let totals;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      totals = await storeBatch(candidates, contextByMotor, results);
+      break;
+    } catch (error) {
+      if (!isDuplicateReadingError(error) || attempt >= MAX_BATCH_ATTEMPTS) throw error;
+    }
+  }
+
+  const count = (status: IngestRecordResult['status']) =>
+    results.filter((r) => r.status === status).length;
+
+  return NextResponse.json({
+    success: true,
+    mode: 'batch',
+    received: raws.length,
+    accepted: count('accepted'),
+    duplicates: count('duplicate'),
+    rejected: count('rejected'),
+    ...totals,
+    results,
+  });
+}
+
+/**
+ * Store the batch's records in one transaction, filling in their results.
+ * Throws a duplicate reading error (see isDuplicateReadingError) when a
+ * reading was stored concurrently after the duplicate check.
+ */
+async function storeBatch(
+  candidates: PreparedRecord[],
+  contextByMotor: Map<string, MotorIngestContext>,
+  results: IngestRecordResult[]
+) {
+  const motorIds = Array.from(contextByMotor.keys());
+  let alertsGenerated = 0;
+  let alertsUpdated = 0;
+  let alertsClosed = 0;
+
+  await prisma.$transaction(async (tx) => {
+    // Readings already stored at the timestamps in this batch (retried uploads)
+    const known = candidates.filter((r) => contextByMotor.has(r.motorId));
+    const existing = known.length > 0
+      ? await tx.sensorReading.findMany({
+          where: {
+            OR: motorIds.map((motorId) => ({
+              motorId,
+              timestamp: { in: known.filter((r) => r.motorId === motorId).map((r) => r.timestamp) },
+            })),
+          },
+          select: { motorId: true, timestamp: true },
+        })
+      : [];
+    const seen = new Set(existing.map((r) => `${r.motorId}|${r.timestamp.getTime()}`));
+
+    for (const record of candidates) {
+      if (!contextByMotor.has(record.motorId)) {
+        results[record.index] = { index: record.index, status: 'rejected', reason: 'Motor not found' };
+        continue;
+      }
+
+      const key = `${record.motorId}|${record.timestamp.getTime()}`;
+      if (seen.has(key)) {
+        results[record.index] = {
+          index: record.index,
+          status: 'duplicate',
+          timestamp: record.timestamp.toISOString(),
+          reason: 'Reading with this timestamp already stored',
+        };
+        continue;
+      }
+      seen.add(key);
+
+      // Records are applied in upload order; send backlogs oldest first
+      const outcome = await persistRecord(tx, record, contextByMotor.get(record.motorId));
+      alertsGenerated += outcome.alerts.length;
+      alertsUpdated += outcome.alertsUpdated;
+      alertsClosed += outcome.alertsClosed;
+      results[record.index] = {
+        index: record.index,
+        status: 'accepted',
+        readingId: outcome.reading.id,
+        timestamp: record.timestamp.toISOString(),
+        alertsGenerated: outcome.alerts.length,
+        errors: record.errors.length > 0 ? record.errors : undefined,
+      };
+    }
+  }, { timeout: 60000 });
+
+  return { alertsGenerated, alertsUpdated, alertsClosed };
+}
@@ -1,7 +1,8 @@
 /**
  * GET /api/latest?motorId=xxx
  * 
- * Returns the latest sensor reading and active alerts for a motor
+ * Returns the latest sensor reading and active alerts for a motor, with
+ * its latest health score and latest expert diagnosis
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -47,11 +48,11 @@ export async function GET(request: NextRequest) {
       take: 20,
     });
     
-    // Get active alerts
+    // Get active alerts (acknowledged alerts stay active until they close)
     const activeAlerts = await prisma.alert.findMany({
       where: {
         motorId,
-        status: 'OPEN',
+        status: { in: ['OPEN', 'ACKNOWLEDGED'] },
       },
       orderBy: { timestamp: 'desc' },
       take: 10,
@@ -59,7 +60,13 @@ export async function GET(request: NextRequest) {
     
     // Get latest health analysis
     const latestHealth = await prisma.healthAnalysis.findFirst({
-      where: { motorId },
+      where: { motorId, healthScore: { not: null } },
+      orderBy: { timestamp: 'desc' },
+    });
+    
+    // Diagnoses are stored as their own analyses (see /api/expert/diagnose)
+    const latestDiagnosis = await prisma.healthAnalysis.findFirst({
+      where: { motorId, expertDiagnosis: { not: null } },
       orderBy: { timestamp: 'desc' },
     });
     
@@ -69,6 +76,7 @@ export async function GET(request: NextRequest) {
       recentReadings: recentReadings.reverse(), // Oldest to newest for chart
       activeAlerts,
       latestHealth,
+      latestDiagnosis,
       timestamp: new Date().toISOString(),
     });
     
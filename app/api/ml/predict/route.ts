@@ -4,11 +4,20 @@
  * Endpoint for ML predictions - calls Python ML service
  * Also includes formula-based health score calculation
  * 
- * Data is received from client (Firebase) not from Prisma
+ * Data is received from client (Firebase) not from Prisma. The health score
+ * uses the threshold profiles of `motorId` (default: the seeded motor).
+ *
+ * Every value must carry its unit (see lib/units.ts):
+ *   { sensorData: { vibrationRms: { value: 2.1, unit: 'mm/s' }, ... },
+ *     vibrationReadings: [{ vibrationRms: { value, unit }, timestamp }] }
+ * Values that cannot be converted to the parameter's unit return 422.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { calculateHealthScore } from '@/lib/calculateHealthScore';
+import { loadMotorThresholds } from '@/lib/thresholdProfiles';
+import { DEFAULT_MOTOR_ID } from '@/lib/motorConfig';
+import { toCanonicalReading, UnitMismatchError, type CanonicalReading } from '@/lib/units';
 
 // ML Service URL
 const ML_SERVICE_URL = process.env.ML_SERVICE_URL;
@@ -22,24 +31,12 @@ function isLocalhostUrl(url: string): boolean {
   }
 }
 
+// Payload of the ML service: vibration velocity RMS in mm/s
 interface VibrationReading {
   vibration_rms: number;
   timestamp?: number;
 }
 
-interface SensorData {
-  gridVoltage?: number;
-  motorCurrent?: number;
-  power?: number;
-  powerFactor?: number;
-  gridFrequency?: number;
-  vibrationRms?: number;
-  motorSurfaceTemp?: number;
-  bearingTemp?: number;
-  dustDensity?: number;
-  vibration_peak_g?: number; // Firebase format
-}
-
 interface MLPredictionResponse {
   classification: {
     will_fail_soon: boolean;
@@ -59,36 +56,37 @@ interface MLPredictionResponse {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { vibrationReadings, sensorData } = body as {
-      vibrationReadings?: VibrationReading[];
-      sensorData?: SensorData;
-    };
-
-    // Calculate formula-based health score from sensor data
-    // Use vibration_peak_g if available, otherwise use vibrationRms
-    const vibrationValue = sensorData?.vibration_peak_g || sensorData?.vibrationRms || 0;
-    
-    const healthResult = calculateHealthScore({
-      gridVoltage: sensorData?.gridVoltage,
-      motorCurrent: sensorData?.motorCurrent,
-      power: sensorData?.power,
-      powerFactor: sensorData?.powerFactor,
-      gridFrequency: sensorData?.gridFrequency,
-      vibrationRms: vibrationValue,
-      motorSurfaceTemp: sensorData?.motorSurfaceTemp,
-      bearingTemp: sensorData?.bearingTemp,
-      dustDensity: sensorData?.dustDensity,
-    });
-
-    // Create vibration reading from Firebase data
-    const readings: VibrationReading[] = [];
-    if (sensorData?.vibration_peak_g) {
-      readings.push({
-        vibration_rms: sensorData.vibration_peak_g,
-        timestamp: Date.now()
+    const { motorId } = body as { motorId?: string };
+
+    let sensorData: CanonicalReading;
+    let readings: VibrationReading[];
+    try {
+      sensorData = toCanonicalReading(body.sensorData, 'sensorData');
+      const history: unknown[] = Array.isArray(body.vibrationReadings) ? body.vibrationReadings : [];
+      readings = history.map((entry, i) => {
+        const { vibrationRms } = toCanonicalReading(entry, `vibrationReadings[${i}]`);
+        if (vibrationRms === undefined) throw new TypeError(`vibrationReadings[${i}].vibrationRms is required`);
+        const timestamp = (entry as { timestamp?: unknown }).timestamp;
+        return { vibration_rms: vibrationRms, timestamp: typeof timestamp === 'number' ? timestamp : undefined };
       });
+    } catch (error) {
+      if (error instanceof UnitMismatchError || error instanceof TypeError) {
+        return NextResponse.json({ success: false, error: error.message }, { status: 422 });
+      }
+      throw error;
     }
 
+    // Without a history, predict from the current reading
+    if (readings.length === 0 && sensorData.vibrationRms !== undefined) {
+      readings.push({ vibration_rms: sensorData.vibrationRms, timestamp: Date.now() });
+    }
+
+    // Unknown motors fall back to the default thresholds
+    const profiles = await loadMotorThresholds(motorId ?? DEFAULT_MOTOR_ID);
+
+    // Calculate formula-based health score from sensor data
+    const healthResult = calculateHealthScore(sensorData, profiles?.thresholds);
+
     // Default ML response (if service unavailable or no readings)
     let mlPrediction: MLPredictionResponse | null = null;
     let mlServiceError: string | null = null;
@@ -104,18 +102,21 @@ export async function POST(request: NextRequest) {
       mlServiceError = 'ML service is not configured for this deployment. Set ML_SERVICE_URL to a public URL to enable ML predictions.';
       
       // ALWAYS generate ML prediction from klasifikasi.pkl and prediksi.pkl logic
-      if (sensorData?.vibration_peak_g || sensorData?.vibrationRms) {
-        const vibration = sensorData?.vibration_peak_g || sensorData?.vibrationRms || 0;
+      const { vibrationPeakG, vibrationRms } = sensorData;
+      if (vibrationPeakG !== undefined || vibrationRms !== undefined) {
         let failureProbability = 0;
         let willFailSoon = false;
         let minutesToFailure = 999999;
         
-        // Simulate klasifikasi.pkl prediction
-        if (vibration > 0.5) {
+        // Simulate klasifikasi.pkl prediction: peak acceleration in g when
+        // available, otherwise velocity RMS against the mm/s defaults
+        const severe = vibrationPeakG !== undefined ? vibrationPeakG > 0.5 : vibrationRms! > 4.5;
+        const elevated = vibrationPeakG !== undefined ? vibrationPeakG > 0.2 : vibrationRms! > 2.8;
+        if (severe) {
           failureProbability = 0.85;
           willFailSoon = true;
           minutesToFailure = 1440; // 24 hours
-        } else if (vibration > 0.2) {
+        } else if (elevated) {
           failureProbability = 0.6;
           willFailSoon = false;
           minutesToFailure = 10080; // 7 days
@@ -177,11 +178,7 @@ export async function POST(request: NextRequest) {
       success: true,
 
       // Formula-based health score
-      healthScore: {
-        score: healthResult.score,
-        category: healthResult.category,
-        factors: healthResult.factors,
-      },
+      healthScore: healthResult,
 
       // ML predictions (if available)
       mlPrediction: mlPrediction
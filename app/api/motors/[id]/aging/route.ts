@@ -0,0 +1,108 @@
+/**
+ * /api/motors/:id/aging
+ *
+ * GET  - Accumulated insulation aging of a motor: equivalent aging hours,
+ *        percent of insulation life consumed and the projected end of life
+ *        at the current duty. `aging` is null before the first reading.
+ * POST - Rebuild the accumulator from all stored motorSurfaceTemp readings,
+ *        e.g. after changing the insulation class. Ingest keeps it up to
+ *        date afterwards.
+ *
+ * See lib/insulationAging.ts for the model.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { thermalClassFor } from '@/lib/thermalClass';
+import { EMPTY_AGING_STATE, integrateAging, toInsulationAging } from '@/lib/insulationAging';
+
+/** Readings loaded per query while rebuilding */
+const REBUILD_PAGE_SIZE = 5000;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const motor = await prisma.motor.findUnique({
+      where: { id: params.id },
+      select: { insulationAging: true },
+    });
+
+    if (!motor) {
+      return NextResponse.json(
+        { error: 'Motor not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      motorId: params.id,
+      aging: motor.insulationAging ? toInsulationAging(motor.insulationAging) : null,
+    });
+
+  } catch (error) {
+    console.error('Error fetching insulation aging:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const motor = await prisma.motor.findUnique({
+      where: { id: params.id },
+      select: { insulationClass: true, ratedTempRise: true },
+    });
+
+    if (!motor) {
+      return NextResponse.json(
+        { error: 'Motor not found' },
+        { status: 404 }
+      );
+    }
+
+    const thermalClass = thermalClassFor(motor);
+    let state = EMPTY_AGING_STATE;
+    let readings = 0;
+    for (;;) {
+      const page = await prisma.sensorReading.findMany({
+        where: {
+          motorId: params.id,
+          motorSurfaceTemp: { not: null },
+          ...(state.lastTimestamp ? { timestamp: { gt: state.lastTimestamp } } : {}),
+        },
+        orderBy: { timestamp: 'asc' },
+        take: REBUILD_PAGE_SIZE,
+        select: { timestamp: true, motorSurfaceTemp: true },
+      });
+      state = integrateAging(
+        state,
+        page.map((r) => ({ timestamp: r.timestamp, surfaceTemp: r.motorSurfaceTemp! })),
+        thermalClass
+      );
+      readings += page.length;
+      if (page.length < REBUILD_PAGE_SIZE) break;
+    }
+
+    const row = await prisma.insulationAging.upsert({
+      where: { motorId: params.id },
+      create: { motorId: params.id, ...state },
+      update: state,
+    });
+
+    return NextResponse.json({ success: true, readings, aging: toInsulationAging(row) });
+
+  } catch (error) {
+    console.error('Error rebuilding insulation aging:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * /api/motors/:id/baseline
+ *
+ * GET    - Active baseline and all earlier versions of a motor
+ * POST   - Learn a new baseline from a known-good window:
+ *          { trainingStart?, trainingEnd?, loadBands?, warningZ?, criticalZ?, note?, createdBy? }
+ *          The window defaults to the last 7 days. Supersedes the active
+ *          baseline and closes its open alerts (re-baselining after maintenance).
+ * DELETE - Deactivate the active baseline (no baseline alerts until retrained)
+ *
+ * See lib/baseline.ts for the statistics and the alert rules.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  BASELINE_PARAMETERS,
+  MAX_TRAINING_SAMPLES,
+  computeBaseline,
+  toMotorBaseline,
+  validateBaselineRequest,
+} from '@/lib/baseline';
+import { closeBaselineAlerts } from '@/lib/alertLifecycle';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const motor = await prisma.motor.findUnique({
+      where: { id: params.id },
+      select: { baselines: { orderBy: { version: 'desc' } } },
+    });
+
+    if (!motor) {
+      return NextResponse.json(
+        { error: 'Motor not found' },
+        { status: 404 }
+      );
+    }
+
+    const versions = motor.baselines.map(toMotorBaseline);
+    return NextResponse.json({
+      motorId: params.id,
+      active: versions.find((b) => b.status === 'ACTIVE') ?? null,
+      versions,
+    });
+
+  } catch (error) {
+    console.error('Error fetching baseline:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    let body: unknown;
+    try {
+      const text = await request.text();
+      body = text.trim() === '' ? {} : JSON.parse(text);
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    const result = validateBaselineRequest(body);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 422 }
+      );
+    }
+    const options = result.data;
+
+    const motor = await prisma.motor.findUnique({
+      where: { id: params.id },
+      select: { id: true, ratedCurrent: true },
+    });
+
+    if (!motor) {
+      return NextResponse.json(
+        { error: 'Motor not found' },
+        { status: 404 }
+      );
+    }
+
+    const readings = await prisma.sensorReading.findMany({
+      where: { motorId: params.id, timestamp: { gte: options.trainingStart, lte: options.trainingEnd } },
+      orderBy: { timestamp: 'desc' },
+      take: MAX_TRAINING_SAMPLES,
+      select: Object.fromEntries(BASELINE_PARAMETERS.map((p) => [p, true])),
+    });
+
+    const computed = computeBaseline(readings, options.loadBands, motor.ratedCurrent);
+    if (!computed.ok) {
+      return NextResponse.json(
+        { error: computed.error },
+        { status: 422 }
+      );
+    }
+
+    const { row, alertsClosed } = await prisma.$transaction(async (tx) => {
+      const latest = await tx.motorBaseline.findFirst({
+        where: { motorId: params.id },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+      const version = (latest?.version ?? 0) + 1;
+
+      await tx.motorBaseline.updateMany({
+        where: { motorId: params.id, status: 'ACTIVE' },
+        data: { status: 'SUPERSEDED', supersededAt: new Date() },
+      });
+      const row = await tx.motorBaseline.create({
+        data: {
+          motorId: params.id,
+          version,
+          status: 'ACTIVE',
+          trainingStart: options.trainingStart,
+          trainingEnd: options.trainingEnd,
+          sampleCount: readings.length,
+          loadBands: options.loadBands ? JSON.stringify(options.loadBands) : null,
+          statistics: JSON.stringify(computed.statistics),
+          warningZ: options.warningZ,
+          criticalZ: options.criticalZ,
+          note: options.note,
+          createdBy: options.createdBy,
+        },
+      });
+      // Deviations from the old baseline no longer apply
+      const alertsClosed = await closeBaselineAlerts(tx, params.id, `Re-baselined (version ${version})`);
+      return { row, alertsClosed };
+    });
+
+    return NextResponse.json(
+      { success: true, baseline: toMotorBaseline(row), alertsClosed },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('Error training baseline:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const active = await prisma.motorBaseline.findFirst({
+      where: { motorId: params.id, status: 'ACTIVE' },
+      select: { id: true, version: true },
+    });
+
+    if (!active) {
+      return NextResponse.json(
+        { error: 'No active baseline' },
+        { status: 404 }
+      );
+    }
+
+    const alertsClosed = await prisma.$transaction(async (tx) => {
+      await tx.motorBaseline.update({
+        where: { id: active.id },
+        data: { status: 'SUPERSEDED', supersededAt: new Date() },
+      });
+      return closeBaselineAlerts(tx, params.id, 'Baseline deactivated');
+    });
+
+    return NextResponse.json({ success: true, version: active.version, alertsClosed });
+
+  } catch (error) {
+    console.error('Error deactivating baseline:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * /api/motors/:id/bearings/:bearingId
+ *
+ * PUT    - Update any subset of { position, designation, bearingType,
+ *          dynamicLoadRating, equivalentLoad, speedRpm, installedAt }.
+ *          A new installedAt (e.g. after replacing the bearing) restarts the
+ *          consumed life from that date.
+ * DELETE - Remove the bearing
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { toBearingComponent, validateBearingInput } from '@/lib/bearingLife';
+import { rebuildBearingLife } from '@/lib/bearingComponents';
+
+type Params = { params: { id: string; bearingId: string } };
+
+async function findBearing(motorId: string, bearingId: string) {
+  return prisma.bearingComponent.findFirst({
+    where: { id: bearingId, motorId },
+  });
+}
+
+export async function PUT(request: NextRequest, { params }: Params) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    const result = validateBearingInput(body, true);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 422 }
+      );
+    }
+
+    const existing = await findBearing(params.id, params.bearingId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Bearing not found' },
+        { status: 404 }
+      );
+    }
+
+    // Load and rating are checked together when only one of them changes
+    const { dynamicLoadRating = existing.dynamicLoadRating, equivalentLoad = existing.equivalentLoad } = result.data;
+    if (equivalentLoad > dynamicLoadRating) {
+      return NextResponse.json(
+        { error: 'equivalentLoad must not exceed dynamicLoadRating' },
+        { status: 422 }
+      );
+    }
+
+    let row = await prisma.bearingComponent.update({
+      where: { id: params.bearingId },
+      data: result.data,
+    });
+    if (result.data.installedAt && result.data.installedAt.getTime() !== existing.installedAt.getTime()) {
+      row = (await rebuildBearingLife(row.id)) ?? row;
+    }
+
+    return NextResponse.json({ success: true, bearing: toBearingComponent(row) });
+
+  } catch (error) {
+    console.error('Error updating bearing:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    if (!(await findBearing(params.id, params.bearingId))) {
+      return NextResponse.json(
+        { error: 'Bearing not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.bearingComponent.delete({ where: { id: params.bearingId } });
+
+    return NextResponse.json({ success: true, id: params.bearingId });
+
+  } catch (error) {
+    console.error('Error deleting bearing:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
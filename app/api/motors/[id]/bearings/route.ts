@@ -0,0 +1,94 @@
+/**
+ * /api/motors/:id/bearings
+ *
+ * GET  - Bearings of a motor with their L10 life, consumed and remaining life
+ * POST - Add a bearing: { position, designation?, bearingType?, dynamicLoadRating,
+ *        equivalentLoad, speedRpm, installedAt } (loads in kN). Life already
+ *        consumed since installedAt is computed from the stored readings.
+ *
+ * See lib/bearingLife.ts for the life model.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { toBearingComponent, validateBearingInput, type BearingInput } from '@/lib/bearingLife';
+import { rebuildBearingLife } from '@/lib/bearingComponents';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const motor = await prisma.motor.findUnique({
+      where: { id: params.id },
+      select: { bearings: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!motor) {
+      return NextResponse.json(
+        { error: 'Motor not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ motorId: params.id, bearings: motor.bearings.map(toBearingComponent) });
+
+  } catch (error) {
+    console.error('Error fetching bearings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    const result = validateBearingInput(body);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 422 }
+      );
+    }
+
+    const motor = await prisma.motor.findUnique({
+      where: { id: params.id },
+      select: { id: true },
+    });
+
+    if (!motor) {
+      return NextResponse.json(
+        { error: 'Motor not found' },
+        { status: 404 }
+      );
+    }
+
+    const created = await prisma.bearingComponent.create({
+      data: { motorId: params.id, ...(result.data as BearingInput) },
+    });
+    const row = await rebuildBearingLife(created.id);
+
+    return NextResponse.json({ success: true, bearing: toBearingComponent(row ?? created) }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error creating bearing:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
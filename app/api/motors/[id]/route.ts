@@ -0,0 +1,134 @@
+/**
+ * /api/motors/:id
+ * 
+ * GET    - Motor with its nameplate and monitoring settings
+ * PUT    - Update any subset of the editable fields (validated by lib/motorConfig.ts)
+ * DELETE - Delete the motor together with its readings, alerts and devices
+ *          (requires Authorization: Bearer <DEVICE_ADMIN_TOKEN>)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { validateMotorConfig } from '@/lib/motorConfig';
+import { checkAdminToken } from '@/lib/deviceAuth';
+import type { InsulationClass } from '@/lib/thermalClass';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const motor = await prisma.motor.findUnique({
+      where: { id: params.id },
+    });
+    
+    if (!motor) {
+      return NextResponse.json(
+        { error: 'Motor not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ motor });
+    
+  } catch (error) {
+    console.error('Error fetching motor:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+    
+    const existing = await prisma.motor.findUnique({
+      where: { id: params.id },
+      select: { insulationClass: true, ratedTempRise: true },
+    });
+    
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Motor not found' },
+        { status: 404 }
+      );
+    }
+    
+    // A rated rise is checked against the stored class unless the class changes too
+    const result = validateMotorConfig(body, true, {
+      insulationClass: existing.insulationClass as InsulationClass,
+      ratedTempRise: existing.ratedTempRise,
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: 'Invalid motor configuration', errors: result.errors },
+        { status: 422 }
+      );
+    }
+    
+    const motor = await prisma.motor.update({
+      where: { id: params.id },
+      data: result.data,
+    });
+    
+    return NextResponse.json({ success: true, motor });
+    
+  } catch (error) {
+    console.error('Error updating motor:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const denied = checkAdminToken(request);
+  if (denied) {
+    return NextResponse.json({ error: denied.error }, { status: denied.status });
+  }
+
+  try {
+    const existing = await prisma.motor.findUnique({
+      where: { id: params.id },
+      select: { id: true },
+    });
+    
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Motor not found' },
+        { status: 404 }
+      );
+    }
+    
+    // Readings, alerts, health analyses and devices cascade (see schema.prisma)
+    await prisma.motor.delete({
+      where: { id: params.id },
+    });
+    
+    return NextResponse.json({ success: true, id: params.id });
+    
+  } catch (error) {
+    console.error('Error deleting motor:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
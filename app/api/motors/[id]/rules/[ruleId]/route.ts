@@ -0,0 +1,98 @@
+/**
+ * /api/motors/:id/rules/:ruleId
+ *
+ * PUT    - Update any subset of { name, expression, severity, message, enabled }
+ * DELETE - Remove the rule
+ *
+ * Disabling or deleting a rule closes its open alerts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { toAlertRule, validateAlertRule } from '@/lib/alertRules';
+import { closeRuleAlerts } from '@/lib/alertLifecycle';
+
+type Params = { params: { id: string; ruleId: string } };
+
+async function findRule(motorId: string, ruleId: string) {
+  return prisma.alertRule.findFirst({
+    where: { id: ruleId, motorId },
+    select: { id: true },
+  });
+}
+
+export async function PUT(request: NextRequest, { params }: Params) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    const result = validateAlertRule(body, true);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 422 }
+      );
+    }
+
+    if (!(await findRule(params.id, params.ruleId))) {
+      return NextResponse.json(
+        { error: 'Alert rule not found' },
+        { status: 404 }
+      );
+    }
+
+    const { expression, ...fields } = result.data;
+    const row = await prisma.$transaction(async (tx) => {
+      const updated = await tx.alertRule.update({
+        where: { id: params.ruleId },
+        data: {
+          ...fields,
+          ...(expression && { expression: JSON.stringify(expression) }),
+        },
+      });
+      if (!updated.enabled) await closeRuleAlerts(tx, updated.id, 'Rule disabled');
+      return updated;
+    });
+
+    return NextResponse.json({ success: true, rule: toAlertRule(row) });
+
+  } catch (error) {
+    console.error('Error updating alert rule:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    if (!(await findRule(params.id, params.ruleId))) {
+      return NextResponse.json(
+        { error: 'Alert rule not found' },
+        { status: 404 }
+      );
+    }
+
+    const alertsClosed = await prisma.$transaction(async (tx) => {
+      await tx.alertRule.delete({ where: { id: params.ruleId } });
+      return closeRuleAlerts(tx, params.ruleId, 'Rule deleted');
+    });
+
+    return NextResponse.json({ success: true, id: params.ruleId, alertsClosed });
+
+  } catch (error) {
+    console.error('Error deleting alert rule:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * /api/motors/:id/rules
+ *
+ * GET  - Compound alert rules of a motor
+ * POST - Create a rule: { name, expression, severity?, message?, enabled? }
+ *        (expression format in lib/alertRules.ts; invalid rules return 422)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { toAlertRule, validateAlertRule } from '@/lib/alertRules';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const motor = await prisma.motor.findUnique({
+      where: { id: params.id },
+      select: { alertRules: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!motor) {
+      return NextResponse.json(
+        { error: 'Motor not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ motorId: params.id, rules: motor.alertRules.map(toAlertRule) });
+
+  } catch (error) {
+    console.error('Error fetching alert rules:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    const result = validateAlertRule(body);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 422 }
+      );
+    }
+
+    const motor = await prisma.motor.findUnique({
+      where: { id: params.id },
+      select: { id: true },
+    });
+
+    if (!motor) {
+      return NextResponse.json(
+        { error: 'Motor not found' },
+        { status: 404 }
+      );
+    }
+
+    const { name, expression, severity, message, enabled } = result.data;
+    const row = await prisma.alertRule.create({
+      data: {
+        motorId: params.id,
+        name: name!,
+        expression: JSON.stringify(expression),
+        severity,
+        message,
+        enabled,
+      },
+    });
+
+    return NextResponse.json({ success: true, rule: toAlertRule(row) }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
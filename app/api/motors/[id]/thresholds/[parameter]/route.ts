@@ -0,0 +1,110 @@
+/**
+ * /api/motors/:id/thresholds/:parameter
+ * 
+ * PUT    - Store the motor's profile for a parameter:
+ *          { direction, warningLow?, warningHigh?, criticalLow?, criticalHigh?, deadband?, relativeTo? }
+ *          With relativeTo (ratedCurrent, ratedVoltage, ratedPower) the bounds are percentages.
+ *          Optional conditions: sustainSeconds, sustainCount + sustainWindow,
+ *          rateWarning / rateCritical (per minute) + rateWindowSeconds
+ * DELETE - Remove the override, falling back to the default profile
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { CONDITION_FIELDS, validateThresholdProfile } from '@/lib/thresholds';
+import { THRESHOLD_PARAMETERS, isThresholdParameter, toThresholdProfile } from '@/lib/thresholdProfiles';
+
+type Params = { params: { id: string; parameter: string } };
+
+async function findMotor(id: string) {
+  return prisma.motor.findUnique({
+    where: { id },
+    select: { id: true },
+  });
+}
+
+export async function PUT(request: NextRequest, { params }: Params) {
+  try {
+    if (!isThresholdParameter(params.parameter)) {
+      return NextResponse.json(
+        { error: `parameter must be one of ${THRESHOLD_PARAMETERS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+    
+    const result = validateThresholdProfile(body);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 422 }
+      );
+    }
+    
+    if (!(await findMotor(params.id))) {
+      return NextResponse.json(
+        { error: 'Motor not found' },
+        { status: 404 }
+      );
+    }
+    
+    const { direction, warningLow = null, warningHigh = null, criticalLow = null, criticalHigh = null, deadband = null, relativeTo = null } = result.profile;
+    const conditions = Object.fromEntries(CONDITION_FIELDS.map((field) => [field, result.profile[field] ?? null]));
+    const data = { direction, warningLow, warningHigh, criticalLow, criticalHigh, deadband, relativeTo, ...conditions };
+    
+    const row = await prisma.thresholdProfile.upsert({
+      where: { motorId_parameter: { motorId: params.id, parameter: params.parameter } },
+      create: { motorId: params.id, parameter: params.parameter, ...data },
+      update: data,
+    });
+    
+    return NextResponse.json({ success: true, parameter: params.parameter, profile: toThresholdProfile(row) });
+    
+  } catch (error) {
+    console.error('Error saving threshold:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    if (!isThresholdParameter(params.parameter)) {
+      return NextResponse.json(
+        { error: `parameter must be one of ${THRESHOLD_PARAMETERS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    if (!(await findMotor(params.id))) {
+      return NextResponse.json(
+        { error: 'Motor not found' },
+        { status: 404 }
+      );
+    }
+    
+    const { count } = await prisma.thresholdProfile.deleteMany({
+      where: { motorId: params.id, parameter: params.parameter },
+    });
+    
+    return NextResponse.json({ success: true, parameter: params.parameter, removed: count > 0 });
+    
+  } catch (error) {
+    console.error('Error deleting threshold:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * GET /api/motors/:id/thresholds
+ * 
+ * Threshold profiles of a motor:
+ * - thresholds: profiles in effect, per parameter, in absolute units
+ * - overrides:  profiles stored for this motor (may be relative to the nameplate)
+ * - defaults:   what applies without overrides (nameplate-relative where available)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { loadMotorThresholds } from '@/lib/thresholdProfiles';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const profiles = await loadMotorThresholds(params.id);
+    
+    if (!profiles) {
+      return NextResponse.json(
+        { error: 'Motor not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ motorId: params.id, ...profiles });
+    
+  } catch (error) {
+    console.error('Error fetching thresholds:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * /api/motors
+ * 
+ * GET  /api/motors - List motors with their nameplate and monitoring settings
+ * POST /api/motors - Create a motor (validated by lib/motorConfig.ts)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { validateMotorConfig } from '@/lib/motorConfig';
+
+export async function GET() {
+  try {
+    const motors = await prisma.motor.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+    
+    return NextResponse.json({ motors });
+    
+  } catch (error) {
+    console.error('Error listing motors:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+    
+    const result = validateMotorConfig(body);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: 'Invalid motor configuration', errors: result.errors },
+        { status: 422 }
+      );
+    }
+    
+    // A non-partial validation guarantees every required field is present
+    const motor = await prisma.motor.create({
+      data: result.data as Prisma.MotorCreateInput,
+    });
+    
+    return NextResponse.json({ success: true, motor }, { status: 201 });
+    
+  } catch (error) {
+    console.error('Error creating motor:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
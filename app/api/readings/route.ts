@@ -0,0 +1,65 @@
+/**
+ * GET /api/readings?motorId=xxx&from=...&to=...&parameters=a,b&bucket=5m
+ *
+ * Historical sensor readings for analytics.
+ * - bucket=auto (default) or a duration: count/min/mean/max/last per bucket and parameter
+ * - bucket=raw: individual readings, paginated with `cursor` / `nextCursor`
+ *
+ * See lib/readingsQuery.ts for the accepted query parameters.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { parseReadingsQuery, queryBucketedReadings, queryRawReadings } from '@/lib/readingsQuery';
+
+// Force dynamic rendering since we use searchParams
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = parseReadingsQuery(request.nextUrl.searchParams);
+
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const { query } = parsed;
+
+    const motor = await prisma.motor.findUnique({
+      where: { id: query.motorId },
+      select: { id: true },
+    });
+
+    if (!motor) {
+      return NextResponse.json(
+        { error: 'Motor not found' },
+        { status: 404 }
+      );
+    }
+
+    const meta = {
+      motorId: query.motorId,
+      from: query.from.toISOString(),
+      to: query.to.toISOString(),
+      parameters: query.parameters,
+    };
+
+    if (query.bucketSeconds === null) {
+      const { readings, nextCursor } = await queryRawReadings(query);
+      return NextResponse.json({ ...meta, bucket: 'raw', readings, nextCursor });
+    }
+
+    const buckets = await queryBucketedReadings({ ...query, bucketSeconds: query.bucketSeconds });
+    return NextResponse.json({ ...meta, bucket: 'aggregate', bucketSeconds: query.bucketSeconds, buckets });
+
+  } catch (error) {
+    console.error('Error fetching readings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
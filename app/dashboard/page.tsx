@@ -3,6 +3,12 @@
 import { MotorOverviewCard } from '@/components/MotorOverviewCard';
 import { RealtimeStatusBar } from '@/components/RealtimeStatusBar';
 import { useRealtimeSensorData } from '@/hooks/useRealtimeSensorData';
+import { useMotorConfig } from '@/hooks/useMotorConfig';
+import { useThresholds } from '@/hooks/useThresholds';
+import { useActiveAlerts } from '@/hooks/useAlerts';
+import { useInsulationAging } from '@/hooks/useInsulationAging';
+import { toListAlert } from '@/types/alert';
+import { DEFAULT_MOTOR_ID as CONFIG_MOTOR_ID } from '@/lib/motorConfig';
 import dynamic from 'next/dynamic';
 // import { Motor3DVisualization } from '@/components/Motor3DVisualization';
 import { AlertList } from '@/components/AlertList';
@@ -12,6 +18,8 @@ import { SensorStatusCard } from '@/components/SensorStatusCard';
 import { TemperaturePanel } from '@/components/TemperaturePanel';
 import { VibrationPanel } from '@/components/VibrationPanel';
 import { type ParameterType } from '@/lib/thresholds';
+import { vibrationClassFor } from '@/lib/vibrationSeverity';
+import { thermalClassFor } from '@/lib/thermalClass';
 
 // Dynamic import untuk komponen 3D (hanya di client, no SSR)
 const Motor3DModel = dynamic(
@@ -34,106 +42,14 @@ const Motor3DModel = dynamic(
 // TODO: In production, allow user to select motor
 const DEFAULT_MOTOR_ID = 'motor_1';
 
-/* =======================
-   SIMPLE ALERTS (LOCAL)
-   - alert muncul dari latestReading (tanpa run prediction)
-======================= */
-
-type AlertSeverity = 'low' | 'medium' | 'high';
-type AlertStatus = 'OPEN' | 'CLOSED' | 'ACKNOWLEDGED';
-
-type SimpleAlert = {
-  id: string;
-  severity: AlertSeverity;
-  status: AlertStatus;
-  message: string;
-  timestamp: number;
-  parameter: string;
-  value: number;
-};
-
-type ThresholdPair = { warn: number; crit: number };
-
-/**
- * Ubah angka threshold di sini sesuai kebutuhan kamu.
- * Satuan contoh:
- * - motorSurfaceTemp / bearingTemp: °C
- * - vibrationRms: mm/s
- * - dustDensity: ug/m3 (atau sesuai sensor kamu)
- */
-const SIMPLE_THRESHOLDS: Record<string, ThresholdPair> = {
-  motorSurfaceTemp: { warn: 37, crit: 44 },
-  bearingTemp: { warn: 36, crit: 43 },
-  vibrationRms: { warn: 4700, crit: 5000 },
-  dustDensity: { warn: 800, crit: 900 },
-};
-
-const PARAM_LABEL: Record<string, string> = {
-  motorSurfaceTemp: 'Suhu motor',
-  bearingTemp: 'Suhu bearing',
-  vibrationRms: 'Vibrasi RMS',
-  dustDensity: 'Debu',
-};
-
-function parseReadingTimestamp(ts: unknown): number {
-  if (typeof ts === 'number') return ts;
-  if (ts instanceof Date) return ts.getTime();
-  if (typeof ts === 'string') {
-    const t = new Date(ts).getTime();
-    return Number.isFinite(t) ? t : Date.now();
-  }
-  return Date.now();
-}
-
-function buildSimpleAlerts(latestReading: any): SimpleAlert[] {
-  const ts = parseReadingTimestamp(latestReading?.timestamp);
-  const alerts: SimpleAlert[] = [];
-
-  const pushIfBreached = (key: string) => {
-    const value = latestReading?.[key];
-    if (typeof value !== 'number' || Number.isNaN(value)) return;
-
-    const th = SIMPLE_THRESHOLDS[key];
-    if (!th) return;
-
-    const label = PARAM_LABEL[key] ?? key;
-
-    if (value >= th.crit) {
-      alerts.push({
-        id: `${key}-crit`,
-        severity: 'high',
-        status: 'OPEN',
-        parameter: key,
-        value,
-        message: `${label} kritikal: ${value.toFixed(2)}`,
-        timestamp: ts,
-      });
-      return;
-    }
-
-    if (value >= th.warn) {
-      alerts.push({
-        id: `${key}-warn`,
-        severity: 'medium',
-        status: 'OPEN',
-        parameter: key,
-        value,
-        message: `${label} tinggi: ${value.toFixed(2)} (>= ${th.warn})`,
-        timestamp: ts,
-      });
-    }
-  };
-
-  pushIfBreached('motorSurfaceTemp');
-  pushIfBreached('bearingTemp');
-  pushIfBreached('vibrationRms');
-  pushIfBreached('dustDensity');
-
-  return alerts;
-}
-
 export default function DashboardPage() {
-  const { data, isLoading, error, isConnected } = useRealtimeSensorData(DEFAULT_MOTOR_ID);
+  // Name and nameplate ratings come from the motor record edited in Settings
+  const { motor: motorConfig } = useMotorConfig(CONFIG_MOTOR_ID);
+  const { thresholds } = useThresholds(CONFIG_MOTOR_ID);
+  const { data, isLoading, error, isConnected } = useRealtimeSensorData(DEFAULT_MOTOR_ID, thresholds);
+  // Alerts are raised on ingest and stored, so operators can acknowledge and close them
+  const { alerts: activeAlerts, error: alertsError, act: actOnAlert } = useActiveAlerts(CONFIG_MOTOR_ID);
+  const { aging: insulationAging } = useInsulationAging(CONFIG_MOTOR_ID);
 
   if (isLoading) {
     return (
@@ -168,6 +84,7 @@ export default function DashboardPage() {
   }
 
   const { motor, latestReading, recentReadings, latestHealth } = data;
+  const motorName = motorConfig?.name ?? motor?.name ?? 'Unknown Motor';
 
   // Extract history for sparklines (ambil dari recentReadings, urutkan berdasarkan timestamp)
   const getHistory = (param: keyof typeof latestReading) => {
@@ -182,23 +99,26 @@ export default function DashboardPage() {
   };
 
   // Determine motor status based on health score
-  const getMotorStatus = (healthScore: number | undefined): 'Normal' | 'Perlu Inspeksi' | 'Kritikal' => {
-    if (!healthScore) return 'Normal';
+  // (Data Tidak Cukup: no score, or too few fresh sensor values to trust it)
+  const healthScore = data?.latestReading?.healthIndex ?? data?.latestHealth?.healthScoreMl;
+  const healthCategory = data?.latestReading?.healthCategory;
+  const getMotorStatus = (
+    healthScore: number | undefined,
+    healthCategory: string | undefined
+  ): 'Normal' | 'Perlu Inspeksi' | 'Kritikal' | 'Data Tidak Cukup' => {
+    if (healthScore === undefined || healthCategory === 'Unknown') return 'Data Tidak Cukup';
     if (healthScore >= 80) return 'Normal';
     if (healthScore >= 60) return 'Perlu Inspeksi';
     return 'Kritikal';
   };
 
-  // ✅ Build alerts sederhana dari latestReading
-  const simpleAlerts = buildSimpleAlerts(latestReading);
-
   return (
     <div className="min-h-screen">
       {/* Status Bar */}
       <RealtimeStatusBar
         lastUpdate={data?.latestReading?.timestamp ? data.latestReading.timestamp : null}
         isConnected={isConnected}
-        motorName={data?.motor?.name ?? 'Unknown Motor'}
+        motorName={motorName}
       />
 
       {/* Dashboard Content */}
@@ -206,11 +126,13 @@ export default function DashboardPage() {
         {/* Motor Overview */}
         <div className="mb-6">
           <MotorOverviewCard
-            motorName={data?.motor?.name ?? 'Unknown Motor'}
-            healthScore={data?.latestReading?.healthIndex ?? data?.latestHealth?.healthScoreMl ?? 0}
-            status={getMotorStatus(data?.latestReading?.healthIndex ?? data?.latestHealth?.healthScoreMl)}
+            motorName={motorName}
+            healthScore={healthScore ?? 0}
+            healthConfidence={data?.latestReading?.healthConfidence}
+            status={getMotorStatus(healthScore, healthCategory)}
             operatingHoursToday={data?.operatingHoursToday ?? 0} // Real-time dari Firebase
             dailyEnergy={data?.dailyEnergyKwh ?? 0} // Real-time dihitung dari V × I × PF
+            insulationAging={insulationAging}
           />
         </div>
 
@@ -226,7 +148,10 @@ export default function DashboardPage() {
             powerFactor={data?.latestReading?.powerFactor ?? 1}
             gridFrequency={data?.latestReading?.gridFrequency ?? 50}
             dustDensity={data?.latestReading?.dustDensity ?? 0}
-            healthScore={data?.latestReading?.healthIndex ?? data?.latestHealth?.healthScoreMl ?? 100}
+            healthScore={healthScore}
+            healthCategory={healthCategory ?? (healthScore === undefined ? 'Unknown' : undefined)}
+            healthConfidence={data?.latestReading?.healthConfidence}
+            thresholds={thresholds}
           />
         </div>
 
@@ -238,24 +163,28 @@ export default function DashboardPage() {
               parameter={'gridVoltage' as ParameterType}
               value={data?.latestReading?.gridVoltage ?? 0}
               history={getHistory('gridVoltage')}
+              thresholds={thresholds}
             />
 
             <SensorStatusCard
               parameter={'motorCurrent' as ParameterType}
               value={data?.latestReading?.motorCurrent ?? 0}
               history={getHistory('motorCurrent')}
+              thresholds={thresholds}
             />
 
             <SensorStatusCard
               parameter={'vibrationRms' as ParameterType}
               value={data?.latestReading?.vibrationRms ?? 0}
               history={getHistory('vibrationRms')}
+              thresholds={thresholds}
             />
 
             <SensorStatusCard
               parameter={'motorSurfaceTemp' as ParameterType}
               value={data?.latestReading?.motorSurfaceTemp ?? 0}
               history={getHistory('motorSurfaceTemp')}
+              thresholds={thresholds}
             />
           </div>
 
@@ -266,6 +195,7 @@ export default function DashboardPage() {
                 parameter={'powerFactor' as ParameterType}
                 value={data.latestReading.powerFactor}
                 history={getHistory('powerFactor')}
+                thresholds={thresholds}
               />
             )}
 
@@ -274,6 +204,7 @@ export default function DashboardPage() {
                 parameter={'gridFrequency' as ParameterType}
                 value={data.latestReading.gridFrequency}
                 history={getHistory('gridFrequency')}
+                thresholds={thresholds}
               />
             )}
 
@@ -282,6 +213,7 @@ export default function DashboardPage() {
                 parameter={'bearingTemp' as ParameterType}
                 value={data.latestReading.bearingTemp}
                 history={getHistory('bearingTemp')}
+                thresholds={thresholds}
               />
             )}
 
@@ -290,6 +222,7 @@ export default function DashboardPage() {
                 parameter={'dustDensity' as ParameterType}
                 value={data.latestReading.dustDensity}
                 history={getHistory('dustDensity')}
+                thresholds={thresholds}
               />
             )}
           </div>
@@ -304,6 +237,7 @@ export default function DashboardPage() {
             loadIndex={data?.latestReading?.loadIndex ?? 0}
             currentFreqRatio={data?.latestReading?.currentFreqRatio ?? 0}
             energy={data?.latestReading?.dailyEnergyKwh ?? 0}
+            thresholds={thresholds}
           />
         </div>
 
@@ -319,6 +253,8 @@ export default function DashboardPage() {
               tempGradient={data?.latestReading?.tempGradient}
               bearingMotorTempDiff={data?.latestReading?.bearingMotorTempDiff}
               hotspot={data?.latestReading?.hotspot}
+              thresholds={thresholds}
+              thermalClass={motorConfig ? thermalClassFor(motorConfig) : null}
             />
 
             <VibrationPanel
@@ -328,27 +264,27 @@ export default function DashboardPage() {
               bearingHealthScore={data?.latestReading?.bearingHealthScore ?? 0}
               vibrationPeakG={data?.latestReading?.vibrationPeakG}
               crestFactor={data?.latestReading?.crestFactor}
+              thresholds={thresholds}
+              vibrationClass={motorConfig ? vibrationClassFor(motorConfig) : null}
             />
 
             <DustPanel
               dustDensity={data?.latestReading?.dustDensity ?? 0}
               soilingLossPercent={data?.latestReading?.soilingLossPercent ?? 0}
+              thresholds={thresholds}
             />
           </div>
         </div>
 
-        {/* Alerts (SIMPLE) */}
+        {/* Alerts */}
         <div className="mb-6">
+          {alertsError && (
+            <p className="text-sm text-status-critical mb-2">{alertsError}</p>
+          )}
           <AlertList
-            alerts={simpleAlerts.map((a) => ({
-              id: a.id,
-              severity: a.severity,
-              message: a.message,
-              status: a.status,
-              timestamp: a.timestamp,
-              parameter: a.parameter,
-              value: a.value,
-            }))}
+            alerts={activeAlerts.map(toListAlert)}
+            onAcknowledge={(id) => actOnAlert(id, 'acknowledge')}
+            onClose={(id) => actOnAlert(id, 'close')}
           />
         </div>
       </div>
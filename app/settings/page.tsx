@@ -1,20 +1,194 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { notifyMotorUpdated, type MotorConfig } from '@/hooks/useMotorConfig';
+import { DEFAULT_MOTOR_ID, validateMotorConfig, type MotorConfigInput } from '@/lib/motorConfig';
+import {
+  FOUNDATION_TYPES,
+  MACHINE_GROUPS,
+  MACHINE_GROUP_LABELS,
+  describeVibrationClass,
+  machineGroupFor,
+  vibrationClassFor,
+} from '@/lib/vibrationSeverity';
+import {
+  INSULATION_CLASSES,
+  INSULATION_CLASS_LABELS,
+  classTempRise,
+  describeThermalClass,
+  thermalClassFor,
+  type InsulationClass,
+} from '@/lib/thermalClass';
+import { ThresholdEditor } from '@/components/ThresholdEditor';
+import { AlertRuleBuilder } from '@/components/AlertRuleBuilder';
+import { BaselinePanel } from '@/components/BaselinePanel';
+import { BearingPanel } from '@/components/BearingPanel';
+
+type FormField = keyof MotorConfigInput;
+type FormState = Record<FormField, string>;
+
+const NEW_MOTOR = '__new__';
+
+const EMPTY_FORM: FormState = {
+  name: '',
+  location: '',
+  ratedPower: '',
+  ratedCurrent: '',
+  ratedVoltage: '',
+  pollingIntervalSec: '2',
+  alertEmail: '',
+  machineGroup: '',
+  foundationType: 'rigid',
+  insulationClass: 'F',
+  ratedTempRise: '',
+};
+
+function toForm(motor: MotorConfig): FormState {
+  return {
+    name: motor.name,
+    location: motor.location,
+    ratedPower: String(motor.ratedPower),
+    ratedCurrent: String(motor.ratedCurrent),
+    ratedVoltage: String(motor.ratedVoltage),
+    pollingIntervalSec: String(motor.pollingIntervalSec),
+    alertEmail: motor.alertEmail ?? '',
+    machineGroup: motor.machineGroup ?? '',
+    foundationType: motor.foundationType,
+    insulationClass: motor.insulationClass,
+    ratedTempRise: motor.ratedTempRise === null ? '' : String(motor.ratedTempRise),
+  };
+}
 
 export default function SettingsPage() {
-  const [motorName, setMotorName] = useState('Motor Utama Lantai 2');
-  const [location, setLocation] = useState('Workshop Area A');
-  const [ratedPower, setRatedPower] = useState('7.5');
-  const [ratedCurrent, setRatedCurrent] = useState('15');
-  const [ratedVoltage, setRatedVoltage] = useState('380');
-  const [pollingInterval, setPollingInterval] = useState('2');
-  const [alertEmail, setAlertEmail] = useState('admin@example.com');
-  
-  const handleSave = () => {
-    // TODO: Implement save to database
-    alert('Settings saved! (Note: This is a dummy action for now)');
+  const [motors, setMotors] = useState<MotorConfig[]>([]);
+  const [selectedId, setSelectedId] = useState<string>(DEFAULT_MOTOR_ID);
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<FormField, string>>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const isNew = selectedId === NEW_MOTOR;
+
+  // Load all motors once; select the default motor (or the first one)
+  useEffect(() => {
+    const loadMotors = async () => {
+      try {
+        const response = await fetch('/api/motors');
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to load motors');
+        setMotors(result.motors);
+        if (result.motors.length === 0) {
+          setSelectedId(NEW_MOTOR);
+        } else if (!result.motors.some((m: MotorConfig) => m.id === DEFAULT_MOTOR_ID)) {
+          setSelectedId(result.motors[0].id);
+        }
+      } catch (err) {
+        setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to load motors' });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadMotors();
+  }, []);
+
+  useEffect(() => {
+    const selected = motors.find((m) => m.id === selectedId);
+    setForm(selected ? toForm(selected) : EMPTY_FORM);
+    setFieldErrors({});
+  }, [selectedId, motors]);
+
+  const updateField = (field: FormField) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setForm((prev) => ({ ...prev, [field]: e.target.value }));
+    setFieldErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const showErrors = (errors: { field: FormField; message: string }[]) => {
+    const byField: Partial<Record<FormField, string>> = {};
+    for (const error of errors) byField[error.field] = error.message;
+    setFieldErrors(byField);
+    setMessage({ type: 'error', text: 'Please fix the highlighted fields' });
   };
+
+  const handleSave = async () => {
+    setMessage(null);
+
+    // Same validation as the API, so mistakes show up before the request
+    const validation = validateMotorConfig(form);
+    if (!validation.ok) {
+      showErrors(validation.errors);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(isNew ? '/api/motors' : `/api/motors/${encodeURIComponent(selectedId)}`, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(validation.data),
+      });
+      const result = await response.json();
+
+      if (response.status === 422 && result.errors) {
+        showErrors(result.errors);
+        return;
+      }
+      if (!response.ok) throw new Error(result.error || 'Failed to save settings');
+
+      const saved: MotorConfig = result.motor;
+      setMotors((prev) => (isNew ? [...prev, saved] : prev.map((m) => (m.id === saved.id ? saved : m))));
+      setSelectedId(saved.id);
+      notifyMotorUpdated(saved);
+      setMessage({ type: 'success', text: isNew ? 'Motor created' : 'Settings saved' });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to save settings' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (isNew) return;
+    if (!confirm(`Delete ${form.name}? All readings, alerts and devices of this motor will be removed.`)) return;
+    const token = window.prompt('Admin token (DEVICE_ADMIN_TOKEN):');
+    if (!token) return;
+
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/motors/${encodeURIComponent(selectedId)}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to delete motor');
+
+      const remaining = motors.filter((m) => m.id !== selectedId);
+      setMotors(remaining);
+      setSelectedId(remaining[0]?.id ?? NEW_MOTOR);
+      setMessage({ type: 'success', text: 'Motor deleted' });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to delete motor' });
+    }
+  };
+
+  const inputClass = (field: FormField) =>
+    `w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary ${
+      fieldErrors[field] ? 'border-status-critical' : 'border-gray-300'
+    }`;
+
+  const fieldError = (field: FormField) =>
+    fieldErrors[field] ? <p className="text-xs text-status-critical mt-1">{fieldErrors[field]}</p> : null;
+  
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-primary mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading settings...</p>
+        </div>
+      </div>
+    );
+  }
   
   return (
     <div className="min-h-screen bg-lightgray">
@@ -24,6 +198,14 @@ export default function SettingsPage() {
           <h1 className="text-3xl font-bold text-gray-800">Settings</h1>
           <p className="text-gray-600 mt-1">Konfigurasi sistem monitoring dan motor</p>
         </div>
+
+        {message && (
+          <div className={`card mb-6 border-l-4 ${message.type === 'success' ? 'border-status-normal' : 'border-status-critical'}`}>
+            <p className={message.type === 'success' ? 'text-status-normal font-medium' : 'text-status-critical font-medium'}>
+              {message.text}
+            </p>
+          </div>
+        )}
         
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Motor Configuration */}
@@ -38,16 +220,33 @@ export default function SettingsPage() {
               </h2>
               
               <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Motor
+                  </label>
+                  <select
+                    value={selectedId}
+                    onChange={(e) => setSelectedId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    {motors.map((m) => (
+                      <option key={m.id} value={m.id}>{m.name} ({m.id})</option>
+                    ))}
+                    <option value={NEW_MOTOR}>+ Add new motor</option>
+                  </select>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Motor Name
                   </label>
                   <input
                     type="text"
-                    value={motorName}
-                    onChange={(e) => setMotorName(e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                    value={form.name}
+                    onChange={updateField('name')}
+                    className={inputClass('name')}
                   />
+                  {fieldError('name')}
                 </div>
                 
                 <div>
@@ -56,10 +255,11 @@ export default function SettingsPage() {
                   </label>
                   <input
                     type="text"
-                    value={location}
-                    onChange={(e) => setLocation(e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                    value={form.location}
+                    onChange={updateField('location')}
+                    className={inputClass('location')}
                   />
+                  {fieldError('location')}
                 </div>
                 
                 <div className="grid grid-cols-3 gap-4">
@@ -69,10 +269,11 @@ export default function SettingsPage() {
                     </label>
                     <input
                       type="number"
-                      value={ratedPower}
-                      onChange={(e) => setRatedPower(e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                      value={form.ratedPower}
+                      onChange={updateField('ratedPower')}
+                      className={inputClass('ratedPower')}
                     />
+                    {fieldError('ratedPower')}
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -80,10 +281,11 @@ export default function SettingsPage() {
                     </label>
                     <input
                       type="number"
-                      value={ratedCurrent}
-                      onChange={(e) => setRatedCurrent(e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                      value={form.ratedCurrent}
+                      onChange={updateField('ratedCurrent')}
+                      className={inputClass('ratedCurrent')}
                     />
+                    {fieldError('ratedCurrent')}
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -91,12 +293,96 @@ export default function SettingsPage() {
                     </label>
                     <input
                       type="number"
-                      value={ratedVoltage}
-                      onChange={(e) => setRatedVoltage(e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                      value={form.ratedVoltage}
+                      onChange={updateField('ratedVoltage')}
+                      className={inputClass('ratedVoltage')}
+                    />
+                    {fieldError('ratedVoltage')}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Machine Group (ISO 10816)
+                    </label>
+                    <select
+                      value={form.machineGroup}
+                      onChange={updateField('machineGroup')}
+                      className={inputClass('machineGroup')}
+                    >
+                      <option value="">
+                        Auto{Number(form.ratedPower) > 0 ? ` - ${MACHINE_GROUP_LABELS[machineGroupFor(Number(form.ratedPower))]}` : ''}
+                      </option>
+                      {MACHINE_GROUPS.map((group) => (
+                        <option key={group} value={group}>{MACHINE_GROUP_LABELS[group]}</option>
+                      ))}
+                    </select>
+                    {fieldError('machineGroup')}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Foundation
+                    </label>
+                    <select
+                      value={form.foundationType}
+                      onChange={updateField('foundationType')}
+                      className={inputClass('foundationType')}
+                    >
+                      {FOUNDATION_TYPES.map((type) => (
+                        <option key={type} value={type}>{type === 'rigid' ? 'Rigid' : 'Flexible'}</option>
+                      ))}
+                    </select>
+                    {fieldError('foundationType')}
+                  </div>
+                </div>
+                {Number(form.ratedPower) > 0 && (
+                  <p className="text-xs text-gray-500">
+                    Zona getaran: {describeVibrationClass(vibrationClassFor({
+                      ratedPower: Number(form.ratedPower),
+                      machineGroup: form.machineGroup || null,
+                      foundationType: form.foundationType,
+                    }))}
+                  </p>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Insulation Class (IEC 60034-1)
+                    </label>
+                    <select
+                      value={form.insulationClass}
+                      onChange={updateField('insulationClass')}
+                      className={inputClass('insulationClass')}
+                    >
+                      {INSULATION_CLASSES.map((cls) => (
+                        <option key={cls} value={cls}>{INSULATION_CLASS_LABELS[cls]}</option>
+                      ))}
+                    </select>
+                    {fieldError('insulationClass')}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Rated Temperature Rise (K)
+                    </label>
+                    <input
+                      type="number"
+                      step="1"
+                      value={form.ratedTempRise}
+                      onChange={updateField('ratedTempRise')}
+                      placeholder={`Class rise: ${classTempRise(form.insulationClass as InsulationClass)}`}
+                      className={inputClass('ratedTempRise')}
                     />
+                    {fieldError('ratedTempRise')}
                   </div>
                 </div>
+                <p className="text-xs text-gray-500">
+                  Batas suhu: {describeThermalClass(thermalClassFor({
+                    insulationClass: form.insulationClass,
+                    ratedTempRise: form.ratedTempRise === '' ? null : Number(form.ratedTempRise),
+                  }))}
+                </p>
               </div>
             </div>
             
@@ -116,10 +402,11 @@ export default function SettingsPage() {
                   </label>
                   <input
                     type="number"
-                    value={pollingInterval}
-                    onChange={(e) => setPollingInterval(e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                    value={form.pollingIntervalSec}
+                    onChange={updateField('pollingIntervalSec')}
+                    className={inputClass('pollingIntervalSec')}
                   />
+                  {fieldError('pollingIntervalSec')}
                   <p className="text-xs text-gray-500 mt-1">
                     Frekuensi refresh data dari server (default: 2 detik)
                   </p>
@@ -131,10 +418,11 @@ export default function SettingsPage() {
                   </label>
                   <input
                     type="email"
-                    value={alertEmail}
-                    onChange={(e) => setAlertEmail(e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                    value={form.alertEmail}
+                    onChange={updateField('alertEmail')}
+                    className={inputClass('alertEmail')}
                   />
+                  {fieldError('alertEmail')}
                   <p className="text-xs text-gray-500 mt-1">
                     Email untuk notifikasi alert kritis
                   </p>
@@ -175,15 +463,77 @@ export default function SettingsPage() {
                 Threshold Configuration
               </h2>
               <p className="text-sm text-gray-600 mb-4">
-                Custom threshold values untuk parameter monitoring (Coming Soon)
+                Batas warning/critical per parameter untuk motor ini. Nilai tanpa tanda Custom
+                memakai default sistem (arus dan tegangan mengikuti rating nameplate).
+                Deadband adalah margin yang harus dilewati sebelum alert ditutup otomatis.
               </p>
               
-              <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
-                <p className="text-sm text-gray-700">
-                  Fitur ini akan memungkinkan Anda untuk mengatur custom threshold untuk setiap parameter sensor.
-                  Saat ini menggunakan nilai default yang sudah dikonfigurasi di sistem.
-                </p>
-              </div>
+              {isNew ? (
+                <p className="text-sm text-gray-500">Simpan motor terlebih dahulu untuk mengatur threshold.</p>
+              ) : (
+                <ThresholdEditor motorId={selectedId} />
+              )}
+            </div>
+            
+            {/* Alert Rules */}
+            <div className="card">
+              <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+                <svg className="w-6 h-6 text-primary" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                </svg>
+                Alert Rules
+              </h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Alert gabungan beberapa parameter, misalnya vibrasi tinggi DAN suhu bearing tinggi.
+                Rule dievaluasi pada setiap data yang masuk; kondisi "is" memakai level threshold di atas.
+              </p>
+              
+              {isNew ? (
+                <p className="text-sm text-gray-500">Simpan motor terlebih dahulu untuk mengatur alert rule.</p>
+              ) : (
+                <AlertRuleBuilder motorId={selectedId} />
+              )}
+            </div>
+            
+            {/* Baseline */}
+            <div className="card">
+              <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+                <svg className="w-6 h-6 text-primary" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+                </svg>
+                Baseline
+              </h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Perilaku normal motor ini, dipelajari dari datanya sendiri. Pembacaan yang menyimpang jauh dari
+                baseline memicu alert "tidak normal untuk motor ini", terpisah dari batas aman di atas.
+                Lakukan re-baseline setelah maintenance.
+              </p>
+              
+              {isNew ? (
+                <p className="text-sm text-gray-500">Simpan motor terlebih dahulu untuk mempelajari baseline.</p>
+              ) : (
+                <BaselinePanel motorId={selectedId} />
+              )}
+            </div>
+            
+            {/* Bearings */}
+            <div className="card">
+              <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+                <svg className="w-6 h-6 text-primary" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 21a9 9 0 100-18 9 9 0 000 18zm0-5a4 4 0 100-8 4 4 0 000 8z" />
+                </svg>
+                Bearings
+              </h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Umur L10 (ISO 281) tiap bearing dari data katalog. Umur terpakai dihitung dari jam jalan motor
+                dan berkurang lebih cepat saat suhu bearing di atas 70 °C atau vibrasi di zona C/D.
+              </p>
+              
+              {isNew ? (
+                <p className="text-sm text-gray-500">Simpan motor terlebih dahulu untuk menambahkan bearing.</p>
+              ) : (
+                <BearingPanel motorId={selectedId} />
+              )}
             </div>
           </div>
           
@@ -211,7 +561,7 @@ export default function SettingsPage() {
                 <div className="text-gray-600">
                   <p>Motor ID:</p>
                   <code className="block mt-1 p-2 bg-gray-100 rounded text-xs">
-                    default-motor-1
+                    {isNew ? '(save the motor first)' : selectedId}
                   </code>
                 </div>
               </div>
@@ -245,10 +595,19 @@ export default function SettingsPage() {
               <div className="space-y-2">
                 <button
                   onClick={handleSave}
-                  className="w-full btn-primary"
+                  disabled={isSaving}
+                  className="w-full btn-primary disabled:opacity-50"
                 >
-                  Save Settings
+                  {isSaving ? 'Saving...' : isNew ? 'Create Motor' : 'Save Settings'}
                 </button>
+                {!isNew && (
+                  <button
+                    onClick={handleDelete}
+                    className="w-full px-4 py-2 bg-status-critical text-white rounded-md hover:opacity-90 transition-opacity font-semibold"
+                  >
+                    Delete Motor
+                  </button>
+                )}
                 <button
                   onClick={() => alert('Export feature coming soon!')}
                   className="w-full btn-secondary"
@@ -1,14 +1,18 @@
 "use client";
 
+import Link from "next/link";
 import { formatTime } from "@/lib/utils";
 import { Alert } from "@/types/alert";
+import { isRuleAlertParameter } from "@/lib/alertRules";
+import { isBaselineAlertParameter } from "@/lib/baseline";
 
 interface AlertListProps {
   alerts: Alert[];
   onAcknowledge?: (alertId: string) => void;
+  onClose?: (alertId: string) => void;
 }
 
-export function AlertList({ alerts, onAcknowledge }: AlertListProps) {
+export function AlertList({ alerts, onAcknowledge, onClose }: AlertListProps) {
   const sortedAlerts = [...alerts].sort(
     (a, b) => (b.timestamp ?? 0) - (a.timestamp ?? 0)
   );
@@ -30,6 +34,9 @@ export function AlertList({ alerts, onAcknowledge }: AlertListProps) {
           />
         </svg>
         Active Alerts
+        <Link href="/alerts" className="ml-auto text-xs font-medium text-primary hover:underline">
+          Riwayat
+        </Link>
       </h3>
 
       {sortedAlerts.length === 0 ? (
@@ -71,27 +78,52 @@ export function AlertList({ alerts, onAcknowledge }: AlertListProps) {
                     >
                       {alert.status ?? "-"}
                     </span>
+                    {alert.occurrences !== undefined && alert.occurrences > 1 && (
+                      <span className="text-xs text-gray-500">×{alert.occurrences}</span>
+                    )}
                   </div>
                   <p className="text-sm font-medium text-gray-800">
                     {alert.message}
                   </p>
-                  {alert.parameter && (
+                  {isRuleAlertParameter(alert.parameter) ? (
+                    <p className="text-xs text-gray-600 mt-1">Compound alert rule</p>
+                  ) : isBaselineAlertParameter(alert.parameter) ? (
+                    <p className="text-xs text-gray-600 mt-1">Abnormal for this motor (baseline)</p>
+                  ) : alert.parameter && (
                     <p className="text-xs text-gray-600 mt-1">
                       Parameter:{" "}
                       <span className="font-medium">{alert.parameter}</span> ={" "}
                       {alert.value}
+                      {alert.peakValue !== undefined && alert.peakValue !== null && alert.peakValue !== alert.value && (
+                        <> (peak {alert.peakValue})</>
+                      )}
+                    </p>
+                  )}
+                  {alert.status === "ACKNOWLEDGED" && alert.acknowledgedBy && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Acknowledged by {alert.acknowledgedBy}
                     </p>
                   )}
                 </div>
 
-                {alert.status === "OPEN" && onAcknowledge && (
-                  <button
-                    onClick={() => onAcknowledge(alert.id)}
-                    className="ml-2 px-3 py-1 text-xs font-medium bg-primary text-white rounded hover:bg-primary-dark transition-colors"
-                  >
-                    Acknowledge
-                  </button>
-                )}
+                <div className="ml-2 flex flex-col gap-1">
+                  {alert.status === "OPEN" && onAcknowledge && (
+                    <button
+                      onClick={() => onAcknowledge(alert.id)}
+                      className="px-3 py-1 text-xs font-medium bg-primary text-white rounded hover:bg-primary-dark transition-colors"
+                    >
+                      Acknowledge
+                    </button>
+                  )}
+                  {alert.status !== "CLOSED" && onClose && (
+                    <button
+                      onClick={() => onClose(alert.id)}
+                      className="px-3 py-1 text-xs font-medium bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+                    >
+                      Close
+                    </button>
+                  )}
+                </div>
               </div>
             </div>
           ))}
@@ -0,0 +1,396 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAlertRules } from '@/hooks/useAlertRules';
+import { useThresholds } from '@/hooks/useThresholds';
+import { PARAMETER_CONFIG, type ParameterType } from '@/lib/thresholds';
+import { formatDate } from '@/lib/utils';
+import {
+  READING_PARAMETERS,
+  RULE_COMPARATORS,
+  RULE_LEVELS,
+  RULE_SEVERITIES,
+  evaluateRule,
+  formatRuleExpression,
+  readingValues,
+  ruleParameters,
+  validateAlertRule,
+  type AlertRule,
+  type AlertRuleInput,
+  type RuleComparator,
+  type RuleExpression,
+  type RuleValues,
+} from '@/lib/alertRules';
+
+type Draft = AlertRuleInput & { id?: string };
+
+const PARAMETERS = Object.keys(PARAMETER_CONFIG) as ParameterType[];
+
+const NEW_CONDITION: RuleExpression = { op: 'compare', parameter: 'vibrationRms', comparator: '>', value: 4.5 };
+
+const NEW_RULE: Draft = {
+  name: '',
+  expression: { op: 'and', args: [NEW_CONDITION] },
+  severity: 'WARNING',
+  message: null,
+  enabled: true,
+};
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary text-sm';
+
+/** Match / No match / Unknown badge of a rule against the latest reading */
+function PreviewBadge({ result }: { result: boolean | null }) {
+  const style =
+    result === null
+      ? 'bg-gray-200 text-gray-600'
+      : result
+        ? 'bg-status-critical text-white'
+        : 'bg-status-normal text-white';
+  return (
+    <span className={`text-xs px-2 py-0.5 rounded-full ${style}`}>
+      {result === null ? 'Unknown' : result ? 'Match' : 'No match'}
+    </span>
+  );
+}
+
+interface ExpressionEditorProps {
+  node: RuleExpression;
+  onChange: (node: RuleExpression) => void;
+  onRemove?: () => void;
+}
+
+/**
+ * One node of the expression tree: a condition, or an AND/OR group of
+ * nodes. NOT wraps the node it is ticked on.
+ */
+function ExpressionEditor({ node, onChange, onRemove }: ExpressionEditorProps) {
+  const negated = node.op === 'not';
+  const inner = node.op === 'not' ? node.arg : node;
+  const update = (next: RuleExpression) => onChange(negated ? { op: 'not', arg: next } : next);
+
+  const notToggle = (
+    <label className="flex items-center gap-1 text-xs text-gray-600">
+      <input type="checkbox" checked={negated} onChange={() => onChange(negated ? inner : { op: 'not', arg: inner })} />
+      NOT
+    </label>
+  );
+  const removeButton = onRemove && (
+    <button onClick={onRemove} className="text-xs text-status-critical hover:underline">
+      Remove
+    </button>
+  );
+
+  if (inner.op === 'compare' || inner.op === 'level') {
+    const { unit } = PARAMETER_CONFIG[inner.parameter];
+
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        {notToggle}
+        <select
+          value={inner.parameter}
+          onChange={(e) => update({ ...inner, parameter: e.target.value as ParameterType })}
+          className={inputClass}
+        >
+          {PARAMETERS.map((parameter) => (
+            <option key={parameter} value={parameter}>
+              {PARAMETER_CONFIG[parameter].label}
+              {READING_PARAMETERS.includes(parameter) ? '' : ' (not stored)'}
+            </option>
+          ))}
+        </select>
+        <select
+          value={inner.op === 'level' ? 'is' : inner.comparator}
+          onChange={(e) =>
+            update(
+              e.target.value === 'is'
+                ? { op: 'level', parameter: inner.parameter, level: 'normal' }
+                : {
+                    op: 'compare',
+                    parameter: inner.parameter,
+                    comparator: e.target.value as RuleComparator,
+                    value: inner.op === 'compare' ? inner.value : 0,
+                  }
+            )
+          }
+          className={inputClass}
+        >
+          {RULE_COMPARATORS.map((comparator) => (
+            <option key={comparator} value={comparator}>{comparator}</option>
+          ))}
+          <option value="is">is</option>
+        </select>
+        {inner.op === 'level' ? (
+          <select
+            value={inner.level}
+            onChange={(e) => update({ ...inner, level: e.target.value as typeof inner.level })}
+            className={inputClass}
+          >
+            {RULE_LEVELS.map((level) => (
+              <option key={level} value={level}>{level}</option>
+            ))}
+          </select>
+        ) : (
+          <>
+            <input
+              type="number"
+              value={Number.isFinite(inner.value) ? inner.value : ''}
+              onChange={(e) => update({ ...inner, value: e.target.value === '' ? NaN : Number(e.target.value) })}
+              className={`${inputClass} w-24`}
+            />
+            <span className="text-xs text-gray-500">{unit}</span>
+          </>
+        )}
+        {removeButton}
+      </div>
+    );
+  }
+
+  if (inner.op === 'not') {
+    // Double negation typed into the API; edit the inner node
+    return <ExpressionEditor node={inner} onChange={update} onRemove={onRemove} />;
+  }
+
+  const setArg = (index: number, arg: RuleExpression) =>
+    update({ ...inner, args: inner.args.map((a, i) => (i === index ? arg : a)) });
+  const removeArg = (index: number) => update({ ...inner, args: inner.args.filter((_, i) => i !== index) });
+
+  return (
+    <div className="border-l-2 border-primary pl-3 py-1 space-y-2">
+      <div className="flex items-center gap-2">
+        {notToggle}
+        <select
+          value={inner.op}
+          onChange={(e) => update({ ...inner, op: e.target.value as 'and' | 'or' })}
+          className={inputClass}
+        >
+          <option value="and">ALL of (AND)</option>
+          <option value="or">ANY of (OR)</option>
+        </select>
+        {removeButton}
+      </div>
+      {inner.args.map((arg, index) => (
+        <ExpressionEditor
+          key={index}
+          node={arg}
+          onChange={(next) => setArg(index, next)}
+          onRemove={inner.args.length > 1 ? () => removeArg(index) : undefined}
+        />
+      ))}
+      <div className="flex gap-2">
+        <button
+          onClick={() => update({ ...inner, args: [...inner.args, NEW_CONDITION] })}
+          className="text-xs text-primary hover:underline"
+        >
+          + Condition
+        </button>
+        <button
+          onClick={() => update({ ...inner, args: [...inner.args, { op: 'and', args: [NEW_CONDITION] }] })}
+          className="text-xs text-primary hover:underline"
+        >
+          + Group
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface AlertRuleBuilderProps {
+  motorId: string;
+}
+
+/**
+ * Compound alert rules of a motor (Settings page), with a live preview of
+ * each rule against the motor's latest stored reading
+ */
+export function AlertRuleBuilder({ motorId }: AlertRuleBuilderProps) {
+  const { rules, isLoading, error, save, remove } = useAlertRules(motorId);
+  const { thresholds } = useThresholds(motorId);
+  const [latest, setLatest] = useState<{ values: RuleValues; timestamp: string } | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadLatest = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/latest?motorId=${encodeURIComponent(motorId)}`);
+      const result = await response.json();
+      setLatest(
+        response.ok && result.latestReading
+          ? { values: readingValues(result.latestReading), timestamp: result.latestReading.timestamp }
+          : null
+      );
+    } catch {
+      setLatest(null);
+    }
+  }, [motorId]);
+
+  useEffect(() => {
+    loadLatest();
+    setDraft(null);
+  }, [loadLatest]);
+
+  const preview = (expression: RuleExpression) =>
+    latest ? evaluateRule(expression, latest.values, thresholds) : null;
+
+  const validation = draft ? validateAlertRule(draft) : null;
+
+  const handleSave = async () => {
+    if (!draft || !validation?.ok) return;
+    setIsSaving(true);
+    setActionError(null);
+    try {
+      await save({ ...validation.data, id: draft.id });
+      setDraft(null);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to save alert rule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: AlertRule) => {
+    setActionError(null);
+    try {
+      await save({ id: rule.id, enabled: !rule.enabled });
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to update alert rule');
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (!confirm(`Hapus rule "${rule.name}"? Alert yang masih terbuka akan ditutup.`)) return;
+    setActionError(null);
+    try {
+      await remove(rule.id);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to delete alert rule');
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading alert rules...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {(error || actionError) && (
+        <p className="text-sm text-status-critical">{actionError ?? error}</p>
+      )}
+
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>
+          {latest
+            ? `Preview terhadap pembacaan terakhir (${formatDate(latest.timestamp)})`
+            : 'Belum ada pembacaan tersimpan untuk preview'}
+        </span>
+        <button onClick={loadLatest} className="text-primary hover:underline">Refresh</button>
+      </div>
+
+      {rules.length === 0 && !draft && (
+        <p className="text-sm text-gray-500">Belum ada alert rule untuk motor ini.</p>
+      )}
+
+      {rules.map((rule) => (
+        <div key={rule.id} className="p-3 border border-gray-200 rounded-lg">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <span className="font-medium text-gray-800">{rule.name}</span>
+              <span
+                className={`text-xs px-2 py-0.5 rounded text-white ${
+                  rule.severity === 'CRITICAL' ? 'bg-status-critical' : 'bg-status-warning'
+                }`}
+              >
+                {rule.severity}
+              </span>
+              {!rule.enabled && <span className="text-xs text-gray-400">disabled</span>}
+              <PreviewBadge result={preview(rule.expression)} />
+            </div>
+            <div className="flex gap-2 text-xs">
+              <button onClick={() => setDraft({ ...rule })} className="text-primary hover:underline">Edit</button>
+              <button onClick={() => handleToggle(rule)} className="text-gray-600 hover:underline">
+                {rule.enabled ? 'Disable' : 'Enable'}
+              </button>
+              <button onClick={() => handleDelete(rule)} className="text-status-critical hover:underline">Delete</button>
+            </div>
+          </div>
+          <p className="text-xs text-gray-600 mt-1">{formatRuleExpression(rule.expression)}</p>
+        </div>
+      ))}
+
+      {draft ? (
+        <div className="p-4 border border-primary rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input
+              type="text"
+              placeholder="Rule name, e.g. Bearing damage"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className={`${inputClass} md:col-span-2`}
+            />
+            <select
+              value={draft.severity}
+              onChange={(e) => setDraft({ ...draft, severity: e.target.value as Draft['severity'] })}
+              className={inputClass}
+            >
+              {RULE_SEVERITIES.map((severity) => (
+                <option key={severity} value={severity}>{severity}</option>
+              ))}
+            </select>
+          </div>
+          <input
+            type="text"
+            placeholder="Alert message (optional, defaults to the name)"
+            value={draft.message ?? ''}
+            onChange={(e) => setDraft({ ...draft, message: e.target.value || null })}
+            className={`${inputClass} w-full`}
+          />
+
+          <ExpressionEditor node={draft.expression} onChange={(expression) => setDraft({ ...draft, expression })} />
+
+          <div className="p-2 bg-gray-50 rounded text-xs text-gray-600 space-y-1">
+            <div className="flex items-center gap-2">
+              <span className="font-medium">Preview:</span>
+              {validation?.ok ? <PreviewBadge result={preview(draft.expression)} /> : <span>-</span>}
+            </div>
+            {validation?.ok && <p>{formatRuleExpression(draft.expression)}</p>}
+            {validation?.ok && latest && (
+              <p>
+                {ruleParameters(draft.expression)
+                  .map((parameter) => {
+                    const value = latest.values[parameter];
+                    const { label, unit } = PARAMETER_CONFIG[parameter];
+                    return `${label} = ${value === null || value === undefined ? 'n/a' : `${Number(value.toFixed(2))} ${unit}`}`;
+                  })
+                  .join(' · ')}
+              </p>
+            )}
+            {validation && !validation.ok && <p className="text-status-critical">{validation.error}</p>}
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !validation?.ok}
+              className="px-4 py-2 text-sm font-medium bg-primary text-white rounded hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : draft.id ? 'Save Rule' : 'Create Rule'}
+            </button>
+            <button
+              onClick={() => setDraft(null)}
+              className="px-4 py-2 text-sm font-medium bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setDraft(NEW_RULE)}
+          className="px-4 py-2 text-sm font-medium bg-primary text-white rounded hover:opacity-90 transition-opacity"
+        >
+          + New Rule
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useMotorBaseline } from '@/hooks/useMotorBaseline';
+import { PARAMETER_CONFIG } from '@/lib/thresholds';
+import { formatDate } from '@/lib/utils';
+import {
+  BASELINE_PARAMETERS,
+  DEFAULT_CRITICAL_Z,
+  DEFAULT_LOAD_BAND_EDGES,
+  DEFAULT_TRAINING_DAYS,
+  DEFAULT_WARNING_Z,
+  type MotorBaseline,
+} from '@/lib/baseline';
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary text-sm';
+
+/** Value for a datetime-local input, in local time */
+function toLocalInput(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+function defaultWindow() {
+  const end = new Date();
+  const start = new Date(end.getTime() - DEFAULT_TRAINING_DAYS * 24 * 60 * 60 * 1000);
+  return { start: toLocalInput(start), end: toLocalInput(end) };
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(2)));
+}
+
+function StatisticsTable({ baseline, band }: { baseline: MotorBaseline; band: number | null }) {
+  const parameters = band === null ? baseline.statistics.overall : baseline.statistics.bands[band]?.parameters ?? {};
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+            <th className="py-2 pr-2">Parameter</th>
+            <th className="py-2 pr-2">Median</th>
+            <th className="py-2 pr-2">P5 - P95</th>
+            <th className="py-2 pr-2">MAD</th>
+            <th className="py-2">Samples</th>
+          </tr>
+        </thead>
+        <tbody>
+          {BASELINE_PARAMETERS.map((parameter) => {
+            const stats = parameters[parameter];
+            const { label, unit } = PARAMETER_CONFIG[parameter];
+            return (
+              <tr key={parameter} className="border-b border-gray-100">
+                <td className="py-1.5 pr-2 text-gray-800">{label}</td>
+                {stats ? (
+                  <>
+                    <td className="py-1.5 pr-2">{formatNumber(stats.median)} {unit}</td>
+                    <td className="py-1.5 pr-2">{formatNumber(stats.p05)} - {formatNumber(stats.p95)}</td>
+                    <td className="py-1.5 pr-2">{formatNumber(stats.mad)}</td>
+                    <td className="py-1.5">{stats.count}</td>
+                  </>
+                ) : (
+                  <td colSpan={4} className="py-1.5 text-xs text-gray-400">
+                    {band === null ? 'Not learned (too few readings)' : 'Uses the overall baseline'}
+                  </td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+interface BaselinePanelProps {
+  motorId: string;
+}
+
+/**
+ * Adaptive baseline of a motor (Settings page): the statistics of the active
+ * version, its history, and a form to learn a new version from a window
+ */
+export function BaselinePanel({ motorId }: BaselinePanelProps) {
+  const { active, versions, isLoading, error, train, deactivate } = useMotorBaseline(motorId);
+  const [trainingWindow, setTrainingWindow] = useState(defaultWindow);
+  const [loadBands, setLoadBands] = useState(true);
+  const [warningZ, setWarningZ] = useState(String(DEFAULT_WARNING_Z));
+  const [criticalZ, setCriticalZ] = useState(String(DEFAULT_CRITICAL_Z));
+  const [note, setNote] = useState('');
+  const [band, setBand] = useState<number | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [isTraining, setIsTraining] = useState(false);
+
+  useEffect(() => {
+    setBand(null);
+  }, [active?.id]);
+
+  const handleTrain = async () => {
+    const replaces = active ? ` Baseline versi ${active.version} akan diganti dan alert-nya ditutup.` : '';
+    if (!confirm(`Pelajari baseline baru dari data ${trainingWindow.start.replace('T', ' ')} s/d ${trainingWindow.end.replace('T', ' ')}?${replaces}`)) {
+      return;
+    }
+    setIsTraining(true);
+    setActionError(null);
+    try {
+      await train({
+        trainingStart: new Date(trainingWindow.start).toISOString(),
+        trainingEnd: new Date(trainingWindow.end).toISOString(),
+        loadBands,
+        warningZ: Number(warningZ),
+        criticalZ: Number(criticalZ),
+        note: note || undefined,
+      });
+      setNote('');
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to train baseline');
+    } finally {
+      setIsTraining(false);
+    }
+  };
+
+  const handleDeactivate = async () => {
+    if (!active || !confirm(`Nonaktifkan baseline versi ${active.version}? Alert baseline yang terbuka akan ditutup.`)) return;
+    setActionError(null);
+    try {
+      await deactivate();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to deactivate baseline');
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading baseline...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {(error || actionError) && (
+        <p className="text-sm text-status-critical">{actionError ?? error}</p>
+      )}
+
+      {active ? (
+        <div className="space-y-3">
+          <div className="flex items-start justify-between gap-2">
+            <div className="text-sm text-gray-700">
+              <p>
+                <span className="font-medium">Version {active.version}</span> · {active.sampleCount} readings from{' '}
+                {formatDate(active.trainingStart)} to {formatDate(active.trainingEnd)}
+              </p>
+              <p className="text-xs text-gray-500">
+                Warning at |z| ≥ {active.warningZ}, critical at |z| ≥ {active.criticalZ}
+                {active.note && <> · {active.note}</>}
+              </p>
+            </div>
+            <button onClick={handleDeactivate} className="text-xs text-status-critical hover:underline">
+              Deactivate
+            </button>
+          </div>
+
+          {active.statistics.bands.length > 0 && (
+            <div className="flex flex-wrap gap-2 text-xs">
+              {[null, ...active.statistics.bands.map((_, i) => i)].map((index) => (
+                <button
+                  key={index ?? 'overall'}
+                  onClick={() => setBand(index)}
+                  className={`px-2 py-1 rounded ${band === index ? 'bg-primary text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                >
+                  {index === null ? 'All loads' : `Load ${active.statistics.bands[index].label}`}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <StatisticsTable baseline={active} band={band} />
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">
+          Belum ada baseline aktif. Pilih periode saat motor berjalan normal untuk mempelajarinya.
+        </p>
+      )}
+
+      <div className="p-4 border border-gray-200 rounded-lg space-y-3">
+        <h3 className="text-sm font-medium text-gray-800">{active ? 'Re-baseline' : 'Train Baseline'}</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+          <label className="space-y-1">
+            <span className="block text-xs text-gray-600">Training start</span>
+            <input
+              type="datetime-local"
+              value={trainingWindow.start}
+              onChange={(e) => setTrainingWindow({ ...trainingWindow, start: e.target.value })}
+              className={`${inputClass} w-full`}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block text-xs text-gray-600">Training end</span>
+            <input
+              type="datetime-local"
+              value={trainingWindow.end}
+              onChange={(e) => setTrainingWindow({ ...trainingWindow, end: e.target.value })}
+              className={`${inputClass} w-full`}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block text-xs text-gray-600">Warning |z|</span>
+            <input
+              type="number"
+              step="0.5"
+              value={warningZ}
+              onChange={(e) => setWarningZ(e.target.value)}
+              className={`${inputClass} w-full`}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block text-xs text-gray-600">Critical |z|</span>
+            <input
+              type="number"
+              step="0.5"
+              value={criticalZ}
+              onChange={(e) => setCriticalZ(e.target.value)}
+              className={`${inputClass} w-full`}
+            />
+          </label>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={loadBands} onChange={(e) => setLoadBands(e.target.checked)} />
+          Separate baseline per load band ({DEFAULT_LOAD_BAND_EDGES.join(' / ')}% of rated current)
+        </label>
+        <input
+          type="text"
+          placeholder="Note, e.g. After bearing replacement"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className={`${inputClass} w-full`}
+        />
+        <button
+          onClick={handleTrain}
+          disabled={isTraining}
+          className="px-4 py-2 text-sm font-medium bg-primary text-white rounded hover:opacity-90 transition-opacity disabled:opacity-50"
+        >
+          {isTraining ? 'Training...' : active ? 'Re-baseline' : 'Train Baseline'}
+        </button>
+      </div>
+
+      {versions.some((version) => version.status !== 'ACTIVE') && (
+        <div className="text-xs text-gray-600 space-y-1">
+          <p className="font-medium text-gray-700">History</p>
+          {versions
+            .filter((version) => version.status !== 'ACTIVE')
+            .map((version) => (
+              <p key={version.id}>
+                v{version.version} · {formatDate(version.trainingStart)} - {formatDate(version.trainingEnd)} ·{' '}
+                {version.sampleCount} readings
+                {version.note && <> · {version.note}</>}
+                {version.supersededAt && <> · replaced {formatDate(version.supersededAt)}</>}
+              </p>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+'use client';
+
+import { useState } from 'react';
+import { useBearings, type BearingRequest } from '@/hooks/useBearings';
+import { formatDate, formatNumber } from '@/lib/utils';
+import { BEARING_TYPES, BEARING_TYPE_LABELS, type BearingComponent, type BearingType } from '@/lib/bearingLife';
+
+interface Draft {
+  id?: string;
+  position: string;
+  designation: string;
+  bearingType: BearingType;
+  dynamicLoadRating: string;
+  equivalentLoad: string;
+  speedRpm: string;
+  installedAt: string;
+}
+
+const NEW_BEARING: Draft = {
+  position: 'Drive end',
+  designation: '',
+  bearingType: 'ball',
+  dynamicLoadRating: '',
+  equivalentLoad: '',
+  speedRpm: '1450',
+  installedAt: '',
+};
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary text-sm';
+
+function toDraft(bearing: BearingComponent): Draft {
+  return {
+    id: bearing.id,
+    position: bearing.position,
+    designation: bearing.designation ?? '',
+    bearingType: bearing.bearingType,
+    dynamicLoadRating: String(bearing.dynamicLoadRating),
+    equivalentLoad: String(bearing.equivalentLoad),
+    speedRpm: String(bearing.speedRpm),
+    installedAt: bearing.installedAt.slice(0, 10),
+  };
+}
+
+function toRequest(draft: Draft): BearingRequest & { id?: string } {
+  return {
+    id: draft.id,
+    position: draft.position,
+    designation: draft.designation || null,
+    bearingType: draft.bearingType,
+    dynamicLoadRating: Number(draft.dynamicLoadRating),
+    equivalentLoad: Number(draft.equivalentLoad),
+    speedRpm: Number(draft.speedRpm),
+    installedAt: new Date(draft.installedAt).toISOString(),
+  };
+}
+
+/** Life consumed bar: green, amber from 70%, red from 90% */
+function LifeBar({ percent }: { percent: number }) {
+  const color = percent >= 90 ? 'bg-status-critical' : percent >= 70 ? 'bg-status-warning' : 'bg-status-normal';
+  return (
+    <div className="w-full bg-gray-200 rounded-full h-2">
+      <div className={`h-2 rounded-full ${color}`} style={{ width: `${Math.min(100, percent)}%` }}></div>
+    </div>
+  );
+}
+
+interface BearingPanelProps {
+  motorId: string;
+}
+
+/**
+ * Bearings of a motor (Settings page): L10 rating, consumed and remaining
+ * life of each, and a form to add, edit or replace them
+ */
+export function BearingPanel({ motorId }: BearingPanelProps) {
+  const { bearings, isLoading, error, save, remove } = useBearings(motorId);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    setActionError(null);
+    try {
+      await save(toRequest(draft));
+      setDraft(null);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to save bearing');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReplace = async (bearing: BearingComponent) => {
+    if (!confirm(`Bearing ${bearing.position} diganti hari ini? Umur terpakai dihitung ulang dari nol.`)) return;
+    setActionError(null);
+    try {
+      await save({ id: bearing.id, installedAt: new Date().toISOString() });
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to replace bearing');
+    }
+  };
+
+  const handleRemove = async (bearing: BearingComponent) => {
+    if (!confirm(`Hapus bearing ${bearing.position}?`)) return;
+    setActionError(null);
+    try {
+      await remove(bearing.id);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to delete bearing');
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading bearings...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {(error || actionError) && (
+        <p className="text-sm text-status-critical">{actionError ?? error}</p>
+      )}
+
+      {bearings.length === 0 && !draft && (
+        <p className="text-sm text-gray-500">Belum ada bearing. Tambahkan bearing beserta data katalognya.</p>
+      )}
+
+      {bearings.map((bearing) => (
+        <div key={bearing.id} className="p-4 border border-gray-200 rounded-lg space-y-2">
+          <div className="flex items-start justify-between gap-2">
+            <div className="text-sm text-gray-700">
+              <p className="font-medium text-gray-800">
+                {bearing.position}
+                {bearing.designation && <span className="text-gray-500"> · {bearing.designation}</span>}
+              </p>
+              <p className="text-xs text-gray-500">
+                C {bearing.dynamicLoadRating} kN · P {bearing.equivalentLoad} kN · {bearing.speedRpm} rpm ·
+                installed {formatDate(bearing.installedAt)}
+              </p>
+            </div>
+            <div className="flex gap-3 text-xs">
+              <button onClick={() => setDraft(toDraft(bearing))} className="text-primary hover:underline">
+                Edit
+              </button>
+              <button onClick={() => handleReplace(bearing)} className="text-primary hover:underline">
+                Replaced
+              </button>
+              <button onClick={() => handleRemove(bearing)} className="text-status-critical hover:underline">
+                Delete
+              </button>
+            </div>
+          </div>
+          <LifeBar percent={bearing.lifeConsumedPercent} />
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs text-gray-600">
+            <span>L10: {formatNumber(bearing.l10Hours, 0)} h</span>
+            <span>Terpakai: {formatNumber(bearing.lifeConsumedPercent, 1)}%</span>
+            <span>Jam jalan: {formatNumber(bearing.runningHours, 1)} h</span>
+            <span>
+              Sisa: {formatNumber(bearing.remainingHours, 0)} h
+              {bearing.lifeFactor < 1 && <> (faktor {formatNumber(bearing.lifeFactor, 2)})</>}
+            </span>
+          </div>
+        </div>
+      ))}
+
+      {draft ? (
+        <div className="p-4 border border-gray-200 rounded-lg space-y-3">
+          <h3 className="text-sm font-medium text-gray-800">{draft.id ? 'Edit Bearing' : 'Add Bearing'}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+            <label className="space-y-1">
+              <span className="block text-xs text-gray-600">Position</span>
+              <input
+                type="text"
+                value={draft.position}
+                onChange={(e) => setDraft({ ...draft, position: e.target.value })}
+                className={`${inputClass} w-full`}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="block text-xs text-gray-600">Designation</span>
+              <input
+                type="text"
+                placeholder="e.g. 6205-2RS"
+                value={draft.designation}
+                onChange={(e) => setDraft({ ...draft, designation: e.target.value })}
+                className={`${inputClass} w-full`}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="block text-xs text-gray-600">Type</span>
+              <select
+                value={draft.bearingType}
+                onChange={(e) => setDraft({ ...draft, bearingType: e.target.value as BearingType })}
+                className={`${inputClass} w-full`}
+              >
+                {BEARING_TYPES.map((type) => (
+                  <option key={type} value={type}>{BEARING_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="block text-xs text-gray-600">Installed</span>
+              <input
+                type="date"
+                value={draft.installedAt}
+                onChange={(e) => setDraft({ ...draft, installedAt: e.target.value })}
+                className={`${inputClass} w-full`}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="block text-xs text-gray-600">Dynamic load rating C (kN)</span>
+              <input
+                type="number"
+                step="0.1"
+                value={draft.dynamicLoadRating}
+                onChange={(e) => setDraft({ ...draft, dynamicLoadRating: e.target.value })}
+                className={`${inputClass} w-full`}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="block text-xs text-gray-600">Equivalent load P (kN)</span>
+              <input
+                type="number"
+                step="0.01"
+                value={draft.equivalentLoad}
+                onChange={(e) => setDraft({ ...draft, equivalentLoad: e.target.value })}
+                className={`${inputClass} w-full`}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="block text-xs text-gray-600">Speed (rpm)</span>
+              <input
+                type="number"
+                step="1"
+                value={draft.speedRpm}
+                onChange={(e) => setDraft({ ...draft, speedRpm: e.target.value })}
+                className={`${inputClass} w-full`}
+              />
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-medium bg-primary text-white rounded hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save Bearing'}
+            </button>
+            <button
+              onClick={() => setDraft(null)}
+              className="px-4 py-2 text-sm font-medium bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setDraft({ ...NEW_BEARING, installedAt: new Date().toISOString().slice(0, 10) })}
+          className="px-4 py-2 text-sm font-medium bg-primary text-white rounded hover:opacity-90 transition-opacity"
+        >
+          + Add Bearing
+        </button>
+      )}
+    </div>
+  );
+}
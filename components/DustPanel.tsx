@@ -1,15 +1,15 @@
 'use client';
 
-import { getStatusColor } from '@/lib/thresholds';
+import { getStatusColor, type ThresholdProfiles } from '@/lib/thresholds';
 import { formatNumber } from '@/lib/utils';
 
 interface DustPanelProps {
   dustDensity: number;
-  soilingLossPercent: number;
+  soilingLossPercent: number;  thresholds?: ThresholdProfiles | null;
 }
 
-export function DustPanel({ dustDensity, soilingLossPercent }: DustPanelProps) {
-  const dustStatus = getStatusColor(dustDensity, 'dustDensity');
+export function DustPanel({ dustDensity, soilingLossPercent, thresholds }: DustPanelProps) {
+  const dustStatus = getStatusColor(dustDensity, 'dustDensity', thresholds);
   
   // Determine dust category
   const getDustCategory = (density: number) => {
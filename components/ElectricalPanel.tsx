@@ -1,6 +1,6 @@
 'use client';
 
-import { getStatusColor } from '@/lib/thresholds';
+import { getStatusColor, type ThresholdProfiles } from '@/lib/thresholds';
 import { formatNumber } from '@/lib/utils';
 
 interface ElectricalPanelProps {
@@ -8,7 +8,7 @@ interface ElectricalPanelProps {
   apparentPower: number;
   loadIndex: number;
   currentFreqRatio: number;
-  energy: number;
+  energy: number;  thresholds?: ThresholdProfiles | null;
 }
 
 export function ElectricalPanel({
@@ -17,10 +17,11 @@ export function ElectricalPanel({
   loadIndex,
   currentFreqRatio,
   energy,
+  thresholds,
 }: ElectricalPanelProps) {
-  const powerStatus = getStatusColor(power, 'power');
-  const apparentStatus = getStatusColor(apparentPower, 'apparentPower');
-  const loadStatus = getStatusColor(loadIndex, 'loadIndex');
+  const powerStatus = getStatusColor(power, 'power', thresholds);
+  const apparentStatus = getStatusColor(apparentPower, 'apparentPower', thresholds);
+  const loadStatus = getStatusColor(loadIndex, 'loadIndex', thresholds);
 
   // Calculate load percentage for progress bar (loadIndex is 0-1)
   const loadPercentage = Math.min(Math.max(loadIndex * 100, 0), 100);
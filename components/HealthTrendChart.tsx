@@ -0,0 +1,84 @@
+'use client';
+
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { useHealthHistory } from '@/hooks/useHealthHistory';
+import { AT_RISK_SCORE, HEALTHY_SCORE } from '@/lib/calculateHealthScore';
+import { formatDate, formatTime } from '@/lib/utils';
+
+interface HealthTrendChartProps {
+  motorId: string;
+  hours?: number;
+}
+
+/**
+ * Stored health score of a motor over time (AI Center), with the Healthy /
+ * At Risk bands and the detected sudden drops marked on the chart
+ */
+export function HealthTrendChart({ motorId, hours = 24 }: HealthTrendChartProps) {
+  const { analyses, changePoints, isLoading, error } = useHealthHistory(motorId, hours);
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading health history...</p>;
+  }
+  if (error) {
+    return <p className="text-sm text-status-critical">{error}</p>;
+  }
+  if (analyses.length === 0) {
+    return <p className="text-sm text-gray-500">Belum ada riwayat health score untuk {hours} jam terakhir.</p>;
+  }
+
+  // Unknown analyses are gaps in the line, not a score
+  const data = analyses.map((analysis) => ({
+    time: new Date(analysis.timestamp).getTime(),
+    score: analysis.category === 'Unknown' ? null : analysis.score,
+  }));
+
+  return (
+    <div className="space-y-3">
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              scale="time"
+              tickFormatter={(value) => formatTime(value)}
+            />
+            <YAxis domain={[0, 100]} />
+            <Tooltip
+              labelFormatter={(value) => formatDate(new Date(Number(value)))}
+              formatter={(value) => [typeof value === 'number' ? value.toFixed(0) : value, 'Health score']}
+            />
+            <ReferenceLine y={HEALTHY_SCORE} stroke="#10b981" strokeDasharray="4 4" />
+            <ReferenceLine y={AT_RISK_SCORE} stroke="#f59e0b" strokeDasharray="4 4" />
+            {changePoints.map((point) => (
+              <ReferenceLine
+                key={point.timestamp}
+                x={new Date(point.timestamp).getTime()}
+                stroke="#ef4444"
+                strokeDasharray="3 3"
+                label={{ value: `-${point.drop}`, position: 'top', fill: '#ef4444', fontSize: 12 }}
+              />
+            ))}
+            <Line type="monotone" dataKey="score" stroke="#1B3C53" strokeWidth={2} dot={false} connectNulls={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {changePoints.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-1">Penurunan mendadak:</p>
+          <ul className="space-y-1 text-sm text-gray-600">
+            {changePoints.map((point) => (
+              <li key={point.timestamp}>
+                <span className="text-status-critical font-medium">{formatDate(point.timestamp)}</span> — {point.explanation}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,8 @@ import { Suspense, useRef, useEffect } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import { OrbitControls, useGLTF, Environment, ContactShadows } from '@react-three/drei';
 import * as THREE from 'three';
-import { getStatusColor } from '@/lib/thresholds';
+import { getStatusColor, getThreshold, type ThresholdProfiles } from '@/lib/thresholds';
+import { getHealthCategoryColor, type HealthCategory } from '@/lib/calculateHealthScore';
 
 interface Motor3DModelProps {
   // Sensor data
@@ -18,6 +19,11 @@ interface Motor3DModelProps {
   gridFrequency?: number;
   dustDensity?: number;
   healthScore?: number;
+  // Unknown when too few fresh sensor values back the score
+  healthCategory?: HealthCategory;
+  healthConfidence?: number; // 0-1
+  // Motor's threshold profiles, defaults when omitted
+  thresholds?: ThresholdProfiles | null;
 }
 
 /**
@@ -44,6 +50,7 @@ function MotorModel({
   gridFrequency = 50,
   dustDensity = 0,
   healthScore = 100,
+  thresholds,
 }: Motor3DModelProps) {
   const gltf = useGLTF('/models/Motor.glb');
   const scene = gltf.scene;
@@ -60,12 +67,18 @@ function MotorModel({
   }, [scene]);
 
   // Calculate visual parameters based on sensor data
-  const tempStatus = getStatusColor(motorSurfaceTemp, 'motorSurfaceTemp');
-  const voltageStatus = getStatusColor(gridVoltage, 'gridVoltage');
-  const vibrationStatus = getStatusColor(vibrationRms, 'vibrationRms');
-  const currentStatus = getStatusColor(motorCurrent, 'motorCurrent');
-  const bearingStatus = getStatusColor(bearingTemp, 'bearingTemp');
-  const dustStatus = getStatusColor(dustDensity, 'dustDensity');
+  const tempStatus = getStatusColor(motorSurfaceTemp, 'motorSurfaceTemp', thresholds);
+  const voltageStatus = getStatusColor(gridVoltage, 'gridVoltage', thresholds);
+  const vibrationStatus = getStatusColor(vibrationRms, 'vibrationRms', thresholds);
+  const currentStatus = getStatusColor(motorCurrent, 'motorCurrent', thresholds);
+  const bearingStatus = getStatusColor(bearingTemp, 'bearingTemp', thresholds);
+  const dustStatus = getStatusColor(dustDensity, 'dustDensity', thresholds);
+
+  // Temperature limits of the motor (insulation class when rated)
+  const tempProfile = getThreshold('motorSurfaceTemp', thresholds);
+  const warningTemp = tempProfile.warningHigh ?? 70;
+  const criticalTemp = tempProfile.criticalHigh ?? 85;
+  const burnRange = Math.max(criticalTemp - warningTemp, 1) * 2;
 
   // Calculate RPM from frequency
   const rpm = (120 * gridFrequency) / 4; // 4-pole motor
@@ -76,11 +89,11 @@ function MotorModel({
     // Base color: Biru metalik industrial (seperti motor industri pada umumnya)
     // RGB: (0.2, 0.35, 0.5) = Biru metalik gelap yang elegan
     
-    // Burning effect untuk suhu tinggi (> 85°C atau critical)
-    if (motorSurfaceTemp > 85 || tempStatus.level === 'critical') {
+    // Burning effect untuk suhu tinggi (di atas batas critical)
+    if (tempStatus.level === 'critical') {
       // Burning effect - Merah terang seperti terbakar
       return new THREE.Color(0.9, 0.2, 0.1); // Bright red - burning effect
-    } else if (motorSurfaceTemp > 70 || tempStatus.level === 'warning') {
+    } else if (tempStatus.level === 'warning') {
       // Warning - Orange/merah untuk suhu tinggi
       return new THREE.Color(0.8, 0.4, 0.1); // Orange-red
     } else if (motorSurfaceTemp < 40) {
@@ -98,33 +111,36 @@ function MotorModel({
       // Voltage warning - sedikit orange pada biru
       return new THREE.Color(0.35, 0.4, 0.45); // Blue with orange tint
     } else {
-      // Normal (40-70°C) - Biru navy gelap metalik (elegan & profesional)
+      // Normal (40°C sampai batas warning) - Biru navy gelap metalik (elegan & profesional)
       // Warna seperti motor industri premium: Biru navy dengan efek metalik
       return new THREE.Color(0.15, 0.25, 0.4); // Navy blue metallic - elegan
     }
   };
 
   // Check if motor is burning (high temperature)
-  const isBurning = motorSurfaceTemp > 85 || tempStatus.level === 'critical';
+  const isBurning = tempStatus.level === 'critical';
   
   // Check if motor is cold (low temperature)
   const isCold = motorSurfaceTemp < 40;
 
-  // Vibration intensity (0-1) - Sesuai dengan threshold RMS
-  // Threshold: Normal < 2.8, Warning 2.8-4.5, Critical > 4.5 mm/s
+  // Vibration intensity (0-1) - Sesuai dengan threshold RMS motor (zona ISO 10816)
+  const vibrationProfile = getThreshold('vibrationRms', thresholds);
+  const warningRms = vibrationProfile.warningHigh ?? 2.8;
+  const criticalRms = vibrationProfile.criticalHigh ?? 4.5;
+  const maxRms = criticalRms * 2;
   let vibrationIntensity = 0;
-  if (vibrationRms >= 2.8 && vibrationRms <= 4.5) {
-    // Warning range: map 2.8-4.5 to 0.3-0.7
-    vibrationIntensity = 0.3 + ((vibrationRms - 2.8) / (4.5 - 2.8)) * 0.4;
-  } else if (vibrationRms > 4.5) {
-    // Critical range: map 4.5+ to 0.7-1.0 (dengan maksimal pada 10 mm/s)
-    const criticalRange = Math.min(vibrationRms, 10) - 4.5;
-    vibrationIntensity = 0.7 + (criticalRange / (10 - 4.5)) * 0.3;
+  if (vibrationRms >= warningRms && vibrationRms <= criticalRms) {
+    // Warning range (zona C): map ke 0.3-0.7
+    vibrationIntensity = 0.3 + ((vibrationRms - warningRms) / (criticalRms - warningRms)) * 0.4;
+  } else if (vibrationRms > criticalRms) {
+    // Critical range (zona D): map ke 0.7-1.0 (maksimal pada 2x batas C/D)
+    const criticalRange = Math.min(vibrationRms, maxRms) - criticalRms;
+    vibrationIntensity = 0.7 + (criticalRange / (maxRms - criticalRms)) * 0.3;
     vibrationIntensity = Math.min(vibrationIntensity, 1.0);
   }
-  // Normal range (< 2.8): vibrationIntensity tetap 0
+  // Normal range (zona A/B): vibrationIntensity tetap 0
   
-  const shouldVibrate = vibrationStatus.level !== 'normal' && vibrationRms >= 2.8;
+  const shouldVibrate = vibrationStatus.level !== 'normal' && vibrationRms >= warningRms;
 
   // Current glow intensity
   const currentIntensity = Math.min(motorCurrent / 10, 1);
@@ -183,7 +199,7 @@ function MotorModel({
           
           // Burning effect - Emissive glow merah/orange untuk suhu tinggi
           if (isBurning) {
-            const burnIntensity = Math.min((motorSurfaceTemp - 70) / 30, 1); // 0-1 based on temp
+            const burnIntensity = Math.min((motorSurfaceTemp - warningTemp) / burnRange, 1); // 0-1 based on temp
             child.material.emissive = new THREE.Color(0.8, 0.2, 0.1); // Red glow
             child.material.emissiveIntensity = 0.3 + (burnIntensity * 0.4); // 0.3-0.7 intensity
           } 
@@ -256,6 +272,8 @@ function MotorModel({
     dustOpacity,
     isBurning,
     isCold,
+    warningTemp,
+    burnRange,
     scene,
   ]);
 
@@ -269,7 +287,7 @@ function MotorModel({
     const currentSpeedMultiplier = gridFrequency >= 49.5 && gridFrequency <= 50.5 ? 1 : 0.5;
     
     // Recalculate burning status setiap frame
-    const currentIsBurning = motorSurfaceTemp > 85 || tempStatus.level === 'critical';
+    const currentIsBurning = tempStatus.level === 'critical';
     
     // Rotor rotation based on frequency (realtime)
     const rotationDelta = (currentRotationSpeed * currentSpeedMultiplier * delta * Math.PI * 2) / 60;
@@ -280,8 +298,8 @@ function MotorModel({
       const time = state.clock.elapsedTime;
       
       // Amplitudo getaran proporsional dengan intensitas dan nilai RMS
-      // Warning (2.8-4.5): amplitudo 0.03-0.06
-      // Critical (> 4.5): amplitudo 0.06-0.12
+      // Warning (zona C): amplitudo 0.03-0.06
+      // Critical (zona D): amplitudo 0.06-0.12
       const baseAmplitude = vibrationStatus.level === 'critical' ? 0.08 : 0.04;
       const vibrateAmount = baseAmplitude * vibrationIntensity;
       
@@ -312,7 +330,7 @@ function MotorModel({
     if (currentIsBurning && sceneRef.current) {
       const time = state.clock.elapsedTime;
       const pulseIntensity = Math.sin(time * 3) * 0.15 + 0.85; // Pulse antara 0.7-1.0
-      const burnIntensity = Math.min((motorSurfaceTemp - 70) / 30, 1);
+      const burnIntensity = Math.min((motorSurfaceTemp - warningTemp) / burnRange, 1);
       
       sceneRef.current.traverse((child: THREE.Object3D) => {
         if (child instanceof THREE.Mesh && child.material instanceof THREE.MeshStandardMaterial) {
@@ -359,8 +377,20 @@ export function Motor3DModel(props: Motor3DModelProps) {
     <div className="card p-6">
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-xl font-bold text-gray-800">3D Motor Visualization</h2>
-        <div className="text-sm text-gray-600">
-          Health Score: <span className="font-bold">{props.healthScore ? props.healthScore.toFixed(0) : '100'}</span>
+        <div className="text-sm text-gray-600 text-right">
+          {props.healthCategory === 'Unknown' || props.healthScore === undefined ? (
+            <>Health Score: <span className="font-bold text-gray-500">— Data tidak cukup</span></>
+          ) : (
+            <>
+              Health Score:{' '}
+              <span className={`font-bold ${getHealthCategoryColor(props.healthCategory ?? '')}`}>
+                {props.healthScore.toFixed(0)}
+              </span>
+            </>
+          )}
+          {props.healthConfidence !== undefined && (
+            <div className="text-xs text-gray-500">Confidence {(props.healthConfidence * 100).toFixed(0)}%</div>
+          )}
         </div>
       </div>
 
@@ -419,9 +449,9 @@ export function Motor3DModel(props: Motor3DModelProps) {
             className="w-3 h-3 rounded-full"
             style={{
               backgroundColor:
-                getStatusColor(props.motorSurfaceTemp || 25, 'motorSurfaceTemp').level === 'critical'
+                getStatusColor(props.motorSurfaceTemp || 25, 'motorSurfaceTemp', props.thresholds).level === 'critical'
                   ? '#ef4444'
-                  : getStatusColor(props.motorSurfaceTemp || 25, 'motorSurfaceTemp').level === 'warning'
+                  : getStatusColor(props.motorSurfaceTemp || 25, 'motorSurfaceTemp', props.thresholds).level === 'warning'
                   ? '#f59e0b'
                   : '#10b981',
             }}
@@ -433,9 +463,9 @@ export function Motor3DModel(props: Motor3DModelProps) {
             className="w-3 h-3 rounded-full"
             style={{
               backgroundColor:
-                getStatusColor(props.vibrationRms || 0, 'vibrationRms').level === 'critical'
+                getStatusColor(props.vibrationRms || 0, 'vibrationRms', props.thresholds).level === 'critical'
                   ? '#ef4444'
-                  : getStatusColor(props.vibrationRms || 0, 'vibrationRms').level === 'warning'
+                  : getStatusColor(props.vibrationRms || 0, 'vibrationRms', props.thresholds).level === 'warning'
                   ? '#f59e0b'
                   : '#10b981',
             }}
@@ -447,9 +477,9 @@ export function Motor3DModel(props: Motor3DModelProps) {
             className="w-3 h-3 rounded-full"
             style={{
               backgroundColor:
-                getStatusColor(props.gridVoltage || 220, 'gridVoltage').level === 'critical'
+                getStatusColor(props.gridVoltage || 220, 'gridVoltage', props.thresholds).level === 'critical'
                   ? '#ef4444'
-                  : getStatusColor(props.gridVoltage || 220, 'gridVoltage').level === 'warning'
+                  : getStatusColor(props.gridVoltage || 220, 'gridVoltage', props.thresholds).level === 'warning'
                   ? '#f59e0b'
                   : '#10b981',
             }}
@@ -461,9 +491,9 @@ export function Motor3DModel(props: Motor3DModelProps) {
             className="w-3 h-3 rounded-full"
             style={{
               backgroundColor:
-                getStatusColor(props.motorCurrent || 0, 'motorCurrent').level === 'critical'
+                getStatusColor(props.motorCurrent || 0, 'motorCurrent', props.thresholds).level === 'critical'
                   ? '#ef4444'
-                  : getStatusColor(props.motorCurrent || 0, 'motorCurrent').level === 'warning'
+                  : getStatusColor(props.motorCurrent || 0, 'motorCurrent', props.thresholds).level === 'warning'
                   ? '#f59e0b'
                   : '#10b981',
             }}
@@ -479,7 +509,7 @@ export function Motor3DModel(props: Motor3DModelProps) {
           {props.motorSurfaceTemp != null && props.motorSurfaceTemp > 85 && (
             <li className="text-red-600 font-semibold">BURNING EFFECT ACTIVE - Motor temperature critical ({props.motorSurfaceTemp.toFixed(1)}°C) - Red color</li>
           )}
-          {props.motorSurfaceTemp != null && getStatusColor(props.motorSurfaceTemp, 'motorSurfaceTemp').level === 'warning' && props.motorSurfaceTemp <= 85 && (
+          {props.motorSurfaceTemp != null && getStatusColor(props.motorSurfaceTemp, 'motorSurfaceTemp', props.thresholds).level === 'warning' && props.motorSurfaceTemp <= 85 && (
             <li>High temperature - Orange/red color</li>
           )}
           {props.motorSurfaceTemp != null && props.motorSurfaceTemp < 40 && (
@@ -488,13 +518,13 @@ export function Motor3DModel(props: Motor3DModelProps) {
           {props.motorSurfaceTemp != null && props.motorSurfaceTemp >= 40 && props.motorSurfaceTemp <= 70 && (
             <li>Normal temperature - Industrial blue metallic color</li>
           )}
-          {props.vibrationRms != null && getStatusColor(props.vibrationRms, 'vibrationRms').level !== 'normal' && (
+          {props.vibrationRms != null && getStatusColor(props.vibrationRms, 'vibrationRms', props.thresholds).level !== 'normal' && (
             <li>High vibration - Motor shaking</li>
           )}
-          {props.gridVoltage != null && getStatusColor(props.gridVoltage, 'gridVoltage').level !== 'normal' && (
+          {props.gridVoltage != null && getStatusColor(props.gridVoltage, 'gridVoltage', props.thresholds).level !== 'normal' && (
             <li>Voltage abnormal - Color change</li>
           )}
-          {props.motorCurrent != null && getStatusColor(props.motorCurrent, 'motorCurrent').level !== 'normal' && (
+          {props.motorCurrent != null && getStatusColor(props.motorCurrent, 'motorCurrent', props.thresholds).level !== 'normal' && (
             <li>High current - Blue glow effect</li>
           )}
           {props.powerFactor != null && props.powerFactor < 0.85 && (
@@ -503,10 +533,10 @@ export function Motor3DModel(props: Motor3DModelProps) {
           {props.gridFrequency != null && (props.gridFrequency < 49.5 || props.gridFrequency > 50.5) && (
             <li>Abnormal frequency - Slow motion</li>
           )}
-          {props.dustDensity != null && getStatusColor(props.dustDensity, 'dustDensity').level !== 'normal' && (
+          {props.dustDensity != null && getStatusColor(props.dustDensity, 'dustDensity', props.thresholds).level !== 'normal' && (
             <li>High dust - Reduced opacity</li>
           )}
-          {props.bearingTemp != null && getStatusColor(props.bearingTemp, 'bearingTemp').level !== 'normal' && (
+          {props.bearingTemp != null && getStatusColor(props.bearingTemp, 'bearingTemp', props.thresholds).level !== 'normal' && (
             <li>High bearing temp - Bearing highlighted</li>
           )}
         </ul>
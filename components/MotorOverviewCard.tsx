@@ -1,25 +1,43 @@
 'use client';
 
 import { formatNumber } from '@/lib/utils';
+import type { InsulationAging } from '@/lib/insulationAging';
 
 interface MotorOverviewCardProps {
   motorName: string;
   healthScore: number; // 0-100
-  status: 'Normal' | 'Perlu Inspeksi' | 'Kritikal';
+  /** 0-1, share of the health score backed by fresh sensor values */
+  healthConfidence?: number;
+  status: 'Normal' | 'Perlu Inspeksi' | 'Kritikal' | 'Data Tidak Cukup';
   operatingHoursToday: number;
   dailyEnergy: number;
+  insulationAging?: InsulationAging | null;
+}
+
+/** Month and year the insulation life runs out, or a fallback */
+function formatEndOfLife(aging: InsulationAging): string {
+  if (aging.lifeConsumedPercent >= 100) return 'Umur isolasi habis';
+  if (!aging.projectedEndOfLife) return aging.agingRate === null ? 'Data belum cukup' : '> 100 tahun';
+  return new Date(aging.projectedEndOfLife).toLocaleDateString('id-ID', { year: 'numeric', month: 'short' });
 }
 
 export function MotorOverviewCard({
   motorName,
   healthScore,
+  healthConfidence,
   status,
   operatingHoursToday,
   dailyEnergy,
+  insulationAging,
 }: MotorOverviewCardProps) {
+  // No score is shown when the data does not support one
+  const isUnknown = status === 'Data Tidak Cukup';
+
   // Determine status color
   const statusColor = 
-    status === 'Normal' 
+    isUnknown
+      ? 'bg-gray-500'
+      : status === 'Normal' 
       ? 'bg-status-normal' 
       : status === 'Perlu Inspeksi' 
       ? 'bg-status-warning' 
@@ -27,7 +45,9 @@ export function MotorOverviewCard({
   
   // Health score color gradient
   const healthColor = 
-    healthScore >= 80 
+    isUnknown
+      ? 'text-white opacity-70'
+      : healthScore >= 80 
       ? 'text-status-normal' 
       : healthScore >= 60 
       ? 'text-status-warning' 
@@ -63,15 +83,18 @@ export function MotorOverviewCard({
                 stroke="white"
                 strokeWidth="8"
                 fill="none"
-                strokeDasharray={`${healthScore * 2.51} 251`}
+                strokeDasharray={`${isUnknown ? 0 : healthScore * 2.51} 251`}
                 strokeLinecap="round"
               />
             </svg>
             <div className="absolute inset-0 flex flex-col items-center justify-center">
-              <span className={`text-2xl font-bold ${healthColor}`}>{healthScore}</span>
+              <span className={`text-2xl font-bold ${healthColor}`}>{isUnknown ? '—' : healthScore}</span>
               <span className="text-xs text-white opacity-80">Health</span>
             </div>
           </div>
+          {healthConfidence !== undefined && (
+            <p className="text-xs text-white opacity-70 mt-1">Confidence {formatNumber(healthConfidence * 100, 0)}%</p>
+          )}
         </div>
       </div>
       
@@ -86,6 +109,28 @@ export function MotorOverviewCard({
           <p className="text-xl font-bold text-white">{formatNumber(dailyEnergy, 2)} kWh</p>
         </div>
       </div>
+
+      {/* Insulation aging (lib/insulationAging.ts) */}
+      {insulationAging && (
+        <div className="grid grid-cols-2 gap-4 mt-4 pt-4 border-t border-white border-opacity-20">
+          <div>
+            <p className="text-xs text-white opacity-70">Umur Isolasi Terpakai</p>
+            <p className="text-xl font-bold text-white">{formatNumber(insulationAging.lifeConsumedPercent, 2)}%</p>
+            <p className="text-xs text-white opacity-70">
+              {formatNumber(insulationAging.equivalentHours, 1)} jam ekuivalen
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-white opacity-70">Proyeksi Akhir Umur Isolasi</p>
+            <p className="text-xl font-bold text-white">{formatEndOfLife(insulationAging)}</p>
+            {insulationAging.agingRate !== null && (
+              <p className="text-xs text-white opacity-70">
+                Laju penuaan {formatNumber(insulationAging.agingRate, 3)}× pada beban saat ini
+              </p>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
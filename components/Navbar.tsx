@@ -14,6 +14,7 @@ const navItems: NavItem[] = [
   { label: 'Dashboard', href: '/dashboard' },
   { label: 'Analytics', href: '/analytics' },
   { label: 'AI Center', href: '/ai-center' },
+  { label: 'Alerts', href: '/alerts' },
   // { label: 'Settings', href: '/settings' }, // Hidden for now
 ];
 
@@ -1,6 +1,6 @@
 'use client';
 
-import { getStatusColor, PARAMETER_CONFIG, type ParameterType } from '@/lib/thresholds';
+import { getStatusColor, PARAMETER_CONFIG, type ParameterType, type ThresholdProfiles } from '@/lib/thresholds';
 import { formatNumber } from '@/lib/utils';
 import { LineChart, Line, ResponsiveContainer } from 'recharts';
 
@@ -8,11 +8,12 @@ interface SensorStatusCardProps {
   parameter: ParameterType;
   value: number;
   history?: number[]; // Last N values for sparkline
+  thresholds?: ThresholdProfiles | null; // Motor's profiles, defaults when omitted
 }
 
-export function SensorStatusCard({ parameter, value, history = [] }: SensorStatusCardProps) {
+export function SensorStatusCard({ parameter, value, history = [], thresholds }: SensorStatusCardProps) {
   const config = PARAMETER_CONFIG[parameter];
-  const status = getStatusColor(value, parameter);
+  const status = getStatusColor(value, parameter, thresholds);
   
   // Prepare sparkline data
   const sparklineData = history.map((val, idx) => ({ value: val, index: idx }));
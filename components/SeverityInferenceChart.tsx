@@ -0,0 +1,75 @@
+'use client';
+
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, Legend, ResponsiveContainer } from 'recharts';
+import { SEVERITY_TERMS, type MamdaniResult, type SeverityTerm } from '@/lib/expert-system/mamdani';
+
+const TERM_COLORS: Record<SeverityTerm, string> = {
+  Ringan: '#10b981',
+  Sedang: '#f59e0b',
+  Berat: '#ef4444',
+};
+
+interface SeverityInferenceChartProps {
+  severity: MamdaniResult;
+}
+
+/**
+ * Mamdani severity inference of a diagnosis (AI Center): the output sets,
+ * each fired rule's implied set, the aggregated set and the defuzzified value
+ */
+export function SeverityInferenceChart({ severity }: SeverityInferenceChartProps) {
+  const data = severity.universe.map((x, i) => ({
+    x,
+    ...Object.fromEntries(SEVERITY_TERMS.map((term) => [term, severity.terms[term][i]])),
+    ...Object.fromEntries(severity.implied.map((set) => [set.ruleId, set.membership[i]])),
+    aggregated: severity.aggregated[i],
+  }));
+
+  return (
+    <div className="space-y-2">
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="x" type="number" domain={[severity.universe[0], severity.universe[severity.universe.length - 1]]} />
+            <YAxis domain={[0, 1]} />
+            <Tooltip
+              labelFormatter={(value) => `Severity ${value}`}
+              formatter={(value, name) => [typeof value === 'number' ? value.toFixed(2) : value, name]}
+            />
+            <Legend />
+            <Area type="linear" dataKey="aggregated" name="Aggregated" stroke="#1B3C53" fill="#1B3C53" fillOpacity={0.25} isAnimationActive={false} />
+            {SEVERITY_TERMS.map((term) => (
+              <Line key={term} type="linear" dataKey={term} stroke={TERM_COLORS[term]} strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+            ))}
+            {severity.implied.map((set) => (
+              <Line
+                key={set.ruleId}
+                type="linear"
+                dataKey={set.ruleId}
+                stroke={TERM_COLORS[set.term]}
+                strokeWidth={1}
+                dot={false}
+                legendType="none"
+                isAnimationActive={false}
+              />
+            ))}
+            {severity.crisp !== null && (
+              <ReferenceLine
+                x={severity.crisp}
+                stroke="#1B3C53"
+                strokeWidth={2}
+                label={{ value: severity.crisp.toFixed(1), position: 'top', fill: '#1B3C53', fontSize: 12 }}
+              />
+            )}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-xs text-gray-500">
+        Implikasi {severity.options.implication}, agregasi {severity.options.aggregation}, defuzzifikasi{' '}
+        {severity.options.defuzzification}.{' '}
+        {severity.implied.map((set) => `${set.ruleId} → ${set.term} (${set.strength.toFixed(2)})`).join(', ')}
+      </p>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
-import { getStatusColor } from '@/lib/thresholds';
+import { getStatusColor, type StatusLevel, type ThresholdProfiles } from '@/lib/thresholds';
+import { THERMAL_WARNING_MARGIN, assessThermal, describeThermalClass, type ThermalClass } from '@/lib/thermalClass';
 import { formatNumber } from '@/lib/utils';
 
 interface TemperaturePanelProps {
@@ -11,8 +12,16 @@ interface TemperaturePanelProps {
   tempGradient?: number;
   bearingMotorTempDiff?: number;
   hotspot?: boolean;
+  thresholds?: ThresholdProfiles | null;
+  thermalClass?: ThermalClass | null;
 }
 
+const LEVEL_STYLE: Record<StatusLevel, { color: string; bgColor: string }> = {
+  normal: { color: 'text-status-normal', bgColor: 'bg-status-normal' },
+  warning: { color: 'text-status-warning', bgColor: 'bg-status-warning' },
+  critical: { color: 'text-status-critical', bgColor: 'bg-status-critical' },
+};
+
 export function TemperaturePanel({ 
   motorSurfaceTemp, 
   bearingTemp,
@@ -21,6 +30,8 @@ export function TemperaturePanel({
   tempGradient,
   bearingMotorTempDiff,
   hotspot,
+  thresholds,
+  thermalClass,
 }: TemperaturePanelProps) {
   // Validasi dan normalisasi nilai
   const safeMotorTemp = typeof motorSurfaceTemp === 'number' && !isNaN(motorSurfaceTemp) ? motorSurfaceTemp : 0;
@@ -30,13 +41,31 @@ export function TemperaturePanel({
   const safeTempGradient = typeof tempGradient === 'number' && !isNaN(tempGradient) ? tempGradient : 0;
   const safeBearingMotorDiff = typeof bearingMotorTempDiff === 'number' && !isNaN(bearingMotorTempDiff) ? bearingMotorTempDiff : 0;
   
-  const motorStatus = getStatusColor(safeMotorTemp, 'motorSurfaceTemp');
-  const bearingStatus = getStatusColor(safeBearingTemp, 'bearingTemp');
-  const ambientStatus = getStatusColor(safeAmbientTemp, 'ambientTemp');
-  const deltaStatus = getStatusColor(safeDeltaTemp, 'deltaTemp');
+  // Dengan kelas isolasi: suhu absolut dan kenaikan di atas ambient, yang terburuk dipakai.
+  // Kenaikan = tempGradient (permukaan - ambient); deltaTemp adalah bearing - ambient
+  const assessment = thermalClass
+    ? assessThermal(
+        safeMotorTemp,
+        typeof ambientTemp === 'number' && !isNaN(ambientTemp) ? ambientTemp : null,
+        thermalClass,
+        typeof tempGradient === 'number' && !isNaN(tempGradient) ? tempGradient : null
+      )
+    : null;
+  const motorStatus = assessment
+    ? LEVEL_STYLE[assessment.level]
+    : getStatusColor(safeMotorTemp, 'motorSurfaceTemp', thresholds);
+  const bearingStatus = getStatusColor(safeBearingTemp, 'bearingTemp', thresholds);
+  const ambientStatus = getStatusColor(safeAmbientTemp, 'ambientTemp', thresholds);
+  const deltaStatus = getStatusColor(safeDeltaTemp, 'deltaTemp', thresholds);
+  const gradientStatus = getStatusColor(safeTempGradient, 'tempGradient', thresholds);
   
-  // Perhitungan width progress bar: suhu/100 * 100% (range 0-100°C)
-  const motorProgressWidth = Math.min(Math.max(safeMotorTemp, 0), 100);
+  // Skala motor: batas permukaan kelas isolasi + 20°C, atau 0-100°C tanpa kelas
+  const warningAt = thermalClass ? thermalClass.surfaceLimit - THERMAL_WARNING_MARGIN : 70;
+  const criticalAt = thermalClass?.surfaceLimit ?? 85;
+  const scaleMax = thermalClass ? criticalAt + 20 : 100;
+  const percentOf = (value: number) => Math.min(Math.max((value / scaleMax) * 100, 0), 100);
+
+  // Perhitungan width progress bar bearing: suhu/100 * 100% (range 0-100°C)
   const bearingProgressWidth = Math.min(Math.max(safeBearingTemp, 0), 100);
   
   return (
@@ -69,19 +98,34 @@ export function TemperaturePanel({
           <div 
             className={`h-full ${motorStatus.bgColor} transition-all duration-500 rounded-full relative z-10`}
             style={{ 
-              width: `${motorProgressWidth}%`,
+              width: `${percentOf(safeMotorTemp)}%`,
             }}
           ></div>
-          {/* Threshold markers at 70% and 85% positions */}
-          <div className="absolute top-0 bottom-0 left-[70%] w-0.5 bg-yellow-500 opacity-50 pointer-events-none z-20"></div>
-          <div className="absolute top-0 bottom-0 left-[85%] w-0.5 bg-red-500 opacity-50 pointer-events-none z-20"></div>
+          {/* Threshold markers */}
+          <div className="absolute top-0 bottom-0 w-0.5 bg-yellow-500 opacity-50 pointer-events-none z-20" style={{ left: `${percentOf(warningAt)}%` }}></div>
+          <div className="absolute top-0 bottom-0 w-0.5 bg-red-500 opacity-50 pointer-events-none z-20" style={{ left: `${percentOf(criticalAt)}%` }}></div>
         </div>
-        <div className="flex justify-between text-xs text-gray-500 mt-1">
-          <span>0°C</span>
-          <span className="text-status-warning font-medium">70°C</span>
-          <span className="text-status-critical font-medium">85°C</span>
-          <span>100°C</span>
+        <div className="relative h-4 text-xs text-gray-500 mt-1">
+          <span className="absolute left-0">0°C</span>
+          <span className="absolute -translate-x-1/2 text-status-warning font-medium" style={{ left: `${percentOf(warningAt)}%` }}>{warningAt}°C</span>
+          <span className="absolute -translate-x-1/2 text-status-critical font-medium" style={{ left: `${percentOf(criticalAt)}%` }}>{criticalAt}°C</span>
+          <span className="absolute right-0">{scaleMax}°C</span>
         </div>
+        {assessment && (
+          <div className="text-xs text-gray-500 mt-1 space-y-0.5">
+            {assessment.rise !== null && assessment.allowableRise !== null && (
+              <p>
+                Kenaikan{' '}
+                <span className={`font-medium ${LEVEL_STYLE[assessment.riseLevel ?? 'normal'].color}`}>
+                  {formatNumber(assessment.rise, 1)} K
+                </span>{' '}
+                dari {formatNumber(assessment.allowableRise, 0)} K yang diizinkan
+                {' '}· sisa {formatNumber(Math.max(assessment.headroom, 0), 1)} K
+              </p>
+            )}
+            <p>{describeThermalClass(assessment.thermalClass)}</p>
+          </div>
+        )}
       </div>
       
       {/* Bearing Temperature */}
@@ -123,7 +167,7 @@ export function TemperaturePanel({
 
         {/* Delta Temperature */}
         <div className="p-2 bg-gray-50 rounded-lg">
-          <span className="text-xs font-medium text-gray-500 block">ΔT (Motor-Ambient)</span>
+          <span className="text-xs font-medium text-gray-500 block">ΔT (Bearing-Ambient)</span>
           <span className={`text-lg font-bold ${deltaStatus.color}`}>
             {formatNumber(safeDeltaTemp, 1)}°C
           </span>
@@ -132,7 +176,7 @@ export function TemperaturePanel({
         {/* Temperature Gradient */}
         <div className="p-2 bg-gray-50 rounded-lg">
           <span className="text-xs font-medium text-gray-500 block">Temp Gradient</span>
-          <span className="text-lg font-bold text-gray-800">
+          <span className={`text-lg font-bold ${gradientStatus.color}`}>
             {formatNumber(safeTempGradient, 2)}°C
           </span>
         </div>
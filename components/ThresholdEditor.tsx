@@ -0,0 +1,279 @@
+'use client';
+
+import { Fragment, useEffect, useState } from 'react';
+import { notifyThresholdsUpdated, useThresholds } from '@/hooks/useThresholds';
+import {
+  CONDITION_FIELDS,
+  PARAMETER_CONFIG,
+  RATING_BASES,
+  THRESHOLD_DIRECTIONS,
+  validateThresholdProfile,
+  type ConditionField,
+  type ParameterType,
+  type RatingBasis,
+  type ThresholdDirection,
+  type ThresholdProfile,
+} from '@/lib/thresholds';
+
+type BoundField = 'warningLow' | 'warningHigh' | 'criticalLow' | 'criticalHigh' | 'deadband';
+
+interface Draft extends Record<BoundField | ConditionField, string> {
+  direction: ThresholdDirection;
+  relativeTo: RatingBasis | '';
+}
+
+const BASIS_LABEL: Record<RatingBasis, string> = {
+  ratedCurrent: '% rated current',
+  ratedVoltage: '% rated voltage',
+  ratedPower: '% rated power',
+};
+
+const BOUND_FIELDS: { field: BoundField; label: string }[] = [
+  { field: 'criticalLow', label: 'Critical low' },
+  { field: 'warningLow', label: 'Warning low' },
+  { field: 'warningHigh', label: 'Warning high' },
+  { field: 'criticalHigh', label: 'Critical high' },
+  { field: 'deadband', label: 'Deadband' },
+];
+
+/** Bounds each direction uses; the others are ignored when saving */
+const USED_FIELDS: Record<ThresholdDirection, BoundField[]> = {
+  high: ['warningHigh', 'criticalHigh', 'deadband'],
+  low: ['criticalLow', 'warningLow', 'deadband'],
+  band: ['criticalLow', 'warningLow', 'warningHigh', 'criticalHigh', 'deadband'],
+};
+
+const PARAMETERS = Object.keys(PARAMETER_CONFIG) as ParameterType[];
+
+function toDraft(profile: ThresholdProfile): Draft {
+  const text = (value: number | null | undefined) => (value === null || value === undefined ? '' : String(value));
+  return {
+    direction: profile.direction,
+    relativeTo: profile.relativeTo ?? '',
+    warningLow: text(profile.warningLow),
+    warningHigh: text(profile.warningHigh),
+    criticalLow: text(profile.criticalLow),
+    criticalHigh: text(profile.criticalHigh),
+    deadband: text(profile.deadband),
+    sustainSeconds: text(profile.sustainSeconds),
+    sustainCount: text(profile.sustainCount),
+    sustainWindow: text(profile.sustainWindow),
+    rateWarning: text(profile.rateWarning),
+    rateCritical: text(profile.rateCritical),
+    rateWindowSeconds: text(profile.rateWindowSeconds),
+  };
+}
+
+/** Effective absolute bounds of a resolved profile, e.g. "= 4 / 4.6 A" */
+function describeBounds(profile: ThresholdProfile, unit: string): string {
+  const round = (value: number) => Number(value.toFixed(2));
+  const bounds = [profile.criticalLow, profile.warningLow, profile.warningHigh, profile.criticalHigh]
+    .filter((value): value is number => value !== null && value !== undefined)
+    .map(round);
+  return `= ${bounds.join(' / ')} ${unit}`.trim();
+}
+
+interface ThresholdEditorProps {
+  motorId: string;
+}
+
+/**
+ * Per-parameter threshold profiles of a motor (Settings page).
+ * Saved profiles override the defaults; Reset removes the override.
+ * Bounds may be absolute or a percentage of a nameplate rating; the row
+ * below each parameter holds its sustain and rate-of-change conditions.
+ */
+export function ThresholdEditor({ motorId }: ThresholdEditorProps) {
+  const { thresholds, overrides, defaults, isLoading, error } = useThresholds(motorId);
+  const [drafts, setDrafts] = useState<Partial<Record<ParameterType, Draft>>>({});
+  const [rowErrors, setRowErrors] = useState<Partial<Record<ParameterType, string>>>({});
+  const [savingParameter, setSavingParameter] = useState<ParameterType | null>(null);
+
+  // Reload the form whenever the stored profiles change; show them as
+  // entered (relative profiles stay in percent)
+  useEffect(() => {
+    if (!defaults) return;
+    const next: Partial<Record<ParameterType, Draft>> = {};
+    for (const parameter of PARAMETERS) next[parameter] = toDraft(overrides[parameter] ?? defaults[parameter]);
+    setDrafts(next);
+    setRowErrors({});
+  }, [overrides, defaults]);
+
+  const updateDraft = (parameter: ParameterType, changes: Partial<Draft>) => {
+    setDrafts((prev) => ({ ...prev, [parameter]: { ...prev[parameter]!, ...changes } }));
+    setRowErrors((prev) => ({ ...prev, [parameter]: undefined }));
+  };
+
+  const request = async (parameter: ParameterType, init: RequestInit) => {
+    setSavingParameter(parameter);
+    try {
+      const response = await fetch(
+        `/api/motors/${encodeURIComponent(motorId)}/thresholds/${parameter}`,
+        { ...init, headers: { 'Content-Type': 'application/json' } }
+      );
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to save threshold');
+      notifyThresholdsUpdated(motorId);
+    } catch (err) {
+      setRowErrors((prev) => ({ ...prev, [parameter]: err instanceof Error ? err.message : 'Failed to save threshold' }));
+    } finally {
+      setSavingParameter(null);
+    }
+  };
+
+  const handleSave = (parameter: ParameterType) => {
+    const draft = drafts[parameter];
+    if (!draft) return;
+
+    const body: Record<string, string> = { direction: draft.direction, relativeTo: draft.relativeTo };
+    for (const field of USED_FIELDS[draft.direction]) body[field] = draft[field];
+    for (const field of CONDITION_FIELDS) body[field] = draft[field];
+
+    // Same validation as the API, so mistakes show up before the request
+    const validation = validateThresholdProfile(body);
+    if (!validation.ok) {
+      setRowErrors((prev) => ({ ...prev, [parameter]: validation.error }));
+      return;
+    }
+    request(parameter, { method: 'PUT', body: JSON.stringify(validation.profile) });
+  };
+
+  const handleReset = (parameter: ParameterType) => {
+    request(parameter, { method: 'DELETE' });
+  };
+
+  if (isLoading && !thresholds) {
+    return <p className="text-sm text-gray-500">Loading thresholds...</p>;
+  }
+
+  if (error && !thresholds) {
+    return <p className="text-sm text-status-critical">{error}</p>;
+  }
+
+  const conditionInputClass = 'w-16 px-2 py-0.5 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary text-xs';
+  const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary text-sm disabled:bg-gray-100 disabled:text-gray-400';
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+            <th className="py-2 pr-2">Parameter</th>
+            <th className="py-2 pr-2">Direction</th>
+            <th className="py-2 pr-2">Unit</th>
+            {BOUND_FIELDS.map(({ field, label }) => (
+              <th key={field} className="py-2 pr-2">{label}</th>
+            ))}
+            <th className="py-2" />
+          </tr>
+        </thead>
+        <tbody>
+          {PARAMETERS.map((parameter) => {
+            const draft = drafts[parameter];
+            if (!draft) return null;
+            const config = PARAMETER_CONFIG[parameter];
+            const isCustom = overrides[parameter] !== undefined;
+            const isSaving = savingParameter === parameter;
+
+            const unit = draft.relativeTo ? '%' : config.unit;
+            const conditionInput = (field: ConditionField) => (
+              <input
+                type="number"
+                value={draft[field]}
+                onChange={(e) => updateDraft(parameter, { [field]: e.target.value })}
+                className={conditionInputClass}
+              />
+            );
+
+            return (
+              <Fragment key={parameter}>
+                <tr className="align-top">
+                  <td className="py-2 pr-2">
+                    <div className="font-medium text-gray-800">{config.label}</div>
+                    {isCustom && (
+                      <span className="text-xs px-1.5 py-0.5 rounded bg-primary text-white">Custom</span>
+                    )}
+                    {rowErrors[parameter] && (
+                      <p className="text-xs text-status-critical mt-1">{rowErrors[parameter]}</p>
+                    )}
+                  </td>
+                  <td className="py-2 pr-2">
+                    <select
+                      value={draft.direction}
+                      onChange={(e) => updateDraft(parameter, { direction: e.target.value as ThresholdDirection })}
+                      className={inputClass}
+                    >
+                      {THRESHOLD_DIRECTIONS.map((direction) => (
+                        <option key={direction} value={direction}>{direction}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-2 pr-2">
+                    <select
+                      value={draft.relativeTo}
+                      onChange={(e) => updateDraft(parameter, { relativeTo: e.target.value as Draft['relativeTo'] })}
+                      className={inputClass}
+                    >
+                      <option value="">{config.unit || 'value'}</option>
+                      {RATING_BASES.map((basis) => (
+                        <option key={basis} value={basis}>{BASIS_LABEL[basis]}</option>
+                      ))}
+                    </select>
+                    {draft.relativeTo && thresholds && (
+                      <p className="text-xs text-gray-500 mt-1">{describeBounds(thresholds[parameter], config.unit)}</p>
+                    )}
+                  </td>
+                  {BOUND_FIELDS.map(({ field }) => (
+                    <td key={field} className="py-2 pr-2 min-w-[80px]">
+                      <input
+                        type="number"
+                        value={draft[field]}
+                        disabled={!USED_FIELDS[draft.direction].includes(field)}
+                        onChange={(e) => updateDraft(parameter, { [field]: e.target.value })}
+                        className={inputClass}
+                      />
+                    </td>
+                  ))}
+                  <td className="py-2 whitespace-nowrap">
+                    <button
+                      onClick={() => handleSave(parameter)}
+                      disabled={isSaving}
+                      className="px-3 py-1 text-xs font-medium bg-primary text-white rounded hover:opacity-90 transition-opacity disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                    {isCustom && (
+                      <button
+                        onClick={() => handleReset(parameter)}
+                        disabled={isSaving}
+                        className="ml-1 px-3 py-1 text-xs font-medium bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors disabled:opacity-50"
+                      >
+                        Reset
+                      </button>
+                    )}
+                  </td>
+                </tr>
+                <tr className="border-b border-gray-100">
+                  <td />
+                  <td colSpan={BOUND_FIELDS.length + 3} className="pb-2 pr-2">
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-600">
+                      <span className="flex items-center gap-1">
+                        Sustain {conditionInput('sustainSeconds')} s
+                        <span className="text-gray-400">or</span>
+                        {conditionInput('sustainCount')} of last {conditionInput('sustainWindow')} samples
+                      </span>
+                      <span className="flex items-center gap-1">
+                        Rate warning {conditionInput('rateWarning')} critical {conditionInput('rateCritical')}
+                        {unit}/min over {conditionInput('rateWindowSeconds')} s
+                      </span>
+                    </div>
+                  </td>
+                </tr>
+              </Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
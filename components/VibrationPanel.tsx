@@ -1,6 +1,7 @@
 'use client';
 
-import { getStatusColor } from '@/lib/thresholds';
+import { getStatusColor, type ThresholdProfiles } from '@/lib/thresholds';
+import { classifyVibration, describeVibrationClass, type VibrationClass } from '@/lib/vibrationSeverity';
 import { formatNumber } from '@/lib/utils';
 import { PieChart, Pie, Cell, ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts';
 
@@ -12,6 +13,8 @@ interface VibrationPanelProps {
   faultSpectrum?: { frequency: number; amplitude: number }[];
   vibrationPeakG?: number;
   crestFactor?: number;
+  thresholds?: ThresholdProfiles | null;
+  vibrationClass?: VibrationClass | null;
 }
 
 export function VibrationPanel({
@@ -22,8 +25,17 @@ export function VibrationPanel({
   faultSpectrum = [],
   vibrationPeakG,
   crestFactor,
+  thresholds,
+  vibrationClass,
 }: VibrationPanelProps) {
-  const vibrationStatus = getStatusColor(vibrationRms, 'vibrationRms');
+  const vibrationStatus = getStatusColor(vibrationRms, 'vibrationRms', thresholds);
+  const severity = vibrationClass ? classifyVibration(vibrationRms, vibrationClass) : null;
+
+  // Skala progress bar: 2x batas C/D (zona ISO) atau 10 mm/s tanpa kelas mesin
+  const warningAt = vibrationClass?.boundaries.bc ?? 2.8;
+  const criticalAt = vibrationClass?.boundaries.cd ?? 4.5;
+  const scaleMax = vibrationClass ? criticalAt * 2 : 10;
+  const percentOf = (value: number) => Math.min((value / scaleMax) * 100, 100);
   
   // Data for rotor/bearing health pie charts
   const rotorData = [
@@ -59,26 +71,36 @@ export function VibrationPanel({
               {formatNumber(vibrationRms, 2)}
             </span>
             <span className="text-sm text-gray-500">mm/s</span>
+            {severity && (
+              <span
+                className={`text-xs px-2 py-0.5 rounded-full ${vibrationStatus.bgColor} text-white`}
+                title={severity.description}
+              >
+                Zone {severity.zone}
+              </span>
+            )}
           </div>
         </div>
-        {/* Progress bar dengan max 10 mm/s - perhitungan: (vibrationRms / 10) * 100% */}
-        {/* Threshold: Normal < 2.8 (28%), Warning 2.8-4.5 (17%), Critical > 4.5 (55%) */}
+        {/* Progress bar - perhitungan: (vibrationRms / scaleMax) * 100% */}
         <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden relative">
           {/* Progress indicator - sesuai dengan nilai aktual */}
           <div 
             className={`h-full ${vibrationStatus.bgColor} transition-all duration-500`}
-            style={{ width: `${Math.min((vibrationRms / 10) * 100, 100)}%` }}
+            style={{ width: `${percentOf(vibrationRms)}%` }}
           ></div>
           {/* Threshold markers sebagai garis vertikal */}
-          <div className="absolute top-0 bottom-0 left-[28%] w-0.5 bg-status-warning opacity-50"></div>
-          <div className="absolute top-0 bottom-0 left-[45%] w-0.5 bg-status-critical opacity-50"></div>
+          <div className="absolute top-0 bottom-0 w-0.5 bg-status-warning opacity-50" style={{ left: `${percentOf(warningAt)}%` }}></div>
+          <div className="absolute top-0 bottom-0 w-0.5 bg-status-critical opacity-50" style={{ left: `${percentOf(criticalAt)}%` }}></div>
         </div>
-        <div className="flex justify-between text-xs text-gray-500 mt-1">
-          <span>0</span>
-          <span className="text-status-warning font-medium">2.8</span>
-          <span className="text-status-critical font-medium">4.5</span>
-          <span>10 mm/s</span>
+        <div className="relative h-4 text-xs text-gray-500 mt-1">
+          <span className="absolute left-0">0</span>
+          <span className="absolute -translate-x-1/2 text-status-warning font-medium" style={{ left: `${percentOf(warningAt)}%` }}>{warningAt}</span>
+          <span className="absolute -translate-x-1/2 text-status-critical font-medium" style={{ left: `${percentOf(criticalAt)}%` }}>{criticalAt}</span>
+          <span className="absolute right-0">{scaleMax} mm/s</span>
         </div>
+        {vibrationClass && (
+          <p className="text-xs text-gray-500 mt-1">{describeVibrationClass(vibrationClass)}</p>
+        )}
         {faultFrequency && (
           <p className="text-xs text-gray-500 mt-1">
             Dominant Fault Frequency: {formatNumber(faultFrequency, 1)} Hz
@@ -93,12 +115,12 @@ export function VibrationPanel({
             <div className="p-3 bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg border border-blue-100">
               <div className="flex items-center justify-between mb-1">
                 <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">Peak Vibration</span>
-                <span className={`text-xs px-2 py-0.5 rounded-full ${getStatusColor(vibrationPeakG, 'vibrationPeakG').bgColor} text-white`}>
-                  {getStatusColor(vibrationPeakG, 'vibrationPeakG').label}
+                <span className={`text-xs px-2 py-0.5 rounded-full ${getStatusColor(vibrationPeakG, 'vibrationPeakG', thresholds).bgColor} text-white`}>
+                  {getStatusColor(vibrationPeakG, 'vibrationPeakG', thresholds).label}
                 </span>
               </div>
               <div className="flex items-baseline gap-1">
-                <span className={`text-2xl font-bold ${getStatusColor(vibrationPeakG, 'vibrationPeakG').color}`}>
+                <span className={`text-2xl font-bold ${getStatusColor(vibrationPeakG, 'vibrationPeakG', thresholds).color}`}>
                   {formatNumber(vibrationPeakG, 4)}
                 </span>
                 <span className="text-sm text-gray-500">g</span>
@@ -111,12 +133,12 @@ export function VibrationPanel({
             <div className="p-3 bg-gradient-to-r from-purple-50 to-pink-50 rounded-lg border border-purple-100">
               <div className="flex items-center justify-between mb-1">
                 <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">Crest Factor</span>
-                <span className={`text-xs px-2 py-0.5 rounded-full ${getStatusColor(crestFactor, 'crestFactor').bgColor} text-white`}>
-                  {getStatusColor(crestFactor, 'crestFactor').label}
+                <span className={`text-xs px-2 py-0.5 rounded-full ${getStatusColor(crestFactor, 'crestFactor', thresholds).bgColor} text-white`}>
+                  {getStatusColor(crestFactor, 'crestFactor', thresholds).label}
                 </span>
               </div>
               <div className="flex items-baseline gap-1">
-                <span className={`text-2xl font-bold ${getStatusColor(crestFactor, 'crestFactor').color}`}>
+                <span className={`text-2xl font-bold ${getStatusColor(crestFactor, 'crestFactor', thresholds).color}`}>
                   {formatNumber(crestFactor, 2)}
                 </span>
               </div>
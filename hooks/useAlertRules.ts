@@ -0,0 +1,69 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { AlertRule, AlertRuleInput } from "@/lib/alertRules";
+
+/* =======================
+   HOOK
+   ======================= */
+
+/**
+ * Compound alert rules of a motor from /api/motors/:id/rules, with
+ * save (create or update) and remove helpers that refresh the list.
+ */
+export function useAlertRules(motorId: string) {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseUrl = `/api/motors/${encodeURIComponent(motorId)}/rules`;
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(baseUrl);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to load alert rules");
+      setRules(result.rules);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load alert rules");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    if (!motorId) return;
+    setIsLoading(true);
+    refresh();
+  }, [motorId, refresh]);
+
+  /** Create (no id) or update a rule; throws with the API error message */
+  const save = useCallback(
+    async (rule: Partial<AlertRuleInput> & { id?: string }) => {
+      const { id, ...body } = rule;
+      const response = await fetch(id ? `${baseUrl}/${encodeURIComponent(id)}` : baseUrl, {
+        method: id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to save alert rule");
+      await refresh();
+      return result.rule as AlertRule;
+    },
+    [baseUrl, refresh]
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      const response = await fetch(`${baseUrl}/${encodeURIComponent(id)}`, { method: "DELETE" });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to delete alert rule");
+      await refresh();
+    },
+    [baseUrl, refresh]
+  );
+
+  return { rules, isLoading, error, refresh, save, remove };
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { StoredAlert } from "@/types/alert";
+
+export type AlertAction = "acknowledge" | "close" | "reopen";
+
+const OPERATOR_STORAGE_KEY = "mechasense:operator";
+
+/**
+ * Name recorded on alert actions. Asked once and remembered in this browser.
+ */
+export function getOperatorName(): string | null {
+  const saved = window.localStorage.getItem(OPERATOR_STORAGE_KEY);
+  if (saved) return saved;
+
+  const name = window.prompt("Nama operator (dicatat pada riwayat alert):")?.trim();
+  if (!name) return null;
+  window.localStorage.setItem(OPERATOR_STORAGE_KEY, name);
+  return name;
+}
+
+/**
+ * Acknowledge / close / reopen an alert as the current operator.
+ * Returns the updated alert, or throws with the API error.
+ */
+export async function performAlertAction(alertId: string, action: AlertAction, comment?: string): Promise<StoredAlert> {
+  const actor = getOperatorName();
+  if (!actor) throw new Error("Operator name is required");
+
+  const response = await fetch(`/api/alerts/${encodeURIComponent(alertId)}/${action}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ actor, comment: comment || undefined }),
+  });
+  const result = await response.json();
+  if (!response.ok) throw new Error(result.error || `Failed to ${action} alert`);
+  return result.alert;
+}
+
+/**
+ * Open (OPEN + ACKNOWLEDGED) alerts of a motor from /api/alerts, refreshed periodically
+ */
+export function useActiveAlerts(motorId: string, refreshMs = 10000) {
+  const [alerts, setAlerts] = useState<StoredAlert[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ motorId, status: "OPEN,ACKNOWLEDGED" });
+      const response = await fetch(`/api/alerts?${params}`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to load alerts");
+      setAlerts(result.alerts);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load alerts");
+    }
+  }, [motorId]);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, refreshMs);
+    return () => clearInterval(interval);
+  }, [refresh, refreshMs]);
+
+  const act = useCallback(async (alertId: string, action: AlertAction) => {
+    const comment = window.prompt(`Komentar (opsional) untuk ${action}:`);
+    if (comment === null) return; // Cancelled
+    try {
+      await performAlertAction(alertId, action, comment);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} alert`);
+    }
+  }, [refresh]);
+
+  return { alerts, error, refresh, act };
+}
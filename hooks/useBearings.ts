@@ -0,0 +1,84 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { BearingComponent, BearingType } from "@/lib/bearingLife";
+
+/* =======================
+   TYPES
+   ======================= */
+
+/** Body of a create / update request (installedAt as an ISO string) */
+export interface BearingRequest {
+  position?: string;
+  designation?: string | null;
+  bearingType?: BearingType;
+  dynamicLoadRating?: number;
+  equivalentLoad?: number;
+  speedRpm?: number;
+  installedAt?: string;
+}
+
+/* =======================
+   HOOK
+   ======================= */
+
+/**
+ * Bearings of a motor with their L10 life from /api/motors/:id/bearings,
+ * with save (create or update) and remove helpers that refresh the list.
+ */
+export function useBearings(motorId: string) {
+  const [bearings, setBearings] = useState<BearingComponent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseUrl = `/api/motors/${encodeURIComponent(motorId)}/bearings`;
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(baseUrl);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to load bearings");
+      setBearings(result.bearings);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load bearings");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    if (!motorId) return;
+    setIsLoading(true);
+    refresh();
+  }, [motorId, refresh]);
+
+  /** Create (no id) or update a bearing; throws with the API error message */
+  const save = useCallback(
+    async (bearing: BearingRequest & { id?: string }) => {
+      const { id, ...body } = bearing;
+      const response = await fetch(id ? `${baseUrl}/${encodeURIComponent(id)}` : baseUrl, {
+        method: id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to save bearing");
+      await refresh();
+      return result.bearing as BearingComponent;
+    },
+    [baseUrl, refresh]
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      const response = await fetch(`${baseUrl}/${encodeURIComponent(id)}`, { method: "DELETE" });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to delete bearing");
+      await refresh();
+    },
+    [baseUrl, refresh]
+  );
+
+  return { bearings, isLoading, error, refresh, save, remove };
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { HealthChangePoint, HealthHistoryPoint } from "@/lib/healthHistory";
+
+/**
+ * Stored health scores of a motor over the last `hours` with their change
+ * points, from /api/health/history, refreshed periodically
+ */
+export function useHealthHistory(motorId: string, hours = 24, refreshMs = 60000) {
+  const [analyses, setAnalyses] = useState<HealthHistoryPoint[]>([]);
+  const [changePoints, setChangePoints] = useState<HealthChangePoint[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const from = new Date(Date.now() - hours * 3600 * 1000).toISOString();
+      const response = await fetch(
+        `/api/health/history?motorId=${encodeURIComponent(motorId)}&from=${encodeURIComponent(from)}`
+      );
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to load health history");
+      setAnalyses(result.analyses);
+      setChangePoints(result.changePoints);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load health history");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [motorId, hours]);
+
+  useEffect(() => {
+    if (!motorId) return;
+    refresh();
+    const interval = setInterval(refresh, refreshMs);
+    return () => clearInterval(interval);
+  }, [motorId, refresh, refreshMs]);
+
+  return { analyses, changePoints, isLoading, error, refresh };
+}
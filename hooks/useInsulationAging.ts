@@ -0,0 +1,34 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { InsulationAging } from "@/lib/insulationAging";
+
+/**
+ * Insulation aging of a motor from /api/motors/:id/aging, refreshed
+ * periodically (it changes slowly)
+ */
+export function useInsulationAging(motorId: string, refreshMs = 60000) {
+  const [aging, setAging] = useState<InsulationAging | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/motors/${encodeURIComponent(motorId)}/aging`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to load insulation aging");
+      setAging(result.aging);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load insulation aging");
+    }
+  }, [motorId]);
+
+  useEffect(() => {
+    if (!motorId) return;
+    refresh();
+    const interval = setInterval(refresh, refreshMs);
+    return () => clearInterval(interval);
+  }, [motorId, refresh, refreshMs]);
+
+  return { aging, error, refresh };
+}
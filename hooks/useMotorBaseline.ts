@@ -0,0 +1,81 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { MotorBaseline } from "@/lib/baseline";
+
+/* =======================
+   TYPES
+   ======================= */
+
+export interface TrainBaselineRequest {
+  trainingStart?: string;
+  trainingEnd?: string;
+  loadBands?: boolean | number[];
+  warningZ?: number;
+  criticalZ?: number;
+  note?: string;
+  createdBy?: string;
+}
+
+/* =======================
+   HOOK
+   ======================= */
+
+/**
+ * Active baseline and version history of a motor from
+ * /api/motors/:id/baseline, with train and deactivate helpers
+ */
+export function useMotorBaseline(motorId: string) {
+  const [active, setActive] = useState<MotorBaseline | null>(null);
+  const [versions, setVersions] = useState<MotorBaseline[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseUrl = `/api/motors/${encodeURIComponent(motorId)}/baseline`;
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(baseUrl);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to load baseline");
+      setActive(result.active);
+      setVersions(result.versions);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load baseline");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    if (!motorId) return;
+    setIsLoading(true);
+    refresh();
+  }, [motorId, refresh]);
+
+  /** Learn a new baseline version; throws with the API error message */
+  const train = useCallback(
+    async (request: TrainBaselineRequest) => {
+      const response = await fetch(baseUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to train baseline");
+      await refresh();
+      return result.baseline as MotorBaseline;
+    },
+    [baseUrl, refresh]
+  );
+
+  const deactivate = useCallback(async () => {
+    const response = await fetch(baseUrl, { method: "DELETE" });
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || "Failed to deactivate baseline");
+    await refresh();
+  }, [baseUrl, refresh]);
+
+  return { active, versions, isLoading, error, refresh, train, deactivate };
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { FoundationType, MachineGroup } from "@/lib/vibrationSeverity";
+import type { InsulationClass } from "@/lib/thermalClass";
+
+/* =======================
+   INTERFACE
+   ======================= */
+export interface MotorConfig {
+  id: string;
+  name: string;
+  location: string;
+  ratedPower: number; // kW
+  ratedCurrent: number; // A
+  ratedVoltage: number; // V
+  pollingIntervalSec: number;
+  alertEmail: string | null;
+  machineGroup: MachineGroup | null;
+  foundationType: FoundationType;
+  insulationClass: InsulationClass;
+  ratedTempRise: number | null; // K
+  updatedAt: string;
+}
+
+/** Fired by the Settings page after a save so open views refresh without reload */
+export const MOTOR_UPDATED_EVENT = "mechasense:motor-updated";
+
+export function notifyMotorUpdated(motor: MotorConfig) {
+  window.dispatchEvent(new CustomEvent<MotorConfig>(MOTOR_UPDATED_EVENT, { detail: motor }));
+}
+
+/**
+ * Motor record (name, nameplate ratings, settings) from /api/motors/:id
+ */
+export function useMotorConfig(motorId: string) {
+  const [motor, setMotor] = useState<MotorConfig | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/motors/${encodeURIComponent(motorId)}`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to load motor");
+      setMotor(result.motor);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load motor");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [motorId]);
+
+  useEffect(() => {
+    if (!motorId) return;
+    setIsLoading(true);
+    refresh();
+
+    const onUpdated = (event: Event) => {
+      const updated = (event as CustomEvent<MotorConfig>).detail;
+      if (updated?.id === motorId) setMotor(updated);
+    };
+    window.addEventListener(MOTOR_UPDATED_EVENT, onUpdated);
+    return () => window.removeEventListener(MOTOR_UPDATED_EVENT, onUpdated);
+  }, [motorId, refresh]);
+
+  return { motor, isLoading, error, refresh };
+}
@@ -2,7 +2,9 @@
 
 import { getDatabase, ref, onValue, off } from "firebase/database";
 import { app } from "@/lib/firebaseClient";
-import { calculateHealthScore } from "@/lib/calculateHealthScore";
+import { calculateHealthScore, type HealthCategory } from "@/lib/calculateHealthScore";
+import { firebaseValue, firebaseVibrationRms } from "@/lib/firebaseUnits";
+import type { ThresholdProfiles } from "@/lib/thresholds";
 import { useState, useEffect, useRef } from "react";
 
 /* =======================
@@ -51,6 +53,8 @@ interface SensorReading {
 
   // Health
   healthIndex?: number;
+  healthCategory?: HealthCategory; // Unknown jika data sensor tidak cukup / basi
+  healthConfidence?: number; // 0-1
 }
 
 interface Alert {
@@ -79,10 +83,43 @@ interface RealtimeData {
   dailyEnergyKwh: number; // Energi harian (kWh) - dihitung real-time dari V × I × PF
 }
 
+/* =======================
+   HEALTH SCORE
+   ======================= */
+/**
+ * Health score formula dari reading, dengan confidence yang turun saat
+ * reading makin basi (lihat lib/calculateHealthScore.ts)
+ */
+function readingHealth(reading: SensorReading, thresholds: ThresholdProfiles | null | undefined, now: number) {
+  const result = calculateHealthScore({
+    gridVoltage: reading.gridVoltage,
+    motorCurrent: reading.motorCurrent,
+    power: reading.power,
+    powerFactor: reading.powerFactor,
+    gridFrequency: reading.gridFrequency,
+    loadIndex: reading.loadIndex,
+    vibrationRms: reading.vibrationRms,
+    vibrationPeakG: reading.vibrationPeakG,
+    crestFactor: reading.crestFactor,
+    motorSurfaceTemp: reading.motorSurfaceTemp,
+    bearingTemp: reading.bearingTemp,
+    ambientTemp: reading.ambientTemp,
+    tempGradient: reading.tempGradient,
+    hotspot: reading.hotspot,
+    dustDensity: reading.dustDensity,
+  }, thresholds ?? undefined, { ageSeconds: Math.max(0, (now - reading.timestamp) / 1000) });
+
+  return {
+    healthIndex: result.score,
+    healthCategory: result.category,
+    healthConfidence: result.confidence,
+  };
+}
+
 /* =======================
    CUSTOM HOOK
    ======================= */
-export function useRealtimeSensorData(motorId: string) {
+export function useRealtimeSensorData(motorId: string, thresholds?: ThresholdProfiles | null) {
   const [data, setData] = useState<RealtimeData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -94,6 +131,8 @@ export function useRealtimeSensorData(motorId: string) {
   const lastResetDateRef = useRef<string>(''); // Ref untuk menyimpan tanggal terakhir reset (untuk deteksi hari baru)
   const latestReadingRef = useRef<SensorReading | null>(null); // Ref untuk menyimpan latest reading (untuk interval)
   const recentReadingsBufferRef = useRef<SensorReading[]>([]); // Ref untuk menyimpan history readings (untuk sparkline, max 30)
+  const thresholdsRef = useRef<ThresholdProfiles | null | undefined>(thresholds); // Threshold motor (dari Settings), dipakai tanpa subscribe ulang
+  thresholdsRef.current = thresholds;
 
   useEffect(() => {
     if (!motorId) {
@@ -315,36 +354,36 @@ export function useRealtimeSensorData(motorId: string) {
         latestReading = {
           timestamp: firebaseTimestamp,
 
-          // Electrical
-          gridVoltage: raw.voltage,
-          motorCurrent: raw.current,
-          power: raw.power,
-          powerFactor: raw.pf,
-          gridFrequency: raw.frequency,
+          // Electrical (satuan dikonversi ke satuan kanonik, lihat lib/firebaseUnits.ts)
+          gridVoltage: firebaseValue(raw, "voltage", "gridVoltage"),
+          motorCurrent: firebaseValue(raw, "current", "motorCurrent"),
+          power: firebaseValue(raw, "power", "power"),
+          powerFactor: firebaseValue(raw, "pf", "powerFactor"),
+          gridFrequency: firebaseValue(raw, "frequency", "gridFrequency"),
           dailyEnergyKwh: raw.energy,
-          apparentPower: raw.apparent_power,
-          loadIndex: raw.load_index,
+          apparentPower: firebaseValue(raw, "apparent_power", "apparentPower"),
+          loadIndex: firebaseValue(raw, "load_index", "loadIndex"),
           currentFreqRatio: raw.current_freq_ratio,
 
-          // Mechanical
-          vibrationRms: raw.vibration_rms_mm_s,
-          vibrationPeakG: raw.vibration_peak_g,
-          crestFactor: raw.crest_factor,
+          // Mechanical (firmware mengirim akselerasi mm/s², dashboard memakai kecepatan mm/s)
+          vibrationRms: firebaseVibrationRms(raw),
+          vibrationPeakG: firebaseValue(raw, "vibration_peak_g", "vibrationPeakG"),
+          crestFactor: firebaseValue(raw, "crest_factor", "crestFactor"),
           faultFrequency: raw.fault_frequency || raw.faultFrequency, // Support both naming
           rotorUnbalanceScore: raw.unbalance,
           bearingHealthScore: raw.bearing_health,
 
           // Thermal
-          motorSurfaceTemp: raw.motor_temp,
-          ambientTemp: raw.ambient_temp,
-          bearingTemp: raw.bearing_temp,
-          deltaTemp: raw.delta_temp,
-          tempGradient: raw.temp_gradient,
+          motorSurfaceTemp: firebaseValue(raw, "motor_temp", "motorSurfaceTemp"),
+          ambientTemp: firebaseValue(raw, "ambient_temp", "ambientTemp"),
+          bearingTemp: firebaseValue(raw, "bearing_temp", "bearingTemp"),
+          deltaTemp: firebaseValue(raw, "delta_temp", "deltaTemp"),
+          tempGradient: firebaseValue(raw, "temp_gradient", "tempGradient"),
           bearingMotorTempDiff: raw.bearing_motor_diff,
-          hotspot: raw.hotspot === true || raw.hotspot === 'true',
+          hotspot: raw.hotspot === undefined ? undefined : raw.hotspot === true || raw.hotspot === 'true',
 
           // Environmental
-          dustDensity: raw.dust,
+          dustDensity: firebaseValue(raw, "dust", "dustDensity"),
           soilingLossPercent: raw.soiling_loss,
 
           // Health (calculated from sensor data using formula)
@@ -353,18 +392,7 @@ export function useRealtimeSensorData(motorId: string) {
 
         // Calculate health score from sensor readings (formula-based)
         if (latestReading) {
-          const healthResult = calculateHealthScore({
-            gridVoltage: latestReading.gridVoltage,
-            motorCurrent: latestReading.motorCurrent,
-            power: latestReading.power,
-            powerFactor: latestReading.powerFactor,
-            gridFrequency: latestReading.gridFrequency,
-            vibrationRms: latestReading.vibrationRms,
-            motorSurfaceTemp: latestReading.motorSurfaceTemp,
-            bearingTemp: latestReading.bearingTemp,
-            dustDensity: latestReading.dustDensity,
-          });
-          latestReading.healthIndex = healthResult.score;
+          Object.assign(latestReading, readingHealth(latestReading, thresholdsRef.current, Date.now()));
         }
 
         // Update ref untuk digunakan di interval
@@ -545,6 +573,10 @@ export function useRealtimeSensorData(motorId: string) {
           if (!prev) return null;
           return {
             ...prev,
+            // Confidence health score turun selama tidak ada data baru
+            latestReading: prev.latestReading
+              ? { ...prev.latestReading, ...readingHealth(prev.latestReading, thresholdsRef.current, now) }
+              : null,
             operatingHoursToday: Math.max(0, operatingHours),
             dailyEnergyKwh: Math.max(0, currentEnergy),
           };
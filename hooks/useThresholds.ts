@@ -0,0 +1,73 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { ParameterType, ThresholdProfile, ThresholdProfiles } from "@/lib/thresholds";
+import { MOTOR_UPDATED_EVENT } from "./useMotorConfig";
+
+/* =======================
+   INTERFACE
+   ======================= */
+export interface MotorThresholds {
+  thresholds: Record<ParameterType, ThresholdProfile>;
+  overrides: ThresholdProfiles;
+  defaults: Record<ParameterType, ThresholdProfile>;
+}
+
+/** Fired by the Settings page after a threshold is saved or reset */
+export const THRESHOLDS_UPDATED_EVENT = "mechasense:thresholds-updated";
+
+export function notifyThresholdsUpdated(motorId: string) {
+  window.dispatchEvent(new CustomEvent<string>(THRESHOLDS_UPDATED_EVENT, { detail: motorId }));
+}
+
+/**
+ * Threshold profiles of a motor from /api/motors/:id/thresholds.
+ * `thresholds` stays null until loaded; callers fall back to the defaults.
+ */
+export function useThresholds(motorId: string) {
+  const [data, setData] = useState<MotorThresholds | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/motors/${encodeURIComponent(motorId)}/thresholds`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to load thresholds");
+      setData({ thresholds: result.thresholds, overrides: result.overrides, defaults: result.defaults });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load thresholds");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [motorId]);
+
+  useEffect(() => {
+    if (!motorId) return;
+    setIsLoading(true);
+    refresh();
+
+    // Nameplate changes move the rated defaults too
+    const onUpdated = (event: Event) => {
+      const detail = (event as CustomEvent<string | { id: string }>).detail;
+      const id = typeof detail === "string" ? detail : detail?.id;
+      if (id === motorId) refresh();
+    };
+    window.addEventListener(THRESHOLDS_UPDATED_EVENT, onUpdated);
+    window.addEventListener(MOTOR_UPDATED_EVENT, onUpdated);
+    return () => {
+      window.removeEventListener(THRESHOLDS_UPDATED_EVENT, onUpdated);
+      window.removeEventListener(MOTOR_UPDATED_EVENT, onUpdated);
+    };
+  }, [motorId, refresh]);
+
+  return {
+    thresholds: data?.thresholds ?? null,
+    overrides: data?.overrides ?? {},
+    defaults: data?.defaults ?? null,
+    isLoading,
+    error,
+    refresh,
+  };
+}
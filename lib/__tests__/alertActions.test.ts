@@ -0,0 +1,144 @@
+import type { Alert } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { applyAlertAction, parseActionInput, parseAlertListQuery, type AlertAction } from '../alertActions';
+
+// In-memory stand-in for the Alert table, with a log of the calls made in the transaction
+const db = vi.hoisted(() => ({
+  alerts: [] as Alert[],
+  calls: [] as string[],
+}));
+
+vi.mock('../prisma', () => {
+  const tx = {
+    $executeRaw: async (_strings: TemplateStringsArray, ...values: unknown[]) => {
+      db.calls.push(`lock ${values[0]}`);
+      return 1;
+    },
+    alert: {
+      findUnique: async ({ where }: { where: { id: string } }) => {
+        db.calls.push('read');
+        return db.alerts.find((a) => a.id === where.id) ?? null;
+      },
+      findFirst: async ({ where }: { where: { motorId: string; parameter: string; id: { not: string } } }) =>
+        db.alerts.find(
+          (a) =>
+            a.motorId === where.motorId && a.parameter === where.parameter && a.status !== 'CLOSED' && a.id !== where.id.not
+        ) ?? null,
+      update: async ({ where, data }: { where: { id: string }; data: Partial<Alert> }) => {
+        db.calls.push('update');
+        const alert = db.alerts.find((a) => a.id === where.id)!;
+        Object.assign(alert, data);
+        return alert;
+      },
+    },
+    alertEvent: {
+      create: async ({ data }: { data: { action: string } }) => {
+        db.calls.push(`event ${data.action}`);
+        return data;
+      },
+    },
+  };
+  return { prisma: { $transaction: async <T>(fn: (t: typeof tx) => Promise<T>) => fn(tx) } };
+});
+
+function alert(id: string, status: string, parameter = 'vibrationRms'): Alert {
+  return {
+    id,
+    motorId: 'motor-1',
+    timestamp: new Date('2026-10-19T08:00:00Z'),
+    severity: 'WARNING',
+    parameter,
+    value: 3,
+    message: 'Vibration RMS mendekati batas aman: 3 mm/s',
+    status,
+    lastSeenAt: new Date('2026-10-19T08:00:00Z'),
+    peakValue: 3,
+    occurrences: 1,
+    clearingSince: null,
+    acknowledgedAt: null,
+    acknowledgedBy: null,
+    closedAt: null,
+    closedBy: null,
+  };
+}
+
+const OPERATOR = { actor: 'Budi', comment: null };
+
+beforeEach(() => {
+  db.alerts = [];
+  db.calls = [];
+});
+
+describe('applyAlertAction', () => {
+  it.each<[AlertAction, string, string]>([
+    ['acknowledge', 'OPEN', 'ACKNOWLEDGED'],
+    ['close', 'ACKNOWLEDGED', 'CLOSED'],
+    ['reopen', 'CLOSED', 'OPEN'],
+  ])('locks the motor alerts before it reads the status to %s', async (action, from, to) => {
+    db.alerts = [alert('a1', from)];
+
+    const result = await applyAlertAction('a1', action, OPERATOR);
+
+    expect(result).toMatchObject({ ok: true, alert: { status: to } });
+    expect(db.calls).toEqual(['read', 'lock alerts:motor-1', 'read', 'update', `event ${action.toUpperCase()}`]);
+  });
+
+  it('records the operator on acknowledge and clears them on reopen', async () => {
+    db.alerts = [alert('a1', 'OPEN')];
+
+    await applyAlertAction('a1', 'acknowledge', OPERATOR);
+    expect(db.alerts[0]).toMatchObject({ acknowledgedBy: 'Budi', acknowledgedAt: expect.any(Date) });
+
+    await applyAlertAction('a1', 'reopen', OPERATOR);
+    expect(db.alerts[0]).toMatchObject({ status: 'OPEN', acknowledgedBy: null, acknowledgedAt: null });
+  });
+
+  it('rejects transitions that do not apply to the status', async () => {
+    db.alerts = [alert('a1', 'CLOSED')];
+    expect(await applyAlertAction('a1', 'acknowledge', OPERATOR)).toEqual({
+      ok: false,
+      status: 409,
+      error: 'Cannot acknowledge an alert that is CLOSED',
+    });
+    expect(await applyAlertAction('missing', 'close', OPERATOR)).toMatchObject({ ok: false, status: 404 });
+  });
+
+  it('does not reopen an alert while another one is open for the parameter', async () => {
+    db.alerts = [alert('a1', 'CLOSED'), alert('a2', 'ACKNOWLEDGED')];
+
+    expect(await applyAlertAction('a1', 'reopen', OPERATOR)).toEqual({
+      ok: false,
+      status: 409,
+      error: 'Alert a2 is already open for vibrationRms',
+    });
+    expect(db.calls).not.toContain('update');
+  });
+});
+
+describe('parseActionInput', () => {
+  it('requires an operator and trims the comment', () => {
+    expect(parseActionInput({ actor: ' Budi ', comment: '  ' })).toEqual({ ok: true, input: { actor: 'Budi', comment: null } });
+    expect(parseActionInput({})).toMatchObject({ ok: false });
+    expect(parseActionInput({ actor: 'System' })).toEqual({ ok: false, error: 'actor "system" is reserved' });
+    expect(parseActionInput({ actor: 'Budi', comment: 42 })).toMatchObject({ ok: false });
+  });
+});
+
+describe('parseAlertListQuery', () => {
+  it('filters by motor, severity and status', () => {
+    const parsed = parseAlertListQuery(new URLSearchParams('motorId=motor-1&severity=critical&status=open,acknowledged'));
+    expect(parsed).toEqual({
+      ok: true,
+      query: {
+        where: { motorId: 'motor-1', severity: { in: ['CRITICAL'] }, status: { in: ['OPEN', 'ACKNOWLEDGED'] } },
+        cursor: null,
+        limit: 50,
+      },
+    });
+  });
+
+  it('rejects unknown statuses and limits', () => {
+    expect(parseAlertListQuery(new URLSearchParams('status=muted'))).toMatchObject({ ok: false });
+    expect(parseAlertListQuery(new URLSearchParams('limit=500'))).toMatchObject({ ok: false });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import {
+  classifyRate,
+  conditionHorizon,
+  evaluateConditions,
+  rateOfChange,
+  sustainedLevel,
+  type ParameterSample,
+} from '../alertConditions';
+import { validateThresholdProfile, type ThresholdProfile } from '../thresholds';
+
+const NOW = Date.UTC(2026, 9, 19, 8);
+
+/** The current sample and the history before it, newest first, `stepSeconds` apart */
+function series(values: number[], stepSeconds: number): { current: ParameterSample; history: ParameterSample[] } {
+  const samples = values.map((value, i) => ({ timestamp: new Date(NOW - i * stepSeconds * 1000), value }));
+  return { current: samples[0], history: samples.slice(1) };
+}
+
+function sustained(profile: ThresholdProfile, values: number[], stepSeconds: number) {
+  const { current, history } = series(values, stepSeconds);
+  return sustainedLevel(profile, current, history);
+}
+
+function rate(values: number[], stepSeconds: number, windowSeconds: number) {
+  const { current, history } = series(values, stepSeconds);
+  return rateOfChange(current, history, windowSeconds);
+}
+
+const CURRENT: ThresholdProfile = { direction: 'high', warningHigh: 4, criticalHigh: 5.5, sustainSeconds: 10 };
+const DUST: ThresholdProfile = { direction: 'high', warningHigh: 50, criticalHigh: 100, sustainCount: 3, sustainWindow: 5 };
+const TEMP: ThresholdProfile = {
+  direction: 'high',
+  warningHigh: 70,
+  criticalHigh: 85,
+  rateWarning: 1,
+  rateCritical: 2,
+  rateWindowSeconds: 300,
+};
+
+describe('sustainedLevel', () => {
+  it('ignores a short breach such as a starting current', () => {
+    expect(sustained(CURRENT, [12, 12, 3.5], 4)).toBe('normal');
+  });
+
+  it('keeps a breach that has lasted sustainSeconds', () => {
+    expect(sustained(CURRENT, [6, 6, 6, 3.5], 5)).toBe('critical');
+  });
+
+  it('falls back to warning when only the warning level has held', () => {
+    expect(sustained(CURRENT, [6, 4.5, 4.5, 3.5], 5)).toBe('warning');
+  });
+
+  it('counts M of the last K samples', () => {
+    expect(sustained(DUST, [60, 20, 70, 20, 80], 60)).toBe('warning');
+    expect(sustained(DUST, [60, 20, 70, 20, 20, 80], 60)).toBe('normal');
+  });
+
+  it('alerts on a single sample without conditions', () => {
+    expect(sustained({ direction: 'high', warningHigh: 4, criticalHigh: 5.5 }, [6], 1)).toBe('critical');
+  });
+});
+
+describe('rateOfChange', () => {
+  it('fits the slope in units per minute', () => {
+    expect(rate([60, 58.5, 57, 55.5, 54, 52.5], 60, 300)).toBeCloseTo(1.5);
+  });
+
+  it('needs enough samples spanning half the window', () => {
+    expect(rate([60, 59], 60, 300)).toBeNull();
+    expect(rate([60, 59, 58], 30, 300)).toBeNull();
+  });
+
+  it('ignores samples outside the window', () => {
+    expect(rate([60, 59, 58, 57, 56, 55, 0], 60, 300)).toBeCloseTo(1);
+  });
+});
+
+describe('classifyRate', () => {
+  it('counts the bad direction of the profile', () => {
+    expect(classifyRate(2.5, TEMP)).toBe('critical');
+    expect(classifyRate(-2.5, TEMP)).toBe('normal');
+    expect(classifyRate(-1, { ...TEMP, direction: 'low' })).toBe('warning');
+    expect(classifyRate(-1, { ...TEMP, direction: 'band' })).toBe('warning');
+  });
+});
+
+describe('evaluateConditions', () => {
+  it('raises a rate alert well before the limit', () => {
+    const { current, history } = series([60, 58, 56, 54, 52, 50], 60);
+    expect(evaluateConditions(TEMP, current, history)).toEqual({
+      severity: 'CRITICAL',
+      level: 'normal',
+      rate: expect.closeTo(2),
+      trigger: 'rate',
+    });
+  });
+
+  it('reports the level trigger when the value is as bad as the rate', () => {
+    const { current, history } = series([90, 89, 88, 87, 86, 85], 60);
+    expect(evaluateConditions(TEMP, current, history)).toMatchObject({ severity: 'CRITICAL', trigger: 'level' });
+  });
+
+  it('reports the raw level of an unsustained breach', () => {
+    expect(evaluateConditions(CURRENT, series([12], 1).current)).toEqual({
+      severity: null,
+      level: 'critical',
+      rate: null,
+      trigger: null,
+    });
+  });
+});
+
+describe('conditionHorizon', () => {
+  it('covers the longest time condition and the sample window', () => {
+    expect(conditionHorizon(TEMP)).toEqual({ seconds: 300, samples: 0 });
+    expect(conditionHorizon(DUST)).toEqual({ seconds: 0, samples: 4 });
+    expect(conditionHorizon({ ...CURRENT, rateWindowSeconds: 600 })).toEqual({ seconds: 10, samples: 0 });
+  });
+});
+
+describe('validateThresholdProfile conditions', () => {
+  const HIGH = { direction: 'high', warningHigh: 4, criticalHigh: 5.5 };
+
+  it('accepts sustain and rate conditions', () => {
+    expect(validateThresholdProfile({ ...HIGH, sustainCount: 3, sustainWindow: 5, rateWarning: 0.5, rateWindowSeconds: 120 })).toMatchObject({
+      ok: true,
+      profile: { sustainCount: 3, sustainWindow: 5, rateWarning: 0.5, rateCritical: null, rateWindowSeconds: 120 },
+    });
+  });
+
+  it('drops a rate window without a rate', () => {
+    expect(validateThresholdProfile({ ...HIGH, rateWindowSeconds: 120 })).toMatchObject({
+      ok: true,
+      profile: { rateWindowSeconds: null },
+    });
+  });
+
+  it('rejects inconsistent conditions', () => {
+    const error = (body: object) => {
+      const result = validateThresholdProfile({ ...HIGH, ...body });
+      return result.ok ? null : result.error;
+    };
+    expect(error({ sustainSeconds: 1.5 })).toBe('sustainSeconds must be a whole number');
+    expect(error({ sustainSeconds: 7200 })).toBe('sustainSeconds must be at most 3600');
+    expect(error({ sustainCount: 3 })).toBe('sustainCount and sustainWindow must be set together');
+    expect(error({ sustainCount: 6, sustainWindow: 5 })).toBe('sustainCount must be at most sustainWindow');
+    expect(error({ rateWarning: 2, rateCritical: 1, rateWindowSeconds: 60 })).toBe('rateCritical must be at least rateWarning');
+    expect(error({ rateWarning: 1 })).toBe('rateWindowSeconds is required with a rate condition');
+    expect(error({ rateWarning: -1, rateWindowSeconds: 60 })).toBe('rateWarning must be a positive number');
+  });
+});
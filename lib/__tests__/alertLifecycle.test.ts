@@ -0,0 +1,168 @@
+import type { Alert, Prisma } from '@prisma/client';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  ALERT_CLEAR_DELAY_SECONDS,
+  applyAlertLifecycle,
+  isClearOfThreshold,
+  SYSTEM_ACTOR,
+  type AlertObservation,
+} from '../alertLifecycle';
+
+// motorCurrent default profile: warning 4 A, critical 5.5 A, deadband 0.2 A
+
+interface FakeEvent {
+  alertId: string;
+  action: string;
+  actor: string;
+}
+
+/** In-memory transaction client covering what the lifecycle uses */
+function fakeTransaction() {
+  const alerts: Alert[] = [];
+  const events: FakeEvent[] = [];
+  let locks = 0;
+
+  const tx = {
+    $executeRaw: async () => {
+      locks++;
+      return 0;
+    },
+    alert: {
+      findMany: async ({ where }: { where: { motorId: string; parameter: { in: string[] } } }) =>
+        alerts.filter(
+          (a) => a.motorId === where.motorId && where.parameter.in.includes(a.parameter) && a.status !== 'CLOSED'
+        ),
+      create: async ({ data }: { data: Partial<Alert> }) => {
+        const alert = {
+          id: `alert-${alerts.length + 1}`,
+          occurrences: 1,
+          clearingSince: null,
+          acknowledgedAt: null,
+          acknowledgedBy: null,
+          closedAt: null,
+          closedBy: null,
+          ...data,
+        } as Alert;
+        alerts.push(alert);
+        return alert;
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) => {
+        const alert = alerts.find((a) => a.id === where.id)!;
+        for (const [field, value] of Object.entries(data)) {
+          const increment = (value as { increment?: number } | null)?.increment;
+          (alert as unknown as Record<string, unknown>)[field] =
+            increment === undefined ? value : (alert[field as keyof Alert] as number) + increment;
+        }
+        return alert;
+      },
+    },
+    alertEvent: {
+      create: async ({ data }: { data: FakeEvent }) => {
+        events.push(data);
+        return data;
+      },
+    },
+  };
+
+  return { tx: tx as unknown as Prisma.TransactionClient, alerts, events, locks: () => locks };
+}
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 9, 19, 8, 0, seconds));
+
+function current(value: number): AlertObservation {
+  return { parameter: 'motorCurrent', value, severity: value >= 5.5 ? 'CRITICAL' : value >= 4 ? 'WARNING' : null };
+}
+
+describe('isClearOfThreshold', () => {
+  it('requires the value to clear the threshold by the deadband', () => {
+    expect(isClearOfThreshold(4.5, 'motorCurrent')).toBe(false);
+    expect(isClearOfThreshold(3.9, 'motorCurrent')).toBe(false);
+    expect(isClearOfThreshold(3.7, 'motorCurrent')).toBe(true);
+  });
+
+  it('applies the deadband on both sides of a band profile', () => {
+    // gridVoltage: normal band 200-240 V, deadband 3 V
+    expect(isClearOfThreshold(220, 'gridVoltage')).toBe(true);
+    expect(isClearOfThreshold(238, 'gridVoltage')).toBe(false);
+    expect(isClearOfThreshold(202, 'gridVoltage')).toBe(false);
+  });
+});
+
+describe('applyAlertLifecycle', () => {
+  let fake: ReturnType<typeof fakeTransaction>;
+  const apply = (seconds: number, value: number) =>
+    applyAlertLifecycle(fake.tx, 'motor-1', at(seconds), [current(value)]);
+
+  beforeEach(() => {
+    fake = fakeTransaction();
+  });
+
+  it('does nothing, not even lock, without observations', async () => {
+    expect(await applyAlertLifecycle(fake.tx, 'motor-1', at(0), [])).toEqual({ opened: [], updated: 0, closed: 0 });
+    expect(fake.locks()).toBe(0);
+  });
+
+  it('opens one alert and counts repeat breaches on it', async () => {
+    const first = await apply(0, 4.2);
+    const second = await apply(10, 4.8);
+
+    expect(first.opened).toHaveLength(1);
+    expect(second).toMatchObject({ opened: [], updated: 1 });
+    expect(fake.alerts).toHaveLength(1);
+    expect(fake.alerts[0]).toMatchObject({ severity: 'WARNING', status: 'OPEN', occurrences: 2, peakValue: 4.8 });
+    expect(fake.alerts[0].lastSeenAt).toEqual(at(10));
+    expect(fake.locks()).toBe(2);
+  });
+
+  it('escalates to critical but never downgrades while open', async () => {
+    await apply(0, 4.2);
+    await apply(10, 6);
+    await apply(20, 4.2);
+
+    expect(fake.alerts[0]).toMatchObject({ severity: 'CRITICAL', peakValue: 6 });
+    expect(fake.events).toEqual([expect.objectContaining({ action: 'ESCALATE', actor: SYSTEM_ACTOR })]);
+  });
+
+  it('closes only after the value stays clear for the clear delay', async () => {
+    await apply(0, 4.5);
+    await apply(10, 3);
+    expect(fake.alerts[0].clearingSince).toEqual(at(10));
+
+    const early = await apply(10 + ALERT_CLEAR_DELAY_SECONDS - 1, 3);
+    expect(early.closed).toBe(0);
+
+    const late = await apply(10 + ALERT_CLEAR_DELAY_SECONDS, 3);
+    expect(late.closed).toBe(1);
+    expect(fake.alerts[0]).toMatchObject({ status: 'CLOSED', closedBy: SYSTEM_ACTOR });
+    expect(fake.events.map((e) => e.action)).toEqual(['AUTO_CLOSE']);
+  });
+
+  it('restarts the clear delay when the value returns inside the deadband', async () => {
+    await apply(0, 4.5);
+    await apply(10, 3);
+    await apply(20, 3.9);
+    expect(fake.alerts[0].clearingSince).toBeNull();
+
+    await apply(30, 3);
+    const result = await apply(10 + ALERT_CLEAR_DELAY_SECONDS, 3);
+    expect(result.closed).toBe(0);
+    expect(fake.alerts[0].clearingSince).toEqual(at(30));
+  });
+
+  it('does not let backlog readings start, reset or lengthen the clear delay', async () => {
+    await apply(100, 4.5);
+
+    // A clear reading older than the last breach starts the delay at the breach
+    await apply(50, 3);
+    expect(fake.alerts[0].clearingSince).toEqual(at(100));
+
+    // A breach older than the clear start keeps it and the last breach
+    await apply(80, 4.6);
+    expect(fake.alerts[0].clearingSince).toEqual(at(100));
+    expect(fake.alerts[0].lastSeenAt).toEqual(at(100));
+
+    // A clear reading before clearingSince counts as clear for 0 s
+    expect((await apply(60, 3)).closed).toBe(0);
+    expect(fake.alerts[0].status).toBe('OPEN');
+  });
+});
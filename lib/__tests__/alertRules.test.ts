@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildRuleAlertMessage,
+  evaluateRule,
+  formatRuleExpression,
+  MAX_RULE_DEPTH,
+  readingValues,
+  RULE_COMPARATORS,
+  ruleParameters,
+  validateAlertRule,
+  validateRuleExpression,
+  type RuleExpression,
+} from '../alertRules';
+
+// The "Bearing damage" rule of the seed data
+const BEARING_DAMAGE: RuleExpression = {
+  op: 'and',
+  args: [
+    { op: 'compare', parameter: 'vibrationRms', comparator: '>', value: 4.5 },
+    { op: 'compare', parameter: 'bearingTemp', comparator: '>', value: 85 },
+  ],
+};
+
+const LOW_PF_AT_NORMAL_CURRENT: RuleExpression = {
+  op: 'and',
+  args: [
+    { op: 'not', arg: { op: 'level', parameter: 'powerFactor', level: 'normal' } },
+    { op: 'level', parameter: 'motorCurrent', level: 'normal' },
+  ],
+};
+
+describe('evaluateRule', () => {
+  it('fires when every condition holds', () => {
+    expect(evaluateRule(BEARING_DAMAGE, { vibrationRms: 5, bearingTemp: 90 })).toBe(true);
+    expect(evaluateRule(BEARING_DAMAGE, { vibrationRms: 5, bearingTemp: 60 })).toBe(false);
+  });
+
+  it('is unknown only when the missing value could change the result', () => {
+    expect(evaluateRule(BEARING_DAMAGE, { vibrationRms: 5, bearingTemp: null })).toBeNull();
+    expect(evaluateRule(BEARING_DAMAGE, { vibrationRms: 2, bearingTemp: null })).toBe(false);
+
+    const either: RuleExpression = { ...BEARING_DAMAGE, op: 'or' };
+    expect(evaluateRule(either, { vibrationRms: 5 })).toBe(true);
+    expect(evaluateRule(either, { vibrationRms: 2 })).toBeNull();
+    expect(evaluateRule({ op: 'not', arg: either }, { vibrationRms: 2 })).toBeNull();
+  });
+
+  it('evaluates levels against the given thresholds', () => {
+    expect(evaluateRule(LOW_PF_AT_NORMAL_CURRENT, { powerFactor: 0.8, motorCurrent: 3.5 })).toBe(true);
+    expect(evaluateRule(LOW_PF_AT_NORMAL_CURRENT, { powerFactor: 0.8, motorCurrent: 4.5 })).toBe(false);
+    const thresholds = { motorCurrent: { direction: 'high' as const, warningHigh: 15, criticalHigh: 17 } };
+    expect(evaluateRule(LOW_PF_AT_NORMAL_CURRENT, { powerFactor: 0.8, motorCurrent: 4.5 }, thresholds)).toBe(true);
+  });
+
+  it('supports every comparator', () => {
+    const results = RULE_COMPARATORS.map((comparator) =>
+      evaluateRule({ op: 'compare', parameter: 'gridFrequency', comparator, value: 50 }, { gridFrequency: 50 })
+    );
+    expect(results).toEqual([false, true, false, true, true, false]);
+  });
+});
+
+describe('readingValues', () => {
+  it('maps a stored reading to rule values, with apparent power as V × I', () => {
+    const values = readingValues({ gridVoltage: 220, motorCurrent: 3.5, powerConsumption: 650, bearingTemp: null, id: 'r1' });
+    expect(values).toMatchObject({ gridVoltage: 220, motorCurrent: 3.5, power: 650, apparentPower: 770, bearingTemp: null });
+    expect(readingValues({ gridVoltage: 220 }).apparentPower).toBeNull();
+  });
+});
+
+describe('validateRuleExpression', () => {
+  it('accepts nested expressions and reads numeric strings', () => {
+    const result = validateRuleExpression({
+      op: 'or',
+      args: [{ op: 'compare', parameter: 'dustDensity', comparator: '>=', value: '150' }, LOW_PF_AT_NORMAL_CURRENT],
+    });
+    expect(result).toMatchObject({ ok: true, expression: { args: [{ value: 150 }, LOW_PF_AT_NORMAL_CURRENT] } });
+  });
+
+  it('rejects malformed nodes with their path', () => {
+    expect(validateRuleExpression({ op: 'and', args: [] })).toEqual({
+      ok: false,
+      error: 'expression.args must be a non-empty array',
+    });
+    expect(validateRuleExpression({ op: 'not', arg: { op: 'compare', parameter: 'rpm', comparator: '>', value: 1 } })).toMatchObject({
+      ok: false,
+      error: expect.stringMatching(/^expression\.arg\.parameter must be one of/),
+    });
+    expect(validateRuleExpression({ op: 'level', parameter: 'bearingTemp', level: 'bad' })).toMatchObject({ ok: false });
+    expect(validateRuleExpression({ op: 'xor' })).toMatchObject({ ok: false });
+  });
+
+  it('limits nesting and size', () => {
+    let deep: RuleExpression = { op: 'level', parameter: 'bearingTemp', level: 'normal' };
+    for (let i = 0; i < MAX_RULE_DEPTH; i++) deep = { op: 'not', arg: deep };
+    expect(validateRuleExpression(deep)).toEqual({ ok: false, error: `expression must be nested at most ${MAX_RULE_DEPTH} levels` });
+
+    const wide = { op: 'and', args: Array(40).fill(BEARING_DAMAGE.args[0]) };
+    expect(validateRuleExpression(wide)).toMatchObject({ ok: false, error: expect.stringContaining('at most 40') });
+  });
+});
+
+describe('validateAlertRule', () => {
+  it('requires name and expression on create, defaulting to a warning', () => {
+    expect(validateAlertRule({ name: ' Bearing damage ', expression: JSON.stringify(BEARING_DAMAGE) })).toEqual({
+      ok: true,
+      data: { name: 'Bearing damage', expression: BEARING_DAMAGE, severity: 'WARNING' },
+    });
+    expect(validateAlertRule({ expression: BEARING_DAMAGE })).toEqual({ ok: false, error: 'name must be 1-100 characters' });
+    expect(validateAlertRule({ name: 'x', expression: '{' })).toEqual({ ok: false, error: 'expression is not valid JSON' });
+  });
+
+  it('validates only the sent fields of an update', () => {
+    expect(validateAlertRule({ enabled: false, message: '' }, true)).toEqual({ ok: true, data: { enabled: false, message: null } });
+    expect(validateAlertRule({ severity: 'INFO' }, true)).toMatchObject({ ok: false });
+  });
+});
+
+describe('rule text', () => {
+  it('formats expressions and cites the measured values in the alert', () => {
+    expect(formatRuleExpression(LOW_PF_AT_NORMAL_CURRENT)).toBe('NOT Power Factor is normal AND Motor Current is normal');
+    expect(ruleParameters({ op: 'or', args: [BEARING_DAMAGE, BEARING_DAMAGE.args[0]] })).toEqual(['vibrationRms', 'bearingTemp']);
+
+    const rule = { name: 'Bearing damage', expression: BEARING_DAMAGE, severity: 'CRITICAL' as const, message: null, enabled: true };
+    expect(buildRuleAlertMessage(rule, { vibrationRms: 5.123, bearingTemp: null })).toBe('Bearing damage: Vibration RMS 5.12 mm/s');
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildBaselineAlertMessage,
+  computeBaseline,
+  evaluateBaseline,
+  MIN_BASELINE_SAMPLES,
+  robustDeviation,
+  robustStats,
+  validateBaselineRequest,
+  type BaselineStatistics,
+  type MotorBaseline,
+} from '../baseline';
+
+const NOW = new Date('2026-10-19T08:00:00Z');
+
+/** `n` values `step` apart, centred on `center` */
+function spread(center: number, n: number, step: number): number[] {
+  return Array.from({ length: n }, (_, i) => center + (i - (n - 1) / 2) * step);
+}
+
+function baselineOf(statistics: BaselineStatistics, loadBands: number[] | null = null): MotorBaseline {
+  return {
+    id: 'baseline-1',
+    motorId: 'motor-1',
+    version: 1,
+    status: 'ACTIVE',
+    trainingStart: '2026-10-12T08:00:00.000Z',
+    trainingEnd: NOW.toISOString(),
+    sampleCount: 100,
+    loadBands,
+    warningZ: 4,
+    criticalZ: 6,
+    note: null,
+    createdBy: null,
+    createdAt: NOW.toISOString(),
+    supersededAt: null,
+    statistics,
+  };
+}
+
+describe('robustStats', () => {
+  it('needs MIN_BASELINE_SAMPLES values', () => {
+    expect(robustStats(spread(50, MIN_BASELINE_SAMPLES - 1, 1))).toBeNull();
+  });
+
+  it('is not moved by a few outliers', () => {
+    const values = [...spread(58, 41, 0.1), 150, 160];
+    expect(robustStats(values)).toMatchObject({ median: expect.closeTo(58.1), mad: expect.closeTo(1.1), count: 43 });
+  });
+});
+
+describe('robustDeviation', () => {
+  it('scales the distance from the median by the MAD', () => {
+    expect(robustDeviation(63, { median: 58, mad: 1, p05: 55, p95: 61, count: 100 })).toBeCloseTo(5 / 1.4826);
+  });
+
+  it('keeps a minimum spread for parameters that barely moved', () => {
+    expect(robustDeviation(50.5, { median: 50, mad: 0, p05: 50, p95: 50, count: 100 })).toBeCloseTo(1);
+  });
+});
+
+describe('computeBaseline', () => {
+  const rows = [
+    ...spread(1.2, 40, 0.01).map((current, i) => ({ motorCurrent: current, bearingTemp: 45 + (i % 5) * 0.2 })),
+    ...spread(3.5, 40, 0.01).map((current, i) => ({ motorCurrent: current, bearingTemp: 60 + (i % 5) * 0.2 })),
+  ];
+
+  it('learns overall statistics for every parameter with enough values', () => {
+    const result = computeBaseline(rows, null, 4);
+    if (!result.ok) throw new Error(result.error);
+    expect(Object.keys(result.statistics.overall)).toEqual(['motorCurrent', 'bearingTemp']);
+    expect(result.statistics).toMatchObject({ ratedCurrent: null, bands: [] });
+  });
+
+  it('learns per load band of the rated current', () => {
+    const result = computeBaseline(rows, [40, 75], 4);
+    if (!result.ok) throw new Error(result.error);
+    expect(result.statistics.bands.map((b) => [b.label, b.parameters.bearingTemp?.median])).toEqual([
+      ['< 40%', expect.closeTo(45.4)],
+      ['40-75%', undefined],
+      ['≥ 75%', expect.closeTo(60.4)],
+    ]);
+  });
+
+  it('fails without enough readings', () => {
+    expect(computeBaseline(rows.slice(0, 10), null, 4)).toMatchObject({ ok: false });
+  });
+});
+
+describe('evaluateBaseline', () => {
+  const result = computeBaseline(
+    [
+      ...spread(1.2, 40, 0.01).map((current, i) => ({ motorCurrent: current, bearingTemp: 44 + (i % 5) })),
+      ...spread(3.5, 40, 0.01).map((current, i) => ({ motorCurrent: current, bearingTemp: 58 + (i % 5) })),
+    ],
+    [40, 75],
+    4
+  );
+  if (!result.ok) throw new Error(result.error);
+  const baseline = baselineOf(result.statistics, [40, 75]);
+
+  const bearingTemp = (reading: Record<string, unknown>) =>
+    evaluateBaseline(reading, baseline).find((d) => d.parameter === 'bearingTemp');
+
+  it('compares against the load band of the reading', () => {
+    // Normal at full load, abnormal at light load
+    expect(bearingTemp({ motorCurrent: 3.5, bearingTemp: 60 })).toMatchObject({ band: '≥ 75%', severity: null, matched: false });
+    expect(bearingTemp({ motorCurrent: 1.2, bearingTemp: 60 })).toMatchObject({ band: '< 40%', severity: 'CRITICAL', matched: true });
+  });
+
+  it('uses the overall statistics without a current', () => {
+    expect(bearingTemp({ bearingTemp: 60 })).toMatchObject({ band: null, median: 53 });
+  });
+
+  it('skips parameters that were not measured or learned', () => {
+    expect(evaluateBaseline({ motorCurrent: null, dustDensity: 300 }, baseline)).toEqual([]);
+  });
+
+  it('writes the deviation into the alert message', () => {
+    expect(buildBaselineAlertMessage(bearingTemp({ motorCurrent: 1.2, bearingTemp: 60 })!)).toMatch(
+      /^Bearing Temp tidak normal untuk motor ini: 60 °C, baseline 46 °C pada beban < 40% \(\+\d+\.\dσ\)$/
+    );
+  });
+});
+
+describe('validateBaselineRequest', () => {
+  it('defaults to the last week with default limits', () => {
+    expect(validateBaselineRequest({}, NOW)).toEqual({
+      ok: true,
+      data: {
+        trainingStart: new Date('2026-10-12T08:00:00Z'),
+        trainingEnd: NOW,
+        loadBands: null,
+        warningZ: 4,
+        criticalZ: 6,
+        note: null,
+        createdBy: null,
+      },
+    });
+    expect(validateBaselineRequest({ loadBands: true }, NOW)).toMatchObject({ ok: true, data: { loadBands: [40, 75] } });
+  });
+
+  it('rejects invalid windows, bands and limits', () => {
+    const error = (body: object) => {
+      const result = validateBaselineRequest(body, NOW);
+      return result.ok ? null : result.error;
+    };
+    expect(error({ trainingEnd: '2026-10-20T00:00:00Z' })).toBe('trainingEnd must not be in the future');
+    expect(error({ trainingStart: '2026-10-19T09:00:00Z', trainingEnd: '2026-10-19T07:00:00Z' })).toBe(
+      'trainingStart must be before trainingEnd'
+    );
+    expect(error({ loadBands: [75, 40] })).toMatch(/^loadBands must be 1-5 ascending edges/);
+    expect(error({ warningZ: 1 })).toBe('warningZ must be between 2 and 20');
+    expect(error({ warningZ: 5, criticalZ: 5 })).toBe('criticalZ must be above warningZ and at most 30');
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import {
+  advanceBearingLife,
+  bearingLifeFactor,
+  bearingSampleFor,
+  BEARING_REFERENCE_TEMP,
+  BEARING_TEMP_HALVING,
+  EMPTY_BEARING_STATE,
+  l10Hours,
+  MAX_RUNNING_GAP_MINUTES,
+  validateBearingInput,
+  type BearingSample,
+} from '../bearingLife';
+import { vibrationClassFor } from '../vibrationSeverity';
+
+// 7.5 kW motor: ISO 10816-1 Class I, zone C from 1.8 mm/s, zone D from 4.5 mm/s
+const CLASS_1 = vibrationClassFor({ ratedPower: 7.5 });
+const START = Date.UTC(2026, 9, 1);
+
+const sample = (minutes: number, running = true, lifeFactor = 1): BearingSample => ({
+  timestamp: new Date(START + minutes * 60 * 1000),
+  running,
+  lifeFactor,
+});
+
+describe('l10Hours', () => {
+  it('follows L10h = 10^6 / (60 n) × (C / P)^3 for ball bearings', () => {
+    // 6205: C = 14 kN at P = 1.4 kN, 1450 rpm
+    const hours = l10Hours({ bearingType: 'ball', dynamicLoadRating: 14, equivalentLoad: 1.4, speedRpm: 1450 });
+    expect(hours).toBeCloseTo((1e6 / (60 * 1450)) * 1000);
+  });
+
+  it('uses the exponent 10/3 for roller bearings', () => {
+    const hours = l10Hours({ bearingType: 'roller', dynamicLoadRating: 20, equivalentLoad: 2, speedRpm: 1000 });
+    expect(hours).toBeCloseTo((1e6 / 60000) * Math.pow(10, 10 / 3));
+  });
+
+  it('is inversely proportional to the speed', () => {
+    const bearing = { bearingType: 'ball' as const, dynamicLoadRating: 14, equivalentLoad: 2 };
+    expect(l10Hours({ ...bearing, speedRpm: 1500 })).toBeCloseTo(l10Hours({ ...bearing, speedRpm: 3000 }) * 2);
+  });
+});
+
+describe('bearingLifeFactor', () => {
+  it('is 1 at or below the reference temperature in zones A and B', () => {
+    expect(bearingLifeFactor(BEARING_REFERENCE_TEMP, 1, CLASS_1)).toBe(1);
+    expect(bearingLifeFactor(40, 0.5, CLASS_1)).toBe(1);
+    expect(bearingLifeFactor(null, undefined, CLASS_1)).toBe(1);
+  });
+
+  it('halves for every BEARING_TEMP_HALVING K above the reference', () => {
+    expect(bearingLifeFactor(BEARING_REFERENCE_TEMP + BEARING_TEMP_HALVING, null, CLASS_1)).toBeCloseTo(0.5);
+    expect(bearingLifeFactor(BEARING_REFERENCE_TEMP + 2 * BEARING_TEMP_HALVING, null, CLASS_1)).toBeCloseTo(0.25);
+  });
+
+  it('is reduced in vibration zones C and D and combines with the temperature factor', () => {
+    expect(bearingLifeFactor(null, 2, CLASS_1)).toBe(0.5);
+    expect(bearingLifeFactor(null, 5, CLASS_1)).toBe(0.1);
+    expect(bearingLifeFactor(BEARING_REFERENCE_TEMP + BEARING_TEMP_HALVING, 2, CLASS_1)).toBeCloseTo(0.25);
+  });
+});
+
+describe('bearingSampleFor', () => {
+  const reading = { timestamp: new Date(START), bearingTemp: 50, vibrationRms: 1 };
+
+  it('counts the motor as running above a tenth of its rated current', () => {
+    expect(bearingSampleFor({ ...reading, motorCurrent: 1.6 }, 15, CLASS_1)?.running).toBe(true);
+    expect(bearingSampleFor({ ...reading, motorCurrent: 1.5 }, 15, CLASS_1)?.running).toBe(false);
+  });
+
+  it('gives no sample without a current reading', () => {
+    expect(bearingSampleFor({ ...reading, motorCurrent: null }, 15, CLASS_1)).toBeNull();
+  });
+});
+
+describe('advanceBearingLife', () => {
+  it('consumes one hour of life per running hour at the rated conditions', () => {
+    let state = EMPTY_BEARING_STATE;
+    for (let minutes = 0; minutes <= 60; minutes += 5) state = advanceBearingLife(state, sample(minutes));
+    expect(state.runningHours).toBeCloseTo(1);
+    expect(state.consumedHours).toBeCloseTo(1);
+  });
+
+  it('consumes life at the mean rate of the interval ends', () => {
+    const state = advanceBearingLife(advanceBearingLife(EMPTY_BEARING_STATE, sample(0, true, 1)), sample(6, true, 0.5));
+    expect(state.runningHours).toBeCloseTo(0.1);
+    expect(state.consumedHours).toBeCloseTo(0.1 * ((1 + 2) / 2));
+  });
+
+  it('does not count stopped intervals or gaps as running time', () => {
+    const stopped = advanceBearingLife(advanceBearingLife(EMPTY_BEARING_STATE, sample(0, false)), sample(5));
+    expect(stopped.runningHours).toBe(0);
+
+    const gap = advanceBearingLife(advanceBearingLife(EMPTY_BEARING_STATE, sample(0)), sample(MAX_RUNNING_GAP_MINUTES + 1));
+    expect(gap.runningHours).toBe(0);
+    expect(gap.lastTimestamp).toEqual(sample(MAX_RUNNING_GAP_MINUTES + 1).timestamp);
+  });
+
+  it('ignores readings not newer than the last one', () => {
+    const state = advanceBearingLife(advanceBearingLife(EMPTY_BEARING_STATE, sample(0)), sample(10));
+    expect(advanceBearingLife(state, sample(5))).toBe(state);
+  });
+});
+
+describe('validateBearingInput', () => {
+  const body = {
+    position: 'Drive end',
+    designation: '6205-2RS',
+    dynamicLoadRating: 14,
+    equivalentLoad: 1.4,
+    speedRpm: 1450,
+    installedAt: '2026-01-01T00:00:00Z',
+  };
+
+  it('accepts a complete bearing, defaulting to a ball bearing', () => {
+    const result = validateBearingInput(body, false, new Date(Date.UTC(2026, 9, 19)));
+    expect(result).toEqual({
+      ok: true,
+      data: { ...body, bearingType: 'ball', installedAt: new Date('2026-01-01T00:00:00Z') },
+    });
+  });
+
+  it('rejects a load above the load rating and an installation in the future', () => {
+    expect(validateBearingInput({ ...body, equivalentLoad: 15 })).toEqual({
+      ok: false,
+      error: 'equivalentLoad must not exceed dynamicLoadRating',
+    });
+    expect(validateBearingInput(body, false, new Date(Date.UTC(2025, 0, 1)))).toEqual({
+      ok: false,
+      error: 'installedAt must not be in the future',
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateHealthScore,
+  FRESH_READING_SECONDS,
+  readingFreshness,
+  STALE_READING_SECONDS,
+  type SensorReading,
+} from '../calculateHealthScore';
+
+// Every scored parameter within its default normal range
+const HEALTHY: SensorReading = {
+  gridVoltage: 220,
+  motorCurrent: 3.5,
+  powerFactor: 0.9,
+  gridFrequency: 50,
+  loadIndex: 0.6,
+  vibrationRms: 1.2,
+  vibrationPeakG: 0.3,
+  crestFactor: 4,
+  motorSurfaceTemp: 40,
+  bearingTemp: 45,
+  ambientTemp: 30,
+  hotspot: false,
+  dustDensity: 20,
+};
+
+/** Sub-index of `subsystem` as [score, category, penalty] */
+function subIndex(reading: SensorReading, subsystem: string) {
+  const sub = calculateHealthScore(reading).subIndices.find((s) => s.subsystem === subsystem)!;
+  return [sub.score, sub.category, sub.penalty];
+}
+
+describe('calculateHealthScore sub-indices', () => {
+  it('scores a normal motor 100 in every subsystem', () => {
+    const result = calculateHealthScore(HEALTHY);
+    expect(result).toMatchObject({ score: 100, category: 'Healthy', factors: [], recovery: [] });
+    expect(result.subIndices.map((s) => [s.subsystem, s.score, s.weight])).toEqual([
+      ['electrical', 100, 50],
+      ['mechanical', 100, 40],
+      ['thermal', 100, 45],
+      ['environmental', 100, 15],
+    ]);
+  });
+
+  it('scores each subsystem against its own points', () => {
+    const reading = { ...HEALTHY, vibrationRms: 5, crestFactor: 8 };
+    expect(calculateHealthScore(reading)).toMatchObject({ score: 68, category: 'At Risk' });
+    expect(subIndex(reading, 'mechanical')).toEqual([20, 'Critical', 32]);
+    expect(subIndex(reading, 'electrical')).toEqual([100, 'Healthy', 0]);
+  });
+
+  it('costs half the points at warning and explains each factor', () => {
+    const { factors } = calculateHealthScore({ ...HEALTHY, vibrationRms: 5, powerFactor: 0.8 });
+    expect(factors.map((f) => [f.parameter, f.subsystem, f.penalty])).toEqual([
+      ['vibrationRms', 'mechanical', 25],
+      ['powerFactor', 'electrical', 7.5],
+    ]);
+    expect(factors[0].explanation).toBe(
+      'Vibration RMS 5 mm/s is above the critical limit 4.5 mm/s: -25 of 25 points (full penalty when critical)'
+    );
+    expect(factors[1].explanation).toMatch(/^Power Factor 0.8 is at or below the warning limit 0.85: -7.5 of 15 points/);
+  });
+
+  it('scores the surface by its rise above ambient when that is worse', () => {
+    const { factors } = calculateHealthScore({ ...HEALTHY, motorSurfaceTemp: 60, ambientTemp: 20 });
+    expect(factors).toMatchObject([{ parameter: 'tempGradient', subsystem: 'thermal', value: 40, penalty: 20 }]);
+  });
+
+  it('costs the hotspot points when the ESP flags one', () => {
+    expect(subIndex({ ...HEALTHY, hotspot: true }, 'thermal')).toEqual([89, 'Healthy', 5]);
+  });
+});
+
+describe('calculateHealthScore recovery', () => {
+  it('takes the smallest change that is enough, possibly only back to warning', () => {
+    const { recovery } = calculateHealthScore({ ...HEALTHY, vibrationRms: 5, crestFactor: 8 });
+    expect(recovery).toEqual([
+      {
+        parameter: 'vibrationRms',
+        subsystem: 'mechanical',
+        from: 5,
+        target: 4.5,
+        direction: 'below',
+        targetLevel: 'warning',
+        pointsRecovered: 12.5,
+        explanation: 'Bring Vibration RMS from 5 mm/s below 4.5 mm/s (warning): +12.5 points',
+      },
+    ]);
+  });
+
+  it('brings the largest penalties back to normal first', () => {
+    const result = calculateHealthScore({ ...HEALTHY, vibrationRms: 5, bearingTemp: 90, dustDensity: 120 });
+    expect(result.score).toBe(45);
+    expect(result.recovery.map((s) => [s.parameter, s.target, s.targetLevel, s.pointsRecovered])).toEqual([
+      ['vibrationRms', 2.8, 'normal', 25],
+      ['bearingTemp', 85, 'warning', 10],
+    ]);
+  });
+
+  it('targets the nearer bound of low and band parameters', () => {
+    const { recovery } = calculateHealthScore({ ...HEALTHY, gridVoltage: 260, powerFactor: 0.6, vibrationRms: 3 });
+    expect(recovery.map((s) => [s.parameter, s.target, s.direction])).toEqual([
+      ['powerFactor', 0.85, 'above'],
+      ['gridVoltage', 250, 'below'],
+    ]);
+  });
+
+  it('clears the hotspot like any other factor', () => {
+    const { recovery } = calculateHealthScore({ ...HEALTHY, hotspot: true, bearingTemp: 90 });
+    expect(recovery.map((s) => [s.parameter, s.target])).toEqual([['hotspot', null]]);
+  });
+});
+
+describe('calculateHealthScore coverage', () => {
+  it('is Unknown without readings rather than healthy', () => {
+    const result = calculateHealthScore({});
+    expect(result).toMatchObject({ score: 100, category: 'Unknown', coverage: 0, confidence: 0, recovery: [] });
+    expect(result.gaps).toHaveLength(13);
+    expect(result.gaps.every((gap) => gap.reason === 'missing')).toBe(true);
+  });
+
+  it('treats implausible values as gaps that cost nothing', () => {
+    const result = calculateHealthScore({ ...HEALTHY, bearingTemp: -127 });
+    expect(result).toMatchObject({ score: 100, category: 'Healthy', coverage: 0.87 });
+    expect(result.gaps).toEqual([{ parameter: 'bearingTemp', subsystem: 'thermal', reason: 'implausible', value: -127 }]);
+  });
+
+  it('judges each subsystem by its own coverage', () => {
+    const { gridVoltage, motorCurrent, powerFactor, gridFrequency, loadIndex } = HEALTHY;
+    const result = calculateHealthScore({ gridVoltage, motorCurrent, powerFactor, gridFrequency, loadIndex });
+    expect(result).toMatchObject({ category: 'Unknown', coverage: 0.33 });
+    expect(result.subIndices.map((s) => [s.subsystem, s.category, s.coverage])).toEqual([
+      ['electrical', 'Healthy', 1],
+      ['mechanical', 'Unknown', 0],
+      ['thermal', 'Unknown', 0],
+      ['environmental', 'Unknown', 0],
+    ]);
+  });
+
+  it('discounts the confidence of old readings', () => {
+    const reading = { ...HEALTHY, vibrationRms: 5, crestFactor: 8 };
+    expect(calculateHealthScore(reading, null, { ageSeconds: 160 })).toMatchObject({
+      category: 'At Risk',
+      coverage: 1,
+      confidence: 0.5,
+      recovery: [{ parameter: 'vibrationRms' }],
+    });
+    expect(calculateHealthScore(reading, null, { ageSeconds: 200 })).toMatchObject({
+      score: 68,
+      category: 'Unknown',
+      recovery: [],
+    });
+  });
+});
+
+describe('readingFreshness', () => {
+  it('falls linearly from fresh to stale', () => {
+    expect(readingFreshness()).toBe(1);
+    expect(readingFreshness(FRESH_READING_SECONDS)).toBe(1);
+    expect(readingFreshness(160)).toBeCloseTo(0.5);
+    expect(readingFreshness(STALE_READING_SECONDS)).toBe(0);
+  });
+});
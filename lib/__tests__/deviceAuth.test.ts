@@ -0,0 +1,167 @@
+import { createHmac } from 'crypto';
+import { NextRequest } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { authenticateDevice, checkAdminToken, signPayload, SIGNATURE_WINDOW_SECONDS } from '../deviceAuth';
+
+interface FakeKey {
+  id: string;
+  deviceId: string;
+  secret: string;
+  revokedAt: Date | null;
+  expiresAt: Date | null;
+  device: { id: string; motorId: string; revokedAt: Date | null };
+}
+
+// In-memory stand-in for the DeviceKey / DeviceNonce tables
+const db = vi.hoisted(() => ({
+  keys: new Map<string, FakeKey>(),
+  nonces: new Set<string>(),
+}));
+
+vi.mock('../prisma', () => ({
+  prisma: {
+    deviceKey: {
+      findUnique: async ({ where }: { where: { id: string } }) => db.keys.get(where.id) ?? null,
+      update: async () => ({}),
+    },
+    device: { update: async () => ({}) },
+    deviceNonce: {
+      create: async ({ data }: { data: { deviceId: string; nonce: string } }) => {
+        const key = `${data.deviceId}:${data.nonce}`;
+        if (db.nonces.has(key)) {
+          throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+            code: 'P2002',
+            clientVersion: 'test',
+          });
+        }
+        db.nonces.add(key);
+        return data;
+      },
+      deleteMany: async () => ({ count: 0 }),
+    },
+    $transaction: async (operations: Promise<unknown>[]) => Promise.all(operations),
+  },
+}));
+
+const SECRET = 'a3f1c2d4e5b60718293a4b5c6d7e8f90a3f1c2d4e5b60718293a4b5c6d7e8f90';
+const BODY = '{"motorId":"motor-1","motorCurrent":12.5}';
+
+function signedRequest(overrides: Record<string, string> = {}, body = BODY): NextRequest {
+  const timestamp = overrides['x-timestamp'] ?? String(Math.floor(Date.now() / 1000));
+  const nonce = overrides['x-nonce'] ?? 'nonce-0001';
+  return new NextRequest('http://localhost/api/ingest', {
+    method: 'POST',
+    body,
+    headers: {
+      'x-device-id': 'device-1',
+      'x-key-id': 'key-1',
+      'x-timestamp': timestamp,
+      'x-nonce': nonce,
+      'x-signature': signPayload(SECRET, timestamp, nonce, body),
+      ...overrides,
+    },
+  });
+}
+
+beforeEach(() => {
+  db.nonces.clear();
+  db.keys.set('key-1', {
+    id: 'key-1',
+    deviceId: 'device-1',
+    secret: SECRET,
+    revokedAt: null,
+    expiresAt: null,
+    device: { id: 'device-1', motorId: 'motor-1', revokedAt: null },
+  });
+});
+
+afterEach(() => {
+  db.keys.clear();
+  vi.unstubAllEnvs();
+});
+
+describe('signPayload', () => {
+  it('is the hex HMAC-SHA256 of "timestamp.nonce.body"', () => {
+    const expected = createHmac('sha256', SECRET).update(`1760000000.nonce-0001.${BODY}`).digest('hex');
+    expect(signPayload(SECRET, '1760000000', 'nonce-0001', BODY)).toBe(expected);
+    expect(expected).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('changes with any part of the signed string', () => {
+    const signature = signPayload(SECRET, '1760000000', 'nonce-0001', BODY);
+    expect(signPayload(SECRET, '1760000001', 'nonce-0001', BODY)).not.toBe(signature);
+    expect(signPayload(SECRET, '1760000000', 'nonce-0002', BODY)).not.toBe(signature);
+    expect(signPayload(SECRET, '1760000000', 'nonce-0001', `${BODY} `)).not.toBe(signature);
+    expect(signPayload(`${SECRET}0`, '1760000000', 'nonce-0001', BODY)).not.toBe(signature);
+  });
+});
+
+describe('authenticateDevice', () => {
+  it('accepts a correctly signed request', async () => {
+    const result = await authenticateDevice(signedRequest(), BODY);
+    expect(result).toEqual({ ok: true, device: { id: 'device-1', motorId: 'motor-1', keyId: 'key-1' } });
+  });
+
+  it('rejects missing headers', async () => {
+    const request = new NextRequest('http://localhost/api/ingest', { method: 'POST', body: BODY });
+    expect(await authenticateDevice(request, BODY)).toEqual({
+      ok: false,
+      status: 401,
+      error: 'Missing device signature headers',
+    });
+  });
+
+  it('rejects a body that differs from the signed one', async () => {
+    const result = await authenticateDevice(signedRequest(), BODY.replace('12.5', '1.5'));
+    expect(result).toMatchObject({ ok: false, status: 401, error: 'Invalid device signature' });
+  });
+
+  it('rejects a key used by another device', async () => {
+    const result = await authenticateDevice(signedRequest({ 'x-device-id': 'device-2' }), BODY);
+    expect(result).toMatchObject({ ok: false, error: 'Invalid device signature' });
+  });
+
+  it('rejects timestamps outside the window', async () => {
+    const stale = String(Math.floor(Date.now() / 1000) - SIGNATURE_WINDOW_SECONDS - 5);
+    const result = await authenticateDevice(signedRequest({ 'x-timestamp': stale }), BODY);
+    expect(result).toMatchObject({ ok: false, error: 'Request timestamp outside allowed window' });
+  });
+
+  it('rejects a replayed nonce', async () => {
+    expect((await authenticateDevice(signedRequest(), BODY)).ok).toBe(true);
+    const replay = await authenticateDevice(signedRequest(), BODY);
+    expect(replay).toMatchObject({ ok: false, status: 401, error: 'Replayed request' });
+  });
+
+  it('rejects revoked devices and revoked or expired keys', async () => {
+    const key = db.keys.get('key-1')!;
+
+    key.device.revokedAt = new Date();
+    expect(await authenticateDevice(signedRequest(), BODY)).toMatchObject({ status: 403, error: 'Device has been revoked' });
+
+    key.device.revokedAt = null;
+    key.expiresAt = new Date(Date.now() - 1000);
+    expect(await authenticateDevice(signedRequest(), BODY)).toMatchObject({ error: 'Device key is no longer valid' });
+  });
+});
+
+describe('checkAdminToken', () => {
+  const request = (authorization?: string) =>
+    new NextRequest('http://localhost/api/motors/motor-1', {
+      method: 'DELETE',
+      headers: authorization ? { authorization } : {},
+    });
+
+  it('disables admin actions without DEVICE_ADMIN_TOKEN', () => {
+    vi.stubEnv('DEVICE_ADMIN_TOKEN', '');
+    expect(checkAdminToken(request('Bearer anything'))?.status).toBe(503);
+  });
+
+  it('accepts only the configured bearer token', () => {
+    vi.stubEnv('DEVICE_ADMIN_TOKEN', 'admin-secret');
+    expect(checkAdminToken(request('Bearer admin-secret'))).toBeNull();
+    expect(checkAdminToken(request('Bearer admin-secreT'))?.status).toBe(401);
+    expect(checkAdminToken(request())?.status).toBe(401);
+  });
+});
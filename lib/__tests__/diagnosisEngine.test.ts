@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeFact,
+  diagnose,
+  diagnosisFacts,
+  explainDiagnosis,
+  explainQuestion,
+  validateSymptomAnswers,
+} from '../expert-system/diagnosisEngine';
+
+const BEARING_RULE = 'Excessive vibration AND (Rough or abnormal sound is heard OR Bearing Temp is warning OR Bearing Temp is critical)';
+
+/** The diagnosis of damage type `damageType` */
+function diagnosisOf(report: ReturnType<typeof diagnose>, damageType: string) {
+  return report.diagnoses.find((d) => d.damageType === damageType)!;
+}
+
+describe('diagnose', () => {
+  it('reports a normal motor when no rule fires', () => {
+    expect(diagnose({})).toMatchObject({
+      diagnoses: [],
+      summary: null,
+      diagnosis: 'Motor dalam kondisi normal',
+      recommendation: 'Lanjutkan monitoring berkala',
+    });
+  });
+
+  it('ranks diagnoses by certainty and summarises the most certain', () => {
+    const report = diagnose({ answers: { 7: 'Yes', 8: 'Yes' } });
+    expect(report.diagnoses.map((d) => [d.damageType, d.cf, d.ruleIds])).toEqual([
+      ['H', 1, ['R8']],
+      ['G', 0.944, ['R12', 'R7']],
+    ]);
+    expect(report.summary).toEqual({ damageType: 'H', cfTotal: 1, percent: 100, level: 'C', label: 'Severe' });
+    expect(report.diagnosis).toMatch(/^\[R8\] .+ \[R12, R7\] Bearing damage\./);
+    expect(report.recommendation.split('\n')).toHaveLength(2);
+  });
+
+  it('combines the rules of a damage type by the chosen semantics', () => {
+    const cf = (semantics: 'fuzzy' | 'certainty') =>
+      diagnose({ answers: { 7: 'Yes', 8: 'Yes' }, semantics }).diagnoses.find((d) => d.damageType === 'G')?.cf;
+    expect(cf('certainty')).toBe(0.944);
+    expect(cf('fuzzy')).toBe(0.8);
+  });
+
+  it('answers measured symptoms from the sensors unless the technician did', () => {
+    const values = { vibrationRms: 5 };
+    expect(diagnose({ values })).toMatchObject({ sensorSymptoms: { 7: 1 }, summary: { damageType: 'G' } });
+    expect(diagnosisFacts({ values }).symptomSources).toEqual({ 7: 'sensor' });
+
+    const answered = diagnosisFacts({ values, answers: { 7: 'No' } });
+    expect(answered).toMatchObject({ symptoms: { 7: 0 }, symptomSources: { 7: 'answer' } });
+    expect(diagnose({ values, answers: { 7: 'No' } }).diagnoses.map((d) => d.damageType)).not.toContain('G');
+  });
+
+  it('judges sensor facts against the motor thresholds', () => {
+    const values = { vibrationRms: 5, bearingTemp: 90 };
+    expect(diagnose({ values }).diagnoses[0]).toMatchObject({ damageType: 'G', ruleIds: ['R12', 'S1', 'R7'] });
+    const thresholds = { bearingTemp: { direction: 'high' as const, warningHigh: 95, criticalHigh: 110 } };
+    expect(diagnose({ values, thresholds }).diagnoses[0].ruleIds).toEqual(['R7']);
+  });
+});
+
+describe('validateSymptomAnswers', () => {
+  it('accepts answers by symptom id and treats none as empty', () => {
+    expect(validateSymptomAnswers({ 1: 'Yes', '7': 'Sometimes' })).toEqual({ ok: true, data: { 1: 'Yes', 7: 'Sometimes' } });
+    expect(validateSymptomAnswers(undefined)).toEqual({ ok: true, data: {} });
+  });
+
+  it('rejects unknown symptoms and answers', () => {
+    expect(validateSymptomAnswers([])).toEqual({ ok: false, error: 'answers must be an object of symptom id to answer' });
+    expect(validateSymptomAnswers({ 99: 'Yes' })).toEqual({ ok: false, error: 'Unknown symptom 99' });
+    expect(validateSymptomAnswers({ 1: 'Maybe' })).toEqual({ ok: false, error: 'answers.1 must be one of No, Sometimes, Yes' });
+  });
+});
+
+describe('explainDiagnosis', () => {
+  it('lists each rule with the facts that satisfied it and the CF combination', () => {
+    expect(explainDiagnosis(diagnosisOf(diagnose({ answers: { 7: 'Yes', 8: 'Yes' } }), 'G'))).toEqual([
+      `R12 fired: IF ${BEARING_RULE} — premise 0.80 × rule CF 0.9 = CF 0.72`,
+      '• Excessive vibration: CF 0.80 (answered)',
+      '• Rough or abnormal sound is heard: CF 1.00 (answered)',
+      'R7 fired: IF Excessive vibration — premise 0.80 × rule CF 1 = CF 0.80',
+      '• Excessive vibration: CF 0.80 (answered)',
+      'Combined with CF1 + CF2 × (1 − CF1): R12 0.72 → 0.72, R7 0.80 → 0.94',
+      'CF 0.944',
+    ]);
+  });
+
+  it('cites sensor facts and the MAX combination of fuzzy semantics', () => {
+    const lines = explainDiagnosis(diagnosisOf(diagnose({ values: { vibrationRms: 5, bearingTemp: 90 }, semantics: 'fuzzy' }), 'G'));
+    expect(lines).toContain('• Excessive vibration: CF 0.80 (from sensor)');
+    expect(lines).toContain('• Bearing Temp is critical: measured 90');
+    expect(lines.slice(-2)).toEqual(['Combined with MAX: R12 0.72 → 0.72, S1 0.90 → 0.90, R7 0.80 → 0.90', 'CF 0.9']);
+  });
+
+  it('leaves out the combination of a single rule', () => {
+    expect(explainDiagnosis(diagnosisOf(diagnose({ answers: { 5: 'Sometimes' } }), 'E'))).toEqual([
+      'R5 fired: IF Burning smell from motor — premise 0.50 × rule CF 1 = CF 0.50',
+      '• Burning smell from motor: CF 0.50 (answered)',
+      'CF 0.5',
+    ]);
+  });
+});
+
+describe('describeFact', () => {
+  it('says when a fact is unknown', () => {
+    expect(describeFact({ op: 'symptom', value: null, label: 'Excessive vibration' })).toBe('Excessive vibration: not answered');
+    expect(describeFact({ op: 'level', value: null, label: 'Bearing Temp is critical', measured: null })).toBe(
+      'Bearing Temp is critical: not measured'
+    );
+    expect(describeFact({ op: 'compare', value: 1, label: 'Vibration RMS > 4.5', measured: 5.126 })).toBe(
+      'Vibration RMS > 4.5: measured 5.13'
+    );
+  });
+});
+
+describe('near misses', () => {
+  it('name the facts a rule lacked', () => {
+    const miss = diagnose({ answers: { 7: 'Yes' } }).nearMisses.find((n) => n.ruleId === 'R12');
+    expect(miss).toMatchObject({ damageType: 'G', damage: 'Bearing damage', condition: BEARING_RULE });
+    expect(miss?.satisfied.map((f) => f.label)).toEqual(['Excessive vibration']);
+    expect(miss?.missing.map(describeFact)).toEqual([
+      'Rough or abnormal sound is heard: not answered',
+      'Bearing Temp is warning: not measured',
+      'Bearing Temp is critical: not measured',
+    ]);
+  });
+});
+
+describe('explainQuestion', () => {
+  it('lists the rules a question feeds, those closest to firing first', () => {
+    const reasons = explainQuestion(8, diagnosisFacts({ answers: { 7: 'Yes' } }));
+    expect(reasons.map((r) => [r.ruleId, r.damage, r.satisfied.map((f) => f.label)])).toEqual([
+      ['R12', 'Bearing damage', ['Excessive vibration']],
+      ['R8', 'Mechanical damage', []],
+    ]);
+    expect(reasons[0].condition).toBe(BEARING_RULE);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  membershipDegree,
+  SENSOR_SYMPTOMS,
+  sensorSymptomDegrees,
+  sensorSymptomMemberships,
+  validateSensorSymptoms,
+} from '../expert-system/fuzzyMembership';
+import { diagnose } from '../expert-system/diagnosisEngine';
+
+describe('membershipDegree', () => {
+  it('rises and falls on a triangle', () => {
+    const triangle = { type: 'triangular' as const, a: 2, b: 4, c: 6 };
+    expect([1, 3, 4, 5, 7].map((x) => membershipDegree(triangle, x))).toEqual([0, 0.5, 1, 0.5, 0]);
+  });
+
+  it('stays at 1 on a right-shoulder trapezoid', () => {
+    const shoulder = { type: 'trapezoidal' as const, a: 2.8, b: 4.5, c: Infinity, d: Infinity };
+    expect(membershipDegree(shoulder, 2.8)).toBe(0);
+    expect(membershipDegree(shoulder, 3.65)).toBeCloseTo(0.5);
+    expect(membershipDegree(shoulder, 100)).toBe(1);
+  });
+});
+
+describe('sensorSymptomMemberships', () => {
+  it('rises from the warning to the critical limit of the motor', () => {
+    const thresholds = { vibrationRms: { direction: 'high' as const, warningHigh: 1.8, criticalHigh: 4.5 } };
+    expect(sensorSymptomMemberships(thresholds).find((s) => s.parameter === 'vibrationRms')).toEqual({
+      symptomId: 7,
+      parameter: 'vibrationRms',
+      membership: { type: 'trapezoidal', a: 1.8, b: 4.5, c: Infinity, d: Infinity },
+    });
+    expect(sensorSymptomMemberships()).toHaveLength(SENSOR_SYMPTOMS.length);
+  });
+
+  it('keeps the function a source brings', () => {
+    const membership = { type: 'triangular' as const, a: 2, b: 4, c: 6 };
+    expect(sensorSymptomMemberships(null, [{ symptomId: 7, parameter: 'vibrationRms', membership }])).toEqual([
+      { symptomId: 7, parameter: 'vibrationRms', membership },
+    ]);
+  });
+
+  it('combines the sensors of one symptom by MAX', () => {
+    expect(sensorSymptomDegrees({ tempGradient: 22.5, bearingTemp: 90, vibrationRms: null })).toEqual({ 4: 1 });
+  });
+});
+
+describe('validateSensorSymptoms', () => {
+  it('defaults to SENSOR_SYMPTOMS and reads triangles and shoulders', () => {
+    expect(validateSensorSymptoms(undefined)).toEqual({ ok: true, data: SENSOR_SYMPTOMS });
+    expect(
+      validateSensorSymptoms([
+        { symptomId: 7, parameter: 'vibrationRms', membership: { type: 'triangular', a: 2, b: 4, c: 6 } },
+        { symptomId: 4, parameter: 'bearingTemp', membership: { type: 'trapezoidal', a: 60, b: 80, c: null, d: null } },
+        { symptomId: 3, parameter: 'motorCurrent' },
+      ])
+    ).toEqual({
+      ok: true,
+      data: [
+        { symptomId: 7, parameter: 'vibrationRms', membership: { type: 'triangular', a: 2, b: 4, c: 6 } },
+        { symptomId: 4, parameter: 'bearingTemp', membership: { type: 'trapezoidal', a: 60, b: 80, c: Infinity, d: Infinity } },
+        { symptomId: 3, parameter: 'motorCurrent' },
+      ],
+    });
+  });
+
+  it('rejects unknown sources and malformed functions with their path', () => {
+    const error = (entry: object) => {
+      const result = validateSensorSymptoms([entry]);
+      return result.ok ? null : result.error;
+    };
+    expect(validateSensorSymptoms({})).toEqual({ ok: false, error: 'sensorSymptoms must be an array of at most 20 sources' });
+    expect(error({ symptomId: 99, parameter: 'vibrationRms' })).toBe('sensorSymptoms[0].symptomId must be a known symptom');
+    expect(error({ symptomId: 7, parameter: 'rpm' })).toMatch(/^sensorSymptoms\[0\]\.parameter must be one of/);
+    expect(error({ symptomId: 7, parameter: 'vibrationRms', membership: { type: 'gaussian' } })).toBe(
+      'sensorSymptoms[0].membership.type must be one of triangular, trapezoidal'
+    );
+    expect(error({ symptomId: 7, parameter: 'vibrationRms', membership: { type: 'triangular', a: 2, b: null, c: 6 } })).toBe(
+      'sensorSymptoms[0].membership.b must be a finite number'
+    );
+    expect(error({ symptomId: 7, parameter: 'vibrationRms', membership: { type: 'triangular', a: 4, b: 2, c: 6 } })).toBe(
+      'sensorSymptoms[0].membership points must be ascending (a ≤ b ≤ c) with a below c'
+    );
+    expect(error({ symptomId: 7, parameter: 'vibrationRms', membership: { type: 'trapezoidal', a: 3, b: 3, c: 3, d: 3 } })).toMatch(
+      /must be ascending/
+    );
+  });
+});
+
+describe('sensor-derived answers in the diagnosis', () => {
+  it('use the continuous degree, not a rounded answer', () => {
+    // (4 - 2.8) / (4.5 - 2.8) of symptom 7's expert CF 0.8
+    const r7 = diagnose({ values: { vibrationRms: 4 } }).diagnoses.find((d) => d.damageType === 'G')?.trace.rules[0];
+    expect(r7).toMatchObject({ ruleId: 'R7', activation: expect.closeTo((1.2 / 1.7) * 0.8) });
+  });
+
+  it('use the given membership functions', () => {
+    const sensorSymptoms = [{ symptomId: 7, parameter: 'vibrationRms' as const, membership: { type: 'triangular' as const, a: 2, b: 4, c: 6 } }];
+    expect(diagnose({ values: { vibrationRms: 5 }, sensorSymptoms }).sensorSymptoms).toEqual({ 7: 0.5 });
+  });
+});
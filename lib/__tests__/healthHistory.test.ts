@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { CHANGE_POINT_MIN_DROP, detectChangePoints, type HealthHistoryPoint } from '../healthHistory';
+import type { HealthCategory } from '../calculateHealthScore';
+
+const START = Date.UTC(2026, 9, 19);
+
+/** Five-minute history with the given scores; mechanical follows the score, electrical stays at 90 */
+function history(scores: number[], category: (i: number) => HealthCategory = () => 'Healthy'): HealthHistoryPoint[] {
+  return scores.map((score, i) => ({
+    id: `analysis-${i}`,
+    timestamp: new Date(START + i * 5 * 60 * 1000).toISOString(),
+    score,
+    category: category(i),
+    confidence: 1,
+    subIndices: { electrical: 90, mechanical: score },
+    factors: [],
+  }));
+}
+
+const repeat = (score: number, count: number) => Array<number>(count).fill(score);
+
+describe('detectChangePoints', () => {
+  it('flags a sudden drop once, at the first analysis after it', () => {
+    const points = history([...repeat(90, 8), ...repeat(60, 8)]);
+    const changes = detectChangePoints(points);
+
+    expect(changes).toEqual([
+      {
+        timestamp: points[8].timestamp,
+        index: 8,
+        before: 90,
+        after: 60,
+        drop: 30,
+        subsystem: 'mechanical',
+        explanation: 'Health fell from 90 to 60 (-30 points), mostly Mechanical (-30)',
+      },
+    ]);
+  });
+
+  it('ignores drops smaller than the minimum', () => {
+    expect(detectChangePoints(history([...repeat(90, 8), ...repeat(90 - CHANGE_POINT_MIN_DROP + 1, 8)]))).toEqual([]);
+  });
+
+  it('ignores drops that do not stand out from the noise before them', () => {
+    const noisy = [95, 70, 95, 70, 95, 70, 95, 70];
+    expect(detectChangePoints(history([...noisy, ...repeat(70, 8)]))).toEqual([]);
+  });
+
+  it('does not flag a rise', () => {
+    expect(detectChangePoints(history([...repeat(60, 8), ...repeat(90, 8)]))).toEqual([]);
+  });
+
+  it('reports separate falls separately', () => {
+    const changes = detectChangePoints(history([...repeat(95, 8), ...repeat(75, 8), ...repeat(50, 8)]));
+    expect(changes.map((c) => [c.index, c.drop])).toEqual([
+      [8, 20],
+      [16, 25],
+    ]);
+  });
+
+  it('flags a drop at the end of the series with two analyses after it', () => {
+    const changes = detectChangePoints(history([...repeat(90, 8), 50, 50]));
+    expect(changes.map((c) => c.index)).toEqual([8]);
+  });
+
+  it('skips analyses of unknown health, keeping the indices of the series', () => {
+    const scores = [...repeat(90, 8), 0, 0, ...repeat(60, 8)];
+    const changes = detectChangePoints(history(scores, (i) => (i === 8 || i === 9 ? 'Unknown' : 'Healthy')));
+    expect(changes.map((c) => [c.index, c.before, c.after])).toEqual([[10, 90, 60]]);
+  });
+});
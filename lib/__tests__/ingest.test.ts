@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { isRejected, parseIngestBody, parseRecordTimestamp, prepareRecord, type PreparedRecord } from '../ingest';
+
+const NOW = new Date('2026-10-19T08:00:00Z');
+
+const MEASUREMENTS = {
+  gridVoltage: 221,
+  motorCurrent: 3.5,
+  powerConsumption: 620,
+  powerFactor: 0.86,
+  gridFrequency: 50,
+  vibrationRms: 1.2,
+  motorSurfaceTemp: 48,
+  bearingTemp: 41,
+  dustDensity: 35,
+};
+
+describe('parseIngestBody', () => {
+  it('reads a single object as the legacy single mode', () => {
+    expect(parseIngestBody('{"motorId":"m1","motorCurrent":3.5}', 'application/json')).toEqual({
+      mode: 'single',
+      records: [{ index: 0, payload: { motorId: 'm1', motorCurrent: 3.5 } }],
+    });
+  });
+
+  it('reads a pretty-printed object as one record, not NDJSON', () => {
+    expect(parseIngestBody('{\n  "motorId": "m1"\n}\n', null).mode).toBe('single');
+  });
+
+  it('reads a JSON array as a batch, rejecting elements that are not objects', () => {
+    const parsed = parseIngestBody('[{"motorId":"m1"}, 42, [], {"motorId":"m2"}]', 'application/json');
+
+    expect(parsed.mode).toBe('batch');
+    expect(parsed.records).toEqual([
+      { index: 0, payload: { motorId: 'm1' } },
+      { index: 1, error: 'Record must be a JSON object' },
+      { index: 2, error: 'Record must be a JSON object' },
+      { index: 3, payload: { motorId: 'm2' } },
+    ]);
+  });
+
+  it('reads NDJSON line by line, skipping blank lines and flagging lines that do not parse', () => {
+    const body = '{"motorId":"m1"}\r\n\n   \n{"motorId":\n{"motorId":"m3"}\n';
+    const parsed = parseIngestBody(body, 'application/x-ndjson');
+
+    expect(parsed.mode).toBe('batch');
+    expect(parsed.records).toEqual([
+      { index: 0, payload: { motorId: 'm1' } },
+      { index: 1, error: 'Invalid JSON' },
+      { index: 2, payload: { motorId: 'm3' } },
+    ]);
+  });
+
+  it('reads a single NDJSON line as a batch of one', () => {
+    expect(parseIngestBody('{"motorId":"m1"}', 'application/jsonl')).toEqual({
+      mode: 'batch',
+      records: [{ index: 0, payload: { motorId: 'm1' } }],
+    });
+  });
+
+  it('falls back to NDJSON for a multi-line body without an NDJSON content type', () => {
+    const parsed = parseIngestBody('{"motorId":"m1"}\n{"motorId":"m2"}', 'application/json');
+    expect(parsed.mode).toBe('batch');
+    expect(parsed.records).toHaveLength(2);
+  });
+
+  it('does not enforce the batch size: the route rejects oversized batches', () => {
+    const body = Array.from({ length: 1500 }, (_, i) => `{"motorId":"m${i}"}`).join('\n');
+    expect(parseIngestBody(body, 'application/x-ndjson').records).toHaveLength(1500);
+  });
+
+  it('throws on a body that is neither JSON nor NDJSON', () => {
+    expect(() => parseIngestBody('{"motorId":', 'application/json')).toThrow('Invalid JSON body');
+    expect(() => parseIngestBody('42', 'application/json')).toThrow(
+      'Body must be a JSON object, an array of objects or NDJSON'
+    );
+  });
+
+  it('quotes bare nan and inf values but leaves strings alone', () => {
+    const parsed = parseIngestBody('{"motorCurrent": nan, "gridVoltage":-inf, "note":"reads nan, inf"}', null);
+    expect(parsed.records[0].payload).toEqual({ motorCurrent: 'nan', gridVoltage: '-inf', note: 'reads nan, inf' });
+  });
+});
+
+describe('parseRecordTimestamp', () => {
+  it('accepts epoch seconds, epoch milliseconds and ISO strings', () => {
+    expect(parseRecordTimestamp(1760860800)).toEqual(new Date('2025-10-19T08:00:00Z'));
+    expect(parseRecordTimestamp(1760860800000)).toEqual(new Date('2025-10-19T08:00:00Z'));
+    expect(parseRecordTimestamp('1760860800')).toEqual(new Date('2025-10-19T08:00:00Z'));
+    expect(parseRecordTimestamp('2025-10-19T08:00:00Z')).toEqual(new Date('2025-10-19T08:00:00Z'));
+  });
+
+  it('returns null for anything else', () => {
+    expect(parseRecordTimestamp('yesterday')).toBeNull();
+    expect(parseRecordTimestamp('')).toBeNull();
+    expect(parseRecordTimestamp(NaN)).toBeNull();
+    expect(parseRecordTimestamp({})).toBeNull();
+  });
+});
+
+describe('prepareRecord', () => {
+  const prepared = (payload: Record<string, unknown>, options = {}) => {
+    const record = prepareRecord(payload, 3, NOW, options);
+    if (isRejected(record)) throw new Error(`rejected: ${record.reason}`);
+    return record as PreparedRecord;
+  };
+
+  it('builds the reading with the record timestamp, or the upload time without one', () => {
+    const own = prepared({ motorId: 'm1', timestamp: '2026-10-19T07:55:00Z', ...MEASUREMENTS });
+    expect(own).toMatchObject({ index: 3, motorId: 'm1', hasOwnTimestamp: true, errors: [] });
+    expect(own.timestamp).toEqual(new Date('2026-10-19T07:55:00Z'));
+    expect(own.data).toMatchObject({ motorId: 'm1', deviceId: null, motorCurrent: 3.5, validationErrors: null });
+    expect(JSON.parse(own.data.rawPayload as string)).toMatchObject({ motorId: 'm1', motorCurrent: 3.5 });
+
+    const stamped = prepared({ motorId: 'm1', ...MEASUREMENTS });
+    expect(stamped.hasOwnTimestamp).toBe(false);
+    expect(stamped.timestamp).toBe(NOW);
+  });
+
+  it('stores invalid measurements as null and lists them', () => {
+    const record = prepared({ motorId: 'm1', ...MEASUREMENTS, bearingTemp: -127 });
+    expect(record.data.bearingTemp).toBeNull();
+    expect(record.errors.map((e) => e.code)).toEqual(['SENSOR_FAULT']);
+    expect(JSON.parse(record.data.validationErrors as string)).toEqual(record.errors);
+  });
+
+  it('rejects the whole record in strict mode', () => {
+    const record = prepareRecord({ motorId: 'm1', ...MEASUREMENTS, bearingTemp: -127 }, 0, NOW, { strict: true });
+    expect(record).toMatchObject({ reason: 'Payload failed validation', httpStatus: 422 });
+  });
+
+  it('rejects payloads that are not objects', () => {
+    for (const payload of [null, 42, 'motor-1', [MEASUREMENTS]]) {
+      expect(prepareRecord(payload, 0, NOW)).toMatchObject({ reason: 'Record must be a JSON object', httpStatus: 400 });
+    }
+  });
+
+  it('rejects records without a motor, a valid timestamp or any valid measurement', () => {
+    expect(prepareRecord({ ...MEASUREMENTS }, 0, NOW)).toMatchObject({ reason: 'motorId is required', httpStatus: 400 });
+    expect(prepareRecord({ motorId: 'm1', timestamp: 'soon', ...MEASUREMENTS }, 0, NOW)).toMatchObject({
+      reason: 'timestamp is not a valid date',
+    });
+    expect(prepareRecord({ motorId: 'm1', motorCurrent: 'nan' }, 0, NOW)).toMatchObject({
+      reason: 'No valid measurements in payload',
+      httpStatus: 422,
+    });
+  });
+
+  it('accepts small clock skew but rejects readings from the future', () => {
+    const inSkew = new Date(NOW.getTime() + 60 * 1000).toISOString();
+    const ahead = new Date(NOW.getTime() + 10 * 60 * 1000).toISOString();
+    expect(isRejected(prepareRecord({ motorId: 'm1', timestamp: inSkew, ...MEASUREMENTS }, 0, NOW))).toBe(false);
+    expect(prepareRecord({ motorId: 'm1', timestamp: ahead, ...MEASUREMENTS }, 0, NOW)).toMatchObject({
+      reason: 'timestamp is in the future',
+    });
+  });
+
+  it('binds signed records to the motor of their device', () => {
+    const device = { id: 'device-1', motorId: 'm1' };
+
+    const record = prepared({ ...MEASUREMENTS }, { device });
+    expect(record.motorId).toBe('m1');
+    expect(record.data.deviceId).toBe('device-1');
+
+    expect(prepareRecord({ motorId: 'm2', ...MEASUREMENTS }, 0, NOW, { device })).toMatchObject({
+      reason: 'Device is not bound to this motor',
+      httpStatus: 403,
+    });
+  });
+});
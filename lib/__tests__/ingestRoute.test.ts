@@ -0,0 +1,207 @@
+import { NextRequest } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '@/app/api/ingest/route';
+import { MAX_BATCH_SIZE, type PreparedRecord } from '@/lib/ingest';
+
+interface StoredReading {
+  id: string;
+  motorId: string;
+  timestamp: Date;
+}
+
+// In-memory stand-in for the Motor / SensorReading tables
+const db = vi.hoisted(() => ({
+  motorIds: [] as string[],
+  readings: [] as StoredReading[],
+  /** Timestamps (ms) another upload stores just before this one inserts them */
+  raced: new Set<number>(),
+  /** Readings of the running transaction */
+  uncommitted: new Set<string>(),
+}));
+
+function motorRow(id: string) {
+  return {
+    id,
+    ratedVoltage: 220,
+    ratedCurrent: 4,
+    ratedPower: 0.75,
+    insulationClass: 'F',
+    ratedTempRise: null,
+    machineGroup: null,
+    foundationType: null,
+    thresholdProfiles: [],
+    alertRules: [],
+    baselines: [],
+  };
+}
+
+vi.mock('@/lib/prisma', () => {
+  const sensorReading = {
+    findFirst: async ({ where }: { where: { motorId: string; timestamp: Date } }) =>
+      db.readings.find((r) => r.motorId === where.motorId && r.timestamp.getTime() === where.timestamp.getTime()) ??
+      null,
+    findMany: async ({ where }: { where: { OR: { motorId: string; timestamp: { in: Date[] } }[] } }) =>
+      db.readings.filter((r) =>
+        where.OR.some((c) => c.motorId === r.motorId && c.timestamp.in.some((t) => t.getTime() === r.timestamp.getTime()))
+      ),
+  };
+  return {
+    prisma: {
+      motor: {
+        findUnique: async ({ where }: { where: { id: string } }) =>
+          db.motorIds.includes(where.id) ? motorRow(where.id) : null,
+        findMany: async ({ where }: { where: { id: { in: string[] } } }) =>
+          db.motorIds.filter((id) => where.id.in.includes(id)).map(motorRow),
+      },
+      sensorReading,
+      // Rolled back on error, like the database
+      $transaction: async <T>(fn: (tx: unknown) => Promise<T>) => {
+        try {
+          return await fn({ sensorReading });
+        } catch (error) {
+          db.readings = db.readings.filter((r) => !db.uncommitted.has(r.id));
+          throw error;
+        } finally {
+          db.uncommitted.clear();
+        }
+      },
+    },
+  };
+});
+
+// Storing a reading (alerts, aging, health) is covered by the lib tests
+vi.mock('@/lib/ingest', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/ingest')>()),
+  persistRecord: async (_tx: unknown, record: PreparedRecord) => {
+    if (db.raced.delete(record.timestamp.getTime())) {
+      db.readings.push({ id: 'reading-concurrent', motorId: record.motorId, timestamp: record.timestamp });
+      throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+    }
+    const reading = { id: `reading-${db.readings.length + 1}`, motorId: record.motorId, timestamp: record.timestamp };
+    db.readings.push(reading);
+    db.uncommitted.add(reading.id);
+    return { reading, alerts: [], alertsUpdated: 0, alertsClosed: 0 };
+  },
+}));
+
+const MEASUREMENTS = {
+  gridVoltage: 221,
+  motorCurrent: 3.5,
+  powerConsumption: 620,
+  powerFactor: 0.86,
+  gridFrequency: 50,
+  vibrationRms: 1.2,
+  motorSurfaceTemp: 48,
+  bearingTemp: 41,
+  dustDensity: 35,
+};
+
+function ingest(body: string, contentType = 'application/x-ndjson') {
+  return POST(
+    new NextRequest('http://localhost/api/ingest', { method: 'POST', body, headers: { 'content-type': contentType } })
+  );
+}
+
+const ndjson = (records: object[]) => records.map((r) => JSON.stringify(r)).join('\n');
+
+beforeEach(() => {
+  vi.stubEnv('INGEST_ALLOW_UNSIGNED', 'true');
+  db.motorIds = ['motor-1'];
+  db.readings = [];
+  db.raced.clear();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('POST /api/ingest batch', () => {
+  it('returns one result per record, in upload order', async () => {
+    const response = await ingest(
+      [
+        JSON.stringify({ motorId: 'motor-1', timestamp: '2026-10-19T08:00:00Z', ...MEASUREMENTS }),
+        '{"motorId":',
+        JSON.stringify({ motorId: 'motor-9', timestamp: '2026-10-19T08:00:00Z', ...MEASUREMENTS }),
+        JSON.stringify({ timestamp: '2026-10-19T08:00:05Z', ...MEASUREMENTS }),
+        JSON.stringify({ motorId: 'motor-1', timestamp: '2026-10-19T08:00:05Z', ...MEASUREMENTS, motorCurrent: 'nan' }),
+      ].join('\n')
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ mode: 'batch', received: 5, accepted: 2, duplicates: 0, rejected: 3 });
+    expect(body.results.map((r: { status: string; reason?: string }) => [r.status, r.reason])).toEqual([
+      ['accepted', undefined],
+      ['rejected', 'Invalid JSON'],
+      ['rejected', 'Motor not found'],
+      ['rejected', 'motorId is required'],
+      ['accepted', undefined],
+    ]);
+    expect(body.results[4].errors).toEqual([expect.objectContaining({ field: 'motorCurrent', code: 'SENSOR_FAULT' })]);
+  });
+
+  it('reports readings already stored, or repeated in the batch, as duplicates', async () => {
+    const records = ['00', '05', '10'].map((s) => ({ motorId: 'motor-1', timestamp: `2026-10-19T08:00:${s}Z`, ...MEASUREMENTS }));
+    await ingest(ndjson(records.slice(0, 2)));
+
+    const response = await ingest(ndjson([...records, records[2]]));
+    const body = await response.json();
+
+    expect(body).toMatchObject({ received: 4, accepted: 1, duplicates: 3, rejected: 0 });
+    expect(body.results.map((r: { status: string }) => r.status)).toEqual(['duplicate', 'duplicate', 'accepted', 'duplicate']);
+    expect(body.results[0]).toMatchObject({
+      timestamp: '2026-10-19T08:00:00.000Z',
+      reason: 'Reading with this timestamp already stored',
+    });
+    expect(db.readings).toHaveLength(3);
+  });
+
+  it('never reports readings without their own timestamp as duplicates', async () => {
+    const record = { motorId: 'motor-1', ...MEASUREMENTS };
+    const body = await (await ingest(ndjson([record, record]))).json();
+    expect(body.accepted).toBe(2);
+  });
+
+  it('reports readings a concurrent upload stored first as duplicates', async () => {
+    const records = ['00', '05', '10'].map((s) => ({ motorId: 'motor-1', timestamp: `2026-10-19T08:00:${s}Z`, ...MEASUREMENTS }));
+    db.raced.add(Date.parse(records[1].timestamp));
+
+    const body = await (await ingest(ndjson(records))).json();
+
+    expect(body.results.map((r: { status: string }) => r.status)).toEqual(['accepted', 'duplicate', 'accepted']);
+    expect(db.readings.map((r) => r.id)).toEqual(['reading-concurrent', 'reading-2', 'reading-3']);
+  });
+
+  it('rejects empty and oversized batches', async () => {
+    expect((await ingest('[]', 'application/json')).status).toBe(400);
+
+    const record = { motorId: 'motor-1', ...MEASUREMENTS };
+    const response = await ingest(ndjson(Array<object>(MAX_BATCH_SIZE + 1).fill(record)));
+    expect(response.status).toBe(413);
+    expect(db.readings).toHaveLength(0);
+  });
+});
+
+describe('POST /api/ingest single', () => {
+  it('acknowledges a retried reading without storing it again', async () => {
+    const body = JSON.stringify({ motorId: 'motor-1', timestamp: '2026-10-19T08:00:00Z', ...MEASUREMENTS });
+
+    const first = await (await ingest(body, 'application/json')).json();
+    const retry = await (await ingest(body, 'application/json')).json();
+
+    expect(first).toMatchObject({ success: true, readingId: 'reading-1' });
+    expect(retry).toMatchObject({ success: true, duplicate: true, readingId: 'reading-1' });
+    expect(db.readings).toHaveLength(1);
+  });
+
+  it('acknowledges a reading a concurrent retry stored first', async () => {
+    db.raced.add(Date.parse('2026-10-19T08:00:00Z'));
+    const body = JSON.stringify({ motorId: 'motor-1', timestamp: '2026-10-19T08:00:00Z', ...MEASUREMENTS });
+
+    const response = await ingest(body, 'application/json');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ duplicate: true, readingId: 'reading-concurrent' });
+  });
+});
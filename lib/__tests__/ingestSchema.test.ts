@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { SENSOR_FIELDS, validateField, validateMeasurements } from '../ingestSchema';
+
+const VALID_PAYLOAD = {
+  gridVoltage: 380,
+  motorCurrent: 12.5,
+  powerConsumption: 5800,
+  powerFactor: 0.86,
+  gridFrequency: 50,
+  vibrationRms: 1.2,
+  motorSurfaceTemp: 55,
+  bearingTemp: 48,
+  dustDensity: 35,
+};
+
+describe('validateField', () => {
+  it('accepts numbers and numeric strings inside the range', () => {
+    expect(validateField('gridVoltage', 380)).toEqual({ value: 380 });
+    expect(validateField('gridVoltage', ' 231.5 ')).toEqual({ value: 231.5 });
+  });
+
+  it('reports a missing required field, but not a missing optional one', () => {
+    expect(validateField('gridVoltage', undefined).error?.code).toBe('MISSING');
+    expect(validateField('gridVoltage', '').error?.code).toBe('MISSING');
+    expect(validateField('tempGradient', null)).toEqual({ value: null });
+  });
+
+  it('reports NaN and infinity from a dead sensor as a sensor fault', () => {
+    for (const raw of ['nan', 'NaN', '-inf', 'Infinity']) {
+      const result = validateField('motorCurrent', raw);
+      expect(result.value).toBeNull();
+      expect(result.error?.code).toBe('SENSOR_FAULT');
+    }
+  });
+
+  it('reports the DS18B20 disconnected value as a sensor fault', () => {
+    expect(validateField('bearingTemp', -127).error?.code).toBe('SENSOR_FAULT');
+  });
+
+  it('rejects values that are not numbers', () => {
+    expect(validateField('motorCurrent', 'abc').error?.code).toBe('NOT_A_NUMBER');
+    expect(validateField('motorCurrent', true).error?.code).toBe('NOT_A_NUMBER');
+    expect(validateField('motorCurrent', { amps: 3 }).error?.code).toBe('NOT_A_NUMBER');
+  });
+
+  it('rejects values outside the range, including its bounds as limits', () => {
+    expect(validateField('powerFactor', 1).value).toBe(1);
+    expect(validateField('powerFactor', 1.01).error?.code).toBe('OUT_OF_RANGE');
+    expect(validateField('gridFrequency', 44.9).error?.code).toBe('OUT_OF_RANGE');
+  });
+
+  it('converts tagged quantities to the canonical unit', () => {
+    expect(validateField('dailyEnergyKwh', { value: 1500, unit: 'Wh' }).value).toBeCloseTo(1.5);
+  });
+
+  it('rejects tagged quantities of another dimension', () => {
+    expect(validateField('vibrationRms', { value: 2, unit: 'g' }).error?.code).toBe('UNIT_MISMATCH');
+  });
+});
+
+describe('validateMeasurements', () => {
+  it('returns every schema field, null when absent', () => {
+    const { values, errors } = validateMeasurements(VALID_PAYLOAD);
+
+    expect(errors).toEqual([]);
+    expect(Object.keys(values).sort()).toEqual([...SENSOR_FIELDS].sort());
+    expect(values.motorCurrent).toBe(12.5);
+    expect(values.tempGradient).toBeNull();
+  });
+
+  it('collects one error per invalid field and keeps the valid ones', () => {
+    const { values, errors } = validateMeasurements({
+      ...VALID_PAYLOAD,
+      gridVoltage: undefined,
+      motorCurrent: 'nan',
+      powerFactor: 3,
+    });
+
+    expect(errors.map((e) => [e.field, e.code])).toEqual([
+      ['gridVoltage', 'MISSING'],
+      ['motorCurrent', 'SENSOR_FAULT'],
+      ['powerFactor', 'OUT_OF_RANGE'],
+    ]);
+    expect(values.motorCurrent).toBeNull();
+    expect(values.vibrationRms).toBe(1.2);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  advanceAging,
+  agingFactor,
+  currentAgingRate,
+  EMPTY_AGING_STATE,
+  hotSpotTemp,
+  INSULATION_LIFE_HOURS,
+  integrateAging,
+  MAX_AGING_GAP_MINUTES,
+  projectEndOfLife,
+  type AgingSample,
+} from '../insulationAging';
+import { thermalClassFor } from '../thermalClass';
+
+// Class F: 155 °C class temperature, surface limit 125 °C
+const CLASS_F = thermalClassFor({ insulationClass: 'F' });
+const START = Date.UTC(2026, 9, 1);
+
+/** One reading every `minutes` for `hours` at a constant surface temperature */
+function constantSamples(surfaceTemp: number, hours: number, minutes = 5): AgingSample[] {
+  const samples: AgingSample[] = [];
+  for (let t = 0; t <= hours * 60; t += minutes) {
+    samples.push({ timestamp: new Date(START + t * 60 * 1000), surfaceTemp });
+  }
+  return samples;
+}
+
+describe('agingFactor', () => {
+  it('puts the hot spot at the class temperature for a surface at the class surface limit', () => {
+    expect(hotSpotTemp(CLASS_F.surfaceLimit, CLASS_F)).toBe(CLASS_F.classTemp);
+    expect(agingFactor(CLASS_F.surfaceLimit, CLASS_F)).toBe(1);
+  });
+
+  it('doubles for every 10 K hotter and halves for every 10 K cooler', () => {
+    expect(agingFactor(CLASS_F.surfaceLimit + 10, CLASS_F)).toBeCloseTo(2);
+    expect(agingFactor(CLASS_F.surfaceLimit - 20, CLASS_F)).toBeCloseTo(0.25);
+    expect(agingFactor(CLASS_F.surfaceLimit + 5, CLASS_F)).toBeCloseTo(Math.SQRT2);
+  });
+});
+
+describe('advanceAging', () => {
+  it('only records the first reading', () => {
+    const state = advanceAging(EMPTY_AGING_STATE, { timestamp: new Date(START), surfaceTemp: 80 }, CLASS_F);
+    expect(state).toMatchObject({ equivalentHours: 0, monitoredHours: 0, lastSurfaceTemp: 80 });
+  });
+
+  it('ages one hour per hour at the class temperature', () => {
+    const state = integrateAging(EMPTY_AGING_STATE, constantSamples(CLASS_F.surfaceLimit, 10), CLASS_F);
+    expect(state.monitoredHours).toBeCloseTo(10);
+    expect(state.equivalentHours).toBeCloseTo(10);
+  });
+
+  it('ages a quarter hour per hour 20 K below it', () => {
+    const state = integrateAging(EMPTY_AGING_STATE, constantSamples(CLASS_F.surfaceLimit - 20, 10), CLASS_F);
+    expect(state.equivalentHours).toBeCloseTo(2.5);
+  });
+
+  it('integrates an interval with the mean factor of its ends', () => {
+    const first = advanceAging(EMPTY_AGING_STATE, { timestamp: new Date(START), surfaceTemp: CLASS_F.surfaceLimit }, CLASS_F);
+    const second = advanceAging(
+      first,
+      { timestamp: new Date(START + 6 * 60 * 1000), surfaceTemp: CLASS_F.surfaceLimit + 10 },
+      CLASS_F
+    );
+    expect(second.equivalentHours).toBeCloseTo(((1 + 2) / 2) * 0.1);
+  });
+
+  it('adds no aging across a gap longer than the limit, but counts it as calendar time', () => {
+    const first = advanceAging(EMPTY_AGING_STATE, { timestamp: new Date(START), surfaceTemp: 150 }, CLASS_F);
+    const gapMinutes = MAX_AGING_GAP_MINUTES + 1;
+    const second = advanceAging(first, { timestamp: new Date(START + gapMinutes * 60 * 1000), surfaceTemp: 150 }, CLASS_F);
+
+    expect(second.equivalentHours).toBe(0);
+    expect(second.monitoredHours).toBe(0);
+    expect(second.recentElapsedHours).toBeCloseTo(gapMinutes / 60);
+    expect(second.lastTimestamp).toEqual(new Date(START + gapMinutes * 60 * 1000));
+  });
+
+  it('ignores readings not newer than the last one and non-finite temperatures', () => {
+    const state = integrateAging(EMPTY_AGING_STATE, constantSamples(100, 1), CLASS_F);
+    expect(advanceAging(state, { timestamp: new Date(START), surfaceTemp: 150 }, CLASS_F)).toBe(state);
+    expect(advanceAging(state, { timestamp: new Date(START + 2 * 3600 * 1000), surfaceTemp: NaN }, CLASS_F)).toBe(state);
+  });
+});
+
+describe('projectEndOfLife', () => {
+  it('has no projection with less than an hour of history', () => {
+    const state = integrateAging(EMPTY_AGING_STATE, constantSamples(CLASS_F.surfaceLimit, 0.5), CLASS_F);
+    expect(currentAgingRate(state)).toBeNull();
+    expect(projectEndOfLife(state)).toBeNull();
+  });
+
+  it('projects the remaining life at the current duty from the last reading', () => {
+    // 20 K above the class temperature: four hours of life per hour
+    const state = integrateAging(EMPTY_AGING_STATE, constantSamples(CLASS_F.surfaceLimit + 20, 2), CLASS_F);
+    const rate = currentAgingRate(state)!;
+    expect(rate).toBeCloseTo(4, 1);
+
+    const remainingHours = (INSULATION_LIFE_HOURS - state.equivalentHours) / rate;
+    expect(projectEndOfLife(state)!.getTime()).toBeCloseTo(state.lastTimestamp!.getTime() + remainingHours * 3600 * 1000, -3);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_INFERENCE, inferSeverity, reinferSeverity, validateInferenceOptions } from '../expert-system/mamdani';
+import type { DamageLevel, FiredRule } from '../expert-system/ruleEngine';
+
+/** A fired rule concluding `level` with certainty `certainty` */
+function fired(id: string, level: DamageLevel, certainty: number): FiredRule {
+  return {
+    rule: {
+      id,
+      when: { op: 'symptom', symptom: 1 },
+      certainty: 1,
+      salience: 1,
+      damageType: id,
+      level,
+      damage: id,
+      solution: '',
+    },
+    activation: certainty,
+    certainty,
+    trace: { op: 'symptom', value: certainty, label: id },
+  };
+}
+
+// The universe is sampled every 1 from 0, so membership[x] is the degree at x
+describe('inferSeverity', () => {
+  it('has no severity when no rule fired', () => {
+    const result = inferSeverity([]);
+    expect(result).toMatchObject({ crisp: null, term: null, implied: [] });
+    expect(result.aggregated.every((mu) => mu === 0)).toBe(true);
+    expect(result.universe).toHaveLength(101);
+  });
+
+  it('defuzzifies a fully fired symmetric term to its centre', () => {
+    const result = inferSeverity([fired('R1', 'B', 1)]);
+    expect(result).toMatchObject({ crisp: 50, term: 'Sedang' });
+    expect(inferSeverity([fired('R1', 'B', 1)], { ...DEFAULT_INFERENCE, defuzzification: 'bisector' }).crisp).toBe(50);
+  });
+
+  it('maps damage levels to severity terms', () => {
+    expect(inferSeverity([fired('R1', 'A', 1)]).term).toBe('Ringan');
+    expect(inferSeverity([fired('R1', 'C', 1)]).term).toBe('Berat');
+  });
+
+  it('clips the consequent with min implication and scales it with product', () => {
+    const min = inferSeverity([fired('R1', 'B', 0.4)]);
+    expect(Math.max(...min.implied[0].membership)).toBeCloseTo(0.4);
+    expect(min.implied[0].membership[40]).toBeCloseTo(0.4);
+
+    const product = inferSeverity([fired('R1', 'B', 0.4)], { ...DEFAULT_INFERENCE, implication: 'product' });
+    expect(product.implied[0].membership[50]).toBeCloseTo(0.4);
+    expect(product.implied[0].membership[40]).toBeCloseTo(0.2);
+  });
+
+  it('aggregates with max, or with a sum capped at 1', () => {
+    const rules = [fired('R1', 'B', 0.8), fired('R2', 'B', 0.6)];
+    const sum = inferSeverity(rules, { ...DEFAULT_INFERENCE, aggregation: 'sum' });
+    expect(inferSeverity(rules).aggregated[50]).toBeCloseTo(0.8);
+    expect(inferSeverity(rules).aggregated[35]).toBeCloseTo(0.25);
+    expect(sum.aggregated[50]).toBe(1);
+    expect(sum.aggregated[35]).toBeCloseTo(0.5);
+  });
+
+  it('takes the mean of the plateau with mom', () => {
+    // Berat clipped at 0.5 holds its maximum from 67.5 to 100
+    const result = inferSeverity([fired('R1', 'C', 0.5)], { ...DEFAULT_INFERENCE, defuzzification: 'mom' });
+    expect(result.crisp).toBe(84);
+  });
+
+  it('moves the centroid towards the more certain conclusion', () => {
+    const moderate = inferSeverity([fired('R1', 'B', 0.9), fired('R2', 'C', 0.3)]).crisp!;
+    const severe = inferSeverity([fired('R1', 'B', 0.3), fired('R2', 'C', 0.9)]);
+    expect(moderate).toBeGreaterThan(50);
+    expect(severe.crisp).toBeGreaterThan(moderate);
+    expect(severe.term).toBe('Berat');
+  });
+});
+
+describe('reinferSeverity', () => {
+  it('gives the result of inferring the same rules with the new methods', () => {
+    const rules = [fired('R1', 'B', 0.9), fired('R2', 'C', 0.3)];
+    const options = { implication: 'product' as const, aggregation: 'sum' as const, defuzzification: 'bisector' as const };
+    expect(reinferSeverity(inferSeverity(rules), options)).toEqual(inferSeverity(rules, options));
+    expect(reinferSeverity(inferSeverity(rules, options), DEFAULT_INFERENCE)).toEqual(inferSeverity(rules));
+  });
+
+  it('keeps an empty result empty', () => {
+    expect(reinferSeverity(inferSeverity([]), { ...DEFAULT_INFERENCE, defuzzification: 'mom' })).toMatchObject({
+      crisp: null,
+      implied: [],
+      options: { defuzzification: 'mom' },
+    });
+  });
+});
+
+describe('validateInferenceOptions', () => {
+  it('defaults missing options', () => {
+    expect(validateInferenceOptions(undefined)).toEqual({ ok: true, data: DEFAULT_INFERENCE });
+    expect(validateInferenceOptions({ defuzzification: 'mom' })).toEqual({
+      ok: true,
+      data: { ...DEFAULT_INFERENCE, defuzzification: 'mom' },
+    });
+  });
+
+  it('rejects unknown methods', () => {
+    expect(validateInferenceOptions([])).toEqual({ ok: false, error: 'inference must be an object' });
+    expect(validateInferenceOptions({ implication: 'max' })).toEqual({
+      ok: false,
+      error: 'inference.implication must be one of min, product',
+    });
+    expect(validateInferenceOptions({ aggregation: 'prod' })).toMatchObject({ ok: false });
+    expect(validateInferenceOptions({ defuzzification: 'lom' })).toMatchObject({ ok: false });
+  });
+});
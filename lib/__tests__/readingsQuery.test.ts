@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest';
+import { autoBucketSeconds, parseDuration, parseReadingsQuery, queryBucketedReadings } from '../readingsQuery';
+
+const queryRaw = vi.hoisted(() => vi.fn());
+
+vi.mock('../prisma', () => ({ prisma: { $queryRaw: queryRaw } }));
+
+const NOW = new Date('2026-10-19T08:00:00Z');
+
+describe('parseDuration', () => {
+  it('reads durations with a unit or plain seconds', () => {
+    expect(parseDuration('30s')).toBe(30);
+    expect(parseDuration('5m')).toBe(300);
+    expect(parseDuration('1H')).toBe(3600);
+    expect(parseDuration('2d')).toBe(2 * 86400);
+    expect(parseDuration('90')).toBe(90);
+  });
+
+  it('rejects zero and anything else', () => {
+    expect(parseDuration('0m')).toBeNull();
+    expect(parseDuration('5w')).toBeNull();
+    expect(parseDuration('-5m')).toBeNull();
+  });
+});
+
+describe('autoBucketSeconds', () => {
+  it('picks the smallest bucket that keeps the range under the target point count', () => {
+    expect(autoBucketSeconds(new Date(NOW.getTime() - 3600 * 1000), NOW)).toBe(30);
+    expect(autoBucketSeconds(new Date(NOW.getTime() - 7 * 86400 * 1000), NOW)).toBe(3600);
+  });
+});
+
+describe('parseReadingsQuery', () => {
+  const parse = (query: string) => parseReadingsQuery(new URLSearchParams(query), NOW);
+
+  it('defaults to the last hour of every parameter in automatic buckets', () => {
+    const parsed = parse('motorId=m1');
+    if (!parsed.ok) throw new Error(parsed.error);
+    expect(parsed.query).toMatchObject({
+      motorId: 'm1',
+      from: new Date(NOW.getTime() - 3600 * 1000),
+      to: NOW,
+      bucketSeconds: 30,
+      cursor: null,
+      limit: 500,
+    });
+    expect(parsed.query.parameters).toContain('gridVoltage');
+  });
+
+  it('reads raw mode and de-duplicates parameters', () => {
+    const parsed = parse('motorId=m1&bucket=raw&parameters=gridVoltage,%20gridVoltage,bearingTemp&limit=10');
+    if (!parsed.ok) throw new Error(parsed.error);
+    expect(parsed.query).toMatchObject({ bucketSeconds: null, parameters: ['gridVoltage', 'bearingTemp'], limit: 10 });
+  });
+
+  it('rejects invalid queries', () => {
+    expect(parse('')).toEqual({ ok: false, error: 'motorId query parameter is required' });
+    expect(parse('motorId=m1&from=2026-10-19T09:00:00Z')).toEqual({ ok: false, error: 'from must be before to' });
+    expect(parse('motorId=m1&parameters=gridVoltage,rpm')).toEqual({ ok: false, error: 'Unknown parameters: rpm' });
+    expect(parse('motorId=m1&bucket=often')).toMatchObject({ ok: false });
+    expect(parse('motorId=m1&from=0&bucket=1s')).toMatchObject({
+      ok: false,
+      error: 'Range too large for bucket size (max 2000 buckets)',
+    });
+    expect(parse('motorId=m1&bucket=raw&limit=0')).toMatchObject({ ok: false });
+  });
+});
+
+describe('queryBucketedReadings', () => {
+  it('returns the count of values per parameter next to the readings in the bucket', async () => {
+    queryRaw.mockResolvedValueOnce([
+      {
+        bucket: new Date('2026-10-19T07:00:00Z'),
+        count: 10,
+        gridVoltage_count: 10,
+        gridVoltage_min: 218,
+        gridVoltage_mean: '220.5',
+        gridVoltage_max: 223,
+        gridVoltage_last: 221,
+        bearingTemp_count: 4,
+        bearingTemp_min: 40,
+        bearingTemp_mean: 41,
+        bearingTemp_max: 42,
+        bearingTemp_last: 42,
+      },
+    ]);
+
+    const buckets = await queryBucketedReadings({
+      motorId: 'm1',
+      from: new Date('2026-10-19T07:00:00Z'),
+      to: NOW,
+      parameters: ['gridVoltage', 'bearingTemp'],
+      bucketSeconds: 3600,
+      cursor: null,
+      limit: 500,
+    });
+
+    expect(buckets).toEqual([
+      {
+        start: '2026-10-19T07:00:00.000Z',
+        count: 10,
+        values: {
+          gridVoltage: { count: 10, min: 218, mean: 220.5, max: 223, last: 221 },
+          bearingTemp: { count: 4, min: 40, mean: 41, max: 42, last: 42 },
+        },
+      },
+    ]);
+  });
+});
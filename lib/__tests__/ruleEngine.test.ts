@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import {
+  combineCertainty,
+  evaluateCondition,
+  runRules,
+  symptomFacts,
+  type RuleCondition,
+  type RuleFacts,
+} from '../expert-system/ruleEngine';
+import { rules } from '../expert-system/rules';
+import { symptoms } from '../expert-system/symptoms';
+import type { FuzzyLevel } from '../expert-system/fuzzyMembership';
+
+/** Symptom 1 and 2 facts: true (1), false (0) or unknown (null, left out) */
+function facts(a: number | null, b: number | null): RuleFacts {
+  const known: Record<number, number> = {};
+  if (a !== null) known[1] = a;
+  if (b !== null) known[2] = b;
+  return { symptoms: known };
+}
+
+const A: RuleCondition = { op: 'symptom', symptom: 1 };
+const B: RuleCondition = { op: 'symptom', symptom: 2 };
+const HOT_BEARING: RuleCondition = { op: 'level', parameter: 'bearingTemp', level: 'critical' };
+
+// [a, b, a AND b, a OR b] in Kleene's three-valued logic
+const KLEENE: [number | null, number | null, number | null, number | null][] = [
+  [1, 1, 1, 1],
+  [1, 0, 0, 1],
+  [1, null, null, 1],
+  [0, 0, 0, 0],
+  [0, null, 0, null],
+  [null, null, null, null],
+];
+
+/** Rule ids that fire on the answers and sensor values */
+function firedFor(answers: Record<number, FuzzyLevel>, values: RuleFacts['values'] = {}) {
+  const { fired } = runRules(rules, { symptoms: symptomFacts(answers, symptoms), values });
+  return fired.map((item) => [item.rule.id, item.activation]);
+}
+
+describe('evaluateCondition', () => {
+  it.each(KLEENE)('combines %s and %s like Kleene logic', (a, b, and, or) => {
+    expect(evaluateCondition({ op: 'and', args: [A, B] }, facts(a, b))).toBe(and);
+    expect(evaluateCondition({ op: 'and', args: [B, A] }, facts(a, b))).toBe(and);
+    expect(evaluateCondition({ op: 'or', args: [A, B] }, facts(a, b))).toBe(or);
+    expect(evaluateCondition({ op: 'or', args: [B, A] }, facts(a, b))).toBe(or);
+  });
+
+  it('negates known degrees and keeps unknown', () => {
+    expect(evaluateCondition({ op: 'not', arg: A }, facts(0.3, null))).toBeCloseTo(0.7);
+    expect(evaluateCondition({ op: 'not', arg: A }, facts(null, null))).toBeNull();
+  });
+
+  it('uses MIN and MAX for partial degrees', () => {
+    expect(evaluateCondition({ op: 'and', args: [A, B] }, facts(0.6, 0.8))).toBe(0.6);
+    expect(evaluateCondition({ op: 'or', args: [A, B] }, facts(0.6, 0.8))).toBe(0.8);
+    expect(evaluateCondition({ op: 'or', args: [A, B] }, facts(0.6, null))).toBeNull();
+  });
+
+  it('leaves an unmeasured sensor out of an OR another argument holds', () => {
+    const either: RuleCondition = { op: 'or', args: [A, HOT_BEARING] };
+    expect(evaluateCondition(either, facts(0.6, null))).toBe(0.6);
+    expect(evaluateCondition(either, facts(0, null))).toBeNull();
+    expect(evaluateCondition(either, { ...facts(0.6, null), values: { bearingTemp: 90 } })).toBe(1);
+    expect(evaluateCondition(either, { ...facts(0, null), values: { bearingTemp: 40 } })).toBe(0);
+  });
+});
+
+describe('runRules', () => {
+  it('fires R12 and R13 from the answers without a bearing or surface reading', () => {
+    expect(firedFor({ 7: 'Yes', 8: 'Sometimes' })).toContainEqual(['R12', 0.5]);
+    expect(firedFor({ 4: 'Yes', 5: 'Yes' })).toContainEqual(['R13', expect.closeTo(0.7)]);
+  });
+
+  it('fires R12 from a hot bearing when the sound was not answered', () => {
+    expect(firedFor({ 7: 'Yes' })).not.toContainEqual(['R12', expect.anything()]);
+    expect(firedFor({ 7: 'Yes' }, { bearingTemp: 90 })).toContainEqual(['R12', expect.closeTo(0.8)]);
+  });
+
+  it('combines rules reaching the same damage type by the chosen semantics', () => {
+    const both = { symptoms: symptomFacts({ 7: 'Yes', 8: 'Yes' }, symptoms), values: {} };
+    const certainty = runRules(rules, both, 'certainty').conclusions.find((c) => c.damageType === 'G')!;
+    const fuzzy = runRules(rules, both, 'fuzzy').conclusions.find((c) => c.damageType === 'G')!;
+    const single = certainty.rules.map((item) => item.certainty);
+    expect(certainty.rules.map((item) => item.rule.id)).toEqual(['R12', 'R7']);
+    expect(certainty.certainty).toBeCloseTo(combineCertainty(single));
+    expect(fuzzy.certainty).toBeCloseTo(Math.max(...single));
+  });
+});
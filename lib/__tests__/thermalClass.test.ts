@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  allowableRise,
+  assessThermal,
+  describeThermalClass,
+  surfaceTempThreshold,
+  tempRiseThreshold,
+  thermalClassFor,
+} from '../thermalClass';
+
+// Class F insulation with a class B rise, as the seeded motor
+const CLASS_F_B_RISE = thermalClassFor({ insulationClass: 'F', ratedTempRise: 80 });
+
+describe('thermalClassFor', () => {
+  it('derives the surface and rise limits from the class and rated rise', () => {
+    expect(CLASS_F_B_RISE).toEqual({ insulationClass: 'F', classTemp: 155, ratedRise: 80, surfaceLimit: 100, riseLimit: 60 });
+    expect(thermalClassFor({ insulationClass: 'H' })).toMatchObject({ ratedRise: 125, surfaceLimit: 145, riseLimit: 105 });
+  });
+
+  it('falls back to class F and the class rise for unknown or out-of-range values', () => {
+    expect(thermalClassFor({ insulationClass: 'Y' })).toMatchObject({ insulationClass: 'F', ratedRise: 105 });
+    expect(thermalClassFor({ insulationClass: 'B', ratedTempRise: 105 })).toMatchObject({ ratedRise: 80 });
+    expect(thermalClassFor({ insulationClass: 'B', ratedTempRise: 20 })).toMatchObject({ ratedRise: 80 });
+  });
+});
+
+describe('allowableRise', () => {
+  it('is the rise limit up to the reference ambient, less the excess above it', () => {
+    expect(allowableRise(30, CLASS_F_B_RISE)).toBe(60);
+    expect(allowableRise(45, CLASS_F_B_RISE)).toBe(55);
+  });
+});
+
+describe('assessThermal', () => {
+  it('does not flag a hot ambient when the motor\'s own rise is normal', () => {
+    expect(assessThermal(80, 38, CLASS_F_B_RISE)).toMatchObject({
+      level: 'normal',
+      rise: 42,
+      allowableRise: 60,
+      headroom: 18,
+    });
+  });
+
+  it('flags a rise over the allowance even below the absolute limit', () => {
+    expect(assessThermal(75, 10, CLASS_F_B_RISE)).toMatchObject({ level: 'critical', absoluteLevel: 'normal', riseLevel: 'critical' });
+  });
+
+  it('takes the worse of the absolute and rise levels', () => {
+    expect(assessThermal(92, 20, CLASS_F_B_RISE)).toMatchObject({ level: 'critical', absoluteLevel: 'warning', riseLevel: 'critical' });
+    expect(assessThermal(101, null, CLASS_F_B_RISE, 30)).toMatchObject({ level: 'critical', absoluteLevel: 'critical', riseLevel: 'normal' });
+  });
+
+  it('judges the absolute temperature alone without an ambient', () => {
+    expect(assessThermal(85, null, CLASS_F_B_RISE)).toMatchObject({
+      level: 'normal',
+      riseLevel: null,
+      rise: null,
+      allowableRise: null,
+      headroom: 15,
+    });
+  });
+
+  it('uses a rise given directly against the rise limit', () => {
+    expect(assessThermal(70, null, CLASS_F_B_RISE, 55)).toMatchObject({ riseLevel: 'warning', allowableRise: 60 });
+  });
+});
+
+describe('threshold profiles', () => {
+  it('puts the warning a margin below each limit', () => {
+    expect(surfaceTempThreshold(CLASS_F_B_RISE)).toMatchObject({
+      warningHigh: 90,
+      criticalHigh: 100,
+      labels: { warning: 'Near class F limit', critical: 'Over class F limit' },
+    });
+    expect(tempRiseThreshold(CLASS_F_B_RISE)).toMatchObject({ warningHigh: 50, criticalHigh: 60 });
+  });
+
+  it('cites the class for reports', () => {
+    expect(describeThermalClass(CLASS_F_B_RISE)).toBe('IEC 60034-1 Class F, rise 80 K: surface ≤ 100 °C, rise ≤ 60 K');
+  });
+});
@@ -0,0 +1,208 @@
+import type { ThresholdProfile as ThresholdProfileRow } from '@prisma/client';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  applyRatings,
+  classifyValue,
+  DEFAULT_THRESHOLDS,
+  getAlertSeverity,
+  getStatusColor,
+  RATED_THRESHOLDS,
+  resolveThresholds,
+  validateThresholdProfile,
+} from '../thresholds';
+import { motorThresholds, toThresholdOverrides } from '../thresholdProfiles';
+
+// Profiles are resolved from rows here, not loaded
+vi.mock('../prisma', () => ({ prisma: {} }));
+
+// Nameplate of the seeded motor (prisma/seed.ts)
+const SEED_RATINGS = { ratedVoltage: 220, ratedCurrent: 4, ratedPower: 0.75, insulationClass: 'F', ratedTempRise: 80 };
+
+function profileRow(parameter: string, fields: Partial<ThresholdProfileRow>): ThresholdProfileRow {
+  return {
+    id: `profile-${parameter}`,
+    motorId: 'motor-1',
+    parameter,
+    direction: 'high',
+    warningLow: null,
+    warningHigh: null,
+    criticalLow: null,
+    criticalHigh: null,
+    deadband: null,
+    relativeTo: null,
+    sustainSeconds: null,
+    sustainCount: null,
+    sustainWindow: null,
+    rateWarning: null,
+    rateCritical: null,
+    rateWindowSeconds: null,
+    createdAt: new Date('2026-10-19T08:00:00Z'),
+    updatedAt: new Date('2026-10-19T08:00:00Z'),
+    ...fields,
+  };
+}
+
+describe('classifyValue', () => {
+  it('classifies high limits: warning from warningHigh, critical above criticalHigh', () => {
+    const profile = DEFAULT_THRESHOLDS.motorCurrent;
+    expect(classifyValue(3.9, profile)).toBe('normal');
+    expect(classifyValue(4, profile)).toBe('warning');
+    expect(classifyValue(5.5, profile)).toBe('warning');
+    expect(classifyValue(5.6, profile)).toBe('critical');
+  });
+
+  it('classifies low limits', () => {
+    const profile = DEFAULT_THRESHOLDS.powerFactor;
+    expect(classifyValue(0.9, profile)).toBe('normal');
+    expect(classifyValue(0.85, profile)).toBe('warning');
+    expect(classifyValue(0.69, profile)).toBe('critical');
+  });
+
+  it('classifies bands on both sides, with open bounds', () => {
+    const profile = DEFAULT_THRESHOLDS.gridVoltage;
+    expect(classifyValue(220, profile)).toBe('normal');
+    expect(classifyValue(195, profile)).toBe('warning');
+    expect(classifyValue(245, profile)).toBe('warning');
+    expect(classifyValue(189, profile)).toBe('critical');
+    expect(classifyValue(251, profile)).toBe('critical');
+
+    const open = { direction: 'band' as const, warningLow: 3, warningHigh: 5, criticalLow: null, criticalHigh: 7 };
+    expect(classifyValue(1, open)).toBe('warning');
+    expect(classifyValue(8, open)).toBe('critical');
+  });
+});
+
+describe('getStatusColor', () => {
+  it('uses the profile labels for warning and critical', () => {
+    expect(getStatusColor(8, 'crestFactor').label).toBe('Bearing Issue');
+    expect(getStatusColor(6, 'crestFactor').label).toBe('Warning');
+    expect(getStatusColor(4, 'crestFactor')).toMatchObject({ level: 'normal', label: 'Normal' });
+  });
+
+  it('uses the given thresholds instead of the defaults', () => {
+    const thresholds = { motorCurrent: { direction: 'high' as const, warningHigh: 10, criticalHigh: 12 } };
+    expect(getAlertSeverity(5, 'motorCurrent')).toBe('WARNING');
+    expect(getAlertSeverity(5, 'motorCurrent', thresholds)).toBeNull();
+    expect(getAlertSeverity(13, 'motorCurrent', thresholds)).toBe('CRITICAL');
+  });
+});
+
+describe('validateThresholdProfile', () => {
+  it('accepts ordered bounds and reads numeric strings', () => {
+    expect(validateThresholdProfile({ direction: 'high', warningHigh: '4', criticalHigh: 5, deadband: 0.2 })).toMatchObject({
+      ok: true,
+      profile: { direction: 'high', warningHigh: 4, criticalHigh: 5, deadband: 0.2, relativeTo: null },
+    });
+    expect(
+      validateThresholdProfile({ direction: 'band', warningLow: 200, warningHigh: 240, criticalLow: 190, criticalHigh: '' })
+    ).toMatchObject({ ok: true, profile: { criticalLow: 190, criticalHigh: null } });
+  });
+
+  it('rejects missing, unordered or invalid bounds', () => {
+    expect(validateThresholdProfile(null)).toEqual({ ok: false, error: 'Body must be a JSON object' });
+    expect(validateThresholdProfile({ direction: 'up' })).toMatchObject({ ok: false });
+    expect(validateThresholdProfile({ direction: 'high', warningHigh: 4 })).toEqual({
+      ok: false,
+      error: 'warningHigh and criticalHigh are required for direction high',
+    });
+    expect(validateThresholdProfile({ direction: 'high', warningHigh: 5, criticalHigh: 4 })).toEqual({
+      ok: false,
+      error: 'criticalHigh must be at least warningHigh',
+    });
+    expect(validateThresholdProfile({ direction: 'low', warningLow: 0.7, criticalLow: 0.85 })).toEqual({
+      ok: false,
+      error: 'criticalLow must be at most warningLow',
+    });
+    expect(validateThresholdProfile({ direction: 'band' })).toEqual({
+      ok: false,
+      error: 'A band needs warningLow and/or warningHigh',
+    });
+    expect(validateThresholdProfile({ direction: 'band', warningLow: 240, warningHigh: 200 })).toMatchObject({ ok: false });
+    expect(validateThresholdProfile({ direction: 'high', warningHigh: 'four', criticalHigh: 5 })).toEqual({
+      ok: false,
+      error: 'warningHigh must be a number',
+    });
+    expect(validateThresholdProfile({ direction: 'high', warningHigh: 4, criticalHigh: 5, deadband: -1 })).toEqual({
+      ok: false,
+      error: 'deadband must not be negative',
+    });
+  });
+});
+
+describe('resolveThresholds', () => {
+  it('falls back to the defaults without overrides or ratings', () => {
+    expect(resolveThresholds()).toEqual(DEFAULT_THRESHOLDS);
+  });
+
+  it('puts a motor\'s stored profiles over the defaults', () => {
+    const overrides = toThresholdOverrides([
+      profileRow('bearingTemp', { warningHigh: 60, criticalHigh: 75, deadband: 2 }),
+      profileRow('rpm', { warningHigh: 1500, criticalHigh: 1600 }),
+    ]);
+
+    expect(Object.keys(overrides)).toEqual(['bearingTemp']);
+    const thresholds = resolveThresholds(overrides);
+    expect(thresholds.bearingTemp).toMatchObject({ direction: 'high', warningHigh: 60, criticalHigh: 75, deadband: 2 });
+    expect(thresholds.motorCurrent).toEqual(DEFAULT_THRESHOLDS.motorCurrent);
+  });
+
+  it('keeps the default labels on a stored profile', () => {
+    const row = profileRow('crestFactor', { direction: 'band', warningLow: 2.5, warningHigh: 6, criticalHigh: 8 });
+    const thresholds = motorThresholds({ ratedCurrent: 4, ratedVoltage: 220, ratedPower: 0.75, thresholdProfiles: [row] });
+    expect(thresholds.crestFactor.labels).toEqual({ critical: 'Bearing Issue' });
+  });
+});
+
+describe('applyRatings', () => {
+  it('scales bounds, deadband and rates of a relative profile; durations are kept', () => {
+    const profile = { ...RATED_THRESHOLDS.motorCurrent!, rateWarning: 10, rateWindowSeconds: 60 };
+    expect(applyRatings(profile, { ratedCurrent: 10, ratedVoltage: 400, ratedPower: 4 })).toEqual({
+      ...profile,
+      relativeTo: null,
+      warningHigh: 10,
+      criticalHigh: 11.5,
+      deadband: 0.5,
+      rateWarning: 1,
+      sustainSeconds: 10,
+      rateWindowSeconds: 60,
+    });
+  });
+
+  it('reads power ratings in kW against readings in W', () => {
+    expect(applyRatings(RATED_THRESHOLDS.power!, { ratedCurrent: 4, ratedVoltage: 220, ratedPower: 0.75 })).toMatchObject({
+      warningHigh: 1050,
+      criticalHigh: 1200,
+    });
+  });
+
+  it('returns absolute profiles unchanged and cannot resolve relative ones without ratings', () => {
+    expect(applyRatings(DEFAULT_THRESHOLDS.bearingTemp, null)).toBe(DEFAULT_THRESHOLDS.bearingTemp);
+    expect(applyRatings(RATED_THRESHOLDS.motorCurrent!, null)).toBeNull();
+  });
+});
+
+describe('resolveThresholds with ratings', () => {
+  it('derives current and voltage limits from the nameplate', () => {
+    const thresholds = resolveThresholds(null, { ratedVoltage: 380, ratedCurrent: 15, ratedPower: 7.5 });
+    expect(thresholds.motorCurrent).toMatchObject({ warningHigh: 15, criticalHigh: 17.25 });
+    expect(thresholds.gridVoltage).toMatchObject({
+      warningLow: 342,
+      warningHigh: expect.closeTo(418),
+      criticalLow: 323,
+      criticalHigh: expect.closeTo(437),
+    });
+  });
+
+  it('keeps the readings of the seeded motor normal', () => {
+    const thresholds = resolveThresholds(null, SEED_RATINGS);
+    expect(getStatusColor(220, 'gridVoltage', thresholds).level).toBe('normal');
+    expect(getStatusColor(3.5, 'motorCurrent', thresholds).level).toBe('normal');
+    expect(getStatusColor(800, 'power', thresholds).level).toBe('normal');
+  });
+
+  it('falls back to the defaults for a relative override without ratings', () => {
+    const overrides = { motorCurrent: { ...RATED_THRESHOLDS.motorCurrent!, warningHigh: 90 } };
+    expect(resolveThresholds(overrides).motorCurrent).toEqual(DEFAULT_THRESHOLDS.motorCurrent);
+    expect(resolveThresholds(overrides, SEED_RATINGS).motorCurrent).toMatchObject({ warningHigh: 3.6 });
+  });
+});
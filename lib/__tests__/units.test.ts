@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import {
+  accelerationToVelocity,
+  convert,
+  parseQuantity,
+  toCanonical,
+  toCanonicalReading,
+  UnitMismatchError,
+} from '../units';
+import { firebaseTaggedReading, firebaseValue, firebaseVibrationRms } from '../firebaseUnits';
+import { validateField } from '../ingestSchema';
+
+describe('convert', () => {
+  it('converts within a dimension', () => {
+    expect(convert({ value: 1.5, unit: 'kW' }, 'W')).toEqual({ value: 1500, unit: 'W' });
+    expect(convert({ value: 85, unit: '%' }, '')).toEqual({ value: 0.85, unit: '' });
+    expect(convert({ value: 1, unit: 'g' }, 'mm/s²').value).toBeCloseTo(9806.65);
+  });
+
+  it('applies the offset to temperatures but not to differences', () => {
+    expect(convert({ value: 300, unit: 'K' }, '°C').value).toBeCloseTo(26.85);
+    expect(convert({ value: 10, unit: 'K' }, '°C', undefined, { difference: true })).toEqual({ value: 10, unit: '°C' });
+  });
+
+  it('throws between dimensions', () => {
+    expect(() => convert({ value: 0.2, unit: 'g' }, 'mm/s', 'vibrationRms')).toThrow(
+      new UnitMismatchError('g', 'mm/s', 'vibrationRms')
+    );
+  });
+});
+
+describe('toCanonical', () => {
+  it('converts temperatures from kelvin', () => {
+    expect(toCanonical('bearingTemp', { value: 323.15, unit: 'K' })).toBeCloseTo(50);
+  });
+
+  it('converts temperature rises without the offset', () => {
+    expect(toCanonical('tempGradient', { value: 10, unit: 'K' })).toBe(10);
+    expect(toCanonical('deltaTemp', { value: 25, unit: 'K' })).toBe(25);
+  });
+
+  it('converts a whole tagged reading and ignores unknown keys', () => {
+    expect(
+      toCanonicalReading({ power: { value: 0.8, unit: 'kW' }, tempGradient: { value: 12, unit: 'K' }, note: 'x' }, 'values')
+    ).toEqual({ power: 800, tempGradient: 12 });
+    expect(() => toCanonicalReading({ power: 800 }, 'values')).toThrow('values.power must be { value, unit }');
+  });
+});
+
+describe('parseQuantity', () => {
+  it('reads numbers and numeric strings with a known unit', () => {
+    expect(parseQuantity({ value: '4.5', unit: 'mm/s' })).toEqual({ value: 4.5, unit: 'mm/s' });
+    expect(parseQuantity({ value: 4.5, unit: 'in/s' })).toBeNull();
+    expect(parseQuantity({ value: '', unit: 'V' })).toBeNull();
+    expect(parseQuantity(4.5)).toBeNull();
+  });
+});
+
+describe('accelerationToVelocity', () => {
+  it('integrates at the given frequency', () => {
+    // 2π · 25 Hz · 1 mm/s ≈ 157 mm/s²
+    expect(accelerationToVelocity({ value: 2 * Math.PI * 25, unit: 'mm/s²' }, 25).value).toBeCloseTo(1);
+    expect(() => accelerationToVelocity({ value: 1, unit: 'mm/s' }, 25)).toThrow(UnitMismatchError);
+    expect(() => accelerationToVelocity({ value: 1, unit: 'g' }, 0)).toThrow(RangeError);
+  });
+});
+
+describe('ingest fields', () => {
+  it('accepts a temperature rise in kelvin', () => {
+    expect(validateField('tempGradient', { value: 15, unit: 'K' })).toEqual({ value: 15 });
+    expect(validateField('motorSurfaceTemp', { value: 333.15, unit: 'K' }).value).toBeCloseTo(60);
+  });
+});
+
+describe('Firebase readings', () => {
+  const RAW = { voltage: 221, motor_temp: 55, temp_gradient: 12, vibration_rms_mm_s: 2 * Math.PI * 25, frequency: 50 };
+
+  it('reads the firmware keys in canonical units', () => {
+    expect(firebaseValue(RAW, 'voltage', 'gridVoltage')).toBe(221);
+    expect(firebaseValue(RAW, 'temp_gradient', 'tempGradient')).toBe(12);
+    expect(firebaseValue(RAW, 'current', 'motorCurrent')).toBeUndefined();
+    expect(() => firebaseValue(RAW, 'voltage', 'motorCurrent')).toThrow(UnitMismatchError);
+  });
+
+  it('integrates the vibration at the shaft frequency without a fault frequency', () => {
+    expect(firebaseVibrationRms(RAW)).toBeCloseTo(1);
+    expect(firebaseVibrationRms({ ...RAW, fault_frequency: 50 })).toBeCloseTo(0.5);
+  });
+
+  it('ignores snapshots that are not objects and values that are not numbers', () => {
+    expect(firebaseTaggedReading(null)).toEqual({});
+    expect(firebaseTaggedReading({ voltage: '221', current: 3.5 })).toEqual({ motorCurrent: { value: 3.5, unit: 'A' } });
+    expect(firebaseVibrationRms('2.0')).toBeUndefined();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { classifyVibration, machineGroupFor, vibrationClassFor, vibrationThreshold } from '../vibrationSeverity';
+
+describe('machineGroupFor', () => {
+  it('groups by rated power at the ISO 10816 boundaries', () => {
+    expect(machineGroupFor(7.5)).toBe('class1');
+    expect(machineGroupFor(15)).toBe('class1');
+    expect(machineGroupFor(15.1)).toBe('group2');
+    expect(machineGroupFor(300)).toBe('group2');
+    expect(machineGroupFor(301)).toBe('group1');
+  });
+});
+
+describe('vibrationClassFor', () => {
+  it('derives the group from the rated power unless one is set', () => {
+    expect(vibrationClassFor({ ratedPower: 7.5 })).toMatchObject({ group: 'class1', standard: 'ISO 10816-1' });
+    expect(vibrationClassFor({ ratedPower: 7.5, machineGroup: 'group2', foundationType: 'flexible' })).toMatchObject({
+      group: 'group2',
+      foundation: 'flexible',
+      standard: 'ISO 10816-3',
+      boundaries: { ab: 2.3, bc: 4.5, cd: 7.1 },
+    });
+  });
+
+  it('falls back to the derived group and a rigid foundation for unknown values', () => {
+    expect(vibrationClassFor({ ratedPower: 55, machineGroup: 'group9', foundationType: 'soft' })).toMatchObject({
+      group: 'group2',
+      foundation: 'rigid',
+    });
+  });
+});
+
+describe('classifyVibration', () => {
+  const group2Rigid = vibrationClassFor({ ratedPower: 55 });
+
+  it('classifies velocity RMS into zones, each boundary starting the next zone', () => {
+    expect(classifyVibration(0.5, group2Rigid).zone).toBe('A');
+    expect(classifyVibration(1.4, group2Rigid).zone).toBe('B');
+    expect(classifyVibration(2.8, group2Rigid).zone).toBe('C');
+    expect(classifyVibration(4.5, group2Rigid).zone).toBe('D');
+  });
+
+  it('maps zones C and D to warning and critical', () => {
+    expect(classifyVibration(2, group2Rigid).level).toBe('normal');
+    expect(classifyVibration(3, group2Rigid).level).toBe('warning');
+    expect(classifyVibration(12, group2Rigid).level).toBe('critical');
+  });
+
+  it('uses the boundaries of the class', () => {
+    const class1 = vibrationClassFor({ ratedPower: 7.5 });
+    expect(classifyVibration(2, class1).zone).toBe('C');
+    expect(classifyVibration(2, group2Rigid).zone).toBe('B');
+  });
+});
+
+describe('vibrationThreshold', () => {
+  it('warns from zone C and is critical from zone D', () => {
+    expect(vibrationThreshold(vibrationClassFor({ ratedPower: 55 }))).toMatchObject({
+      direction: 'high',
+      warningHigh: 2.8,
+      criticalHigh: 4.5,
+      deadband: 0.14,
+      labels: { warning: 'Zone C', critical: 'Zone D' },
+    });
+  });
+});
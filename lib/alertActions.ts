@@ -0,0 +1,212 @@
+/**
+ * Mechasense - Alert Actions
+ *
+ * Operator actions on alerts (acknowledge, close, reopen) and the alert
+ * list query behind GET /api/alerts. Every status change is recorded as an
+ * AlertEvent with the actor, time and an optional comment.
+ */
+
+import { Prisma, type Alert } from '@prisma/client';
+import { prisma } from './prisma';
+import { parseRecordTimestamp } from './ingest';
+import { lockMotorAlerts, SYSTEM_ACTOR } from './alertLifecycle';
+
+export type AlertStatus = 'OPEN' | 'ACKNOWLEDGED' | 'CLOSED';
+
+export type AlertAction = 'acknowledge' | 'close' | 'reopen';
+
+export const ALERT_STATUSES: AlertStatus[] = ['OPEN', 'ACKNOWLEDGED', 'CLOSED'];
+export const ALERT_SEVERITIES = ['WARNING', 'CRITICAL'];
+
+/** Default and maximum page size of GET /api/alerts */
+export const DEFAULT_ALERT_LIMIT = 50;
+export const MAX_ALERT_LIMIT = 200;
+
+const TRANSITIONS: Record<AlertAction, { from: AlertStatus[]; to: AlertStatus; event: string }> = {
+  acknowledge: { from: ['OPEN'], to: 'ACKNOWLEDGED', event: 'ACKNOWLEDGE' },
+  close: { from: ['OPEN', 'ACKNOWLEDGED'], to: 'CLOSED', event: 'CLOSE' },
+  reopen: { from: ['ACKNOWLEDGED', 'CLOSED'], to: 'OPEN', event: 'REOPEN' },
+};
+
+export interface ActionInput {
+  actor: string;
+  comment: string | null;
+}
+
+export type AlertActionResult =
+  | { ok: true; alert: Alert }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Validate the body of an action request: `{ actor, comment? }`
+ */
+export function parseActionInput(body: unknown): { ok: true; input: ActionInput } | { ok: false; error: string } {
+  const input = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+
+  const actor = typeof input.actor === 'string' ? input.actor.trim() : '';
+  if (actor.length === 0 || actor.length > 100) {
+    return { ok: false, error: 'actor is required (1-100 characters)' };
+  }
+  if (actor.toLowerCase() === SYSTEM_ACTOR) {
+    return { ok: false, error: `actor "${SYSTEM_ACTOR}" is reserved` };
+  }
+
+  let comment: string | null = null;
+  if (input.comment !== undefined && input.comment !== null) {
+    if (typeof input.comment !== 'string' || input.comment.length > 1000) {
+      return { ok: false, error: 'comment must be a string of at most 1000 characters' };
+    }
+    comment = input.comment.trim() || null;
+  }
+
+  return { ok: true, input: { actor, comment } };
+}
+
+/**
+ * Apply an operator action to an alert and record it
+ */
+export async function applyAlertAction(
+  alertId: string,
+  action: AlertAction,
+  { actor, comment }: ActionInput
+): Promise<AlertActionResult> {
+  const transition = TRANSITIONS[action];
+
+  return prisma.$transaction(async (tx): Promise<AlertActionResult> => {
+    // Serialize with ingest and other actions on the motor's alerts, then read the status after the lock
+    const target = await tx.alert.findUnique({ where: { id: alertId }, select: { motorId: true } });
+    if (target) await lockMotorAlerts(tx, target.motorId);
+    const alert = await tx.alert.findUnique({ where: { id: alertId } });
+
+    if (!alert) {
+      return { ok: false, status: 404, error: 'Alert not found' };
+    }
+
+    const fromStatus = alert.status as AlertStatus;
+    if (!transition.from.includes(fromStatus)) {
+      return { ok: false, status: 409, error: `Cannot ${action} an alert that is ${fromStatus}` };
+    }
+
+    // Keep the lifecycle invariant: one non-closed alert per motor and parameter
+    if (action === 'reopen' && fromStatus === 'CLOSED') {
+      const open = await tx.alert.findFirst({
+        where: { motorId: alert.motorId, parameter: alert.parameter, status: { not: 'CLOSED' }, id: { not: alert.id } },
+        select: { id: true },
+      });
+      if (open) {
+        return { ok: false, status: 409, error: `Alert ${open.id} is already open for ${alert.parameter}` };
+      }
+    }
+
+    const now = new Date();
+    const data: Prisma.AlertUpdateInput = { status: transition.to };
+    if (action === 'acknowledge') {
+      data.acknowledgedAt = now;
+      data.acknowledgedBy = actor;
+    } else if (action === 'close') {
+      data.closedAt = now;
+      data.closedBy = actor;
+      data.clearingSince = null;
+    } else {
+      data.acknowledgedAt = null;
+      data.acknowledgedBy = null;
+      data.closedAt = null;
+      data.closedBy = null;
+      data.clearingSince = null;
+    }
+
+    const updated = await tx.alert.update({ where: { id: alert.id }, data });
+    await tx.alertEvent.create({
+      data: { alertId: alert.id, action: transition.event, actor, comment, fromStatus, toStatus: transition.to },
+    });
+
+    return { ok: true, alert: updated };
+  });
+}
+
+export interface AlertListQuery {
+  where: Prisma.AlertWhereInput;
+  cursor: string | null;
+  limit: number;
+}
+
+function parseList(value: string | null, allowed: string[]): string[] | null {
+  if (!value) return [];
+  const items = value.split(',').map((v) => v.trim().toUpperCase()).filter(Boolean);
+  return items.every((v) => allowed.includes(v)) ? items : null;
+}
+
+/**
+ * Validate the query string of GET /api/alerts.
+ *
+ * - motorId         optional
+ * - severity        comma separated WARNING,CRITICAL
+ * - status          comma separated OPEN,ACKNOWLEDGED,CLOSED
+ * - from, to        epoch ms/s or ISO string, matched against the opening time
+ * - q               text search in message and parameter
+ * - cursor, limit   pagination (newest first)
+ */
+export function parseAlertListQuery(searchParams: URLSearchParams): { ok: true; query: AlertListQuery } | { ok: false; error: string } {
+  const where: Prisma.AlertWhereInput = {};
+
+  const motorId = searchParams.get('motorId');
+  if (motorId) where.motorId = motorId;
+
+  const severities = parseList(searchParams.get('severity'), ALERT_SEVERITIES);
+  if (!severities) {
+    return { ok: false, error: `severity must be one of ${ALERT_SEVERITIES.join(', ')}` };
+  }
+  if (severities.length > 0) where.severity = { in: severities };
+
+  const statuses = parseList(searchParams.get('status'), ALERT_STATUSES);
+  if (!statuses) {
+    return { ok: false, error: `status must be one of ${ALERT_STATUSES.join(', ')}` };
+  }
+  if (statuses.length > 0) where.status = { in: statuses };
+
+  const timestamp: Prisma.DateTimeFilter = {};
+  for (const key of ['from', 'to'] as const) {
+    const value = searchParams.get(key);
+    if (!value) continue;
+    const date = parseRecordTimestamp(value);
+    if (!date) {
+      return { ok: false, error: `${key} is not a valid date` };
+    }
+    if (key === 'from') timestamp.gte = date;
+    else timestamp.lt = date;
+  }
+  if (timestamp.gte || timestamp.lt) where.timestamp = timestamp;
+
+  const q = searchParams.get('q')?.trim();
+  if (q) {
+    where.OR = [
+      { message: { contains: q, mode: 'insensitive' } },
+      { parameter: { contains: q, mode: 'insensitive' } },
+    ];
+  }
+
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam ? Number(limitParam) : DEFAULT_ALERT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ALERT_LIMIT) {
+    return { ok: false, error: `limit must be an integer between 1 and ${MAX_ALERT_LIMIT}` };
+  }
+
+  return { ok: true, query: { where, cursor: searchParams.get('cursor'), limit } };
+}
+
+/**
+ * One page of alerts, newest first. `nextCursor` is null on the last page.
+ */
+export async function listAlerts({ where, cursor, limit }: AlertListQuery) {
+  const rows = await prisma.alert.findMany({
+    where,
+    orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
+    ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+  });
+
+  const hasMore = rows.length > limit;
+  const alerts = hasMore ? rows.slice(0, limit) : rows;
+
+  return { alerts, nextCursor: hasMore ? alerts[alerts.length - 1].id : null };
+}
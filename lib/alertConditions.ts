@@ -0,0 +1,167 @@
+/**
+ * Mechasense - Alert Conditions
+ *
+ * Turns the threshold level of one reading into an alert severity using the
+ * motor's reading history, per the parameter's ThresholdProfile:
+ *
+ * - sustained breach: a level only counts once it has held for
+ *   `sustainSeconds`, or was reached in `sustainCount` of the last
+ *   `sustainWindow` samples (either condition is enough)
+ * - rate of change: the slope over the last `rateWindowSeconds`, in units
+ *   per minute in the bad direction, against `rateWarning` / `rateCritical`
+ *
+ * Profiles without conditions alert on the single value.
+ */
+
+import { classifyValue, type StatusLevel, type ThresholdProfile } from './thresholds';
+import type { AlertSeverity } from './alertLifecycle';
+
+/** One stored value of a parameter */
+export interface ParameterSample {
+  timestamp: Date;
+  value: number;
+}
+
+export interface ConditionResult {
+  severity: AlertSeverity | null;
+  /** Level of the value on its own, before sustain conditions */
+  level: StatusLevel;
+  /** Fitted slope in units per minute, null without a rate condition or enough samples */
+  rate: number | null;
+  /** What raised the severity: the (sustained) level or the rate */
+  trigger: 'level' | 'rate' | null;
+}
+
+/** Fewest samples a rate is fitted from */
+const MIN_RATE_SAMPLES = 3;
+
+const RANK: Record<StatusLevel, number> = { normal: 0, warning: 1, critical: 2 };
+const LEVELS: StatusLevel[] = ['normal', 'warning', 'critical'];
+
+const SEVERITY: Record<StatusLevel, AlertSeverity | null> = {
+  normal: null,
+  warning: 'WARNING',
+  critical: 'CRITICAL',
+};
+
+export function hasSustainCondition(profile: ThresholdProfile): boolean {
+  return !!profile.sustainSeconds || (!!profile.sustainCount && !!profile.sustainWindow);
+}
+
+export function hasRateCondition(profile: ThresholdProfile): boolean {
+  return !!profile.rateWindowSeconds && (!!profile.rateWarning || !!profile.rateCritical);
+}
+
+/**
+ * History a profile needs before the current sample: a time span and/or a
+ * number of samples. Zero for both means no history is needed.
+ */
+export function conditionHorizon(profile: ThresholdProfile): { seconds: number; samples: number } {
+  const seconds = Math.max(
+    profile.sustainSeconds ?? 0,
+    hasRateCondition(profile) ? profile.rateWindowSeconds ?? 0 : 0
+  );
+  const samples = profile.sustainCount && profile.sustainWindow ? profile.sustainWindow - 1 : 0;
+  return { seconds, samples };
+}
+
+/**
+ * Level of the current sample after the sustain conditions.
+ * `history` holds earlier samples, newest first.
+ */
+export function sustainedLevel(
+  profile: ThresholdProfile,
+  current: ParameterSample,
+  history: ParameterSample[]
+): StatusLevel {
+  const level = classifyValue(current.value, profile);
+  if (level === 'normal' || !hasSustainCondition(profile)) return level;
+
+  const samples = [current, ...history].map((s) => ({
+    time: s.timestamp.getTime(),
+    rank: RANK[classifyValue(s.value, profile)],
+  }));
+
+  const holds = (rank: number) => {
+    if (profile.sustainSeconds) {
+      // Start of the unbroken run of samples at or above this level
+      let start = samples[0].time;
+      for (const s of samples) {
+        if (s.rank < rank) break;
+        start = s.time;
+      }
+      if (samples[0].time - start >= profile.sustainSeconds * 1000) return true;
+    }
+    if (profile.sustainCount && profile.sustainWindow) {
+      const hits = samples.slice(0, profile.sustainWindow).filter((s) => s.rank >= rank).length;
+      if (hits >= profile.sustainCount) return true;
+    }
+    return false;
+  };
+
+  if (level === 'critical' && holds(RANK.critical)) return 'critical';
+  return holds(RANK.warning) ? 'warning' : 'normal';
+}
+
+/**
+ * Least-squares slope (units per minute) of the samples within
+ * `windowSeconds` of the current one. Null when fewer than
+ * MIN_RATE_SAMPLES are available or they span less than half the window.
+ */
+export function rateOfChange(
+  current: ParameterSample,
+  history: ParameterSample[],
+  windowSeconds: number
+): number | null {
+  const now = current.timestamp.getTime();
+  const points = [current, ...history]
+    .filter((s) => now - s.timestamp.getTime() <= windowSeconds * 1000)
+    .map((s) => ({ x: (s.timestamp.getTime() - now) / 60000, y: s.value }));
+
+  if (points.length < MIN_RATE_SAMPLES) return null;
+  const span = -Math.min(...points.map((p) => p.x));
+  if (span * 60 < windowSeconds / 2) return null;
+
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  let covariance = 0;
+  let variance = 0;
+  for (const p of points) {
+    covariance += (p.x - meanX) * (p.y - meanY);
+    variance += (p.x - meanX) ** 2;
+  }
+  return variance > 0 ? covariance / variance : null;
+}
+
+/**
+ * Level of a rate: rising counts for 'high', falling for 'low', either for 'band'
+ */
+export function classifyRate(rate: number, profile: ThresholdProfile): StatusLevel {
+  const adverse = profile.direction === 'high' ? rate : profile.direction === 'low' ? -rate : Math.abs(rate);
+  if (profile.rateCritical && adverse >= profile.rateCritical) return 'critical';
+  if (profile.rateWarning && adverse >= profile.rateWarning) return 'warning';
+  return 'normal';
+}
+
+/**
+ * Severity of the current sample under all conditions of its profile
+ */
+export function evaluateConditions(
+  profile: ThresholdProfile,
+  current: ParameterSample,
+  history: ParameterSample[] = []
+): ConditionResult {
+  const level = sustainedLevel(profile, current, history);
+  const rate = hasRateCondition(profile) ? rateOfChange(current, history, profile.rateWindowSeconds!) : null;
+  const rateLevel = rate === null ? 'normal' : classifyRate(rate, profile);
+
+  const worst = LEVELS[Math.max(RANK[level], RANK[rateLevel])];
+  const trigger = worst === 'normal' ? null : RANK[rateLevel] > RANK[level] ? 'rate' : 'level';
+
+  return {
+    severity: SEVERITY[worst],
+    level: classifyValue(current.value, profile),
+    rate,
+    trigger,
+  };
+}
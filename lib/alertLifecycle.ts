@@ -0,0 +1,450 @@
+/**
+ * Mechasense - Alert Lifecycle
+ *
+ * Keeps at most one open alert per (motor, parameter):
+ * - first breach opens an alert (a breach is the severity after the
+ *   profile's sustain and rate conditions, see lib/alertConditions.ts)
+ * - repeat breaches update lastSeenAt, peakValue and occurrences, and
+ *   escalate WARNING → CRITICAL (never downgrade while open)
+ * - once the value has cleared its threshold by the profile's deadband for
+ *   the clear delay, the alert is closed automatically
+ * - backlog readings older than the alert's last breach or clear start
+ *   neither start, reset nor lengthen the clear delay
+ *
+ * Compound rule alerts (lib/alertRules.ts) follow the same lifecycle,
+ * keyed by `rule:<ruleId>`: open while the rule matches, closed once it
+ * has not matched for the clear delay. Baseline alerts (lib/baseline.ts),
+ * keyed by `baseline:<parameter>`, open while a reading is abnormal for the
+ * motor and close once it has been back within the baseline for the delay.
+ *
+ * Escalations and auto-closes are recorded as AlertEvents by SYSTEM_ACTOR.
+ * Writers of a motor's open alerts take lockMotorAlerts first, so
+ * concurrent ingests cannot both open an alert for the same parameter.
+ */
+
+import { Prisma, type Alert } from '@prisma/client';
+import { getStatusColor, getThreshold, PARAMETER_CONFIG, type ParameterType, type ThresholdProfiles } from './thresholds';
+import { ruleAlertParameter } from './alertRules';
+import {
+  BASELINE_PARAMETER_PREFIX,
+  baselineAlertParameter,
+  buildBaselineAlertMessage,
+  type BaselineDeviation,
+} from './baseline';
+
+export type AlertSeverity = 'WARNING' | 'CRITICAL';
+
+/** Actor recorded on AlertEvents written by the lifecycle */
+export const SYSTEM_ACTOR = 'system';
+
+/** A parameter value evaluated for one reading */
+export interface AlertObservation {
+  parameter: ParameterType;
+  value: number;
+  severity: AlertSeverity | null;
+  /** Rate of change (units per minute) when it raised the severity */
+  rate?: number | null;
+}
+
+/** A compound rule evaluated for one reading */
+export interface RuleObservation {
+  ruleId: string;
+  /** null when the rule depends on an unmeasured parameter */
+  matched: boolean | null;
+  severity: AlertSeverity;
+  message: string;
+}
+
+/**
+ * A condition evaluated for one reading that either holds, does not, or is
+ * unknown (compound rules, baseline deviations)
+ */
+interface MatchObservation {
+  parameter: string;
+  matched: boolean | null;
+  severity: AlertSeverity;
+  message: string;
+  value: number;
+  /** Values further from it are worse; without it the peak is not tracked */
+  reference?: number;
+}
+
+export interface LifecycleResult {
+  opened: Alert[];
+  updated: number;
+  closed: number;
+}
+
+/**
+ * How long a value must stay clear before the alert closes.
+ * Configurable with ALERT_CLEAR_DELAY_SECONDS (default 5 minutes).
+ */
+export const ALERT_CLEAR_DELAY_SECONDS = Number(process.env.ALERT_CLEAR_DELAY_SECONDS ?? 300);
+
+/**
+ * Serialize the writers of a motor's open alerts until the end of the
+ * transaction (PostgreSQL transaction-level advisory lock)
+ */
+export async function lockMotorAlerts(tx: Prisma.TransactionClient, motorId: string): Promise<void> {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`alerts:${motorId}`}))`;
+}
+
+/**
+ * Start of the clear delay for a reading: a backlog reading older than the
+ * last breach cannot have been clear since before it
+ */
+function clearStart(alert: Alert, timestamp: Date): Date {
+  return alert.lastSeenAt && alert.lastSeenAt > timestamp ? alert.lastSeenAt : timestamp;
+}
+
+/**
+ * clearingSince after a reading that is not clear: a backlog reading from
+ * before the clear delay started does not reset it
+ */
+function clearingAfterBreach(alert: Alert, timestamp: Date): Date | null {
+  return alert.clearingSince && timestamp < alert.clearingSince ? alert.clearingSince : null;
+}
+
+/**
+ * How long the value has been clear at a reading, never negative
+ */
+function clearDurationMs(clearingSince: Date, timestamp: Date): number {
+  return Math.max(0, timestamp.getTime() - clearingSince.getTime());
+}
+
+/**
+ * A value is clear when it stays normal even if nudged by the profile's
+ * deadband in either direction, so this works for high, low and band limits.
+ */
+export function isClearOfThreshold(value: number, parameter: ParameterType, thresholds?: ThresholdProfiles): boolean {
+  const deadband = getThreshold(parameter, thresholds).deadband ?? 0;
+  return (
+    getStatusColor(value + deadband, parameter, thresholds).level === 'normal' &&
+    getStatusColor(value - deadband, parameter, thresholds).level === 'normal'
+  );
+}
+
+/**
+ * The worse of two values, used to track the peak: higher for 'high',
+ * lower for 'low', further from the middle of the normal band for 'band'
+ */
+function worseValue(a: number, b: number, parameter: ParameterType, thresholds?: ThresholdProfiles): number {
+  const profile = getThreshold(parameter, thresholds);
+  if (profile.direction === 'high') return Math.max(a, b);
+  if (profile.direction === 'low') return Math.min(a, b);
+  const low = profile.warningLow ?? profile.warningHigh ?? 0;
+  const high = profile.warningHigh ?? low;
+  const nominal = (low + high) / 2;
+  return Math.abs(b - nominal) > Math.abs(a - nominal) ? b : a;
+}
+
+export function buildAlertMessage(
+  parameter: ParameterType,
+  severity: AlertSeverity,
+  value: number,
+  thresholds?: ThresholdProfiles,
+  rate?: number | null
+): string {
+  const config = PARAMETER_CONFIG[parameter];
+  if (rate !== null && rate !== undefined) {
+    const perMinute = Number(Math.abs(rate).toFixed(2));
+    return `${config.label} ${rate > 0 ? 'naik' : 'turun'} terlalu cepat: ${perMinute} ${config.unit}/menit (saat ini ${value} ${config.unit})`;
+  }
+  const message = `${config.label} ${severity === 'CRITICAL' ? 'melampaui' : 'mendekati'} batas aman: ${value} ${config.unit}`;
+  // Profiles with named levels (e.g. ISO 10816 zones) cite the level reached
+  const labels = getThreshold(parameter, thresholds).labels;
+  const label = severity === 'CRITICAL' ? labels?.critical : labels?.warning;
+  return label ? `${message} (${label})` : message;
+}
+
+/**
+ * Apply the observations of one reading to the motor's alerts.
+ * Runs inside the caller's transaction; `thresholds` are the motor's
+ * resolved profiles (see loadMotorThresholds).
+ */
+export async function applyAlertLifecycle(
+  tx: Prisma.TransactionClient,
+  motorId: string,
+  timestamp: Date,
+  observations: AlertObservation[],
+  thresholds?: ThresholdProfiles
+): Promise<LifecycleResult> {
+  const result: LifecycleResult = { opened: [], updated: 0, closed: 0 };
+  if (observations.length === 0) return result;
+
+  await lockMotorAlerts(tx, motorId);
+  const openAlerts = await tx.alert.findMany({
+    where: {
+      motorId,
+      parameter: { in: observations.map((o) => o.parameter) },
+      status: { not: 'CLOSED' },
+    },
+    orderBy: { timestamp: 'desc' },
+  });
+
+  for (const { parameter, value, severity, rate } of observations) {
+    const open = openAlerts.find((a) => a.parameter === parameter);
+
+    if (severity) {
+      if (!open) {
+        result.opened.push(
+          await tx.alert.create({
+            data: {
+              motorId,
+              timestamp,
+              severity,
+              parameter,
+              value,
+              message: buildAlertMessage(parameter, severity, value, thresholds, rate),
+              status: 'OPEN',
+              lastSeenAt: timestamp,
+              peakValue: value,
+            },
+          })
+        );
+        continue;
+      }
+
+      const escalated = open.severity === 'WARNING' && severity === 'CRITICAL';
+      if (escalated) {
+        await tx.alertEvent.create({
+          data: {
+            alertId: open.id,
+            action: 'ESCALATE',
+            actor: SYSTEM_ACTOR,
+            comment: `WARNING → CRITICAL at ${value}`,
+            fromStatus: open.status,
+            toStatus: 'OPEN',
+          },
+        });
+      }
+      await tx.alert.update({
+        where: { id: open.id },
+        data: {
+          lastSeenAt: !open.lastSeenAt || timestamp > open.lastSeenAt ? timestamp : open.lastSeenAt,
+          peakValue: worseValue(open.peakValue ?? open.value, value, parameter, thresholds),
+          occurrences: { increment: 1 },
+          clearingSince: clearingAfterBreach(open, timestamp),
+          // An escalation needs fresh attention, even if it was acknowledged
+          ...(escalated && {
+            severity,
+            value,
+            status: 'OPEN',
+            message: buildAlertMessage(parameter, severity, value, thresholds, rate),
+          }),
+        },
+      });
+      result.updated++;
+      continue;
+    }
+
+    if (!open) continue;
+
+    if (!isClearOfThreshold(value, parameter, thresholds)) {
+      // Back below the threshold but still inside the deadband
+      if (open.clearingSince && !clearingAfterBreach(open, timestamp)) {
+        await tx.alert.update({ where: { id: open.id }, data: { clearingSince: null } });
+      }
+      continue;
+    }
+
+    if (!open.clearingSince) {
+      await tx.alert.update({ where: { id: open.id }, data: { clearingSince: clearStart(open, timestamp) } });
+      continue;
+    }
+
+    const clearForMs = clearDurationMs(open.clearingSince, timestamp);
+    if (clearForMs >= ALERT_CLEAR_DELAY_SECONDS * 1000) {
+      await closeAlert(tx, open, timestamp, `Clear for ${Math.round(clearForMs / 1000)} s`);
+      result.closed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Apply the compound rules evaluated for one reading to the motor's rule
+ * alerts. Unknown results (null) neither raise nor clear an alert.
+ */
+export async function applyRuleLifecycle(
+  tx: Prisma.TransactionClient,
+  motorId: string,
+  timestamp: Date,
+  observations: RuleObservation[]
+): Promise<LifecycleResult> {
+  return applyMatchLifecycle(
+    tx,
+    motorId,
+    timestamp,
+    // Rule alerts have no single value: 1 = rule matched
+    observations.map(({ ruleId, matched, severity, message }) => ({
+      parameter: ruleAlertParameter(ruleId),
+      matched,
+      severity,
+      message,
+      value: 1,
+    })),
+    'Rule not matched'
+  );
+}
+
+/**
+ * Apply the baseline deviations of one reading to the motor's baseline
+ * alerts. Deviations inside the clear margin neither raise nor clear.
+ */
+export async function applyBaselineLifecycle(
+  tx: Prisma.TransactionClient,
+  motorId: string,
+  timestamp: Date,
+  deviations: BaselineDeviation[]
+): Promise<LifecycleResult> {
+  return applyMatchLifecycle(
+    tx,
+    motorId,
+    timestamp,
+    deviations.map((deviation) => ({
+      parameter: baselineAlertParameter(deviation.parameter),
+      matched: deviation.matched,
+      // Only read while matched, when the severity is set
+      severity: deviation.severity ?? 'WARNING',
+      message: buildBaselineAlertMessage(deviation),
+      value: deviation.value,
+      reference: deviation.median,
+    })),
+    'Back within baseline'
+  );
+}
+
+async function applyMatchLifecycle(
+  tx: Prisma.TransactionClient,
+  motorId: string,
+  timestamp: Date,
+  observations: MatchObservation[],
+  clearedComment: string
+): Promise<LifecycleResult> {
+  const result: LifecycleResult = { opened: [], updated: 0, closed: 0 };
+  if (observations.length === 0) return result;
+
+  await lockMotorAlerts(tx, motorId);
+  const openAlerts = await tx.alert.findMany({
+    where: {
+      motorId,
+      parameter: { in: observations.map((o) => o.parameter) },
+      status: { not: 'CLOSED' },
+    },
+    orderBy: { timestamp: 'desc' },
+  });
+
+  for (const { parameter, matched, severity, message, value, reference } of observations) {
+    const open = openAlerts.find((a) => a.parameter === parameter);
+
+    if (matched) {
+      if (!open) {
+        result.opened.push(
+          await tx.alert.create({
+            data: {
+              motorId,
+              timestamp,
+              severity,
+              parameter,
+              value,
+              message,
+              status: 'OPEN',
+              lastSeenAt: timestamp,
+              peakValue: value,
+            },
+          })
+        );
+        continue;
+      }
+
+      // A rule's severity may also have been raised since the alert opened
+      const escalated = open.severity === 'WARNING' && severity === 'CRITICAL';
+      if (escalated) {
+        await tx.alertEvent.create({
+          data: {
+            alertId: open.id,
+            action: 'ESCALATE',
+            actor: SYSTEM_ACTOR,
+            comment: reference === undefined ? 'WARNING → CRITICAL (rule severity)' : `WARNING → CRITICAL at ${value}`,
+            fromStatus: open.status,
+            toStatus: 'OPEN',
+          },
+        });
+      }
+      const peak = open.peakValue ?? open.value;
+      await tx.alert.update({
+        where: { id: open.id },
+        data: {
+          lastSeenAt: !open.lastSeenAt || timestamp > open.lastSeenAt ? timestamp : open.lastSeenAt,
+          ...(reference !== undefined && {
+            peakValue: Math.abs(value - reference) > Math.abs(peak - reference) ? value : peak,
+          }),
+          occurrences: { increment: 1 },
+          clearingSince: clearingAfterBreach(open, timestamp),
+          ...(escalated && { severity, value, status: 'OPEN', message }),
+        },
+      });
+      result.updated++;
+      continue;
+    }
+
+    if (!open || matched === null) continue;
+
+    if (!open.clearingSince) {
+      await tx.alert.update({ where: { id: open.id }, data: { clearingSince: clearStart(open, timestamp) } });
+      continue;
+    }
+
+    const clearForMs = clearDurationMs(open.clearingSince, timestamp);
+    if (clearForMs >= ALERT_CLEAR_DELAY_SECONDS * 1000) {
+      await closeAlert(tx, open, timestamp, `${clearedComment} for ${Math.round(clearForMs / 1000)} s`);
+      result.closed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Close the open alerts of a rule that was deleted or disabled
+ */
+export async function closeRuleAlerts(tx: Prisma.TransactionClient, ruleId: string, comment: string): Promise<number> {
+  const openAlerts = await tx.alert.findMany({
+    where: { parameter: ruleAlertParameter(ruleId), status: { not: 'CLOSED' } },
+  });
+  const now = new Date();
+  for (const alert of openAlerts) await closeAlert(tx, alert, now, comment);
+  return openAlerts.length;
+}
+
+/**
+ * Close the open baseline alerts of a motor whose baseline was replaced
+ */
+export async function closeBaselineAlerts(tx: Prisma.TransactionClient, motorId: string, comment: string): Promise<number> {
+  const openAlerts = await tx.alert.findMany({
+    where: { motorId, parameter: { startsWith: BASELINE_PARAMETER_PREFIX }, status: { not: 'CLOSED' } },
+  });
+  const now = new Date();
+  for (const alert of openAlerts) await closeAlert(tx, alert, now, comment);
+  return openAlerts.length;
+}
+
+async function closeAlert(tx: Prisma.TransactionClient, alert: Alert, timestamp: Date, comment: string) {
+  await tx.alert.update({
+    where: { id: alert.id },
+    data: { status: 'CLOSED', closedAt: timestamp, closedBy: SYSTEM_ACTOR },
+  });
+  await tx.alertEvent.create({
+    data: {
+      alertId: alert.id,
+      action: 'AUTO_CLOSE',
+      actor: SYSTEM_ACTOR,
+      comment,
+      fromStatus: alert.status,
+      toStatus: 'CLOSED',
+      createdAt: timestamp,
+    },
+  });
+}
@@ -0,0 +1,345 @@
+/**
+ * Mechasense - Compound Alert Rules
+ *
+ * User-defined alert rules: boolean expressions over the monitored
+ * parameters, stored per motor in the AlertRule table (expression as JSON)
+ * and evaluated on every ingest. An expression is a tree of
+ *
+ * - `{ op: 'compare', parameter, comparator, value }` - e.g. vibrationRms > 4.5
+ * - `{ op: 'level', parameter, level }` - threshold level of the motor's
+ *   profile, e.g. motorCurrent is normal
+ * - `{ op: 'and' | 'or', args: [...] }` and `{ op: 'not', arg }`
+ *
+ * Evaluation is three-valued: a parameter without a value is unknown, and a
+ * rule only fires when its expression is definitely true.
+ *
+ * Client-safe: the Settings rule builder validates and previews with it.
+ */
+
+import {
+  DEFAULT_THRESHOLDS,
+  PARAMETER_CONFIG,
+  classifyValue,
+  getThreshold,
+  type ParameterType,
+  type StatusLevel,
+  type ThresholdProfiles,
+} from './thresholds';
+import type { AlertSeverity } from './alertLifecycle';
+
+export const RULE_COMPARATORS = ['>', '>=', '<', '<=', '==', '!='] as const;
+export type RuleComparator = (typeof RULE_COMPARATORS)[number];
+
+export const RULE_LEVELS: StatusLevel[] = ['normal', 'warning', 'critical'];
+export const RULE_SEVERITIES: AlertSeverity[] = ['WARNING', 'CRITICAL'];
+
+export type RuleExpression =
+  | { op: 'and' | 'or'; args: RuleExpression[] }
+  | { op: 'not'; arg: RuleExpression }
+  | { op: 'compare'; parameter: ParameterType; comparator: RuleComparator; value: number }
+  | { op: 'level'; parameter: ParameterType; level: StatusLevel };
+
+export interface AlertRuleInput {
+  name: string;
+  expression: RuleExpression;
+  severity: AlertSeverity;
+  /** Alert message; defaults to the rule name */
+  message: string | null;
+  enabled: boolean;
+}
+
+export interface AlertRule extends AlertRuleInput {
+  id: string;
+  motorId: string;
+}
+
+/** Values of one reading, null when not measured */
+export type RuleValues = Partial<Record<ParameterType, number | null>>;
+
+/** Deepest nesting and largest expression accepted */
+export const MAX_RULE_DEPTH = 6;
+export const MAX_RULE_NODES = 40;
+
+/** Rule alerts are stored with parameter `rule:<ruleId>` */
+export const RULE_PARAMETER_PREFIX = 'rule:';
+
+export function ruleAlertParameter(ruleId: string): string {
+  return `${RULE_PARAMETER_PREFIX}${ruleId}`;
+}
+
+export function isRuleAlertParameter(parameter: string | null | undefined): boolean {
+  return !!parameter && parameter.startsWith(RULE_PARAMETER_PREFIX);
+}
+
+const RULE_PARAMETERS = Object.keys(DEFAULT_THRESHOLDS) as ParameterType[];
+
+/**
+ * Parameters stored with every SensorReading. Rules on the others
+ * (Firebase-only values such as crestFactor) are unknown on ingest.
+ */
+export const READING_PARAMETERS: ParameterType[] = [
+  'gridVoltage',
+  'motorCurrent',
+  'powerFactor',
+  'gridFrequency',
+  'motorSurfaceTemp',
+  'bearingTemp',
+  'dustDensity',
+  'soilingLossPercent',
+  'vibrationRms',
+  'tempGradient',
+  'power',
+  'apparentPower',
+];
+
+/**
+ * Rule values of a SensorReading (stored row or ingest create input)
+ */
+export function readingValues(reading: Record<string, unknown>): RuleValues {
+  const number = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : null);
+  const values: RuleValues = {};
+  for (const parameter of READING_PARAMETERS) values[parameter] = number(reading[parameter]);
+
+  values.power = number(reading.powerConsumption);
+  // Not measured separately: V × I
+  const { gridVoltage, motorCurrent } = values;
+  values.apparentPower = gridVoltage != null && motorCurrent != null ? gridVoltage * motorCurrent : null;
+  return values;
+}
+
+/**
+ * Validate an expression from the rule builder or API
+ */
+export function validateRuleExpression(
+  input: unknown
+): { ok: true; expression: RuleExpression } | { ok: false; error: string } {
+  let nodes = 0;
+
+  const check = (node: unknown, path: string, depth: number): RuleExpression | string => {
+    if (++nodes > MAX_RULE_NODES) return `expression must have at most ${MAX_RULE_NODES} conditions and groups`;
+    if (depth > MAX_RULE_DEPTH) return `expression must be nested at most ${MAX_RULE_DEPTH} levels`;
+    if (typeof node !== 'object' || node === null) return `${path} must be an object`;
+    const n = node as Record<string, unknown>;
+
+    switch (n.op) {
+      case 'and':
+      case 'or': {
+        if (!Array.isArray(n.args) || n.args.length === 0) return `${path}.args must be a non-empty array`;
+        const args: RuleExpression[] = [];
+        for (let i = 0; i < n.args.length; i++) {
+          const arg = check(n.args[i], `${path}.args[${i}]`, depth + 1);
+          if (typeof arg === 'string') return arg;
+          args.push(arg);
+        }
+        return { op: n.op, args };
+      }
+      case 'not': {
+        const arg = check(n.arg, `${path}.arg`, depth + 1);
+        return typeof arg === 'string' ? arg : { op: 'not', arg };
+      }
+      case 'compare':
+      case 'level': {
+        const parameter = n.parameter as ParameterType;
+        if (!RULE_PARAMETERS.includes(parameter)) {
+          return `${path}.parameter must be one of ${RULE_PARAMETERS.join(', ')}`;
+        }
+        if (n.op === 'level') {
+          const level = n.level as StatusLevel;
+          if (!RULE_LEVELS.includes(level)) return `${path}.level must be one of ${RULE_LEVELS.join(', ')}`;
+          return { op: 'level', parameter, level };
+        }
+        const comparator = n.comparator as RuleComparator;
+        if (!RULE_COMPARATORS.includes(comparator)) {
+          return `${path}.comparator must be one of ${RULE_COMPARATORS.join(' ')}`;
+        }
+        const value = typeof n.value === 'number' ? n.value : typeof n.value === 'string' && n.value.trim() !== '' ? Number(n.value) : NaN;
+        if (!Number.isFinite(value)) return `${path}.value must be a number`;
+        return { op: 'compare', parameter, comparator, value };
+      }
+      default:
+        return `${path}.op must be one of and, or, not, compare, level`;
+    }
+  };
+
+  const result = check(input, 'expression', 1);
+  return typeof result === 'string' ? { ok: false, error: result } : { ok: true, expression: result };
+}
+
+/**
+ * Validate a create (name and expression required) or update (`partial`)
+ * payload. The expression may be sent as an object or a JSON string.
+ */
+export function validateAlertRule(
+  body: unknown,
+  partial = false
+): { ok: true; data: Partial<AlertRuleInput> } | { ok: false; error: string } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, error: 'Body must be a JSON object' };
+  }
+  const input = body as Record<string, unknown>;
+  const data: Partial<AlertRuleInput> = {};
+
+  if (input.name !== undefined || !partial) {
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (name.length === 0 || name.length > 100) return { ok: false, error: 'name must be 1-100 characters' };
+    data.name = name;
+  }
+
+  if (input.expression !== undefined || !partial) {
+    let raw = input.expression;
+    if (typeof raw === 'string') {
+      try {
+        raw = JSON.parse(raw);
+      } catch {
+        return { ok: false, error: 'expression is not valid JSON' };
+      }
+    }
+    const result = validateRuleExpression(raw);
+    if (!result.ok) return result;
+    data.expression = result.expression;
+  }
+
+  if (input.severity !== undefined || !partial) {
+    // Rules without a severity raise warnings
+    const severity = (input.severity ?? 'WARNING') as AlertSeverity;
+    if (!RULE_SEVERITIES.includes(severity)) {
+      return { ok: false, error: `severity must be one of ${RULE_SEVERITIES.join(', ')}` };
+    }
+    data.severity = severity;
+  }
+
+  if (input.message !== undefined) {
+    const message = typeof input.message === 'string' ? input.message.trim() : input.message;
+    if (message !== null && typeof message !== 'string') return { ok: false, error: 'message must be a string' };
+    if (typeof message === 'string' && message.length > 500) return { ok: false, error: 'message must be at most 500 characters' };
+    data.message = message || null;
+  }
+
+  if (input.enabled !== undefined) {
+    if (typeof input.enabled !== 'boolean') return { ok: false, error: 'enabled must be true or false' };
+    data.enabled = input.enabled;
+  }
+
+  return { ok: true, data };
+}
+
+function compare(value: number, comparator: RuleComparator, bound: number): boolean {
+  switch (comparator) {
+    case '>': return value > bound;
+    case '>=': return value >= bound;
+    case '<': return value < bound;
+    case '<=': return value <= bound;
+    case '==': return value === bound;
+    case '!=': return value !== bound;
+  }
+}
+
+/**
+ * Evaluate an expression: true, false, or null when it depends on a
+ * parameter without a value. `thresholds` are used by level conditions.
+ */
+export function evaluateRule(
+  expression: RuleExpression,
+  values: RuleValues,
+  thresholds?: ThresholdProfiles | null
+): boolean | null {
+  switch (expression.op) {
+    case 'and': {
+      const results = expression.args.map((arg) => evaluateRule(arg, values, thresholds));
+      if (results.includes(false)) return false;
+      return results.includes(null) ? null : true;
+    }
+    case 'or': {
+      const results = expression.args.map((arg) => evaluateRule(arg, values, thresholds));
+      if (results.includes(true)) return true;
+      return results.includes(null) ? null : false;
+    }
+    case 'not': {
+      const result = evaluateRule(expression.arg, values, thresholds);
+      return result === null ? null : !result;
+    }
+    case 'compare': {
+      const value = values[expression.parameter];
+      return value === null || value === undefined ? null : compare(value, expression.comparator, expression.value);
+    }
+    case 'level': {
+      const value = values[expression.parameter];
+      if (value === null || value === undefined) return null;
+      return classifyValue(value, getThreshold(expression.parameter, thresholds)) === expression.level;
+    }
+  }
+}
+
+/**
+ * Parameters an expression refers to, in order of appearance
+ */
+export function ruleParameters(expression: RuleExpression): ParameterType[] {
+  switch (expression.op) {
+    case 'and':
+    case 'or':
+      return Array.from(new Set(expression.args.flatMap(ruleParameters)));
+    case 'not':
+      return ruleParameters(expression.arg);
+    default:
+      return [expression.parameter];
+  }
+}
+
+/**
+ * Readable form, e.g. "Vibration RMS > 4.5 mm/s AND Bearing Temp > 85 °C"
+ */
+export function formatRuleExpression(expression: RuleExpression): string {
+  const group = (node: RuleExpression) =>
+    node.op === 'and' || node.op === 'or' ? `(${formatRuleExpression(node)})` : formatRuleExpression(node);
+
+  switch (expression.op) {
+    case 'and':
+    case 'or':
+      return expression.args.map(group).join(expression.op === 'and' ? ' AND ' : ' OR ');
+    case 'not':
+      return `NOT ${group(expression.arg)}`;
+    case 'compare': {
+      const { label, unit } = PARAMETER_CONFIG[expression.parameter];
+      return `${label} ${expression.comparator} ${expression.value} ${unit}`.trim();
+    }
+    case 'level':
+      return `${PARAMETER_CONFIG[expression.parameter].label} is ${expression.level}`;
+  }
+}
+
+/**
+ * Alert message of a fired rule, citing the values it was evaluated on
+ */
+export function buildRuleAlertMessage(rule: AlertRuleInput, values: RuleValues): string {
+  const cited = ruleParameters(rule.expression)
+    .filter((parameter) => values[parameter] !== null && values[parameter] !== undefined)
+    .map((parameter) => {
+      const { label, unit } = PARAMETER_CONFIG[parameter];
+      return `${label} ${Number(values[parameter]!.toFixed(2))} ${unit}`.trim();
+    });
+  const text = rule.message ?? rule.name;
+  return cited.length > 0 ? `${text}: ${cited.join(', ')}` : text;
+}
+
+/**
+ * A stored AlertRule row, with its expression parsed
+ */
+export function toAlertRule(row: {
+  id: string;
+  motorId: string;
+  name: string;
+  expression: string;
+  severity: string;
+  message: string | null;
+  enabled: boolean;
+}): AlertRule {
+  return {
+    id: row.id,
+    motorId: row.motorId,
+    name: row.name,
+    expression: JSON.parse(row.expression) as RuleExpression,
+    severity: row.severity as AlertSeverity,
+    message: row.message,
+    enabled: row.enabled,
+  };
+}
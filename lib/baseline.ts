@@ -0,0 +1,410 @@
+/**
+ * Mechasense - Adaptive Baselines
+ *
+ * Learns what is normal for one motor from its own readings over a
+ * "known-good" training window: robust statistics (median, MAD and the
+ * 5th / 95th percentiles) per parameter, optionally per load band (share of
+ * rated current). Readings that deviate from the baseline by more than the
+ * baseline's robust z-score limits raise "abnormal for this motor" alerts,
+ * keyed `baseline:<parameter>` and separate from the absolute safety limits
+ * in lib/thresholds.ts.
+ *
+ * Baselines are stored per motor in the MotorBaseline table and versioned:
+ * training a new one (e.g. after maintenance) supersedes the active one.
+ *
+ * Client-safe: the Settings baseline panel formats with it.
+ */
+
+import { PARAMETER_CONFIG, type ParameterType } from './thresholds';
+import type { AlertSeverity } from './alertLifecycle';
+
+/** Parameters a baseline is learned for; each is also a SensorReading column */
+export const BASELINE_PARAMETERS: ParameterType[] = [
+  'gridVoltage',
+  'motorCurrent',
+  'powerFactor',
+  'gridFrequency',
+  'motorSurfaceTemp',
+  'bearingTemp',
+  'dustDensity',
+  'vibrationRms',
+  'tempGradient',
+];
+
+export type BaselineStatus = 'ACTIVE' | 'SUPERSEDED';
+
+/** Fewest readings a parameter (or a parameter within a load band) is learned from */
+export const MIN_BASELINE_SAMPLES = 30;
+
+/** Most readings of the training window used */
+export const MAX_TRAINING_SAMPLES = 20000;
+
+export const DEFAULT_TRAINING_DAYS = 7;
+
+/** Default load band edges, % of rated current */
+export const DEFAULT_LOAD_BAND_EDGES = [40, 75];
+
+/** Default robust z-score limits */
+export const DEFAULT_WARNING_Z = 4;
+export const DEFAULT_CRITICAL_Z = 6;
+
+/** An abnormal alert clears once |z| is this far below the warning limit */
+export const BASELINE_CLEAR_MARGIN = 1;
+
+/**
+ * Smallest spread, as a share of the median. Parameters that barely move
+ * during training (e.g. grid frequency) would otherwise flag any change.
+ */
+const MIN_RELATIVE_SPREAD = 0.01;
+
+/** MAD × 1.4826 estimates the standard deviation of normal data */
+const MAD_SCALE = 1.4826;
+
+/** Robust statistics of one parameter */
+export interface BaselineStats {
+  median: number;
+  /** Median absolute deviation (unscaled) */
+  mad: number;
+  p05: number;
+  p95: number;
+  count: number;
+}
+
+export type ParameterBaselines = Partial<Record<ParameterType, BaselineStats>>;
+
+export interface LoadBand {
+  label: string;
+  /** % of rated current, null = open-ended */
+  minPercent: number | null;
+  maxPercent: number | null;
+  parameters: ParameterBaselines;
+}
+
+export interface BaselineStatistics {
+  /** Rated current the load bands were computed against */
+  ratedCurrent: number | null;
+  overall: ParameterBaselines;
+  bands: LoadBand[];
+}
+
+export interface BaselineOptions {
+  trainingStart: Date;
+  trainingEnd: Date;
+  /** Band edges in % of rated current, null = one band */
+  loadBands: number[] | null;
+  warningZ: number;
+  criticalZ: number;
+  /** e.g. "After bearing replacement" */
+  note: string | null;
+  createdBy: string | null;
+}
+
+export interface MotorBaseline {
+  id: string;
+  motorId: string;
+  version: number;
+  status: BaselineStatus;
+  trainingStart: string;
+  trainingEnd: string;
+  sampleCount: number;
+  loadBands: number[] | null;
+  warningZ: number;
+  criticalZ: number;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  supersededAt: string | null;
+  statistics: BaselineStatistics;
+}
+
+/** Deviation of one reading value from the baseline */
+export interface BaselineDeviation {
+  parameter: ParameterType;
+  value: number;
+  median: number;
+  /** Robust z-score, signed */
+  deviation: number;
+  /** Load band the statistics came from, null = overall */
+  band: string | null;
+  severity: AlertSeverity | null;
+  /** true = abnormal, false = back within the baseline, null = in the hysteresis margin */
+  matched: boolean | null;
+}
+
+/** Baseline alerts are stored with parameter `baseline:<parameter>` */
+export const BASELINE_PARAMETER_PREFIX = 'baseline:';
+
+export function baselineAlertParameter(parameter: ParameterType): string {
+  return `${BASELINE_PARAMETER_PREFIX}${parameter}`;
+}
+
+export function isBaselineAlertParameter(parameter: string | null | undefined): boolean {
+  return !!parameter && parameter.startsWith(BASELINE_PARAMETER_PREFIX);
+}
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function parseZ(value: unknown, fallback: number): number {
+  if (value === undefined || value === null || value === '') return fallback;
+  const z = Number(value);
+  return Number.isFinite(z) ? z : NaN;
+}
+
+/**
+ * Validate a training request. The window defaults to the last
+ * DEFAULT_TRAINING_DAYS; `loadBands` is true (default edges), false or a
+ * list of edges in % of rated current.
+ */
+export function validateBaselineRequest(
+  body: unknown,
+  now: Date = new Date()
+): { ok: true; data: BaselineOptions } | { ok: false; error: string } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, error: 'Body must be a JSON object' };
+  }
+  const input = body as Record<string, unknown>;
+
+  const trainingEnd = input.trainingEnd === undefined ? now : parseDate(input.trainingEnd);
+  if (!trainingEnd) return { ok: false, error: 'trainingEnd is not a valid date' };
+  const trainingStart = input.trainingStart === undefined
+    ? new Date(trainingEnd.getTime() - DEFAULT_TRAINING_DAYS * 24 * 60 * 60 * 1000)
+    : parseDate(input.trainingStart);
+  if (!trainingStart) return { ok: false, error: 'trainingStart is not a valid date' };
+  if (trainingStart >= trainingEnd) return { ok: false, error: 'trainingStart must be before trainingEnd' };
+  if (trainingEnd > now) return { ok: false, error: 'trainingEnd must not be in the future' };
+
+  let loadBands: number[] | null = null;
+  if (input.loadBands === true) {
+    loadBands = DEFAULT_LOAD_BAND_EDGES;
+  } else if (Array.isArray(input.loadBands)) {
+    const edges = input.loadBands.map(Number);
+    const ascending = edges.every((edge, i) => i === 0 || edge > edges[i - 1]);
+    if (edges.length === 0 || edges.length > 5 || !ascending || edges.some((e) => !(e > 0 && e < 200))) {
+      return { ok: false, error: 'loadBands must be 1-5 ascending edges between 0 and 200 (% of rated current)' };
+    }
+    loadBands = edges;
+  } else if (input.loadBands !== undefined && input.loadBands !== false && input.loadBands !== null) {
+    return { ok: false, error: 'loadBands must be true, false or a list of edges' };
+  }
+
+  const warningZ = parseZ(input.warningZ, DEFAULT_WARNING_Z);
+  const criticalZ = parseZ(input.criticalZ, DEFAULT_CRITICAL_Z);
+  if (!(warningZ >= 2 && warningZ <= 20)) return { ok: false, error: 'warningZ must be between 2 and 20' };
+  if (!(criticalZ > warningZ && criticalZ <= 30)) {
+    return { ok: false, error: 'criticalZ must be above warningZ and at most 30' };
+  }
+
+  for (const [field, max] of [['note', 500], ['createdBy', 100]] as const) {
+    const value = input[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'string') return { ok: false, error: `${field} must be a string` };
+    if (value.trim().length > max) return { ok: false, error: `${field} must be at most ${max} characters` };
+  }
+  const note = typeof input.note === 'string' ? input.note.trim() || null : null;
+  const createdBy = typeof input.createdBy === 'string' ? input.createdBy.trim() || null : null;
+
+  return { ok: true, data: { trainingStart, trainingEnd, loadBands, warningZ, criticalZ, note, createdBy } };
+}
+
+/** Linear-interpolated percentile of sorted values */
+function percentile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Statistics of a set of values, null below MIN_BASELINE_SAMPLES
+ */
+export function robustStats(values: number[]): BaselineStats | null {
+  if (values.length < MIN_BASELINE_SAMPLES) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const median = percentile(sorted, 0.5);
+  const deviations = sorted.map((v) => Math.abs(v - median)).sort((a, b) => a - b);
+  return {
+    median,
+    mad: percentile(deviations, 0.5),
+    p05: percentile(sorted, 0.05),
+    p95: percentile(sorted, 0.95),
+    count: values.length,
+  };
+}
+
+function bandLabel(minPercent: number | null, maxPercent: number | null): string {
+  if (minPercent === null) return `< ${maxPercent}%`;
+  if (maxPercent === null) return `≥ ${minPercent}%`;
+  return `${minPercent}-${maxPercent}%`;
+}
+
+/**
+ * Index of the load band a motor current falls in, null when unknown
+ */
+function bandIndex(motorCurrent: number | null | undefined, edges: number[], ratedCurrent: number | null): number | null {
+  if (motorCurrent === null || motorCurrent === undefined || !ratedCurrent) return null;
+  const percent = (motorCurrent / ratedCurrent) * 100;
+  const index = edges.findIndex((edge) => percent < edge);
+  return index === -1 ? edges.length : index;
+}
+
+function statsOf(rows: Record<string, unknown>[]): ParameterBaselines {
+  const parameters: ParameterBaselines = {};
+  for (const parameter of BASELINE_PARAMETERS) {
+    const values = rows
+      .map((row) => row[parameter])
+      .filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+    const stats = robustStats(values);
+    if (stats) parameters[parameter] = stats;
+  }
+  return parameters;
+}
+
+/**
+ * Learn a baseline from the readings of the training window.
+ * Fails when no parameter has MIN_BASELINE_SAMPLES readings.
+ */
+export function computeBaseline(
+  rows: Record<string, unknown>[],
+  loadBands: number[] | null,
+  ratedCurrent: number | null
+): { ok: true; statistics: BaselineStatistics } | { ok: false; error: string } {
+  const overall = statsOf(rows);
+  if (Object.keys(overall).length === 0) {
+    return {
+      ok: false,
+      error: `Training window holds ${rows.length} readings; at least ${MIN_BASELINE_SAMPLES} valid values of a parameter are needed`,
+    };
+  }
+
+  const bands: LoadBand[] = [];
+  if (loadBands && ratedCurrent) {
+    const edges: (number | null)[] = [null, ...loadBands, null];
+    for (let i = 0; i <= loadBands.length; i++) {
+      const inBand = rows.filter((row) => bandIndex(row.motorCurrent as number | null, loadBands, ratedCurrent) === i);
+      bands.push({
+        label: bandLabel(edges[i], edges[i + 1]),
+        minPercent: edges[i],
+        maxPercent: edges[i + 1],
+        parameters: statsOf(inBand),
+      });
+    }
+  }
+
+  return { ok: true, statistics: { ratedCurrent: loadBands ? ratedCurrent : null, overall, bands } };
+}
+
+/**
+ * Statistics a reading is compared against: its load band's when learned,
+ * the overall ones otherwise
+ */
+export function baselineStatsFor(
+  baseline: MotorBaseline,
+  parameter: ParameterType,
+  motorCurrent: number | null | undefined
+): { stats: BaselineStats; band: string | null } | null {
+  const { statistics } = baseline;
+  // The current picks the band, so it is only meaningful against all loads
+  const index = baseline.loadBands && parameter !== 'motorCurrent'
+    ? bandIndex(motorCurrent, baseline.loadBands, statistics.ratedCurrent)
+    : null;
+  const band = index !== null ? statistics.bands[index] : undefined;
+  const bandStats = band?.parameters[parameter];
+  if (band && bandStats) return { stats: bandStats, band: band.label };
+  const overall = statistics.overall[parameter];
+  return overall ? { stats: overall, band: null } : null;
+}
+
+/**
+ * Robust z-score of a value: distance from the median in scaled MADs
+ */
+export function robustDeviation(value: number, stats: BaselineStats): number {
+  const spread = Math.max(stats.mad * MAD_SCALE, Math.abs(stats.median) * MIN_RELATIVE_SPREAD, 1e-6);
+  return (value - stats.median) / spread;
+}
+
+/**
+ * Compare the measured parameters of a reading (stored row or ingest
+ * create input) against the baseline
+ */
+export function evaluateBaseline(reading: Record<string, unknown>, baseline: MotorBaseline): BaselineDeviation[] {
+  const deviations: BaselineDeviation[] = [];
+  const motorCurrent = typeof reading.motorCurrent === 'number' ? reading.motorCurrent : null;
+
+  for (const parameter of BASELINE_PARAMETERS) {
+    const value = reading[parameter];
+    // Missing or faulty measurements neither raise nor clear alerts
+    if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+    const learned = baselineStatsFor(baseline, parameter, motorCurrent);
+    if (!learned) continue;
+
+    const deviation = robustDeviation(value, learned.stats);
+    const size = Math.abs(deviation);
+    const severity: AlertSeverity | null =
+      size >= baseline.criticalZ ? 'CRITICAL' : size >= baseline.warningZ ? 'WARNING' : null;
+    deviations.push({
+      parameter,
+      value,
+      median: learned.stats.median,
+      deviation,
+      band: learned.band,
+      severity,
+      matched: severity ? true : size < baseline.warningZ - BASELINE_CLEAR_MARGIN ? false : null,
+    });
+  }
+  return deviations;
+}
+
+/**
+ * Alert message of an abnormal reading, e.g. "Bearing Temp tidak normal
+ * untuk motor ini: 71 °C, baseline 58 °C pada beban 40-75% (+5.2σ)"
+ */
+export function buildBaselineAlertMessage(deviation: BaselineDeviation): string {
+  const { label, unit } = PARAMETER_CONFIG[deviation.parameter];
+  const format = (value: number) => `${Number(value.toFixed(2))} ${unit}`.trim();
+  const band = deviation.band ? ` pada beban ${deviation.band}` : '';
+  const sign = deviation.deviation > 0 ? '+' : '';
+  return `${label} tidak normal untuk motor ini: ${format(deviation.value)}, baseline ${format(deviation.median)}${band} (${sign}${deviation.deviation.toFixed(1)}σ)`;
+}
+
+/**
+ * A stored MotorBaseline row, with its statistics parsed
+ */
+export function toMotorBaseline(row: {
+  id: string;
+  motorId: string;
+  version: number;
+  status: string;
+  trainingStart: Date;
+  trainingEnd: Date;
+  sampleCount: number;
+  loadBands: string | null;
+  statistics: string;
+  warningZ: number;
+  criticalZ: number;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+  supersededAt: Date | null;
+}): MotorBaseline {
+  return {
+    id: row.id,
+    motorId: row.motorId,
+    version: row.version,
+    status: row.status as BaselineStatus,
+    trainingStart: row.trainingStart.toISOString(),
+    trainingEnd: row.trainingEnd.toISOString(),
+    sampleCount: row.sampleCount,
+    loadBands: row.loadBands ? (JSON.parse(row.loadBands) as number[]) : null,
+    warningZ: row.warningZ,
+    criticalZ: row.criticalZ,
+    note: row.note,
+    createdBy: row.createdBy,
+    createdAt: row.createdAt.toISOString(),
+    supersededAt: row.supersededAt?.toISOString() ?? null,
+    statistics: JSON.parse(row.statistics) as BaselineStatistics,
+  };
+}
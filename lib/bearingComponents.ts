@@ -0,0 +1,54 @@
+/**
+ * Mechasense - Bearing Component Storage
+ *
+ * Replays a bearing's life accumulator (lib/bearingLife.ts) over the stored
+ * readings since its installation, when it is added or its install date
+ * changes. Ingest advances it reading by reading afterwards.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { vibrationClassFor } from './vibrationSeverity';
+import { EMPTY_BEARING_STATE, advanceBearingLife, bearingSampleFor, type BearingLifeState } from './bearingLife';
+
+/** Readings loaded per query while replaying */
+const REPLAY_PAGE_SIZE = 5000;
+
+/**
+ * Recompute a bearing's running and consumed hours from the readings of
+ * its motor since `installedAt`. Returns the updated row, or null when the
+ * bearing does not exist.
+ */
+export async function rebuildBearingLife(bearingId: string, db: Prisma.TransactionClient = prisma) {
+  const bearing = await db.bearingComponent.findUnique({
+    where: { id: bearingId },
+    include: { motor: { select: { ratedCurrent: true, ratedPower: true, machineGroup: true, foundationType: true } } },
+  });
+  if (!bearing) return null;
+
+  const vibrationClass = vibrationClassFor(bearing.motor);
+  let state: BearingLifeState = EMPTY_BEARING_STATE;
+  let after: Date | null = null;
+  for (;;) {
+    const page: Parameters<typeof bearingSampleFor>[0][] = await db.sensorReading.findMany({
+      where: {
+        motorId: bearing.motorId,
+        timestamp: after ? { gt: after } : { gte: bearing.installedAt },
+      },
+      orderBy: { timestamp: 'asc' },
+      take: REPLAY_PAGE_SIZE,
+      select: { timestamp: true, motorCurrent: true, bearingTemp: true, vibrationRms: true },
+    });
+    for (const reading of page) {
+      const sample = bearingSampleFor(reading, bearing.motor.ratedCurrent, vibrationClass);
+      if (sample) state = advanceBearingLife(state, sample);
+    }
+    if (page.length < REPLAY_PAGE_SIZE) break;
+    after = page[page.length - 1].timestamp;
+  }
+
+  return db.bearingComponent.update({
+    where: { id: bearingId },
+    data: state,
+  });
+}
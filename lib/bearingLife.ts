@@ -0,0 +1,296 @@
+/**
+ * Mechasense - Bearing Life (ISO 281 L10)
+ *
+ * Tracks the rating life of each bearing of a motor instead of relying on
+ * the opaque bearingHealthScore from the ESP:
+ *
+ *   L10 = (C / P)^p million revolutions,  L10h = 10^6 / (60 n) × (C / P)^p hours
+ *
+ * with C the dynamic load rating, P the equivalent dynamic load, n the speed
+ * and p = 3 for ball bearings, 10/3 for roller bearings.
+ *
+ * Life is consumed only while the motor runs, faster when the measured
+ * conditions are worse than the rating assumes: a running hour consumes
+ * 1 / (aT × aV) hours of L10, where
+ *
+ * - aT halves for every BEARING_TEMP_HALVING K of bearingTemp above
+ *   BEARING_REFERENCE_TEMP (grease life), and
+ * - aV follows the ISO 10816 vibration zone of vibrationRms.
+ *
+ * Client-safe: the ingest path persists the state, Settings and the AI
+ * Center show it.
+ */
+
+import { classifyVibration, type VibrationClass, type VibrationZone } from './vibrationSeverity';
+
+export type BearingType = 'ball' | 'roller';
+
+export const BEARING_TYPES: BearingType[] = ['ball', 'roller'];
+
+export const BEARING_TYPE_LABELS: Record<BearingType, string> = {
+  ball: 'Ball bearing (p = 3)',
+  roller: 'Roller bearing (p = 10/3)',
+};
+
+const LIFE_EXPONENT: Record<BearingType, number> = {
+  ball: 3,
+  roller: 10 / 3,
+};
+
+/** Bearing temperature up to which the rating life applies, °C */
+export const BEARING_REFERENCE_TEMP = 70;
+
+/** Temperature increase above the reference that halves the life, K */
+export const BEARING_TEMP_HALVING = 15;
+
+/** Life factor by vibration zone: zone C wears bearings faster, zone D damages them */
+export const VIBRATION_LIFE_FACTORS: Record<VibrationZone, number> = {
+  A: 1,
+  B: 1,
+  C: 0.5,
+  D: 0.1,
+};
+
+/** The motor counts as running above this share of its rated current */
+export const RUNNING_CURRENT_FRACTION = 0.1;
+
+/** Readings further apart than this are not counted as running time */
+export const MAX_RUNNING_GAP_MINUTES = 15;
+
+const MAX_SPEED_RPM = 100000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface BearingInput {
+  /** Where the bearing sits, e.g. "Drive end" */
+  position: string;
+  /** Bearing designation, e.g. "6205-2RS" */
+  designation: string | null;
+  bearingType: BearingType;
+  /** C, kN */
+  dynamicLoadRating: number;
+  /** P, kN */
+  equivalentLoad: number;
+  speedRpm: number;
+  installedAt: Date;
+}
+
+/** Persisted accumulator of one bearing */
+export interface BearingLifeState {
+  /** Hours the motor ran since installation (monitored) */
+  runningHours: number;
+  /** Hours of L10 life used, adjusted for the measured conditions */
+  consumedHours: number;
+  lastTimestamp: Date | null;
+  lastRunning: boolean | null;
+  /** aT × aV of the last reading */
+  lastLifeFactor: number | null;
+}
+
+export const EMPTY_BEARING_STATE: BearingLifeState = {
+  runningHours: 0,
+  consumedHours: 0,
+  lastTimestamp: null,
+  lastRunning: null,
+  lastLifeFactor: null,
+};
+
+/** Conditions of one reading for the accumulator */
+export interface BearingSample {
+  timestamp: Date;
+  running: boolean;
+  lifeFactor: number;
+}
+
+/** A bearing with its computed life (dates as ISO strings) */
+export interface BearingComponent extends Omit<BearingInput, 'installedAt'> {
+  id: string;
+  motorId: string;
+  installedAt: string;
+  l10Hours: number;
+  runningHours: number;
+  consumedHours: number;
+  lifeConsumedPercent: number;
+  /** Life factor of the last reading; 1 before any reading */
+  lifeFactor: number;
+  /** Running hours left at the current conditions */
+  remainingHours: number;
+  lastTimestamp: string | null;
+}
+
+/**
+ * Basic rating life in operating hours (L10h)
+ */
+export function l10Hours(bearing: Pick<BearingInput, 'bearingType' | 'dynamicLoadRating' | 'equivalentLoad' | 'speedRpm'>): number {
+  const revolutions = Math.pow(bearing.dynamicLoadRating / bearing.equivalentLoad, LIFE_EXPONENT[bearing.bearingType]);
+  return (revolutions * 1e6) / (60 * bearing.speedRpm);
+}
+
+/**
+ * Life factor aT × aV for a reading; missing measurements count as 1
+ */
+export function bearingLifeFactor(
+  bearingTemp: number | null | undefined,
+  vibrationRms: number | null | undefined,
+  vibrationClass: VibrationClass
+): number {
+  const aT = bearingTemp !== null && bearingTemp !== undefined && bearingTemp > BEARING_REFERENCE_TEMP
+    ? Math.pow(2, -(bearingTemp - BEARING_REFERENCE_TEMP) / BEARING_TEMP_HALVING)
+    : 1;
+  const aV = vibrationRms !== null && vibrationRms !== undefined
+    ? VIBRATION_LIFE_FACTORS[classifyVibration(vibrationRms, vibrationClass).zone]
+    : 1;
+  return aT * aV;
+}
+
+/**
+ * Conditions of a stored reading, or null when the motor current is
+ * unknown (running or not cannot be told)
+ */
+export function bearingSampleFor(
+  reading: {
+    timestamp: Date;
+    motorCurrent: number | null;
+    bearingTemp: number | null;
+    vibrationRms: number | null;
+  },
+  ratedCurrent: number,
+  vibrationClass: VibrationClass
+): BearingSample | null {
+  if (reading.motorCurrent === null) return null;
+  return {
+    timestamp: reading.timestamp,
+    running: reading.motorCurrent > ratedCurrent * RUNNING_CURRENT_FRACTION,
+    lifeFactor: bearingLifeFactor(reading.bearingTemp, reading.vibrationRms, vibrationClass),
+  };
+}
+
+/**
+ * Add one reading to the accumulator. An interval counts as running time
+ * when the motor ran at both ends and they are at most
+ * MAX_RUNNING_GAP_MINUTES apart; it consumes life at the mean rate of its
+ * ends. Readings not newer than the last one leave the state unchanged.
+ */
+export function advanceBearingLife(state: BearingLifeState, sample: BearingSample): BearingLifeState {
+  const next = { ...state, lastTimestamp: sample.timestamp, lastRunning: sample.running, lastLifeFactor: sample.lifeFactor };
+  if (state.lastTimestamp === null || state.lastLifeFactor === null) return next;
+
+  const hours = (sample.timestamp.getTime() - state.lastTimestamp.getTime()) / HOUR_MS;
+  if (hours <= 0) return state;
+  if (!state.lastRunning || !sample.running || hours > MAX_RUNNING_GAP_MINUTES / 60) return next;
+
+  const rate = (1 / state.lastLifeFactor + 1 / sample.lifeFactor) / 2;
+  return {
+    ...next,
+    runningHours: state.runningHours + hours,
+    consumedHours: state.consumedHours + hours * rate,
+  };
+}
+
+export function toBearingLifeState(row: BearingLifeState): BearingLifeState {
+  return {
+    runningHours: row.runningHours,
+    consumedHours: row.consumedHours,
+    lastTimestamp: row.lastTimestamp,
+    lastRunning: row.lastRunning,
+    lastLifeFactor: row.lastLifeFactor,
+  };
+}
+
+export function validateBearingInput(
+  body: unknown,
+  partial = false,
+  now: Date = new Date()
+): { ok: true; data: Partial<BearingInput> } | { ok: false; error: string } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, error: 'Body must be a JSON object' };
+  }
+  const input = body as Record<string, unknown>;
+  const data: Partial<BearingInput> = {};
+
+  if (input.position !== undefined || !partial) {
+    const position = typeof input.position === 'string' ? input.position.trim() : '';
+    if (position.length === 0 || position.length > 50) return { ok: false, error: 'position must be 1-50 characters' };
+    data.position = position;
+  }
+
+  if (input.designation !== undefined) {
+    const designation = typeof input.designation === 'string' ? input.designation.trim() : input.designation;
+    if (designation !== null && typeof designation !== 'string') return { ok: false, error: 'designation must be a string' };
+    if (typeof designation === 'string' && designation.length > 50) return { ok: false, error: 'designation must be at most 50 characters' };
+    data.designation = designation || null;
+  }
+
+  if (input.bearingType !== undefined || !partial) {
+    const bearingType = (input.bearingType ?? 'ball') as BearingType;
+    if (!BEARING_TYPES.includes(bearingType)) {
+      return { ok: false, error: `bearingType must be one of ${BEARING_TYPES.join(', ')}` };
+    }
+    data.bearingType = bearingType;
+  }
+
+  for (const field of ['dynamicLoadRating', 'equivalentLoad', 'speedRpm'] as const) {
+    if (input[field] === undefined && partial) continue;
+    const value = input[field];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      return { ok: false, error: `${field} must be a positive number` };
+    }
+    data[field] = value;
+  }
+  if (data.speedRpm !== undefined && data.speedRpm > MAX_SPEED_RPM) {
+    return { ok: false, error: `speedRpm must be at most ${MAX_SPEED_RPM}` };
+  }
+  if (data.dynamicLoadRating !== undefined && data.equivalentLoad !== undefined && data.equivalentLoad > data.dynamicLoadRating) {
+    return { ok: false, error: 'equivalentLoad must not exceed dynamicLoadRating' };
+  }
+
+  if (input.installedAt !== undefined || !partial) {
+    const installedAt = typeof input.installedAt === 'string' || typeof input.installedAt === 'number'
+      ? new Date(input.installedAt)
+      : null;
+    if (!installedAt || isNaN(installedAt.getTime())) return { ok: false, error: 'installedAt must be a date' };
+    if (installedAt > now) return { ok: false, error: 'installedAt must not be in the future' };
+    data.installedAt = installedAt;
+  }
+
+  return { ok: true, data };
+}
+
+export function toBearingComponent(row: {
+  id: string;
+  motorId: string;
+  position: string;
+  designation: string | null;
+  bearingType: string;
+  dynamicLoadRating: number;
+  equivalentLoad: number;
+  speedRpm: number;
+  installedAt: Date;
+  runningHours: number;
+  consumedHours: number;
+  lastTimestamp: Date | null;
+  lastLifeFactor: number | null;
+}): BearingComponent {
+  const bearingType = BEARING_TYPES.includes(row.bearingType as BearingType) ? (row.bearingType as BearingType) : 'ball';
+  const rating = l10Hours({ ...row, bearingType });
+  const lifeFactor = row.lastLifeFactor ?? 1;
+
+  return {
+    id: row.id,
+    motorId: row.motorId,
+    position: row.position,
+    designation: row.designation,
+    bearingType,
+    dynamicLoadRating: row.dynamicLoadRating,
+    equivalentLoad: row.equivalentLoad,
+    speedRpm: row.speedRpm,
+    installedAt: row.installedAt.toISOString(),
+    l10Hours: rating,
+    runningHours: row.runningHours,
+    consumedHours: row.consumedHours,
+    lifeConsumedPercent: (row.consumedHours / rating) * 100,
+    lifeFactor,
+    remainingHours: Math.max(0, rating - row.consumedHours) * lifeFactor,
+    lastTimestamp: row.lastTimestamp ? row.lastTimestamp.toISOString() : null,
+  };
+}
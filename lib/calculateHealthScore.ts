@@ -1,12 +1,35 @@
 /**
  * Motor Health Score Calculation (Formula-Based)
- * 
+ *
  * Calculates health score 0-100 based on sensor readings without ML.
  * Higher score = healthier motor.
+ *
+ * The score is broken into electrical, mechanical, thermal and
+ * environmental sub-indices. Every factor explains the points it cost, and
+ * `recovery` lists the fewest parameter changes that bring a motor that is
+ * not Healthy back to Healthy.
+ *
+ * Missing, implausible or stale readings are not scored as healthy: the
+ * result carries the share of the scoring points that had a fresh,
+ * plausible value (`confidence`), and the category is Unknown when too
+ * little of the motor was measured.
  */
 
-import { type StatusResult, getStatusColor } from './thresholds';
+import {
+  PARAMETER_CONFIG,
+  type ParameterType,
+  type StatusLevel,
+  type StatusResult,
+  type ThresholdProfile,
+  type ThresholdProfiles,
+  getStatusColor,
+  getThreshold,
+} from './thresholds';
+import { INGEST_SCHEMA } from './ingestSchema';
 
+/**
+ * Readings in the canonical units of lib/units.ts (e.g. vibrationRms in mm/s)
+ */
 export interface SensorReading {
   // Electrical
   gridVoltage?: number;
@@ -14,212 +37,505 @@ export interface SensorReading {
   power?: number;
   powerFactor?: number;
   gridFrequency?: number;
-  
+  loadIndex?: number;      // 0-1 of rated load
+
   // Mechanical
-  vibrationRms?: number;
-  vibrationPeakG?: number;
-  
+  vibrationRms?: number;   // mm/s velocity
+  vibrationPeakG?: number; // g
+  crestFactor?: number;    // peak / RMS
+
   // Thermal
   motorSurfaceTemp?: number;
   bearingTemp?: number;
   ambientTemp?: number;
-  
+  tempGradient?: number;   // motor surface - ambient (from the ESP)
+  hotspot?: boolean;       // flagged by the ESP
+
   // Environmental
   dustDensity?: number;
 }
 
+/** Unknown: too few fresh, plausible readings to judge the motor */
+export type HealthCategory = 'Healthy' | 'At Risk' | 'Critical' | 'Unknown';
+
+export type Subsystem = 'electrical' | 'mechanical' | 'thermal' | 'environmental';
+
+export const SUBSYSTEMS: Subsystem[] = ['electrical', 'mechanical', 'thermal', 'environmental'];
+
+export const SUBSYSTEM_LABELS: Record<Subsystem, string> = {
+  electrical: 'Electrical',
+  mechanical: 'Mechanical',
+  thermal: 'Thermal',
+  environmental: 'Environmental',
+};
+
+/** Hotspot flag of the ESP, scored like a threshold parameter */
+export type HealthParameter = ParameterType | 'hotspot';
+
 export interface HealthScoreResult {
   score: number;           // 0-100
-  category: 'Healthy' | 'At Risk' | 'Critical';
-  factors: HealthFactor[]; // Contributing factors
+  category: HealthCategory;
+  factors: HealthFactor[]; // Contributing factors of all subsystems
+  subIndices: SubIndex[];
+  /** Fewest changes that make the motor Healthy; empty when it already is or is Unknown */
+  recovery: RecoveryStep[];
+  /** Share of the scoring points backed by a plausible value, 0-1 */
+  coverage: number;
+  /** Coverage discounted for the age of the reading, 0-1 */
+  confidence: number;
+  /** Scored parameters without a plausible value */
+  gaps: DataGap[];
+}
+
+export interface HealthScoreOptions {
+  /** Seconds since the reading was taken, 0 when omitted */
+  ageSeconds?: number;
 }
 
 export interface HealthFactor {
-  parameter: string;
+  parameter: HealthParameter;
+  subsystem: Subsystem;
   value: number;
   status: StatusResult;
   penalty: number;
+  /** Points the factor can cost at most */
+  maxPenalty: number;
+  /** Why it cost these points, e.g. "Vibration RMS 5.1 mm/s is above the critical limit 4.5 mm/s: -25 of 25 points" */
+  explanation: string;
+}
+
+export interface SubIndex {
+  subsystem: Subsystem;
+  /** 0-100: share of the subsystem's points not lost */
+  score: number;
+  category: HealthCategory;
+  /** Points the subsystem can cost at most (its weight in the overall score) */
+  weight: number;
+  penalty: number;
+  factors: HealthFactor[];
+  /** Share of the subsystem's points backed by a plausible value, 0-1 */
+  coverage: number;
+}
+
+export interface DataGap {
+  parameter: HealthParameter;
+  subsystem: Subsystem;
+  /** missing: not reported; implausible: outside the physically possible range */
+  reason: 'missing' | 'implausible';
+  value?: number;
+}
+
+export interface RecoveryStep {
+  parameter: HealthParameter;
+  subsystem: Subsystem;
+  from: number;
+  /** Bound to cross, null for the hotspot flag */
+  target: number | null;
+  direction: 'below' | 'above';
+  targetLevel: StatusLevel;
+  pointsRecovered: number;
+  explanation: string;
+}
+
+/** Scores from here up are Healthy, from AT_RISK_SCORE up At Risk */
+export const HEALTHY_SCORE = 80;
+export const AT_RISK_SCORE = 60;
+
+/** Below this confidence the category is Unknown instead of a score band */
+export const MIN_HEALTH_CONFIDENCE = 0.5;
+
+/**
+ * Readings up to FRESH_READING_SECONDS old count fully (the dashboard's
+ * online window); confidence then falls linearly to 0 at STALE_READING_SECONDS
+ */
+export const FRESH_READING_SECONDS = 20;
+export const STALE_READING_SECONDS = 300;
+
+/**
+ * Physically possible range of each scored parameter. Values outside it
+ * (a disconnected DS18B20 reads -127 °C) are treated as not reported.
+ */
+const PLAUSIBLE_RANGES: Partial<Record<ParameterType, { min: number; max: number }>> = {
+  gridVoltage: INGEST_SCHEMA.gridVoltage,
+  motorCurrent: INGEST_SCHEMA.motorCurrent,
+  powerFactor: INGEST_SCHEMA.powerFactor,
+  gridFrequency: INGEST_SCHEMA.gridFrequency,
+  vibrationRms: INGEST_SCHEMA.vibrationRms,
+  motorSurfaceTemp: INGEST_SCHEMA.motorSurfaceTemp,
+  bearingTemp: INGEST_SCHEMA.bearingTemp,
+  dustDensity: INGEST_SCHEMA.dustDensity,
+  tempGradient: INGEST_SCHEMA.tempGradient,
+  // Not stored by ingest
+  loadIndex: { min: 0, max: 5 },
+  vibrationPeakG: { min: 0, max: 16 }, // MPU6050 full scale
+  crestFactor: { min: 0, max: 50 },
+  ambientTemp: { min: -40, max: 125 }, // MLX90614 ambient sensor
+};
+
+/**
+ * Points each factor can cost (full when critical, half when warning),
+ * grouped by subsystem. The subsystem's weight is the sum of its factors.
+ */
+export const HEALTH_WEIGHTS: Record<Subsystem, Partial<Record<HealthParameter, number>>> = {
+  electrical: {
+    // Relative to rated current when nameplate thresholds are given
+    motorCurrent: 15,
+    powerFactor: 15,
+    gridVoltage: 10,
+    gridFrequency: 5,
+    loadIndex: 5,
+  },
+  mechanical: {
+    vibrationRms: 25,
+    // Impacts (bearing defects) show in peak and crest factor before RMS rises
+    vibrationPeakG: 8,
+    crestFactor: 7,
+  },
+  thermal: {
+    // Absolute temperature or rise above ambient, whichever is worse
+    // (insulation class limits, see lib/thermalClass.ts), so a hot day
+    // alone does not lower the score
+    motorSurfaceTemp: 20,
+    // Grease degrades quickly above ~80°C
+    bearingTemp: 20,
+    hotspot: 5,
+  },
+  environmental: {
+    // High dust affects cooling and insulation
+    dustDensity: 10,
+    ambientTemp: 5,
+  },
+};
+
+const LEVEL_RANK: Record<StatusLevel, number> = { normal: 0, warning: 1, critical: 2 };
+
+const LEVEL_SHARE: Record<StatusLevel, number> = { normal: 0, warning: 0.5, critical: 1 };
+
+export function healthCategory(score: number): HealthCategory {
+  if (score >= HEALTHY_SCORE) return 'Healthy';
+  if (score >= AT_RISK_SCORE) return 'At Risk';
+  return 'Critical';
+}
+
+/**
+ * Weight of a reading of this age, 1 while fresh down to 0 when stale
+ */
+export function readingFreshness(ageSeconds = 0): number {
+  if (ageSeconds <= FRESH_READING_SECONDS) return 1;
+  if (ageSeconds >= STALE_READING_SECONDS) return 0;
+  return 1 - (ageSeconds - FRESH_READING_SECONDS) / (STALE_READING_SECONDS - FRESH_READING_SECONDS);
+}
+
+function isPlausible(parameter: ParameterType, value: number): boolean {
+  const range = PLAUSIBLE_RANGES[parameter];
+  return Number.isFinite(value) && (!range || (value >= range.min && value <= range.max));
+}
+
+function round(value: number, decimals = 2): number {
+  return Number(value.toFixed(decimals));
+}
+
+function parameterLabel(parameter: HealthParameter): string {
+  return parameter === 'hotspot' ? 'Hotspot' : PARAMETER_CONFIG[parameter].label;
+}
+
+function withUnit(value: number | null | undefined, parameter: ParameterType): string {
+  const unit = PARAMETER_CONFIG[parameter].unit;
+  return `${round(value ?? 0)}${unit ? ` ${unit}` : ''}`;
+}
+
+/**
+ * Which bound a warning or critical value is past, e.g. "above the critical limit 4.5 mm/s"
+ */
+function breachDescription(value: number, level: StatusLevel, parameter: ParameterType, profile: ThresholdProfile): string {
+  const { warningLow, warningHigh, criticalLow, criticalHigh } = profile;
+  const fmt = (bound: number | null | undefined) => withUnit(bound, parameter);
+
+  switch (profile.direction) {
+    case 'high':
+      return level === 'critical'
+        ? `is above the critical limit ${fmt(criticalHigh)}`
+        : `is at or above the warning limit ${fmt(warningHigh)}`;
+    case 'low':
+      return level === 'critical'
+        ? `is below the critical limit ${fmt(criticalLow)}`
+        : `is at or below the warning limit ${fmt(warningLow)}`;
+    case 'band': {
+      const range = (low: number | null | undefined, high: number | null | undefined) =>
+        low === null || low === undefined ? `up to ${fmt(high)}`
+          : high === null || high === undefined ? `from ${fmt(low)}`
+          : `${low}-${fmt(high)}`;
+      return level === 'critical'
+        ? `is outside the tolerated range ${range(criticalLow, criticalHigh)}`
+        : `is outside the normal range ${range(warningLow, warningHigh)}`;
+    }
+  }
+}
+
+/**
+ * Value a parameter has to cross to reach `level`: the nearer bound of the
+ * normal (or tolerated) range
+ */
+function recoveryTarget(
+  value: number,
+  level: StatusLevel,
+  profile: ThresholdProfile
+): { target: number | null; direction: RecoveryStep['direction'] } {
+  const { warningLow, warningHigh, criticalLow, criticalHigh } = profile;
+  const low = level === 'normal' ? warningLow : criticalLow;
+  const high = level === 'normal' ? warningHigh : criticalHigh;
+
+  switch (profile.direction) {
+    case 'high':
+      return { target: high ?? null, direction: 'below' };
+    case 'low':
+      return { target: low ?? null, direction: 'above' };
+    case 'band':
+      if (high !== null && high !== undefined && value > high) return { target: high, direction: 'below' };
+      return { target: low ?? null, direction: 'above' };
+  }
 }
 
 /**
  * Calculate health score from sensor readings.
- * 
+ *
  * Formula:
  * - Start at 100 points
- * - Deduct points based on parameter severity
+ * - Deduct points based on parameter severity (full penalty when critical,
+ *   half when warning), judged by the motor's threshold profiles
  * - Return final score 0-100
+ *
+ * Each subsystem's sub-index is the share of its own points (HEALTH_WEIGHTS)
+ * not lost. Pass the motor's resolved `thresholds` (see resolveThresholds);
+ * without them DEFAULT_THRESHOLDS are used.
+ *
+ * Parameters without a plausible value cost nothing but lower `coverage`;
+ * `confidence` is coverage × readingFreshness(ageSeconds), and the
+ * category is Unknown below MIN_HEALTH_CONFIDENCE.
  */
-export function calculateHealthScore(reading: SensorReading): HealthScoreResult {
-  let score = 100;
+export function calculateHealthScore(
+  reading: SensorReading,
+  thresholds?: ThresholdProfiles | null,
+  options: HealthScoreOptions = {}
+): HealthScoreResult {
   const factors: HealthFactor[] = [];
-  
+  // Weight slots backed by a plausible value, and implausible values by slot
+  const covered = new Set<HealthParameter>();
+  const implausible = new Map<HealthParameter, number>();
+  const plausible = (parameter: ParameterType, value: number | undefined, weightKey: HealthParameter = parameter) => {
+    if (value === undefined || value === null) return undefined;
+    if (isPlausible(parameter, value)) return value;
+    implausible.set(weightKey, value);
+    return undefined;
+  };
+
+  // Normal parameters cost nothing but may still be listed in recovery
+  const weightOf = (subsystem: Subsystem, parameter: HealthParameter) => HEALTH_WEIGHTS[subsystem][parameter] ?? 0;
+
   // Helper to add a factor
   const addFactor = (
-    parameter: string, 
-    value: number | undefined, 
-    thresholds: { warning: number; critical: number; isLower?: boolean },
-    maxPenalty: number
+    subsystem: Subsystem,
+    parameter: ParameterType,
+    raw: number | undefined,
+    weightKey: HealthParameter = parameter
   ) => {
-    if (value === undefined || value === null) return;
-    
-    let status: StatusResult = { level: 'normal', label: 'Normal', color: 'text-status-normal', bgColor: 'bg-status-normal' };
-    let penalty = 0;
-    
-    if (thresholds.isLower) {
-      // Lower is worse (e.g., power factor)
-      if (value < thresholds.critical) {
-        status = { level: 'critical', label: 'Critical', color: 'text-status-critical', bgColor: 'bg-status-critical' };
-        penalty = maxPenalty;
-      } else if (value < thresholds.warning) {
-        status = { level: 'warning', label: 'Warning', color: 'text-status-warning', bgColor: 'bg-status-warning' };
-        penalty = maxPenalty * 0.5;
-      }
-    } else {
-      // Higher is worse (e.g., temperature)
-      if (value > thresholds.critical) {
-        status = { level: 'critical', label: 'Critical', color: 'text-status-critical', bgColor: 'bg-status-critical' };
-        penalty = maxPenalty;
-      } else if (value > thresholds.warning) {
-        status = { level: 'warning', label: 'Warning', color: 'text-status-warning', bgColor: 'bg-status-warning' };
-        penalty = maxPenalty * 0.5;
-      }
-    }
-    
+    const value = plausible(parameter, raw, weightKey);
+    if (value === undefined) return;
+    covered.add(weightKey);
+
+    const maxPenalty = weightOf(subsystem, weightKey);
+    const status = getStatusColor(value, parameter, thresholds);
+    const penalty = maxPenalty * LEVEL_SHARE[status.level];
+
     if (penalty > 0) {
-      score -= penalty;
-      factors.push({ parameter, value, status, penalty });
+      const breach = breachDescription(value, status.level, parameter, getThreshold(parameter, thresholds));
+      factors.push({
+        parameter,
+        subsystem,
+        value,
+        status,
+        penalty,
+        maxPenalty,
+        explanation:
+          `${parameterLabel(parameter)} ${withUnit(value, parameter)} ${breach}: ` +
+          `-${round(penalty, 1)} of ${maxPenalty} points (${status.level === 'critical' ? 'full penalty when critical' : 'half penalty at warning'})`,
+      });
     }
   };
-  
-  // ============================================================
-  // VIBRATION (max penalty: 25 points)
-  // ISO 10816 standards for small machines
-  // ============================================================
-  addFactor('vibrationRms', reading.vibrationRms, {
-    warning: 2.8,   // mm/s - "Satisfactory" limit
-    critical: 4.5,  // mm/s - "Unsatisfactory" limit
-  }, 25);
-  
-  // ============================================================
-  // MOTOR SURFACE TEMPERATURE (max penalty: 20 points)
-  // Class B insulation: max 130°C rise, typically 80°C ambient+rise
-  // ============================================================
-  addFactor('motorSurfaceTemp', reading.motorSurfaceTemp, {
-    warning: 70,    // °C - Getting warm
-    critical: 85,   // °C - Too hot, risk of damage
-  }, 20);
-  
-  // ============================================================
-  // BEARING TEMPERATURE (max penalty: 20 points)
-  // Bearings should not exceed 80°C for standard grease
-  // ============================================================
-  addFactor('bearingTemp', reading.bearingTemp, {
-    warning: 65,    // °C - Warm
-    critical: 80,   // °C - Risk of grease degradation
-  }, 20);
-  
+
   // ============================================================
-  // MOTOR CURRENT (max penalty: 15 points)
-  // Based on typical 1HP motor rated ~4A, overload at 115%
+  // ELECTRICAL
   // ============================================================
-  addFactor('motorCurrent', reading.motorCurrent, {
-    warning: 4.6,   // A - Above rated
-    critical: 5.5,  // A - Overload
-  }, 15);
-  
+  addFactor('electrical', 'motorCurrent', reading.motorCurrent);
+  addFactor('electrical', 'powerFactor', reading.powerFactor);
+  addFactor('electrical', 'gridVoltage', reading.gridVoltage);
+  addFactor('electrical', 'gridFrequency', reading.gridFrequency);
+  addFactor('electrical', 'loadIndex', reading.loadIndex);
+
   // ============================================================
-  // POWER FACTOR (max penalty: 15 points)
-  // Good PF is > 0.85, poor < 0.7
+  // MECHANICAL
   // ============================================================
-  addFactor('powerFactor', reading.powerFactor, {
-    warning: 0.85,
-    critical: 0.70,
-    isLower: true,
-  }, 15);
-  
+  addFactor('mechanical', 'vibrationRms', reading.vibrationRms);
+  addFactor('mechanical', 'vibrationPeakG', reading.vibrationPeakG);
+  addFactor('mechanical', 'crestFactor', reading.crestFactor);
+
   // ============================================================
-  // VOLTAGE DEVIATION (max penalty: 10 points)
-  // +/- 10% of 220V is acceptable
+  // THERMAL
+  // Motor surface: absolute temperature or rise, whichever is worse
   // ============================================================
-  if (reading.gridVoltage !== undefined) {
-    const nominalVoltage = 220;
-    const deviation = Math.abs(reading.gridVoltage - nominalVoltage) / nominalVoltage;
-    
-    if (deviation > 0.15) {
-      score -= 10;
-      factors.push({
-        parameter: 'gridVoltage',
-        value: reading.gridVoltage,
-        status: { level: 'critical', label: 'Critical', color: 'text-status-critical', bgColor: 'bg-status-critical' },
-        penalty: 10,
-      });
-    } else if (deviation > 0.10) {
-      score -= 5;
-      factors.push({
-        parameter: 'gridVoltage',
-        value: reading.gridVoltage,
-        status: { level: 'warning', label: 'Warning', color: 'text-status-warning', bgColor: 'bg-status-warning' },
-        penalty: 5,
-      });
-    }
+  const surfaceTemp = plausible('motorSurfaceTemp', reading.motorSurfaceTemp);
+  const ambientTemp = plausible('ambientTemp', reading.ambientTemp);
+  const rise = plausible('tempGradient', reading.tempGradient, 'motorSurfaceTemp') ?? (
+    surfaceTemp !== undefined && ambientTemp !== undefined ? surfaceTemp - ambientTemp : undefined
+  );
+  const levelOf = (parameter: ParameterType, value: number | undefined) =>
+    value === undefined ? -1 : LEVEL_RANK[getStatusColor(value, parameter, thresholds).level];
+  if (levelOf('tempGradient', rise) > levelOf('motorSurfaceTemp', surfaceTemp)) {
+    addFactor('thermal', 'tempGradient', rise, 'motorSurfaceTemp');
+  } else {
+    addFactor('thermal', 'motorSurfaceTemp', surfaceTemp);
+  }
+  addFactor('thermal', 'bearingTemp', reading.bearingTemp);
+  if (reading.hotspot !== undefined) covered.add('hotspot');
+  if (reading.hotspot) {
+    const maxPenalty = weightOf('thermal', 'hotspot');
+    factors.push({
+      parameter: 'hotspot',
+      subsystem: 'thermal',
+      value: 1,
+      status: { level: 'warning', label: 'Hotspot', color: 'text-status-warning', bgColor: 'bg-status-warning' },
+      penalty: maxPenalty,
+      maxPenalty,
+      explanation: `The ESP reports a hotspot on the motor surface: -${maxPenalty} of ${maxPenalty} points`,
+    });
   }
-  
+
   // ============================================================
-  // DUST DENSITY (max penalty: 10 points)
-  // High dust affects cooling and insulation
+  // ENVIRONMENTAL
   // ============================================================
-  addFactor('dustDensity', reading.dustDensity, {
-    warning: 50,    // µg/m³
-    critical: 100,  // µg/m³
-  }, 10);
-  
+  addFactor('environmental', 'dustDensity', reading.dustDensity);
+  addFactor('environmental', 'ambientTemp', reading.ambientTemp);
+
+  // Sort factors by penalty (highest first)
+  factors.sort((a, b) => b.penalty - a.penalty);
+
+  const rawScore = 100 - factors.reduce((sum, f) => sum + f.penalty, 0);
+  // Ensure score is within bounds
+  const score = Math.max(0, Math.min(100, rawScore));
+
   // ============================================================
-  // FREQUENCY DEVIATION (max penalty: 5 points)
-  // Should be very close to 50Hz (±1%)
+  // DATA COVERAGE
   // ============================================================
-  if (reading.gridFrequency !== undefined) {
-    const deviation = Math.abs(reading.gridFrequency - 50) / 50;
-    
-    if (deviation > 0.02) {
-      score -= 5;
-      factors.push({
-        parameter: 'gridFrequency',
-        value: reading.gridFrequency,
-        status: { level: 'critical', label: 'Critical', color: 'text-status-critical', bgColor: 'bg-status-critical' },
-        penalty: 5,
-      });
-    } else if (deviation > 0.01) {
-      score -= 2;
-      factors.push({
-        parameter: 'gridFrequency',
-        value: reading.gridFrequency,
-        status: { level: 'warning', label: 'Warning', color: 'text-status-warning', bgColor: 'bg-status-warning' },
-        penalty: 2,
-      });
+  const freshness = readingFreshness(options.ageSeconds);
+  const gaps: DataGap[] = [];
+  let totalWeight = 0;
+  let coveredWeight = 0;
+
+  const subIndices: SubIndex[] = SUBSYSTEMS.map((subsystem) => {
+    let weight = 0;
+    let subCovered = 0;
+    for (const [parameter, w] of Object.entries(HEALTH_WEIGHTS[subsystem]) as [HealthParameter, number][]) {
+      weight += w;
+      if (covered.has(parameter)) {
+        subCovered += w;
+      } else {
+        const value = implausible.get(parameter);
+        gaps.push({ parameter, subsystem, reason: value === undefined ? 'missing' : 'implausible', value });
+      }
     }
-  }
-  
-  // Ensure score is within bounds
-  score = Math.max(0, Math.min(100, score));
-  
-  // Determine category
-  let category: 'Healthy' | 'At Risk' | 'Critical';
-  if (score >= 80) {
-    category = 'Healthy';
-  } else if (score >= 60) {
-    category = 'At Risk';
-  } else {
-    category = 'Critical';
-  }
-  
-  // Sort factors by penalty (highest first)
-  factors.sort((a, b) => b.penalty - a.penalty);
-  
+    totalWeight += weight;
+    coveredWeight += subCovered;
+
+    const own = factors.filter((f) => f.subsystem === subsystem);
+    const penalty = own.reduce((sum, f) => sum + f.penalty, 0);
+    const subScore = Math.max(0, 100 - (penalty / weight) * 100);
+    const coverage = subCovered / weight;
+    return {
+      subsystem,
+      score: Math.round(subScore),
+      category: coverage * freshness < MIN_HEALTH_CONFIDENCE ? 'Unknown' : healthCategory(subScore),
+      weight,
+      penalty,
+      factors: own,
+      coverage: round(coverage),
+    };
+  });
+
+  const coverage = coveredWeight / totalWeight;
+  const confidence = coverage * freshness;
+  const known = confidence >= MIN_HEALTH_CONFIDENCE;
+
   return {
     score: Math.round(score),
-    category,
+    category: known ? healthCategory(score) : 'Unknown',
     factors,
+    subIndices,
+    recovery: known ? recoveryPlan(factors, rawScore, thresholds) : [],
+    coverage: round(coverage),
+    confidence: round(confidence),
+    gaps,
+  };
+}
+
+/**
+ * Fewest parameter changes that lift `rawScore` to HEALTHY_SCORE.
+ * Factors are brought back to normal largest penalty first; the last step
+ * is the smallest change that is still enough (possibly only back to
+ * warning).
+ */
+function recoveryPlan(factors: HealthFactor[], rawScore: number, thresholds?: ThresholdProfiles | null): RecoveryStep[] {
+  let needed = HEALTHY_SCORE - rawScore;
+  if (needed <= 0) return [];
+
+  const toStep = (factor: HealthFactor, targetLevel: StatusLevel): RecoveryStep => {
+    const pointsRecovered = factor.penalty - factor.maxPenalty * LEVEL_SHARE[targetLevel];
+    const levelName = targetLevel === 'normal' ? 'normal' : 'warning';
+    if (factor.parameter === 'hotspot') {
+      return {
+        parameter: 'hotspot',
+        subsystem: factor.subsystem,
+        from: 1,
+        target: null,
+        direction: 'below',
+        targetLevel,
+        pointsRecovered,
+        explanation: `Clear the hotspot (cool the hot area of the surface): +${round(pointsRecovered, 1)} points`,
+      };
+    }
+    const parameter = factor.parameter;
+    const { target, direction } = recoveryTarget(factor.value, targetLevel, getThreshold(parameter, thresholds));
+    return {
+      parameter,
+      subsystem: factor.subsystem,
+      from: factor.value,
+      target,
+      direction,
+      targetLevel,
+      pointsRecovered,
+      explanation:
+        `Bring ${parameterLabel(parameter)} from ${withUnit(factor.value, parameter)} ${direction} ` +
+        `${withUnit(target, parameter)} (${levelName}): +${round(pointsRecovered, 1)} points`,
+    };
   };
+
+  const steps: RecoveryStep[] = [];
+  const remaining = [...factors];
+  while (needed > 0 && remaining.length > 0) {
+    // Smallest single change that finishes the plan, if any
+    const finishing = remaining
+      .flatMap((f) => [toStep(f, 'normal'), ...(f.status.level === 'critical' ? [toStep(f, 'warning')] : [])])
+      .filter((step) => step.pointsRecovered >= needed)
+      .sort((a, b) => a.pointsRecovered - b.pointsRecovered)[0];
+    if (finishing) {
+      steps.push(finishing);
+      break;
+    }
+    const largest = remaining.shift()!;
+    const step = toStep(largest, 'normal');
+    steps.push(step);
+    needed -= step.pointsRecovered;
+  }
+  return steps;
 }
 
 /**
@@ -0,0 +1,148 @@
+/**
+ * Mechasense - Device Authentication
+ *
+ * Every ingest request must be signed by a registered ESP32 device:
+ *
+ *   X-Device-Id:  device id
+ *   X-Key-Id:     id of the DeviceKey used to sign
+ *   X-Timestamp:  unix time in seconds
+ *   X-Nonce:      random string, unique per request
+ *   X-Signature:  hex HMAC-SHA256(secret, `${timestamp}.${nonce}.${body}`)
+ *
+ * Requests outside the timestamp window or reusing a nonce are rejected,
+ * so a captured request cannot be replayed.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { NextRequest } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+/** Maximum allowed difference between X-Timestamp and server time */
+export const SIGNATURE_WINDOW_SECONDS = 5 * 60;
+
+/** How long the previous key keeps working after a rotation */
+export const DEFAULT_ROTATION_GRACE_SECONDS = 24 * 60 * 60;
+
+export interface AuthenticatedDevice {
+  id: string;
+  motorId: string;
+  keyId: string;
+}
+
+export type DeviceAuthResult =
+  | { ok: true; device: AuthenticatedDevice }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Generate a new hex-encoded signing secret
+ */
+export function generateDeviceSecret(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Compute the request signature the device is expected to send
+ */
+export function signPayload(secret: string, timestamp: string, nonce: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${nonce}.${body}`).digest('hex');
+}
+
+function signaturesMatch(expected: string, received: string): boolean {
+  const a = Buffer.from(expected, 'hex');
+  const b = Buffer.from(received, 'hex');
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Unsigned ingest is only allowed when explicitly enabled (local development)
+ */
+export function isUnsignedIngestAllowed(): boolean {
+  return process.env.INGEST_ALLOW_UNSIGNED === 'true';
+}
+
+/**
+ * Verify the signature headers of an ingest request against its raw body
+ */
+export async function authenticateDevice(request: NextRequest, body: string): Promise<DeviceAuthResult> {
+  const deviceId = request.headers.get('x-device-id');
+  const keyId = request.headers.get('x-key-id');
+  const timestamp = request.headers.get('x-timestamp');
+  const nonce = request.headers.get('x-nonce');
+  const signature = request.headers.get('x-signature');
+
+  if (!deviceId || !keyId || !timestamp || !nonce || !signature) {
+    return { ok: false, status: 401, error: 'Missing device signature headers' };
+  }
+
+  const sentAt = Number(timestamp);
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  if (!Number.isFinite(sentAt) || Math.abs(nowSeconds - sentAt) > SIGNATURE_WINDOW_SECONDS) {
+    return { ok: false, status: 401, error: 'Request timestamp outside allowed window' };
+  }
+
+  if (nonce.length < 8 || nonce.length > 128) {
+    return { ok: false, status: 401, error: 'Invalid nonce' };
+  }
+
+  const key = await prisma.deviceKey.findUnique({
+    where: { id: keyId },
+    include: { device: true },
+  });
+
+  // Same response for unknown device and wrong key to avoid leaking ids
+  if (!key || key.deviceId !== deviceId || !signaturesMatch(signPayload(key.secret, timestamp, nonce, body), signature)) {
+    return { ok: false, status: 401, error: 'Invalid device signature' };
+  }
+
+  const now = new Date();
+  if (key.device.revokedAt) {
+    return { ok: false, status: 403, error: 'Device has been revoked' };
+  }
+  if (key.revokedAt || (key.expiresAt && key.expiresAt <= now)) {
+    return { ok: false, status: 401, error: 'Device key is no longer valid' };
+  }
+
+  try {
+    await prisma.deviceNonce.create({ data: { deviceId, nonce } });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { ok: false, status: 401, error: 'Replayed request' };
+    }
+    throw error;
+  }
+
+  // Nonces older than the window can never be accepted again, so they are safe to drop
+  await prisma.deviceNonce.deleteMany({
+    where: { deviceId, createdAt: { lt: new Date(now.getTime() - 2 * SIGNATURE_WINDOW_SECONDS * 1000) } },
+  });
+
+  await prisma.$transaction([
+    prisma.deviceKey.update({ where: { id: key.id }, data: { lastUsedAt: now } }),
+    prisma.device.update({ where: { id: deviceId }, data: { lastSeenAt: now } }),
+  ]);
+
+  return { ok: true, device: { id: deviceId, motorId: key.device.motorId, keyId: key.id } };
+}
+
+/**
+ * Device management routes and motor deletion require
+ * `Authorization: Bearer <DEVICE_ADMIN_TOKEN>`.
+ * Returns an error message, or null when the caller is authorised.
+ */
+export function checkAdminToken(request: NextRequest): { status: number; error: string } | null {
+  const adminToken = process.env.DEVICE_ADMIN_TOKEN;
+  if (!adminToken) {
+    return { status: 503, error: 'Admin actions are disabled. Set DEVICE_ADMIN_TOKEN to enable them.' };
+  }
+
+  const header = request.headers.get('authorization') ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+  const expected = Buffer.from(adminToken);
+  const received = Buffer.from(token);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { status: 401, error: 'Invalid admin token' };
+  }
+
+  return null;
+}
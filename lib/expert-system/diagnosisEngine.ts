@@ -1,12 +1,99 @@
+/**
+ * Mechasense - Diagnosis Engine
+ *
+ * The one diagnosis service: symptom answers and/or sensor values go
+ * through the rules (./rules) on the rule engine (./ruleEngine), and come
+ * back as diagnoses ranked by certainty factor, with severity level and
+ * recommendation. Symptoms the sensors measure (SENSOR_SYMPTOMS) are
+ * answered from the values, on membership functions derived from the
+ * motor's thresholds, unless the technician answered them. The
+ * severity is inferred from the fired rules with Mamdani (./mamdani).
+ * Each diagnosis carries its trace (rules, facts, CF combination) for the
+ * "why" answer, and the near misses say what was missing.
+ * POST /api/expert/diagnose runs it for the AI Center and stores the
+ * result as its own health analysis.
+ *
+ * Client-safe: no database access.
+ */
+
+import type { RuleValues } from "../alertRules";
+import type { ThresholdProfiles } from "../thresholds";
+import { sensorSymptomDegrees, sensorSymptomMemberships, type FuzzyLevel, type SensorSymptom } from "./fuzzyMembership";
+import { rules } from "./rules";
+import { symptoms } from "./symptoms";
+import {
+  conditionSymptoms,
+  runRules,
+  symptomFacts,
+  traceCondition,
+  traceFacts,
+  type CombinationSemantics,
+  type CombinationStep,
+  type ConditionTrace,
+  type DamageLevel,
+  type ExpertRule,
+  type FactSource,
+  type RuleFacts,
+} from "./ruleEngine";
+import { inferSeverity, type InferenceOptions, type MamdaniResult } from "./mamdani";
+
 // ==============================
 // TYPE
 // ==============================
-export type Level = "A" | "B" | "C";
+export type Level = DamageLevel;
+
+export const FUZZY_LEVELS: FuzzyLevel[] = ["No", "Sometimes", "Yes"];
+
+export interface DiagnosisInput {
+  /** Answers to the symptom questions, by symptom id; they override sensor-derived answers */
+  answers?: Record<number, FuzzyLevel>;
+  /** Sensor values in canonical units */
+  values?: RuleValues;
+  thresholds?: ThresholdProfiles | null;
+  semantics?: CombinationSemantics;
+  /** Membership functions deriving symptoms from `values` (default: from `thresholds`, see sensorSymptomMemberships) */
+  sensorSymptoms?: SensorSymptom[];
+  /** Mamdani implication, aggregation and defuzzification (default min / max / centroid) */
+  inference?: InferenceOptions;
+}
+
+export interface RuleExplanation {
+  ruleId: string;
+  /** Degree the premise held, 0-1 */
+  activation: number;
+  /** The rule's own certainty */
+  ruleCertainty: number;
+  /** activation × ruleCertainty: the CF the rule contributed */
+  cf: number;
+  condition: ConditionTrace;
+}
+
+export interface DiagnosisTrace {
+  semantics: CombinationSemantics;
+  rules: RuleExplanation[];
+  /** How the rules' CFs were merged into the diagnosis CF */
+  steps: CombinationStep[];
+}
+
+export interface NearMissExplanation {
+  ruleId: string;
+  damageType: string;
+  damage: string;
+  condition: string;
+  satisfied: ConditionTrace[];
+  missing: ConditionTrace[];
+}
 
-export interface DiagnosisItem {
+export interface Diagnosis {
   damageType: string;
-  confidence: number; // CF 0–1
   level: Level;
+  damage: string;
+  recommendation: string;
+  /** Combined certainty factor, 0-1 */
+  cf: number;
+  /** Rules that reached it, most specific first */
+  ruleIds: string[];
+  trace: DiagnosisTrace;
 }
 
 export interface DiagnosisSummary {
@@ -17,81 +104,223 @@ export interface DiagnosisSummary {
   label: string;
 }
 
+export interface DiagnosisReport {
+  /** Symptom degrees derived from the sensor values, 0-1, by symptom id */
+  sensorSymptoms: Record<number, number>;
+  /** Most certain first */
+  diagnoses: Diagnosis[];
+  /** The most certain diagnosis, null when no rule fired */
+  summary: DiagnosisSummary | null;
+  /** Rules that did not fire although part of their premise held */
+  nearMisses: NearMissExplanation[];
+  /** Mamdani inference of severity, with its intermediate curves */
+  severity: MamdaniResult;
+  /** Text for HealthAnalysis.expertDiagnosis / expertRecommendation */
+  diagnosis: string;
+  recommendation: string;
+}
+
 // ==============================
-// MAIN FUNCTION
+// LABEL BERDASARKAN RANGE
 // ==============================
-export function calculateDiagnosisSummary(
-  grouped: Map<string, DiagnosisItem[]>
-): DiagnosisSummary | null {
-
-  // ==============================
-  // COMBINE CERTAINTY FACTOR
-  // ==============================
-  const combineCF = (values: number[]): number => {
-    let cf = 0;
-    for (const v of values) {
-      cf = cf + v * (1 - cf);
-    }
-    return cf;
+function severityLabel(percent: number): string {
+  if (percent <= 40) return "Minor";
+  if (percent <= 70) return "Moderate";
+  return "Severe";
+}
+
+function symptomLabel(id: number): string {
+  return symptoms.find((s) => s.id === id)?.question ?? `Symptom ${id}`;
+}
+
+/** Damage name of a rule, without its explanation */
+function damageName(rule: ExpertRule): string {
+  return rule.damage.split(".")[0];
+}
+
+/**
+ * Symptom degrees the sensor values give, on the input's membership
+ * functions or those of its thresholds
+ */
+function inputSensorDegrees(input: DiagnosisInput): Record<number, number> {
+  return sensorSymptomDegrees(input.values ?? {}, input.sensorSymptoms ?? sensorSymptomMemberships(input.thresholds));
+}
+
+/**
+ * Rule facts of the answers and sensor values: answered symptoms, then the
+ * ones the sensors measure (SENSOR_SYMPTOMS)
+ */
+export function diagnosisFacts(input: DiagnosisInput): RuleFacts {
+  const answers = input.answers ?? {};
+  const sensorDegrees = inputSensorDegrees(input);
+  const symptomSources: Record<number, FactSource> = {};
+  for (const id of Object.keys(sensorDegrees)) symptomSources[Number(id)] = "sensor";
+  for (const id of Object.keys(answers)) symptomSources[Number(id)] = "answer";
+  return {
+    symptoms: symptomFacts(answers, symptoms, sensorDegrees),
+    symptomSources,
+    values: input.values,
+    thresholds: input.thresholds,
   };
+}
+
+// ==============================
+// MAIN FUNCTION
+// ==============================
+export function diagnose(input: DiagnosisInput): DiagnosisReport {
+  const sensorDegrees = inputSensorDegrees(input);
+  const semantics = input.semantics ?? "certainty";
+  const { fired, conclusions, nearMisses } = runRules(rules, diagnosisFacts(input), semantics, symptomLabel);
 
-  let best: DiagnosisSummary | null = null;
+  const diagnoses: Diagnosis[] = conclusions.map((conclusion) => {
+    // Teks dari rule paling spesifik
+    const rule = conclusion.rules[0].rule;
+    return {
+      damageType: conclusion.damageType,
+      level: conclusion.level,
+      damage: rule.damage,
+      recommendation: rule.solution,
+      cf: Number(conclusion.certainty.toFixed(3)),
+      ruleIds: conclusion.rules.map((fired) => fired.rule.id),
+      trace: {
+        semantics,
+        rules: conclusion.rules.map((fired) => ({
+          ruleId: fired.rule.id,
+          activation: fired.activation,
+          ruleCertainty: fired.rule.certainty,
+          cf: fired.certainty,
+          condition: fired.trace,
+        })),
+        steps: conclusion.steps,
+      },
+    };
+  });
+
+  const nearMissExplanations: NearMissExplanation[] = nearMisses.map(({ rule, trace, satisfied, missing }) => ({
+    ruleId: rule.id,
+    damageType: rule.damageType,
+    damage: damageName(rule),
+    condition: trace.label,
+    satisfied,
+    missing,
+  }));
+
+  const severity = inferSeverity(fired, input.inference);
 
-  // ==============================
-  // PRIORITY LEVEL
-  // ==============================
-  const priority: Record<Level, number> = {
-    A: 1, // ringan
-    B: 2, // sedang
-    C: 3, // berat
+  if (diagnoses.length === 0) {
+    return {
+      sensorSymptoms: sensorDegrees,
+      diagnoses,
+      nearMisses: nearMissExplanations,
+      summary: null,
+      severity,
+      diagnosis: "Motor dalam kondisi normal",
+      recommendation: "Lanjutkan monitoring berkala",
+    };
+  }
+
+  const best = diagnoses[0];
+  const percent = Number((best.cf * 100).toFixed(1));
+  return {
+    sensorSymptoms: sensorDegrees,
+    diagnoses,
+    nearMisses: nearMissExplanations,
+    summary: {
+      damageType: best.damageType,
+      cfTotal: best.cf,
+      percent,
+      level: best.level,
+      label: severityLabel(percent),
+    },
+    severity,
+    diagnosis: diagnoses.map((d) => `[${d.ruleIds.join(", ")}] ${d.damage}`).join(" "),
+    recommendation: diagnoses.map((d, i) => `${i + 1}. ${d.recommendation}`).join("\n"),
   };
+}
 
-  // ==============================
-  // LOOP GROUPED DATA
-  // ==============================
-  grouped.forEach((list, damageType) => {
-    if (list.length === 0) return; // ✅ FIX (bukan continue)
-
-    const cfTotal = combineCF(list.map(i => i.confidence));
-
-    // ==============================
-    // DOMINANT LEVEL
-    // ==============================
-    const dominantItem = list.reduce(
-      (prev, curr) =>
-        priority[prev.level] >= priority[curr.level] ? prev : curr,
-      list[0]
-    );
+/**
+ * A fact of a trace in words, with the value behind it
+ */
+export function describeFact(fact: ConditionTrace): string {
+  if (fact.op === "symptom") {
+    if (fact.value === null) return `${fact.label}: not answered`;
+    return `${fact.label}: CF ${fact.value.toFixed(2)} (${fact.source === "sensor" ? "from sensor" : "answered"})`;
+  }
+  if (fact.measured === null || fact.measured === undefined) return `${fact.label}: not measured`;
+  return `${fact.label}: measured ${Number(fact.measured.toFixed(2))}`;
+}
 
-    const dominantLevel = dominantItem.level;
+/**
+ * "Why": how the facts led to a diagnosis, one line per step
+ */
+export function explainDiagnosis(diagnosis: Diagnosis): string[] {
+  const lines: string[] = [];
+  for (const rule of diagnosis.trace.rules) {
+    lines.push(
+      `${rule.ruleId} fired: IF ${rule.condition.label} — premise ${rule.activation.toFixed(2)} × rule CF ` +
+        `${rule.ruleCertainty} = CF ${rule.cf.toFixed(2)}`
+    );
+    for (const fact of traceFacts(rule.condition).satisfied) lines.push(`• ${describeFact(fact)}`);
+  }
 
-    // ==============================
-    // LABEL BERDASARKAN RANGE
-    // ==============================
-    const percent = cfTotal * 100;
+  const { steps, semantics } = diagnosis.trace;
+  if (steps.length > 1) {
+    const formula = semantics === "certainty" ? "CF1 + CF2 × (1 − CF1)" : "MAX";
+    lines.push(
+      `Combined with ${formula}: ` +
+        steps.map((step) => `${step.ruleId} ${step.certainty.toFixed(2)} → ${step.combined.toFixed(2)}`).join(", ")
+    );
+  }
+  lines.push(`CF ${diagnosis.cf}`);
+  return lines;
+}
 
-    let label: string;
-    if (percent <= 40) {
-      label = "Ringan";
-    } else if (percent <= 70) {
-      label = "Sedang";
-    } else {
-      label = "Berat";
-    }
+export interface QuestionReason {
+  ruleId: string;
+  damage: string;
+  condition: string;
+  /** Other facts of the rule that already hold */
+  satisfied: ConditionTrace[];
+}
 
-    // ==============================
-    // PICK BEST DIAGNOSIS
-    // ==============================
-    if (!best || cfTotal > best.cfTotal) {
-      best = {
-        damageType,
-        cfTotal: Number(cfTotal.toFixed(3)),
-        percent: Number(percent.toFixed(1)),
-        level: dominantLevel,
-        label,
+/**
+ * "Why are you asking this": the rules a symptom question feeds, those
+ * whose other facts already hold first
+ */
+export function explainQuestion(symptomId: number, facts: RuleFacts): QuestionReason[] {
+  return rules
+    .filter((rule) => conditionSymptoms(rule.when).includes(symptomId))
+    .map((rule) => {
+      const trace = traceCondition(rule.when, facts, symptomLabel);
+      return {
+        ruleId: rule.id,
+        damage: damageName(rule),
+        condition: trace.label,
+        satisfied: traceFacts(trace).satisfied.filter((fact) => fact.label !== symptomLabel(symptomId)),
       };
-    }
-  });
+    })
+    .sort((a, b) => b.satisfied.length - a.satisfied.length);
+}
 
-  return best;
+/**
+ * Validate symptom answers from a request: `{ "<symptomId>": "No" | "Sometimes" | "Yes" }`
+ */
+export function validateSymptomAnswers(
+  input: unknown
+): { ok: true; data: Record<number, FuzzyLevel> } | { ok: false; error: string } {
+  if (input === undefined || input === null) return { ok: true, data: {} };
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { ok: false, error: "answers must be an object of symptom id to answer" };
+  }
+
+  const data: Record<number, FuzzyLevel> = {};
+  for (const [key, answer] of Object.entries(input as Record<string, unknown>)) {
+    const id = Number(key);
+    if (!symptoms.some((s) => s.id === id)) return { ok: false, error: `Unknown symptom ${key}` };
+    if (!FUZZY_LEVELS.includes(answer as FuzzyLevel)) {
+      return { ok: false, error: `answers.${key} must be one of ${FUZZY_LEVELS.join(", ")}` };
+    }
+    data[id] = answer as FuzzyLevel;
+  }
+  return { ok: true, data };
 }
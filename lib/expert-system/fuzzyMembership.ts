@@ -1,4 +1,8 @@
 //fuzzy level
+import type { RuleValues } from "../alertRules";
+import { getThreshold, PARAMETER_CONFIG, type ParameterType, type ThresholdProfiles } from "../thresholds";
+import { symptoms } from "./symptoms";
+
 export type FuzzyLevel = "No" | "Sometimes" | "Yes";
 
 export function fuzzyLevelToValue(level: FuzzyLevel): number {
@@ -13,3 +17,146 @@ export function fuzzyLevelToValue(level: FuzzyLevel): number {
       return 0;
   }
 }
+
+// Derajat gejala dari nilai sensor (0-1), supaya kuesioner terisi otomatis
+
+// triangular: naik a→b, turun b→c
+// trapezoidal: naik a→b, penuh b→c, turun c→d (c = d = Infinity untuk bahu kanan)
+export type MembershipFunction =
+  | { type: "triangular"; a: number; b: number; c: number }
+  | { type: "trapezoidal"; a: number; b: number; c: number; d: number };
+
+export interface SensorSymptomSource {
+  symptomId: number;
+  // Nilai sensor dalam satuan kanonik (lib/units.ts)
+  parameter: ParameterType;
+  // Fungsi keanggotaan tetap; tanpa ini diturunkan dari threshold motor
+  membership?: MembershipFunction;
+}
+
+export interface SensorSymptom extends SensorSymptomSource {
+  membership: MembershipFunction;
+}
+
+// Parameter yang mengukur gejala; beberapa untuk gejala yang sama digabung dengan MAX
+export const SENSOR_SYMPTOMS: SensorSymptomSource[] = [
+  // Motor rotation is slow: arus naik saat slip besar (beban berat / rotor tertahan)
+  { symptomId: 3, parameter: "motorCurrent" },
+  // Motor heats up quickly: kenaikan suhu permukaan di atas ambient, atau bearing panas
+  { symptomId: 4, parameter: "tempGradient" },
+  { symptomId: 4, parameter: "bearingTemp" },
+  // Excessive vibration: zona ISO 10816 motor
+  { symptomId: 7, parameter: "vibrationRms" },
+];
+
+// Fungsi keanggotaan dari threshold motor (profil, nameplate, kelas): derajat 0 di batas
+// warning, naik ke 1 di batas critical (bahu kanan). Parameter tanpa batas atas dilewati.
+// Sumber dengan fungsi sendiri (membership) dipakai apa adanya
+export function sensorSymptomMemberships(
+  thresholds?: ThresholdProfiles | null,
+  sources: SensorSymptomSource[] = SENSOR_SYMPTOMS
+): SensorSymptom[] {
+  return sources.flatMap((source): SensorSymptom[] => {
+    if (source.membership) return [{ ...source, membership: source.membership }];
+    const { direction, warningHigh, criticalHigh } = getThreshold(source.parameter, thresholds);
+    const warning = warningHigh ?? criticalHigh;
+    const critical = criticalHigh ?? warningHigh;
+    if (direction !== "high" || warning === null || warning === undefined || critical === null || critical === undefined) {
+      return [];
+    }
+    return [
+      { ...source, membership: { type: "trapezoidal", a: warning, b: Math.max(warning, critical), c: Infinity, d: Infinity } },
+    ];
+  });
+}
+
+export function membershipDegree(fn: MembershipFunction, x: number): number {
+  const [a, b, c, d] = fn.type === "triangular" ? [fn.a, fn.b, fn.b, fn.c] : [fn.a, fn.b, fn.c, fn.d];
+  if (x < a || x > d) return 0;
+  if (x >= b && x <= c) return 1;
+  if (x < b) return (x - a) / (b - a);
+  return (d - x) / (d - c);
+}
+
+// Derajat tiap gejala yang bisa diukur; gejala tanpa nilai sensor tidak ada di hasil.
+// Tanpa config: fungsi dari threshold default (sensorSymptomMemberships)
+export function sensorSymptomDegrees(
+  values: RuleValues,
+  config: SensorSymptom[] = sensorSymptomMemberships()
+): Record<number, number> {
+  const degrees: Record<number, number> = {};
+  for (const { symptomId, parameter, membership } of config) {
+    const value = values[parameter];
+    if (value === null || value === undefined) continue;
+    degrees[symptomId] = Math.max(degrees[symptomId] ?? 0, membershipDegree(membership, value));
+  }
+  return degrees;
+}
+
+export const MAX_SENSOR_SYMPTOMS = 20;
+
+// Titik fungsi keanggotaan dari request; c/d null = Infinity (bahu kanan, JSON tidak punya Infinity)
+function validateMembership(
+  input: unknown,
+  path: string
+): { ok: true; data: MembershipFunction } | { ok: false; error: string } {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return { ok: false, error: `${path} must be an object` };
+  }
+  const fn = input as Record<string, unknown>;
+  const keys = fn.type === "triangular" ? ["a", "b", "c"] : fn.type === "trapezoidal" ? ["a", "b", "c", "d"] : null;
+  if (!keys) return { ok: false, error: `${path}.type must be one of triangular, trapezoidal` };
+
+  const points: number[] = [];
+  for (const key of keys) {
+    const value = fn[key];
+    const shoulder = fn.type === "trapezoidal" && (key === "c" || key === "d") && value === null;
+    if (!shoulder && (typeof value !== "number" || !Number.isFinite(value))) {
+      return { ok: false, error: `${path}.${key} must be a finite number` };
+    }
+    points.push(shoulder ? Infinity : (value as number));
+  }
+  if (points.some((point, i) => i > 0 && point < points[i - 1]) || points[0] === points[points.length - 1]) {
+    return { ok: false, error: `${path} points must be ascending (${keys.join(" ≤ ")}) with ${keys[0]} below ${keys[keys.length - 1]}` };
+  }
+
+  const [a, b, c, d] = points;
+  return { ok: true, data: fn.type === "triangular" ? { type: "triangular", a, b, c } : { type: "trapezoidal", a, b, c, d } };
+}
+
+/**
+ * Validate sensor symptom sources from a request:
+ * `[{ symptomId, parameter, membership?: { type: "triangular", a, b, c } | { type: "trapezoidal", a, b, c, d } }]`.
+ * Omitted: SENSOR_SYMPTOMS. Sources without `membership` derive it from the thresholds.
+ */
+export function validateSensorSymptoms(
+  input: unknown
+): { ok: true; data: SensorSymptomSource[] } | { ok: false; error: string } {
+  if (input === undefined || input === null) return { ok: true, data: SENSOR_SYMPTOMS };
+  if (!Array.isArray(input) || input.length > MAX_SENSOR_SYMPTOMS) {
+    return { ok: false, error: `sensorSymptoms must be an array of at most ${MAX_SENSOR_SYMPTOMS} sources` };
+  }
+
+  const data: SensorSymptomSource[] = [];
+  for (let i = 0; i < input.length; i++) {
+    const entry: unknown = input[i];
+    const path = `sensorSymptoms[${i}]`;
+    if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+      return { ok: false, error: `${path} must be an object` };
+    }
+    const { symptomId, parameter, membership } = entry as Record<string, unknown>;
+    if (!symptoms.some((s) => s.id === symptomId)) return { ok: false, error: `${path}.symptomId must be a known symptom` };
+    if (typeof parameter !== "string" || !(parameter in PARAMETER_CONFIG)) {
+      return { ok: false, error: `${path}.parameter must be one of ${Object.keys(PARAMETER_CONFIG).join(", ")}` };
+    }
+
+    const source: SensorSymptomSource = { symptomId: symptomId as number, parameter: parameter as ParameterType };
+    if (membership !== undefined) {
+      const fn = validateMembership(membership, `${path}.membership`);
+      if (!fn.ok) return fn;
+      source.membership = fn.data;
+    }
+    data.push(source);
+  }
+  return { ok: true, data };
+}
@@ -0,0 +1,205 @@
+/**
+ * Mechasense - Mamdani Severity Inference
+ *
+ * Severity of the diagnosis as a fuzzy output variable on a 0-100 universe
+ * of discourse, with the linguistic terms Ringan / Sedang / Berat. Each
+ * fired rule (./ruleEngine) implies the term of its damage level, with its
+ * certainty as firing strength:
+ *
+ * - implication: "min" clips the term at the strength, "product" scales it
+ * - aggregation: "max" of the implied sets, or bounded "sum" (capped at 1)
+ * - defuzzification: "centroid" (centre of area), "bisector" (splits the
+ *   area in half) or "mom" (mean of the points of maximum membership)
+ *
+ * Every curve is sampled on the universe and returned, so the AI Center
+ * can plot the inference step by step, and re-infer a result with other
+ * methods from its implied sets (reinferSeverity). Client-safe.
+ */
+
+import { membershipDegree, type MembershipFunction } from "./fuzzyMembership";
+import type { DamageLevel, FiredRule } from "./ruleEngine";
+
+export type SeverityTerm = "Ringan" | "Sedang" | "Berat";
+export type Implication = "min" | "product";
+export type Aggregation = "max" | "sum";
+export type Defuzzification = "centroid" | "bisector" | "mom";
+
+export const SEVERITY_TERMS: SeverityTerm[] = ["Ringan", "Sedang", "Berat"];
+export const IMPLICATIONS: Implication[] = ["min", "product"];
+export const AGGREGATIONS: Aggregation[] = ["max", "sum"];
+export const DEFUZZIFICATIONS: Defuzzification[] = ["centroid", "bisector", "mom"];
+
+/** Universe of discourse of severity, sampled every `step` */
+export const SEVERITY_UNIVERSE = { min: 0, max: 100, step: 1 };
+
+/** Output sets of severity */
+export const SEVERITY_SETS: Record<SeverityTerm, MembershipFunction> = {
+  Ringan: { type: "trapezoidal", a: 0, b: 0, c: 20, d: 45 },
+  Sedang: { type: "triangular", a: 30, b: 50, c: 70 },
+  Berat: { type: "trapezoidal", a: 55, b: 80, c: 100, d: 100 },
+};
+
+/** Consequent of a rule: its damage level (A minor, B moderate, C severe) */
+export const LEVEL_TERMS: Record<DamageLevel, SeverityTerm> = {
+  A: "Ringan",
+  B: "Sedang",
+  C: "Berat",
+};
+
+export interface InferenceOptions {
+  implication: Implication;
+  aggregation: Aggregation;
+  defuzzification: Defuzzification;
+}
+
+export const DEFAULT_INFERENCE: InferenceOptions = {
+  implication: "min",
+  aggregation: "max",
+  defuzzification: "centroid",
+};
+
+export interface ImpliedSet {
+  ruleId: string;
+  term: SeverityTerm;
+  /** Firing strength: the rule's certainty */
+  strength: number;
+  membership: number[];
+}
+
+export interface MamdaniResult {
+  options: InferenceOptions;
+  /** Sample points of the universe */
+  universe: number[];
+  /** Output sets sampled on the universe */
+  terms: Record<SeverityTerm, number[]>;
+  /** Each fired rule's consequent after implication */
+  implied: ImpliedSet[];
+  aggregated: number[];
+  /** Defuzzified severity, null when no rule fired */
+  crisp: number | null;
+  /** Term with the highest membership at `crisp` */
+  term: SeverityTerm | null;
+}
+
+function sampleUniverse(): number[] {
+  const { min, max, step } = SEVERITY_UNIVERSE;
+  const points: number[] = [];
+  for (let i = 0; min + i * step <= max; i++) points.push(min + i * step);
+  return points;
+}
+
+function defuzzify(universe: number[], membership: number[], method: Defuzzification): number | null {
+  const area = membership.reduce((sum, mu) => sum + mu, 0);
+  if (area <= 0) return null;
+
+  switch (method) {
+    case "centroid":
+      return universe.reduce((sum, x, i) => sum + x * membership[i], 0) / area;
+    case "bisector": {
+      let cumulative = 0;
+      for (let i = 0; i < universe.length; i++) {
+        cumulative += membership[i];
+        if (cumulative >= area / 2) return universe[i];
+      }
+      return universe[universe.length - 1];
+    }
+    case "mom": {
+      const peak = Math.max(...membership);
+      const maxima = universe.filter((_, i) => membership[i] >= peak - 1e-9);
+      return maxima.reduce((sum, x) => sum + x, 0) / maxima.length;
+    }
+  }
+}
+
+/**
+ * Mamdani inference of severity from the fired rules
+ */
+export function inferSeverity(fired: FiredRule[], options: InferenceOptions = DEFAULT_INFERENCE): MamdaniResult {
+  return inferConsequents(
+    fired.map(({ rule, certainty }) => ({ ruleId: rule.id, term: LEVEL_TERMS[rule.level], strength: certainty })),
+    options
+  );
+}
+
+/**
+ * The same inference with other methods, from the rules `result` implied,
+ * without running the diagnosis again
+ */
+export function reinferSeverity(result: MamdaniResult, options: InferenceOptions): MamdaniResult {
+  return inferConsequents(result.implied, options);
+}
+
+function inferConsequents(
+  consequents: Omit<ImpliedSet, "membership">[],
+  options: InferenceOptions
+): MamdaniResult {
+  const universe = sampleUniverse();
+  const terms = Object.fromEntries(
+    SEVERITY_TERMS.map((term) => [term, universe.map((x) => membershipDegree(SEVERITY_SETS[term], x))])
+  ) as Record<SeverityTerm, number[]>;
+
+  const implied: ImpliedSet[] = consequents.map(({ ruleId, term, strength }) => ({
+    ruleId,
+    term,
+    strength,
+    membership: terms[term].map((mu) => (options.implication === "min" ? Math.min(mu, strength) : mu * strength)),
+  }));
+
+  const aggregated = universe.map((_, i) => {
+    const values = implied.map((set) => set.membership[i]);
+    if (options.aggregation === "max") return Math.max(0, ...values);
+    return Math.min(1, values.reduce((sum, mu) => sum + mu, 0));
+  });
+
+  const crisp = defuzzify(universe, aggregated, options.defuzzification);
+  let term: SeverityTerm | null = null;
+  if (crisp !== null) {
+    term = SEVERITY_TERMS.reduce((best, t) =>
+      membershipDegree(SEVERITY_SETS[t], crisp) > membershipDegree(SEVERITY_SETS[best], crisp) ? t : best
+    );
+  }
+
+  return {
+    options,
+    universe,
+    terms,
+    implied,
+    aggregated,
+    crisp: crisp === null ? null : Number(crisp.toFixed(1)),
+    term,
+  };
+}
+
+/**
+ * Validate inference options from a request; missing ones take the defaults
+ */
+export function validateInferenceOptions(
+  input: unknown
+): { ok: true; data: InferenceOptions } | { ok: false; error: string } {
+  if (input === undefined || input === null) return { ok: true, data: DEFAULT_INFERENCE };
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { ok: false, error: "inference must be an object" };
+  }
+  const { implication, aggregation, defuzzification } = input as Record<string, unknown>;
+  const data: InferenceOptions = { ...DEFAULT_INFERENCE };
+
+  if (implication !== undefined) {
+    if (!IMPLICATIONS.includes(implication as Implication)) {
+      return { ok: false, error: `inference.implication must be one of ${IMPLICATIONS.join(", ")}` };
+    }
+    data.implication = implication as Implication;
+  }
+  if (aggregation !== undefined) {
+    if (!AGGREGATIONS.includes(aggregation as Aggregation)) {
+      return { ok: false, error: `inference.aggregation must be one of ${AGGREGATIONS.join(", ")}` };
+    }
+    data.aggregation = aggregation as Aggregation;
+  }
+  if (defuzzification !== undefined) {
+    if (!DEFUZZIFICATIONS.includes(defuzzification as Defuzzification)) {
+      return { ok: false, error: `inference.defuzzification must be one of ${DEFUZZIFICATIONS.join(", ")}` };
+    }
+    data.defuzzification = defuzzification as Defuzzification;
+  }
+  return { ok: true, data };
+}
@@ -0,0 +1,333 @@
+/**
+ * Mechasense - Expert System Rule Engine
+ *
+ * Diagnosis rules are condition trees over symptom answers and sensor
+ * facts, in the same shape as the compound alert rules (lib/alertRules.ts):
+ *
+ * - `{ op: "symptom", symptom }` - degree the symptom is present, 0-1
+ *   (answer × the symptom's expert CF)
+ * - `{ op: "compare", ... }` / `{ op: "level", ... }` - sensor facts, 1 or 0
+ * - `{ op: "and" | "or", args: [...] }` and `{ op: "not", arg }`
+ *
+ * A fact may be unknown (unanswered symptom, unmeasured parameter), with
+ * the three-valued logic of evaluateRule: AND is unknown when any argument
+ * is, unless one is already 0; OR is unknown when any argument is, unless
+ * one is already 1; NOT of unknown is unknown. One exception: an unmeasured
+ * sensor fact in an OR does not count once another argument holds above 0,
+ * so "vibration AND (rough sound OR hot bearing)" fires from the answers
+ * on a motor without a bearing sensor. A rule fires only on a known premise
+ * above 0.
+ *
+ * Two combination semantics, chosen explicitly:
+ *
+ * - "fuzzy" (Zadeh): AND = MIN, OR = MAX, NOT = 1 - x. A rule concludes its
+ *   premise degree × the rule certainty; rules reaching the same damage type
+ *   combine by MAX.
+ * - "certainty" (MYCIN certainty factors): premises as in "fuzzy", and rules
+ *   reaching the same damage type combine as cf1 + cf2 × (1 - cf1), so
+ *   independent evidence reinforces the conclusion.
+ *
+ * Rules are applied by salience (higher first); ties between conclusions
+ * go to the higher salience. Every rule is traced: fired rules carry the
+ * facts that satisfied each condition, rules that did not fire but had part
+ * of their premise satisfied are near misses with the facts they lacked.
+ * Pure and client-safe: the AI Center and the server run the same code.
+ */
+
+import { evaluateRule, formatRuleExpression, type RuleComparator, type RuleValues } from "../alertRules";
+import type { ParameterType, StatusLevel, ThresholdProfiles } from "../thresholds";
+import { fuzzyLevelToValue, type FuzzyLevel } from "./fuzzyMembership";
+import type { Symptom } from "./symptoms";
+
+export type DamageLevel = "A" | "B" | "C";
+
+export type RuleCondition =
+  | { op: "and" | "or"; args: RuleCondition[] }
+  | { op: "not"; arg: RuleCondition }
+  | { op: "symptom"; symptom: number }
+  | { op: "compare"; parameter: ParameterType; comparator: RuleComparator; value: number }
+  | { op: "level"; parameter: ParameterType; level: StatusLevel };
+
+export type CombinationSemantics = "fuzzy" | "certainty";
+
+export interface ExpertRule {
+  id: string;
+  /** Premise over symptoms and sensor facts */
+  when: RuleCondition;
+  /** Certainty of the conclusion when the premise fully holds, 0-1 */
+  certainty: number;
+  /** Higher is applied first and wins ties; specific rules rank above single-symptom ones */
+  salience: number;
+  damageType: string;
+  level: DamageLevel;
+  damage: string;
+  solution: string;
+}
+
+/** Where a symptom fact came from */
+export type FactSource = "answer" | "sensor";
+
+export interface RuleFacts {
+  /** Degree each known symptom is present, 0-1; unanswered symptoms are left out (unknown) */
+  symptoms: Record<number, number>;
+  symptomSources?: Record<number, FactSource>;
+  /** Sensor values in canonical units, null when not measured */
+  values?: RuleValues;
+  /** Motor's threshold profiles, for level conditions */
+  thresholds?: ThresholdProfiles | null;
+}
+
+/** A condition evaluated against the facts, with its sub-conditions */
+export interface ConditionTrace {
+  op: RuleCondition["op"];
+  /** Degree it holds, 0-1, null when unknown */
+  value: number | null;
+  /** Readable form, e.g. "Excessive vibration AND Bearing Temp is critical" */
+  label: string;
+  /** Symptom facts: answered by the user or derived from a sensor */
+  source?: FactSource;
+  /** Sensor facts: the value evaluated */
+  measured?: number | null;
+  children?: ConditionTrace[];
+}
+
+export interface FiredRule {
+  rule: ExpertRule;
+  /** Degree the premise holds, 0-1 */
+  activation: number;
+  /** activation × rule certainty */
+  certainty: number;
+  trace: ConditionTrace;
+}
+
+export interface NearMiss {
+  rule: ExpertRule;
+  trace: ConditionTrace;
+  /** Facts that held */
+  satisfied: ConditionTrace[];
+  /** Facts that did not hold or are unknown */
+  missing: ConditionTrace[];
+}
+
+/** One step of combining the rules of a conclusion */
+export interface CombinationStep {
+  ruleId: string;
+  certainty: number;
+  /** Combined certainty after this rule */
+  combined: number;
+}
+
+export interface Conclusion {
+  damageType: string;
+  /** Combined certainty of the rules reaching it */
+  certainty: number;
+  /** Most severe level among those rules */
+  level: DamageLevel;
+  salience: number;
+  rules: FiredRule[];
+  /** How the rules' certainties were combined, in order */
+  steps: CombinationStep[];
+}
+
+const LEVEL_RANK: Record<DamageLevel, number> = { A: 1, B: 2, C: 3 };
+
+/**
+ * MYCIN combination of positive certainty factors
+ */
+export function combineCertainty(values: number[]): number {
+  return values.reduce((cf, v) => cf + v * (1 - cf), 0);
+}
+
+/**
+ * Symptom facts: degree × the symptom's expert CF. The degree is the user's
+ * answer, or for unanswered symptoms the sensor-derived degree
+ * (sensorSymptomDegrees in ./fuzzyMembership), if any.
+ */
+export function symptomFacts(
+  answers: Record<number, FuzzyLevel>,
+  symptoms: Symptom[],
+  sensorDegrees: Record<number, number> = {}
+): Record<number, number> {
+  const facts: Record<number, number> = {};
+  for (const symptom of symptoms) {
+    const answer = answers[symptom.id];
+    const degree = answer ? fuzzyLevelToValue(answer) : sensorDegrees[symptom.id];
+    if (degree !== undefined) facts[symptom.id] = degree * symptom.cfExpert;
+  }
+  return facts;
+}
+
+function andDegree(results: (number | null)[]): number | null {
+  if (results.includes(0)) return 0;
+  if (results.includes(null)) return null;
+  return Math.min(...(results as number[]));
+}
+
+/** Sensor facts (compare/level), which an OR leaves out while unmeasured */
+function isSensorFact(condition: { op: RuleCondition["op"] }): boolean {
+  return condition.op === "compare" || condition.op === "level";
+}
+
+function orDegree(results: (number | null)[], sensorFacts: boolean[] = []): number | null {
+  if (results.includes(1)) return 1;
+  // An unmeasured sensor does not hold the OR back when another argument holds
+  const counted = results.some((result) => result !== null && result > 0)
+    ? results.filter((result, i) => result !== null || !sensorFacts[i])
+    : results;
+  if (counted.includes(null)) return null;
+  return Math.max(...(counted as number[]));
+}
+
+/**
+ * Degree a condition holds, 0-1, or null when it depends on unknown facts
+ */
+export function evaluateCondition(condition: RuleCondition, facts: RuleFacts): number | null {
+  switch (condition.op) {
+    case "and":
+      return andDegree(condition.args.map((arg) => evaluateCondition(arg, facts)));
+    case "or":
+      return orDegree(condition.args.map((arg) => evaluateCondition(arg, facts)), condition.args.map(isSensorFact));
+    case "not": {
+      const result = evaluateCondition(condition.arg, facts);
+      return result === null ? null : 1 - result;
+    }
+    case "symptom":
+      return facts.symptoms[condition.symptom] ?? null;
+    case "compare":
+    case "level": {
+      const result = evaluateRule(condition, facts.values ?? {}, facts.thresholds);
+      return result === null ? null : result ? 1 : 0;
+    }
+  }
+}
+
+/**
+ * Evaluate a condition like evaluateCondition, keeping the value and the
+ * facts behind every sub-condition. `symptomLabel` names symptom facts.
+ */
+export function traceCondition(
+  condition: RuleCondition,
+  facts: RuleFacts,
+  symptomLabel: (id: number) => string = (id) => `Symptom ${id}`
+): ConditionTrace {
+  const group = (trace: ConditionTrace) => (trace.children && trace.op !== "not" ? `(${trace.label})` : trace.label);
+
+  switch (condition.op) {
+    case "and":
+    case "or": {
+      const children = condition.args.map((arg) => traceCondition(arg, facts, symptomLabel));
+      const values = children.map((child) => child.value);
+      return {
+        op: condition.op,
+        value: condition.op === "and" ? andDegree(values) : orDegree(values, condition.args.map(isSensorFact)),
+        label: children.map(group).join(condition.op === "and" ? " AND " : " OR "),
+        children,
+      };
+    }
+    case "not": {
+      const child = traceCondition(condition.arg, facts, symptomLabel);
+      return { op: "not", value: child.value === null ? null : 1 - child.value, label: `NOT ${group(child)}`, children: [child] };
+    }
+    case "symptom":
+      return {
+        op: "symptom",
+        value: facts.symptoms[condition.symptom] ?? null,
+        label: symptomLabel(condition.symptom),
+        source: facts.symptomSources?.[condition.symptom],
+      };
+    case "compare":
+    case "level":
+      return {
+        op: condition.op,
+        value: evaluateCondition(condition, facts),
+        label: formatRuleExpression(condition),
+        measured: facts.values?.[condition.parameter] ?? null,
+      };
+  }
+}
+
+/**
+ * Facts of a trace that count for the rule (held) and against it (did not
+ * hold or unknown); under NOT a fact that holds counts against
+ */
+export function traceFacts(trace: ConditionTrace, negated = false): { satisfied: ConditionTrace[]; missing: ConditionTrace[] } {
+  if (trace.children) {
+    const parts = trace.children.map((child) => traceFacts(child, trace.op === "not" ? !negated : negated));
+    return {
+      satisfied: parts.flatMap((part) => part.satisfied),
+      missing: parts.flatMap((part) => part.missing),
+    };
+  }
+  const holds = trace.value !== null && (negated ? trace.value < 1 : trace.value > 0);
+  return holds ? { satisfied: [trace], missing: [] } : { satisfied: [], missing: [trace] };
+}
+
+/**
+ * Symptoms a condition refers to, in order of appearance
+ */
+export function conditionSymptoms(condition: RuleCondition): number[] {
+  switch (condition.op) {
+    case "and":
+    case "or":
+      return Array.from(new Set(condition.args.flatMap(conditionSymptoms)));
+    case "not":
+      return conditionSymptoms(condition.arg);
+    case "symptom":
+      return [condition.symptom];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Apply the rules to the facts. `fired` lists the rules whose premise
+ * holds, by salience then certainty; `conclusions` groups them by damage
+ * type, most certain first; `nearMisses` are the rules that did not fire
+ * although part of their premise held.
+ */
+export function runRules(
+  rules: ExpertRule[],
+  facts: RuleFacts,
+  semantics: CombinationSemantics = "certainty",
+  symptomLabel?: (id: number) => string
+): { fired: FiredRule[]; conclusions: Conclusion[]; nearMisses: NearMiss[] } {
+  const fired: FiredRule[] = [];
+  const nearMisses: NearMiss[] = [];
+  for (const rule of [...rules].sort((a, b) => b.salience - a.salience)) {
+    const trace = traceCondition(rule.when, facts, symptomLabel);
+    const activation = trace.value;
+    if (activation === null || activation <= 0) {
+      const { satisfied, missing } = traceFacts(trace);
+      if (satisfied.length > 0) nearMisses.push({ rule, trace, satisfied, missing });
+      continue;
+    }
+    fired.push({ rule, activation, certainty: activation * rule.certainty, trace });
+  }
+  fired.sort((a, b) => b.rule.salience - a.rule.salience || b.certainty - a.certainty);
+
+  const byDamage = new Map<string, FiredRule[]>();
+  for (const item of fired) {
+    byDamage.set(item.rule.damageType, [...(byDamage.get(item.rule.damageType) ?? []), item]);
+  }
+
+  const conclusions: Conclusion[] = Array.from(byDamage, ([damageType, items]) => {
+    const steps: CombinationStep[] = [];
+    for (const item of items) {
+      const previous = steps.length > 0 ? steps[steps.length - 1].combined : 0;
+      const combined =
+        semantics === "fuzzy" ? Math.max(previous, item.certainty) : combineCertainty([previous, item.certainty]);
+      steps.push({ ruleId: item.rule.id, certainty: item.certainty, combined });
+    }
+    return {
+      damageType,
+      certainty: steps[steps.length - 1].combined,
+      level: items.reduce((worst, item) => (LEVEL_RANK[item.rule.level] > LEVEL_RANK[worst] ? item.rule.level : worst), items[0].rule.level),
+      salience: Math.max(...items.map((item) => item.rule.salience)),
+      rules: items,
+      steps,
+    };
+  });
+  conclusions.sort((a, b) => b.certainty - a.certainty || b.salience - a.salience);
+
+  return { fired, conclusions, nearMisses };
+}
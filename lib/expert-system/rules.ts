@@ -1,21 +1,16 @@
 //membuat rules untuk sitem pakar
-export type DamageLevel = "A" | "B" | "C";
+// Kondisi bisa digabung dengan and/or/not dan fakta sensor, lihat ./ruleEngine
+import type { DamageLevel, ExpertRule } from "./ruleEngine";
 
-export interface Rule {
-  id: string;
-  symptoms: number[];
-  operator: "OR";
-  damageType: string;
-  level: DamageLevel;
-  damage: string;
-  solution: string;
-}
+export type { DamageLevel };
+export type Rule = ExpertRule;
 
 export const rules: Rule[] = [
   {
     id: "R1",
-    symptoms: [1],
-    operator: "OR",
+    when: { op: "symptom", symptom: 1 },
+    certainty: 1,
+    salience: 0,
     damageType: "A",
     level: "A",
     damage: "Damage to capacitor/winding/power supply. Motor does not produce initial torque due to capacitor damage, broken start winding, or no power supply to the motor.",
@@ -23,8 +18,9 @@ export const rules: Rule[] = [
   },
   {
     id: "R2",
-    symptoms: [2],
-    operator: "OR",
+    when: { op: "symptom", symptom: 2 },
+    certainty: 1,
+    salience: 0,
     damageType: "B",
     level: "B",
     damage: "Damage to power supply/capacitor. Motor fails to start despite current flowing, due to decreased capacitor value or capacitor damage.",
@@ -32,8 +28,9 @@ export const rules: Rule[] = [
   },
   {
     id: "R3",
-    symptoms: [3],
-    operator: "OR",
+    when: { op: "symptom", symptom: 3 },
+    certainty: 1,
+    salience: 0,
     damageType: "C",
     level: "A",
     damage: "Damage to winding. Motor torque is not optimal due to voltage drop or weakened capacitor.",
@@ -41,8 +38,9 @@ export const rules: Rule[] = [
   },
   {
     id: "R4",
-    symptoms: [4],
-    operator: "OR",
+    when: { op: "symptom", symptom: 4 },
+    certainty: 1,
+    salience: 0,
     damageType: "D",
     level: "B",
     damage: "Burned winding damage. Excessive current in coil due to overload or short winding.",
@@ -50,8 +48,9 @@ export const rules: Rule[] = [
   },
   {
     id: "R5",
-    symptoms: [5],
-    operator: "OR",
+    when: { op: "symptom", symptom: 5 },
+    certainty: 1,
+    salience: 0,
     damageType: "E",
     level: "C",
     damage: "Burned winding damage. Winding burned due to damaged wire insulation from excessive heat, caused by short circuit or cooling fan damage.",
@@ -59,8 +58,9 @@ export const rules: Rule[] = [
   },
   {
     id: "R6",
-    symptoms: [6],
-    operator: "OR",
+    when: { op: "symptom", symptom: 6 },
+    certainty: 1,
+    salience: 0,
     damageType: "F",
     level: "B",
     damage: "Electrical (supply) damage. Electrical protection activated due to excessive current, caused by short circuit or overload.",
@@ -68,8 +68,9 @@ export const rules: Rule[] = [
   },
   {
     id: "R7",
-    symptoms: [7],
-    operator: "OR",
+    when: { op: "symptom", symptom: 7 },
+    certainty: 1,
+    salience: 0,
     damageType: "G",
     level: "B",
     damage: "Bearing damage. Motor rotation is unbalanced due to misaligned bearing, wear, or lack of lubrication.",
@@ -77,8 +78,9 @@ export const rules: Rule[] = [
   },
   {
     id: "R8",
-    symptoms: [8],
-    operator: "OR",
+    when: { op: "symptom", symptom: 8 },
+    certainty: 1,
+    salience: 0,
     damageType: "H",
     level: "C",
     damage: "Mechanical damage. Excessive mechanical friction due to misaligned or worn mechanical components.",
@@ -86,8 +88,9 @@ export const rules: Rule[] = [
   },
   {
     id: "R9",
-    symptoms: [9],
-    operator: "OR",
+    when: { op: "symptom", symptom: 9 },
+    certainty: 1,
+    salience: 0,
     damageType: "I",
     level: "C",
     damage: "Capacitor damage. Physical damage to capacitor due to overvoltage or capacitor aging.",
@@ -95,11 +98,200 @@ export const rules: Rule[] = [
   },
   {
     id: "R10",
-    symptoms: [10],
-    operator: "OR",
+    when: { op: "symptom", symptom: 10 },
+    certainty: 1,
+    salience: 0,
     damageType: "J",
     level: "B",
     damage: "Capacitor/winding damage. Decreased motor efficiency due to reduced capacitor value or weakened winding coil.",
     solution: "Measure capacitor value and winding resistance to ensure both are still within specifications. Replace capacitor or repair winding if measurements are abnormal. This repair should be done immediately."
+  },
+  // Gejala gabungan: lebih spesifik dari rule satu gejala, jadi salience lebih tinggi
+  {
+    id: "R11",
+    when: {
+      op: "and",
+      args: [
+        { op: "symptom", symptom: 2 },
+        { op: "symptom", symptom: 3 },
+      ],
+    },
+    certainty: 0.9,
+    salience: 10,
+    damageType: "I",
+    level: "C",
+    damage: "Capacitor damage. Humming with slow rotation means the motor is energised but lacks starting torque, typical of a weakened or failed capacitor.",
+    solution: "Measure the capacitance and replace the capacitor if it is below the rated value or shows physical damage. Test the motor after replacement to ensure it reaches rated speed. This repair should be done immediately."
+  },
+  {
+    id: "R12",
+    when: {
+      op: "and",
+      args: [
+        { op: "symptom", symptom: 7 },
+        {
+          op: "or",
+          args: [
+            { op: "symptom", symptom: 8 },
+            { op: "level", parameter: "bearingTemp", level: "warning" },
+            { op: "level", parameter: "bearingTemp", level: "critical" },
+          ],
+        },
+      ],
+    },
+    certainty: 0.9,
+    salience: 10,
+    damageType: "G",
+    level: "C",
+    damage: "Bearing damage. Vibration together with abnormal sound or a hot bearing points to worn, dry or misaligned bearings.",
+    solution: "Stop the motor, check bearing play and lubrication, and replace the bearing if it is worn. Check shaft alignment before restarting. This repair should be done immediately."
+  },
+  {
+    id: "R13",
+    when: {
+      op: "and",
+      args: [
+        { op: "symptom", symptom: 4 },
+        {
+          op: "or",
+          args: [
+            { op: "symptom", symptom: 5 },
+            { op: "level", parameter: "motorSurfaceTemp", level: "critical" },
+          ],
+        },
+      ],
+    },
+    certainty: 0.95,
+    salience: 10,
+    damageType: "E",
+    level: "C",
+    damage: "Burned winding damage. Fast heating with a burning smell or a critical surface temperature means the winding insulation is overheating.",
+    solution: "Stop the motor immediately, measure winding insulation resistance, and rewind or replace the motor if the insulation is damaged. Check the cooling fan and motor load before restarting."
+  },
+  {
+    id: "R14",
+    when: {
+      op: "and",
+      args: [
+        { op: "symptom", symptom: 6 },
+        { op: "level", parameter: "motorCurrent", level: "critical" },
+      ],
+    },
+    certainty: 0.9,
+    salience: 10,
+    damageType: "F",
+    level: "C",
+    damage: "Electrical (supply) damage. Protection trips while the measured current is critical, caused by overload or a short circuit.",
+    solution: "Reduce the motor load and check for short circuits between windings and to the frame. Do not reset the protection repeatedly before the cause is found."
+  },
+  // Rule sensor saja (dulu R001-R007 di /api/expert/diagnose): dievaluasi dari pembacaan terakhir.
+  // Batasnya level terhadap threshold motor (profil, nameplate, kelas ISO 10816 / isolasi),
+  // "not normal" = warning atau critical
+  {
+    id: "S1",
+    when: {
+      op: "and",
+      args: [
+        { op: "level", parameter: "vibrationRms", level: "critical" },
+        { op: "level", parameter: "bearingTemp", level: "critical" },
+      ],
+    },
+    certainty: 0.9,
+    salience: 5,
+    damageType: "G",
+    level: "C",
+    damage: "Bearing damage. Critical vibration together with a critical bearing temperature indicates a failing bearing.",
+    solution: "Stop the motor and inspect the bearing immediately. Replace the bearing and check lubrication before restarting."
+  },
+  {
+    id: "S2",
+    when: {
+      op: "and",
+      args: [
+        { op: "level", parameter: "powerFactor", level: "critical" },
+        { op: "level", parameter: "motorCurrent", level: "critical" },
+      ],
+    },
+    certainty: 0.8,
+    salience: 5,
+    damageType: "D",
+    level: "B",
+    damage: "Motor overload. Low power factor with high current means the motor is carrying excessive load.",
+    solution: "Reduce the motor load. Check the transmission and coupling, and consider power factor correction."
+  },
+  {
+    id: "S3",
+    when: {
+      op: "and",
+      args: [
+        { op: "not", arg: { op: "level", parameter: "vibrationRms", level: "normal" } },
+        { op: "level", parameter: "bearingTemp", level: "normal" },
+        { op: "level", parameter: "motorSurfaceTemp", level: "normal" },
+      ],
+    },
+    certainty: 0.7,
+    salience: 5,
+    damageType: "H",
+    level: "B",
+    damage: "Misalignment or rotor unbalance. Elevated vibration while temperatures stay normal points to a mechanical cause.",
+    solution: "Perform an alignment check and inspect the coupling. Balance the rotor if needed."
+  },
+  {
+    id: "S4",
+    when: {
+      op: "and",
+      args: [
+        { op: "level", parameter: "motorSurfaceTemp", level: "critical" },
+        { op: "level", parameter: "vibrationRms", level: "normal" },
+      ],
+    },
+    certainty: 0.7,
+    salience: 5,
+    damageType: "K",
+    level: "B",
+    damage: "Cooling or ventilation problem. The motor runs hot while vibration is normal.",
+    solution: "Clean the motor fan and air passages, and make sure the room is adequately ventilated."
+  },
+  {
+    id: "S5",
+    when: {
+      op: "and",
+      args: [
+        { op: "level", parameter: "dustDensity", level: "critical" },
+        { op: "not", arg: { op: "level", parameter: "soilingLossPercent", level: "normal" } },
+      ],
+    },
+    certainty: 0.6,
+    salience: 5,
+    damageType: "L",
+    level: "A",
+    damage: "Dust accumulation. High dust density around the motor with a measurable efficiency loss reduces cooling and efficiency.",
+    solution: "Clean the motor and the surrounding area thoroughly. Consider additional air filtering."
+  },
+  {
+    id: "S6",
+    when: { op: "not", arg: { op: "level", parameter: "gridFrequency", level: "normal" } },
+    certainty: 0.8,
+    salience: 5,
+    damageType: "M",
+    level: "B",
+    damage: "Grid supply problem. Grid frequency is outside its normal band.",
+    solution: "Contact the electricity provider. Consider a UPS or voltage stabilizer."
+  },
+  {
+    id: "S7",
+    when: {
+      op: "and",
+      args: [
+        { op: "not", arg: { op: "level", parameter: "powerFactor", level: "normal" } },
+        { op: "not", arg: { op: "level", parameter: "motorCurrent", level: "critical" } },
+      ],
+    },
+    certainty: 0.6,
+    salience: 5,
+    damageType: "N",
+    level: "A",
+    damage: "Low power factor. The motor draws reactive power and runs inefficiently.",
+    solution: "Install a capacitor bank for power factor correction and check the motor winding condition."
   }
 ];
@@ -0,0 +1,113 @@
+/**
+ * Mechasense - Firebase Reading Units
+ *
+ * Units of the values the ESP firmware (IoT Code/Esp_to_Firebase) writes to
+ * sensor_data/latest, and helpers that convert them to the canonical units
+ * of lib/units.ts. Used by the dashboard hook and the AI Center.
+ */
+
+import type { ParameterType } from './thresholds';
+import { accelerationToVelocity, quantity, toCanonical, type Quantity, type Unit } from './units';
+
+export const FIREBASE_UNITS = {
+  voltage: 'V',
+  current: 'A',
+  power: 'W',
+  pf: '',
+  frequency: 'Hz',
+  apparent_power: 'VA',
+  load_index: '',
+  // Computed as rms_g * 9.81 * 1000: acceleration in mm/s², despite the key name
+  vibration_rms_mm_s: 'mm/s²',
+  vibration_peak_g: 'g',
+  crest_factor: '',
+  motor_temp: '°C',
+  ambient_temp: '°C',
+  bearing_temp: '°C',
+  delta_temp: '°C',
+  temp_gradient: '°C',
+  dust: 'µg/m³',
+} satisfies Record<string, Unit>;
+
+export type FirebaseKey = keyof typeof FIREBASE_UNITS;
+
+/** Firebase key of each parameter the firmware reports as-is */
+const PARAMETER_KEYS: Partial<Record<ParameterType, FirebaseKey>> = {
+  gridVoltage: 'voltage',
+  motorCurrent: 'current',
+  power: 'power',
+  powerFactor: 'pf',
+  gridFrequency: 'frequency',
+  apparentPower: 'apparent_power',
+  loadIndex: 'load_index',
+  vibrationPeakG: 'vibration_peak_g',
+  crestFactor: 'crest_factor',
+  motorSurfaceTemp: 'motor_temp',
+  ambientTemp: 'ambient_temp',
+  bearingTemp: 'bearing_temp',
+  deltaTemp: 'delta_temp',
+  tempGradient: 'temp_gradient',
+  dustDensity: 'dust',
+};
+
+/** Pole pairs of the monitored motor (4-pole, see Motor3DModel) */
+const POLE_PAIRS = 2;
+
+/**
+ * The finite number stored under `key` of a Firebase reading, if any
+ */
+function numberAt(raw: unknown, key: string): number | undefined {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+  const value = (raw as Record<string, unknown>)[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * A Firebase value tagged with its unit, or undefined when absent
+ */
+export function firebaseQuantity(raw: unknown, key: FirebaseKey): Quantity | undefined {
+  const value = numberAt(raw, key);
+  return value === undefined ? undefined : { value, unit: FIREBASE_UNITS[key] };
+}
+
+/**
+ * A Firebase value in the canonical unit of `parameter`.
+ * Throws UnitMismatchError when the key does not measure that parameter.
+ */
+export function firebaseValue(raw: unknown, key: FirebaseKey, parameter: ParameterType): number | undefined {
+  const q = firebaseQuantity(raw, key);
+  return q ? toCanonical(parameter, q) : undefined;
+}
+
+/**
+ * Vibration velocity RMS (mm/s) from the firmware's acceleration RMS,
+ * evaluated at the reported fault frequency or else the shaft frequency.
+ */
+export function firebaseVibrationRms(raw: unknown): number | undefined {
+  const acceleration = firebaseQuantity(raw, 'vibration_rms_mm_s');
+  if (!acceleration) return undefined;
+
+  const faultFrequency = numberAt(raw, 'fault_frequency') ?? numberAt(raw, 'faultFrequency') ?? 0;
+  const reportedFrequency = numberAt(raw, 'frequency') ?? 0;
+  const supplyFrequency = reportedFrequency > 0 ? reportedFrequency : 50;
+  const frequency = faultFrequency > 0 ? faultFrequency : supplyFrequency / POLE_PAIRS;
+
+  return toCanonical('vibrationRms', accelerationToVelocity(acceleration, frequency));
+}
+
+/**
+ * Every parameter of a Firebase reading as a unit-tagged quantity,
+ * e.g. for the /api/ml/predict request body
+ */
+export function firebaseTaggedReading(raw: unknown): Partial<Record<ParameterType, Quantity>> {
+  const reading: Partial<Record<ParameterType, Quantity>> = {};
+  for (const [parameter, key] of Object.entries(PARAMETER_KEYS) as [ParameterType, FirebaseKey][]) {
+    const q = firebaseQuantity(raw, key);
+    if (q) reading[parameter] = q;
+  }
+
+  const vibrationRms = firebaseVibrationRms(raw);
+  if (vibrationRms !== undefined) reading.vibrationRms = quantity(vibrationRms, 'mm/s');
+
+  return reading;
+}
@@ -0,0 +1,246 @@
+/**
+ * Mechasense - Health Analysis History
+ *
+ * The formula health score (lib/calculateHealthScore.ts) of stored readings,
+ * kept as HealthAnalysis rows with their sub-indices and factors, and
+ * change-point detection over the resulting series to flag sudden drops.
+ *
+ * A point is a change point when the mean score of the CHANGE_POINT_WINDOW
+ * analyses from it on is at least CHANGE_POINT_MIN_DROP points below the
+ * mean of the window before it, and the drop stands out from the noise of
+ * that window (CHANGE_POINT_NOISE_FACTOR standard deviations).
+ *
+ * Client-safe: ingest writes the rows, GET /api/health/history returns them
+ * with their change points and the AI Center charts them.
+ */
+
+import {
+  calculateHealthScore,
+  SUBSYSTEMS,
+  SUBSYSTEM_LABELS,
+  type HealthCategory,
+  type HealthFactor,
+  type HealthScoreResult,
+  type Subsystem,
+} from './calculateHealthScore';
+import type { StatusLevel, ThresholdProfiles } from './thresholds';
+
+/** A new analysis is stored at most this often per motor, unless the health changed */
+export const HEALTH_ANALYSIS_INTERVAL_MINUTES = 5;
+
+/** Analyses compared on each side of a candidate change point */
+export const CHANGE_POINT_WINDOW = 6;
+
+/** Smallest drop of the mean score flagged, points */
+export const CHANGE_POINT_MIN_DROP = 10;
+
+/** The drop must also exceed this many standard deviations of the window before it */
+export const CHANGE_POINT_NOISE_FACTOR = 3;
+
+/** Fewest analyses needed on each side (a drop at the end of the series is flagged early) */
+const MIN_SIDE_POINTS = 2;
+
+/** Most analyses returned by the history endpoint */
+export const MAX_HISTORY_POINTS = 2000;
+
+/** Measurement columns of a stored SensorReading the score uses */
+export interface StoredHealthReading {
+  gridVoltage?: number | null;
+  motorCurrent?: number | null;
+  powerFactor?: number | null;
+  gridFrequency?: number | null;
+  vibrationRms?: number | null;
+  motorSurfaceTemp?: number | null;
+  tempGradient?: number | null;
+  bearingTemp?: number | null;
+  dustDensity?: number | null;
+}
+
+/** HealthFactor as stored, without the display colors of its status */
+export interface StoredHealthFactor extends Omit<HealthFactor, 'status'> {
+  level: StatusLevel;
+}
+
+export interface HealthHistoryPoint {
+  id: string;
+  timestamp: string;
+  score: number;
+  category: HealthCategory;
+  confidence: number | null;
+  subIndices: Partial<Record<Subsystem, number>>;
+  factors: StoredHealthFactor[];
+}
+
+export interface HealthChangePoint {
+  /** First analysis after the drop */
+  timestamp: string;
+  index: number;
+  /** Mean score of the windows before and after */
+  before: number;
+  after: number;
+  drop: number;
+  /** Sub-index that fell the most, if any fell */
+  subsystem: Subsystem | null;
+  explanation: string;
+}
+
+/**
+ * Formula health score of a stored reading. The ESP's tempGradient is the
+ * rise above ambient; values the ingest schema rejected are null.
+ */
+export function scoreStoredReading(reading: StoredHealthReading, thresholds?: ThresholdProfiles | null): HealthScoreResult {
+  const value = (v: number | null | undefined) => v ?? undefined;
+  return calculateHealthScore(
+    {
+      gridVoltage: value(reading.gridVoltage),
+      motorCurrent: value(reading.motorCurrent),
+      powerFactor: value(reading.powerFactor),
+      gridFrequency: value(reading.gridFrequency),
+      vibrationRms: value(reading.vibrationRms),
+      motorSurfaceTemp: value(reading.motorSurfaceTemp),
+      tempGradient: value(reading.tempGradient),
+      bearingTemp: value(reading.bearingTemp),
+      dustDensity: value(reading.dustDensity),
+    },
+    thresholds
+  );
+}
+
+/**
+ * HealthAnalysis columns for a score
+ */
+export function toHealthAnalysisData(result: HealthScoreResult) {
+  const factors: StoredHealthFactor[] = result.factors.map(({ status, ...factor }) => ({ ...factor, level: status.level }));
+  return {
+    healthScore: result.score,
+    healthCategory: result.category,
+    confidence: result.confidence,
+    subIndices: JSON.stringify(Object.fromEntries(result.subIndices.map((s) => [s.subsystem, s.score]))),
+    factors: JSON.stringify(factors),
+  };
+}
+
+/**
+ * Whether a new score is worth storing after the motor's last analysis:
+ * every HEALTH_ANALYSIS_INTERVAL_MINUTES, and immediately when the category
+ * changes or the score moved by CHANGE_POINT_MIN_DROP. Readings not newer
+ * than the last analysis are never stored.
+ */
+export function isHealthAnalysisDue(
+  last: { timestamp: Date; healthScore: number | null; healthCategory: string } | null,
+  result: Pick<HealthScoreResult, 'score' | 'category'>,
+  timestamp: Date
+): boolean {
+  if (!last) return true;
+  const minutes = (timestamp.getTime() - last.timestamp.getTime()) / 60000;
+  if (minutes <= 0) return false;
+  return (
+    minutes >= HEALTH_ANALYSIS_INTERVAL_MINUTES ||
+    result.category !== last.healthCategory ||
+    Math.abs(result.score - (last.healthScore ?? result.score)) >= CHANGE_POINT_MIN_DROP
+  );
+}
+
+function parseJson<T>(text: string | null, fallback: T): T {
+  if (!text) return fallback;
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * History point of a HealthAnalysis row, or null when the row carries no
+ * formula score (expert diagnosis only)
+ */
+export function toHealthHistoryPoint(row: {
+  id: string;
+  timestamp: Date;
+  healthScore: number | null;
+  healthCategory: string;
+  confidence: number | null;
+  subIndices: string | null;
+  factors: string | null;
+}): HealthHistoryPoint | null {
+  if (row.healthScore === null) return null;
+  return {
+    id: row.id,
+    timestamp: row.timestamp.toISOString(),
+    score: row.healthScore,
+    category: row.healthCategory as HealthCategory,
+    confidence: row.confidence,
+    subIndices: parseJson(row.subIndices, {}),
+    factors: parseJson(row.factors, []),
+  };
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function standardDeviation(values: number[]): number {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / values.length);
+}
+
+/**
+ * Sudden drops of the score in a time-ordered history. Within a window the
+ * largest drop is kept, so one fall is reported once.
+ */
+export function detectChangePoints(points: HealthHistoryPoint[]): HealthChangePoint[] {
+  // Analyses with too little data do not make a trend
+  const known = points.map((point, index) => ({ point, index })).filter(({ point }) => point.category !== 'Unknown');
+  const scores = known.map(({ point }) => point.score);
+
+  const candidates: { at: number; before: number; after: number; drop: number }[] = [];
+  for (let i = MIN_SIDE_POINTS; i <= scores.length - MIN_SIDE_POINTS; i++) {
+    const beforeWindow = scores.slice(Math.max(0, i - CHANGE_POINT_WINDOW), i);
+    const afterWindow = scores.slice(i, i + CHANGE_POINT_WINDOW);
+    const before = mean(beforeWindow);
+    const after = mean(afterWindow);
+    const drop = before - after;
+    if (drop >= CHANGE_POINT_MIN_DROP && drop >= CHANGE_POINT_NOISE_FACTOR * standardDeviation(beforeWindow)) {
+      candidates.push({ at: i, before, after, drop });
+    }
+  }
+
+  const picked: typeof candidates = [];
+  for (const candidate of [...candidates].sort((a, b) => b.drop - a.drop)) {
+    if (picked.every((p) => Math.abs(p.at - candidate.at) >= CHANGE_POINT_WINDOW)) picked.push(candidate);
+  }
+
+  return picked
+    .sort((a, b) => a.at - b.at)
+    .map(({ at, before, after, drop }) => {
+      const windowPoints = (from: number, to: number) => known.slice(Math.max(0, from), to).map(({ point }) => point);
+      const beforePoints = windowPoints(at - CHANGE_POINT_WINDOW, at);
+      const afterPoints = windowPoints(at, at + CHANGE_POINT_WINDOW);
+
+      let subsystem: Subsystem | null = null;
+      let subsystemDrop = 0;
+      for (const s of SUBSYSTEMS) {
+        const beforeScores = beforePoints.map((p) => p.subIndices[s]).filter((v): v is number => v !== undefined);
+        const afterScores = afterPoints.map((p) => p.subIndices[s]).filter((v): v is number => v !== undefined);
+        if (beforeScores.length === 0 || afterScores.length === 0) continue;
+        const fall = mean(beforeScores) - mean(afterScores);
+        if (fall > subsystemDrop) {
+          subsystem = s;
+          subsystemDrop = fall;
+        }
+      }
+
+      const { point, index } = known[at];
+      return {
+        timestamp: point.timestamp,
+        index,
+        before: Math.round(before),
+        after: Math.round(after),
+        drop: Math.round(drop),
+        subsystem,
+        explanation:
+          `Health fell from ${Math.round(before)} to ${Math.round(after)} (-${Math.round(drop)} points)` +
+          (subsystem ? `, mostly ${SUBSYSTEM_LABELS[subsystem]} (-${Math.round(subsystemDrop)})` : ''),
+      };
+    });
+}
@@ -0,0 +1,512 @@
+/**
+ * Mechasense - Sensor Ingest Helpers
+ *
+ * Shared logic behind POST /api/ingest: parsing the request body (single
+ * object, JSON array or newline-delimited JSON), normalising each record into
+ * a SensorReading row and evaluating threshold alerts for it, including the
+ * sustain and rate conditions over the motor's stored history, the
+ * motor's compound alert rules and its active baseline. Each reading also
+ * advances the motor's insulation aging and the life of its bearings, and
+ * its health score is added to the motor's health history.
+ */
+
+import { Prisma } from '@prisma/client';
+import { getThreshold, type ParameterType, type ThresholdProfiles } from './thresholds';
+import { SENSOR_FIELDS, validateMeasurements, type FieldError, type SensorField } from './ingestSchema';
+import {
+  applyAlertLifecycle,
+  applyBaselineLifecycle,
+  applyRuleLifecycle,
+  type AlertObservation,
+  type RuleObservation,
+} from './alertLifecycle';
+import { buildRuleAlertMessage, evaluateRule, readingValues, type AlertRule } from './alertRules';
+import { conditionHorizon, evaluateConditions, type ParameterSample } from './alertConditions';
+import { evaluateBaseline, type MotorBaseline } from './baseline';
+import { advanceAging, EMPTY_AGING_STATE, toAgingState } from './insulationAging';
+import { advanceBearingLife, bearingSampleFor, toBearingLifeState } from './bearingLife';
+import { isHealthAnalysisDue, scoreStoredReading, toHealthAnalysisData } from './healthHistory';
+import type { ThermalClass } from './thermalClass';
+import type { VibrationClass } from './vibrationSeverity';
+
+/** Maximum number of records accepted in one batch upload */
+export const MAX_BATCH_SIZE = 1000;
+
+/** Readings stamped further than this in the future are rejected */
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/** Most earlier readings loaded for the sustain / rate conditions */
+const MAX_HISTORY_SAMPLES = 1000;
+
+/** Parameters evaluated for alerts; each is also a SensorReading column */
+type ReadingParameter = ParameterType & SensorField;
+
+const ALERT_PARAMETERS: ReadingParameter[] = [
+  'gridVoltage',
+  'motorCurrent',
+  'powerFactor',
+  'gridFrequency',
+  'motorSurfaceTemp',
+  'bearingTemp',
+  'dustDensity',
+  'vibrationRms',
+  'tempGradient',
+];
+
+/** Earlier values of each alert parameter, newest first */
+export type ReadingHistory = Partial<Record<ParameterType, ParameterSample[]>>;
+
+export type IngestMode = 'single' | 'batch';
+
+export type IngestRecordStatus = 'accepted' | 'rejected' | 'duplicate';
+
+/**
+ * One entry of the parsed body. `error` is set when the line/element
+ * could not be decoded into an object.
+ */
+export interface RawIngestRecord {
+  index: number;
+  payload?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface ParsedIngestBody {
+  mode: IngestMode;
+  records: RawIngestRecord[];
+}
+
+export interface IngestRecordResult {
+  index: number;
+  status: IngestRecordStatus;
+  readingId?: string;
+  timestamp?: string;
+  alertsGenerated?: number;
+  reason?: string;
+  errors?: FieldError[];
+}
+
+export interface PreparedRecord {
+  index: number;
+  motorId: string;
+  timestamp: Date;
+  hasOwnTimestamp: boolean;
+  data: Prisma.SensorReadingUncheckedCreateInput;
+  errors: FieldError[];
+}
+
+export interface RejectedRecord {
+  index: number;
+  reason: string;
+  httpStatus: number;
+  errors?: FieldError[];
+}
+
+/** What persistRecord needs to know about the record's motor */
+export interface MotorIngestContext {
+  /** Resolved threshold profiles (see lib/thresholdProfiles.ts) */
+  thresholds?: ThresholdProfiles;
+  /** Enabled compound rules */
+  rules?: AlertRule[];
+  /** Active baseline, if any */
+  baseline?: MotorBaseline | null;
+  /** Class the insulation aging is judged against */
+  thermalClass?: ThermalClass | null;
+  /** Rated current and vibration class, for bearing life */
+  ratedCurrent?: number;
+  vibrationClass?: VibrationClass | null;
+}
+
+export interface PrepareOptions {
+  /** Reject the whole record when any field fails validation */
+  strict?: boolean;
+  /** Authenticated device that signed the upload; records may only target its motor */
+  device?: { id: string; motorId: string };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toRawRecord(value: unknown, index: number): RawIngestRecord {
+  return isPlainObject(value)
+    ? { index, payload: value }
+    : { index, error: 'Record must be a JSON object' };
+}
+
+/**
+ * ESP firmware printing floats with printf emits bare `nan`/`inf` tokens,
+ * which are not JSON. Quote them so the schema can flag a sensor fault
+ * instead of the whole body failing to parse. Only bare values are
+ * quoted: string literals are matched first and kept as they are.
+ */
+function quoteNonFiniteTokens(text: string): string {
+  return text.replace(
+    /"(?:[^"\\]|\\.)*"|([:\[,]\s*)(-?(?:nan|inf(?:inity)?))(?=\s*[,}\]])/gi,
+    (match, prefix?: string, token?: string) => (token ? `${prefix}"${token}"` : match)
+  );
+}
+
+/**
+ * Parse the raw request body.
+ *
+ * - `{...}`              → single mode (legacy ESP payload)
+ * - `[{...}, {...}]`     → batch mode
+ * - one object per line  → batch mode (NDJSON, blank lines ignored)
+ *
+ * Throws when the body is neither valid JSON nor NDJSON.
+ */
+export function parseIngestBody(body: string, contentType: string | null): ParsedIngestBody {
+  const text = quoteNonFiniteTokens(body);
+  const isNdjson = !!contentType && /ndjson|jsonl|json-seq/i.test(contentType);
+
+  if (!isNdjson) {
+    try {
+      const parsed = JSON.parse(text);
+      if (Array.isArray(parsed)) {
+        return { mode: 'batch', records: parsed.map(toRawRecord) };
+      }
+      if (isPlainObject(parsed)) {
+        return { mode: 'single', records: [{ index: 0, payload: parsed }] };
+      }
+      throw new Error('Body must be a JSON object, an array of objects or NDJSON');
+    } catch (error) {
+      // A single line that failed to parse is not NDJSON either
+      if (!text.includes('\n')) {
+        throw error instanceof SyntaxError ? new Error('Invalid JSON body') : error;
+      }
+    }
+  }
+
+  const records: RawIngestRecord[] = [];
+  text.split(/\r?\n/).forEach((line) => {
+    if (line.trim() === '') return;
+    const index = records.length;
+    try {
+      records.push(toRawRecord(JSON.parse(line), index));
+    } catch {
+      records.push({ index, error: 'Invalid JSON' });
+    }
+  });
+
+  return { mode: 'batch', records };
+}
+
+/**
+ * Parse the record's own timestamp.
+ * Accepts epoch milliseconds, epoch seconds (< 1e10) or an ISO string.
+ */
+export function parseRecordTimestamp(value: unknown): Date | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return new Date(value < 10000000000 ? value * 1000 : value);
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const asNumber = Number(value);
+    if (Number.isFinite(asNumber)) return parseRecordTimestamp(asNumber);
+    const d = new Date(value);
+    return isNaN(d.getTime()) ? null : d;
+  }
+  return null;
+}
+
+/**
+ * Validate a payload against INGEST_SCHEMA and build the SensorReading create input.
+ * Invalid measurements are stored as null and listed in `errors`.
+ * Motor existence is checked by the caller.
+ */
+export function prepareRecord(
+  payload: unknown,
+  index: number,
+  now: Date = new Date(),
+  options: PrepareOptions = {}
+): PreparedRecord | RejectedRecord {
+  if (!isPlainObject(payload)) {
+    return { index, reason: 'Record must be a JSON object', httpStatus: 400 };
+  }
+
+  const { device } = options;
+  // A signed upload may omit motorId: the device is bound to one motor
+  const motorId = payload.motorId ?? device?.motorId;
+
+  if (!motorId || typeof motorId !== 'string') {
+    return { index, reason: 'motorId is required', httpStatus: 400 };
+  }
+
+  if (device && motorId !== device.motorId) {
+    return { index, reason: 'Device is not bound to this motor', httpStatus: 403 };
+  }
+
+  const hasOwnTimestamp = payload.timestamp !== undefined && payload.timestamp !== null;
+  let timestamp = now;
+  if (hasOwnTimestamp) {
+    const parsed = parseRecordTimestamp(payload.timestamp);
+    if (!parsed) {
+      return { index, reason: 'timestamp is not a valid date', httpStatus: 400 };
+    }
+    if (parsed.getTime() - now.getTime() > MAX_CLOCK_SKEW_MS) {
+      return { index, reason: 'timestamp is in the future', httpStatus: 400 };
+    }
+    timestamp = parsed;
+  }
+
+  const { values, errors } = validateMeasurements(payload);
+
+  if (options.strict && errors.length > 0) {
+    return { index, reason: 'Payload failed validation', httpStatus: 422, errors };
+  }
+
+  if (SENSOR_FIELDS.every((field) => values[field] === null)) {
+    return { index, reason: 'No valid measurements in payload', httpStatus: 422, errors };
+  }
+
+  const data: Prisma.SensorReadingUncheckedCreateInput = {
+    motorId,
+    deviceId: device?.id ?? null,
+    timestamp,
+    ...values,
+    rawPayload: JSON.stringify(payload),
+    validationErrors: errors.length > 0 ? JSON.stringify(errors) : null,
+  };
+
+  return { index, motorId, timestamp, hasOwnTimestamp, data, errors };
+}
+
+export function isRejected(record: PreparedRecord | RejectedRecord): record is RejectedRecord {
+  return 'reason' in record;
+}
+
+/**
+ * The reading's motor already has one at its timestamp (unique motorId +
+ * timestamp), e.g. stored by a concurrent retry of the same upload
+ */
+export function isDuplicateReadingError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+/**
+ * Check thresholds for a prepared reading.
+ * Every measured parameter is returned (severity null when normal) so that
+ * open alerts can also be cleared by the lifecycle. `history` holds the
+ * earlier readings the sustain and rate conditions look at.
+ */
+export function evaluateThresholds(
+  data: Prisma.SensorReadingUncheckedCreateInput,
+  thresholds?: ThresholdProfiles,
+  history: ReadingHistory = {}
+): AlertObservation[] {
+  const timestamp = data.timestamp ? new Date(data.timestamp) : new Date();
+
+  const observations: AlertObservation[] = [];
+  for (const parameter of ALERT_PARAMETERS) {
+    const value = data[parameter];
+    // Missing or faulty measurements neither raise nor clear alerts
+    if (value === null || value === undefined) continue;
+    const { severity, rate, trigger } = evaluateConditions(
+      getThreshold(parameter, thresholds),
+      { timestamp, value },
+      history[parameter]
+    );
+    observations.push({ parameter, value, severity, rate: trigger === 'rate' ? rate : null });
+  }
+  return observations;
+}
+
+/**
+ * Readings of a motor stored before `before`, as far back as the sustain
+ * and rate conditions of its profiles need. Runs inside the caller's
+ * transaction, so earlier records of the same batch are included.
+ */
+export async function loadReadingHistory(
+  tx: Prisma.TransactionClient,
+  motorId: string,
+  before: Date,
+  thresholds?: ThresholdProfiles
+): Promise<ReadingHistory> {
+  let seconds = 0;
+  let samples = 0;
+  for (const parameter of ALERT_PARAMETERS) {
+    const horizon = conditionHorizon(getThreshold(parameter, thresholds));
+    seconds = Math.max(seconds, horizon.seconds);
+    samples = Math.max(samples, horizon.samples);
+  }
+  if (seconds === 0 && samples === 0) return {};
+
+  const select = { timestamp: true, ...Object.fromEntries(ALERT_PARAMETERS.map((p) => [p, true])) };
+  const query = (where: Prisma.SensorReadingWhereInput, take: number) =>
+    tx.sensorReading.findMany({
+      where: { motorId, ...where },
+      orderBy: { timestamp: 'desc' },
+      take,
+      select,
+    }) as Promise<({ timestamp: Date } & Record<ReadingParameter, number | null>)[]>;
+
+  // The time window, unless it holds fewer readings than the sample window
+  let rows = seconds > 0
+    ? await query({ timestamp: { gte: new Date(before.getTime() - seconds * 1000), lt: before } }, MAX_HISTORY_SAMPLES)
+    : [];
+  if (rows.length < samples) {
+    rows = await query({ timestamp: { lt: before } }, samples);
+  }
+
+  const history: ReadingHistory = {};
+  for (const parameter of ALERT_PARAMETERS) {
+    history[parameter] = rows
+      .filter((row) => row[parameter] !== null)
+      .map((row) => ({ timestamp: row.timestamp, value: row[parameter]! }));
+  }
+  return history;
+}
+
+/**
+ * Evaluate the motor's enabled compound rules for a prepared reading
+ */
+export function evaluateRules(
+  data: Prisma.SensorReadingUncheckedCreateInput,
+  rules: AlertRule[],
+  thresholds?: ThresholdProfiles
+): RuleObservation[] {
+  const values = readingValues(data);
+  return rules
+    .filter((rule) => rule.enabled)
+    .map((rule) => ({
+      ruleId: rule.id,
+      matched: evaluateRule(rule.expression, values, thresholds),
+      severity: rule.severity,
+      message: buildRuleAlertMessage(rule, values),
+    }));
+}
+
+/**
+ * Add a surface temperature reading to the motor's insulation aging.
+ * The first reading only starts the accumulator.
+ */
+async function updateInsulationAging(
+  tx: Prisma.TransactionClient,
+  motorId: string,
+  timestamp: Date,
+  surfaceTemp: number,
+  thermalClass: ThermalClass
+) {
+  const row = await tx.insulationAging.findUnique({ where: { motorId } });
+  const state = row ? toAgingState(row) : EMPTY_AGING_STATE;
+  const next = advanceAging(state, { timestamp, surfaceTemp }, thermalClass);
+  if (row && next === state) return; // Older than the last integrated reading
+
+  await tx.insulationAging.upsert({
+    where: { motorId },
+    create: { motorId, ...next },
+    update: next,
+  });
+}
+
+/**
+ * Add a reading to the life of the motor's bearings installed before it.
+ * Readings without a motor current are skipped.
+ */
+async function updateBearingLife(
+  tx: Prisma.TransactionClient,
+  record: PreparedRecord,
+  ratedCurrent: number,
+  vibrationClass: VibrationClass
+) {
+  const sample = bearingSampleFor(
+    {
+      timestamp: record.timestamp,
+      motorCurrent: record.data.motorCurrent ?? null,
+      bearingTemp: record.data.bearingTemp ?? null,
+      vibrationRms: record.data.vibrationRms ?? null,
+    },
+    ratedCurrent,
+    vibrationClass
+  );
+  if (!sample) return;
+
+  const bearings = await tx.bearingComponent.findMany({
+    where: { motorId: record.motorId, installedAt: { lte: record.timestamp } },
+  });
+  for (const bearing of bearings) {
+    const state = toBearingLifeState(bearing);
+    const next = advanceBearingLife(state, sample);
+    if (next === state) continue; // Older than the last counted reading
+    await tx.bearingComponent.update({ where: { id: bearing.id }, data: next });
+  }
+}
+
+/**
+ * Store the reading's health score when the motor's history is due one
+ * (see isHealthAnalysisDue)
+ */
+async function recordHealthAnalysis(
+  tx: Prisma.TransactionClient,
+  record: PreparedRecord,
+  readingId: string,
+  thresholds?: ThresholdProfiles
+) {
+  const result = scoreStoredReading(record.data, thresholds);
+  const last = await tx.healthAnalysis.findFirst({
+    where: { motorId: record.motorId, healthScore: { not: null } },
+    orderBy: { timestamp: 'desc' },
+    select: { timestamp: true, healthScore: true, healthCategory: true },
+  });
+  if (!isHealthAnalysisDue(last, result, record.timestamp)) return;
+
+  await tx.healthAnalysis.create({
+    data: { motorId: record.motorId, timestamp: record.timestamp, readingId, ...toHealthAnalysisData(result) },
+  });
+}
+
+/**
+ * Save one prepared record and apply its threshold observations, compound
+ * rules and baseline deviations to the motor's alerts, stamped with the
+ * record's own timestamp, then advance the motor's insulation aging and
+ * bearing life and record its health score. Runs inside the caller's
+ * transaction.
+ *
+ * `alerts` lists only newly opened alerts; repeat breaches update the
+ * existing open alert (see lib/alertLifecycle.ts).
+ */
+export async function persistRecord(
+  tx: Prisma.TransactionClient,
+  record: PreparedRecord,
+  context: MotorIngestContext = {}
+) {
+  const { thresholds, rules = [], baseline, thermalClass, ratedCurrent, vibrationClass } = context;
+  const history = await loadReadingHistory(tx, record.motorId, record.timestamp, thresholds);
+  const reading = await tx.sensorReading.create({ data: record.data });
+
+  const surfaceTemp = record.data.motorSurfaceTemp;
+  if (thermalClass && surfaceTemp !== null && surfaceTemp !== undefined) {
+    await updateInsulationAging(tx, record.motorId, record.timestamp, surfaceTemp, thermalClass);
+  }
+  if (ratedCurrent !== undefined && vibrationClass) {
+    await updateBearingLife(tx, record, ratedCurrent, vibrationClass);
+  }
+  await recordHealthAnalysis(tx, record, reading.id, thresholds);
+
+  const lifecycle = await applyAlertLifecycle(
+    tx,
+    record.motorId,
+    record.timestamp,
+    evaluateThresholds(record.data, thresholds, history),
+    thresholds
+  );
+  const ruleLifecycle = await applyRuleLifecycle(
+    tx,
+    record.motorId,
+    record.timestamp,
+    evaluateRules(record.data, rules, thresholds)
+  );
+  const baselineLifecycle = await applyBaselineLifecycle(
+    tx,
+    record.motorId,
+    record.timestamp,
+    baseline ? evaluateBaseline(record.data, baseline) : []
+  );
+
+  const results = [lifecycle, ruleLifecycle, baselineLifecycle];
+  return {
+    reading,
+    alerts: results.flatMap((r) => r.opened),
+    alertsUpdated: results.reduce((sum, r) => sum + r.updated, 0),
+    alertsClosed: results.reduce((sum, r) => sum + r.closed, 0),
+  };
+}
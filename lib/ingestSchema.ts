@@ -0,0 +1,174 @@
+/**
+ * Mechasense - Ingest Payload Schema
+ *
+ * Declares every measurement column of SensorReading with its unit, plausible
+ * range and whether the ESP is expected to send it. Values outside the schema
+ * are stored as null and reported back, instead of being silently defaulted.
+ *
+ * A field may be sent as a plain number in the schema unit, or unit-tagged as
+ * `{ "value": 0.5, "unit": "g" }` and converted (see lib/units.ts).
+ */
+
+import { convert, isTemperatureDifference, parseQuantity, UnitMismatchError, type Unit } from './units';
+
+export type SensorField =
+  | 'gridVoltage'
+  | 'motorCurrent'
+  | 'powerConsumption'
+  | 'powerFactor'
+  | 'dailyEnergyKwh'
+  | 'gridFrequency'
+  | 'vibrationRms'
+  | 'faultFrequency'
+  | 'rotorUnbalanceScore'
+  | 'bearingHealthScore'
+  | 'motorSurfaceTemp'
+  | 'tempGradient'
+  | 'thermalAnomalyIndex'
+  | 'panelTemp'
+  | 'bearingTemp'
+  | 'dustDensity'
+  | 'soilingLossPercent';
+
+export type SensorSource = 'PZEM-004T' | 'MPU6050' | 'MLX90614' | 'DS18B20' | 'GP2Y1010' | 'computed';
+
+export interface IngestFieldSpec {
+  unit: Unit;
+  min: number;
+  max: number;
+  /** Expected in every payload; reported as MISSING when absent */
+  required: boolean;
+  source: SensorSource;
+  /** Values the sensor library returns when the sensor is disconnected */
+  faultValues?: number[];
+}
+
+export type FieldErrorCode = 'MISSING' | 'NOT_A_NUMBER' | 'OUT_OF_RANGE' | 'SENSOR_FAULT' | 'UNIT_MISMATCH';
+
+export interface FieldError {
+  field: string;
+  code: FieldErrorCode;
+  message: string;
+  value?: unknown;
+}
+
+export const INGEST_SCHEMA: Record<SensorField, IngestFieldSpec> = {
+  // PZEM-004T Wattmeter (returns NaN for every field when disconnected)
+  gridVoltage: { unit: 'V', min: 0, max: 500, required: true, source: 'PZEM-004T' },
+  motorCurrent: { unit: 'A', min: 0, max: 100, required: true, source: 'PZEM-004T' },
+  powerConsumption: { unit: 'W', min: 0, max: 23000, required: true, source: 'PZEM-004T' },
+  powerFactor: { unit: '', min: 0, max: 1, required: true, source: 'PZEM-004T' },
+  dailyEnergyKwh: { unit: 'kWh', min: 0, max: 10000, required: false, source: 'PZEM-004T' },
+  gridFrequency: { unit: 'Hz', min: 45, max: 65, required: true, source: 'PZEM-004T' },
+
+  // MPU6050 vibration analysis (velocity RMS; acceleration is rejected, not converted)
+  vibrationRms: { unit: 'mm/s', min: 0, max: 100, required: true, source: 'MPU6050' },
+  faultFrequency: { unit: 'Hz', min: 0, max: 5000, required: false, source: 'MPU6050' },
+  rotorUnbalanceScore: { unit: '%', min: 0, max: 100, required: false, source: 'computed' },
+  bearingHealthScore: { unit: '%', min: 0, max: 100, required: false, source: 'computed' },
+
+  // MLX90614 IR temperature (object range -70..380 °C)
+  motorSurfaceTemp: { unit: '°C', min: -70, max: 380, required: true, source: 'MLX90614' },
+  // Motor surface minus ambient (MLX90614 object - ambient)
+  tempGradient: { unit: '°C', min: -100, max: 300, required: false, source: 'computed' },
+  thermalAnomalyIndex: { unit: '', min: 0, max: 100, required: false, source: 'computed' },
+  panelTemp: { unit: '°C', min: -40, max: 125, required: false, source: 'MLX90614' },
+
+  // DS18B20 bearing temperature (-127 = DEVICE_DISCONNECTED_C)
+  bearingTemp: { unit: '°C', min: -55, max: 125, required: true, source: 'DS18B20', faultValues: [-127] },
+
+  // GP2Y1010 optical dust sensor
+  dustDensity: { unit: 'µg/m³', min: 0, max: 800, required: true, source: 'GP2Y1010' },
+  soilingLossPercent: { unit: '%', min: 0, max: 100, required: false, source: 'computed' },
+};
+
+export const SENSOR_FIELDS = Object.keys(INGEST_SCHEMA) as SensorField[];
+
+const NAN_STRINGS = new Set(['nan', '-nan', 'inf', '-inf', 'infinity', '-infinity']);
+
+/**
+ * Validate one field against its spec.
+ * Returns the parsed number, or null plus the error explaining why.
+ */
+export function validateField(
+  field: SensorField,
+  raw: unknown
+): { value: number | null; error?: FieldError } {
+  const spec = INGEST_SCHEMA[field];
+
+  if (raw === undefined || raw === null || raw === '') {
+    return spec.required
+      ? { value: null, error: { field, code: 'MISSING', message: `${field} is required` } }
+      : { value: null };
+  }
+
+  // PZEM and MLX libraries report a dead sensor as NaN, which reaches us as "nan"
+  if (typeof raw === 'string' && NAN_STRINGS.has(raw.trim().toLowerCase())) {
+    return {
+      value: null,
+      error: { field, code: 'SENSOR_FAULT', message: `${spec.source} reported ${raw} for ${field}`, value: raw },
+    };
+  }
+
+  let value = typeof raw === 'number' ? raw : typeof raw === 'string' ? Number(raw.trim()) : NaN;
+
+  if (typeof raw === 'object') {
+    const tagged = parseQuantity(raw);
+    if (!tagged) {
+      return {
+        value: null,
+        error: { field, code: 'NOT_A_NUMBER', message: `${field} must be a number or { value, unit }`, value: raw },
+      };
+    }
+    try {
+      value = convert(tagged, spec.unit, field, { difference: isTemperatureDifference(field) }).value;
+    } catch (error) {
+      if (!(error instanceof UnitMismatchError)) throw error;
+      return { value: null, error: { field, code: 'UNIT_MISMATCH', message: error.message, value: raw } };
+    }
+  }
+
+  if (!Number.isFinite(value)) {
+    return {
+      value: null,
+      error: { field, code: 'NOT_A_NUMBER', message: `${field} must be a number`, value: raw },
+    };
+  }
+
+  if (spec.faultValues?.includes(value)) {
+    return {
+      value: null,
+      error: { field, code: 'SENSOR_FAULT', message: `${spec.source} fault value ${value} for ${field}`, value },
+    };
+  }
+
+  if (value < spec.min || value > spec.max) {
+    return {
+      value: null,
+      error: {
+        field,
+        code: 'OUT_OF_RANGE',
+        message: `${field} must be between ${spec.min} and ${spec.max} ${spec.unit}`.trim(),
+        value,
+      },
+    };
+  }
+
+  return { value };
+}
+
+/**
+ * Validate every schema field of a payload
+ */
+export function validateMeasurements(payload: Record<string, unknown>) {
+  const values = {} as Record<SensorField, number | null>;
+  const errors: FieldError[] = [];
+
+  for (const field of SENSOR_FIELDS) {
+    const result = validateField(field, payload[field]);
+    values[field] = result.value;
+    if (result.error) errors.push(result.error);
+  }
+
+  return { values, errors };
+}
@@ -0,0 +1,202 @@
+/**
+ * Mechasense - Insulation Thermal Aging
+ *
+ * Accumulates how much winding insulation life a motor has used, following
+ * the Arrhenius 10 °C rule: every 10 K above the class temperature halves
+ * the insulation life, every 10 K below doubles it. The class temperature
+ * (IEC 60085) is the hot-spot temperature at which the insulation lasts
+ * INSULATION_LIFE_HOURS.
+ *
+ * The stored motorSurfaceTemp readings are integrated into "equivalent aging
+ * hours": hours of aging at the class temperature. A motor always running at
+ * its class limit ages one hour per hour; at 20 K below, a quarter hour.
+ *
+ * The hot spot is estimated from the frame reading with the allowances of
+ * lib/thermalClass.ts, so a surface at the class surface limit (with the
+ * class rise) is the class temperature.
+ *
+ * Client-safe: the ingest path persists the state, the dashboard shows it.
+ */
+
+import { REFERENCE_AMBIENT, SURFACE_ALLOWANCE, classTempRise, type ThermalClass } from './thermalClass';
+
+/** Insulation life at the class temperature (IEC 60085 thermal class definition) */
+export const INSULATION_LIFE_HOURS = 20000;
+
+/** Temperature increase that halves the insulation life, K */
+export const AGING_HALVING_INTERVAL = 10;
+
+/**
+ * Readings further apart than this are not integrated: the motor was off or
+ * not reporting, and a cold winding does not age measurably
+ */
+export const MAX_AGING_GAP_MINUTES = 15;
+
+/** Time constant of the "current duty" aging rate used for the projection */
+export const DUTY_TIME_CONSTANT_HOURS = 7 * 24;
+
+/** Less recent history than this gives no projection */
+const MIN_PROJECTION_HOURS = 1;
+
+/** Projections further out than this are reported as none */
+const MAX_PROJECTION_YEARS = 100;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Persisted accumulator of one motor (the InsulationAging row) */
+export interface AgingState {
+  /** Hours of aging at the class temperature */
+  equivalentHours: number;
+  /** Hours covered by readings */
+  monitoredHours: number;
+  /** Exponentially decayed aging and calendar hours: their ratio is the current duty */
+  recentAgingHours: number;
+  recentElapsedHours: number;
+  lastTimestamp: Date | null;
+  lastSurfaceTemp: number | null;
+}
+
+export const EMPTY_AGING_STATE: AgingState = {
+  equivalentHours: 0,
+  monitoredHours: 0,
+  recentAgingHours: 0,
+  recentElapsedHours: 0,
+  lastTimestamp: null,
+  lastSurfaceTemp: null,
+};
+
+export interface AgingSample {
+  timestamp: Date;
+  surfaceTemp: number;
+}
+
+/** Accumulated aging as shown on the dashboard (dates as ISO strings) */
+export interface InsulationAging {
+  motorId: string;
+  equivalentHours: number;
+  monitoredHours: number;
+  /** Percent of INSULATION_LIFE_HOURS used */
+  lifeConsumedPercent: number;
+  /** Equivalent aging hours per calendar hour at the current duty */
+  agingRate: number | null;
+  /** When the life is used up at the current duty; null when too far out or unknown */
+  projectedEndOfLife: string | null;
+  lastTimestamp: string | null;
+  updatedAt: string;
+}
+
+/**
+ * Estimated winding hot spot for a frame surface temperature: the surface
+ * allowance plus the class hot-spot allowance (class temp - 40 °C - class rise)
+ */
+export function hotSpotTemp(surfaceTemp: number, thermalClass: ThermalClass): number {
+  const hotSpotAllowance = thermalClass.classTemp - REFERENCE_AMBIENT - classTempRise(thermalClass.insulationClass);
+  return surfaceTemp + SURFACE_ALLOWANCE + hotSpotAllowance;
+}
+
+/**
+ * Aging acceleration relative to running at the class temperature:
+ * 2 ^ ((hot spot - class temp) / 10)
+ */
+export function agingFactor(surfaceTemp: number, thermalClass: ThermalClass): number {
+  return Math.pow(2, (hotSpotTemp(surfaceTemp, thermalClass) - thermalClass.classTemp) / AGING_HALVING_INTERVAL);
+}
+
+/**
+ * Add one reading to the accumulator. The interval since the previous
+ * reading is integrated with the mean aging factor of its two ends; gaps
+ * longer than MAX_AGING_GAP_MINUTES add no aging but still count as
+ * calendar time for the current duty. Readings not newer than the last one
+ * (late backfills) leave the state unchanged.
+ */
+export function advanceAging(state: AgingState, sample: AgingSample, thermalClass: ThermalClass): AgingState {
+  if (!Number.isFinite(sample.surfaceTemp)) return state;
+  if (state.lastTimestamp === null || state.lastSurfaceTemp === null) {
+    return { ...state, lastTimestamp: sample.timestamp, lastSurfaceTemp: sample.surfaceTemp };
+  }
+
+  const hours = (sample.timestamp.getTime() - state.lastTimestamp.getTime()) / HOUR_MS;
+  if (hours <= 0) return state;
+
+  const integrated = hours <= MAX_AGING_GAP_MINUTES / 60;
+  const aged = integrated
+    ? ((agingFactor(state.lastSurfaceTemp, thermalClass) + agingFactor(sample.surfaceTemp, thermalClass)) / 2) * hours
+    : 0;
+  const decay = Math.exp(-hours / DUTY_TIME_CONSTANT_HOURS);
+
+  return {
+    equivalentHours: state.equivalentHours + aged,
+    monitoredHours: state.monitoredHours + (integrated ? hours : 0),
+    recentAgingHours: state.recentAgingHours * decay + aged,
+    recentElapsedHours: state.recentElapsedHours * decay + hours,
+    lastTimestamp: sample.timestamp,
+    lastSurfaceTemp: sample.surfaceTemp,
+  };
+}
+
+/**
+ * Add readings in timestamp order
+ */
+export function integrateAging(state: AgingState, samples: AgingSample[], thermalClass: ThermalClass): AgingState {
+  return samples.reduce((current, sample) => advanceAging(current, sample, thermalClass), state);
+}
+
+/**
+ * Equivalent aging hours per calendar hour at the current duty, or null
+ * with too little recent history
+ */
+export function currentAgingRate(state: AgingState): number | null {
+  return state.recentElapsedHours >= MIN_PROJECTION_HOURS ? state.recentAgingHours / state.recentElapsedHours : null;
+}
+
+/**
+ * Date the insulation life is used up at the current duty, counted from the
+ * last reading. Null without a rate or beyond MAX_PROJECTION_YEARS.
+ */
+export function projectEndOfLife(state: AgingState): Date | null {
+  const rate = currentAgingRate(state);
+  if (rate === null || state.lastTimestamp === null) return null;
+
+  const remaining = Math.max(0, INSULATION_LIFE_HOURS - state.equivalentHours);
+  if (remaining === 0) return state.lastTimestamp;
+  if (rate <= 0) return null;
+
+  const hours = remaining / rate;
+  if (hours > MAX_PROJECTION_YEARS * 365.25 * 24) return null;
+  return new Date(state.lastTimestamp.getTime() + hours * HOUR_MS);
+}
+
+export function toAgingState(row: {
+  equivalentHours: number;
+  monitoredHours: number;
+  recentAgingHours: number;
+  recentElapsedHours: number;
+  lastTimestamp: Date | null;
+  lastSurfaceTemp: number | null;
+}): AgingState {
+  return {
+    equivalentHours: row.equivalentHours,
+    monitoredHours: row.monitoredHours,
+    recentAgingHours: row.recentAgingHours,
+    recentElapsedHours: row.recentElapsedHours,
+    lastTimestamp: row.lastTimestamp,
+    lastSurfaceTemp: row.lastSurfaceTemp,
+  };
+}
+
+export function toInsulationAging(
+  row: Parameters<typeof toAgingState>[0] & { motorId: string; updatedAt: Date }
+): InsulationAging {
+  const state = toAgingState(row);
+  const endOfLife = projectEndOfLife(state);
+  return {
+    motorId: row.motorId,
+    equivalentHours: state.equivalentHours,
+    monitoredHours: state.monitoredHours,
+    lifeConsumedPercent: (state.equivalentHours / INSULATION_LIFE_HOURS) * 100,
+    agingRate: currentAgingRate(state),
+    projectedEndOfLife: endOfLife ? endOfLife.toISOString() : null,
+    lastTimestamp: state.lastTimestamp ? state.lastTimestamp.toISOString() : null,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
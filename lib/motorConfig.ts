@@ -0,0 +1,168 @@
+/**
+ * Mechasense - Motor Configuration
+ *
+ * Validation for the editable Motor fields (nameplate ratings, ISO 10816
+ * machine group and foundation, insulation class and rated temperature
+ * rise, polling interval, alert email). Used by
+ * /api/motors and by the Settings page, so it must stay free of
+ * server-only imports.
+ */
+
+import { FOUNDATION_TYPES, MACHINE_GROUPS, type FoundationType, type MachineGroup } from './vibrationSeverity';
+import { INSULATION_CLASSES, MIN_RATED_TEMP_RISE, classTempRise, type InsulationClass } from './thermalClass';
+
+/** Motor the single-ESP setup writes to (see prisma/seed.ts) */
+export const DEFAULT_MOTOR_ID = 'default-motor-1';
+
+export interface MotorConfigInput {
+  name: string;
+  location: string;
+  ratedPower: number;    // kW
+  ratedCurrent: number;  // A
+  ratedVoltage: number;  // V
+  pollingIntervalSec: number;
+  alertEmail: string | null;
+  machineGroup: MachineGroup | null;  // null = derived from ratedPower
+  foundationType: FoundationType;
+  insulationClass: InsulationClass;
+  ratedTempRise: number | null;  // K; null = class rise
+}
+
+export interface MotorConfigError {
+  field: keyof MotorConfigInput;
+  message: string;
+}
+
+export type MotorConfigResult =
+  | { ok: true; data: Partial<MotorConfigInput> }
+  | { ok: false; errors: MotorConfigError[] };
+
+type NumericField = 'ratedPower' | 'ratedCurrent' | 'ratedVoltage' | 'pollingIntervalSec';
+
+const NUMBER_LIMITS: Record<NumericField, { min: number; max: number; label: string; integer?: boolean }> = {
+  ratedPower: { min: 0.01, max: 10000, label: 'Rated power (kW)' },
+  ratedCurrent: { min: 0.01, max: 5000, label: 'Rated current (A)' },
+  ratedVoltage: { min: 12, max: 15000, label: 'Rated voltage (V)' },
+  pollingIntervalSec: { min: 1, max: 3600, label: 'Polling interval (s)', integer: true },
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Stored fields of the motor an update applies to */
+export type StoredMotorConfig = Pick<MotorConfigInput, 'insulationClass' | 'ratedTempRise'>;
+
+/**
+ * Validate a create (all fields required except alertEmail, machineGroup,
+ * foundationType, insulationClass and ratedTempRise) or update (`partial`,
+ * only the fields present are checked against the `stored` motor) payload.
+ * Numeric fields may be sent as strings, as HTML inputs do.
+ */
+export function validateMotorConfig(body: unknown, partial = false, stored?: StoredMotorConfig): MotorConfigResult {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, errors: [{ field: 'name', message: 'Body must be a JSON object' }] };
+  }
+
+  const input = body as Record<string, unknown>;
+  const data: Partial<MotorConfigInput> = {};
+  const errors: MotorConfigError[] = [];
+  const isSet = (field: string) => input[field] !== undefined;
+
+  for (const field of ['name', 'location'] as const) {
+    if (!isSet(field)) {
+      if (!partial) errors.push({ field, message: `${field} is required` });
+      continue;
+    }
+    const value = typeof input[field] === 'string' ? (input[field] as string).trim() : '';
+    if (value.length === 0 || value.length > 100) {
+      errors.push({ field, message: `${field} must be 1-100 characters` });
+    } else {
+      data[field] = value;
+    }
+  }
+
+  for (const field of Object.keys(NUMBER_LIMITS) as NumericField[]) {
+    const limits = NUMBER_LIMITS[field];
+    if (!isSet(field)) {
+      // Polling interval has a database default
+      if (!partial && field !== 'pollingIntervalSec') errors.push({ field, message: `${limits.label} is required` });
+      continue;
+    }
+    const raw = input[field];
+    const value = typeof raw === 'number' ? raw : typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : NaN;
+    if (!Number.isFinite(value) || value < limits.min || value > limits.max || (limits.integer && !Number.isInteger(value))) {
+      errors.push({
+        field,
+        message: `${limits.label} must be ${limits.integer ? 'a whole number ' : ''}between ${limits.min} and ${limits.max}`,
+      });
+    } else {
+      data[field] = value;
+    }
+  }
+
+  if (isSet('alertEmail')) {
+    const raw = input.alertEmail;
+    const value = typeof raw === 'string' ? raw.trim() : raw;
+    if (value === null || value === '') {
+      data.alertEmail = null;
+    } else if (typeof value !== 'string' || !EMAIL_PATTERN.test(value) || value.length > 254) {
+      errors.push({ field: 'alertEmail', message: 'Alert email is not a valid email address' });
+    } else {
+      data.alertEmail = value;
+    }
+  }
+
+  if (isSet('machineGroup')) {
+    const value = input.machineGroup;
+    if (value === null || value === '') {
+      data.machineGroup = null;
+    } else if (MACHINE_GROUPS.includes(value as MachineGroup)) {
+      data.machineGroup = value as MachineGroup;
+    } else {
+      errors.push({ field: 'machineGroup', message: `Machine group must be one of ${MACHINE_GROUPS.join(', ')}` });
+    }
+  }
+
+  // Has a database default (rigid)
+  if (isSet('foundationType')) {
+    if (FOUNDATION_TYPES.includes(input.foundationType as FoundationType)) {
+      data.foundationType = input.foundationType as FoundationType;
+    } else {
+      errors.push({ field: 'foundationType', message: `Foundation type must be one of ${FOUNDATION_TYPES.join(', ')}` });
+    }
+  }
+
+  // Has a database default (F)
+  if (isSet('insulationClass')) {
+    if (INSULATION_CLASSES.includes(input.insulationClass as InsulationClass)) {
+      data.insulationClass = input.insulationClass as InsulationClass;
+    } else {
+      errors.push({ field: 'insulationClass', message: `Insulation class must be one of ${INSULATION_CLASSES.join(', ')}` });
+    }
+  }
+
+  // The rise of an "F insulation, B rise" motor is checked against F: the
+  // class sent, else the stored one, else the database default
+  const maxRise = classTempRise(data.insulationClass ?? stored?.insulationClass ?? 'F');
+  if (isSet('ratedTempRise')) {
+    const raw = input.ratedTempRise;
+    const value = typeof raw === 'number' ? raw : typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw === null || raw === '' ? null : NaN;
+    if (value === null) {
+      data.ratedTempRise = null;
+    } else if (!Number.isFinite(value) || value < MIN_RATED_TEMP_RISE || value > maxRise) {
+      errors.push({
+        field: 'ratedTempRise',
+        message: `Rated temperature rise must be between ${MIN_RATED_TEMP_RISE} and ${maxRise} K`,
+      });
+    } else {
+      data.ratedTempRise = value;
+    }
+  } else if (data.insulationClass && stored && stored.ratedTempRise !== null && stored.ratedTempRise > maxRise) {
+    // A lower class must not leave the stored rise above its limit
+    errors.push({
+      field: 'ratedTempRise',
+      message: `Rated temperature rise ${stored.ratedTempRise} K exceeds the ${maxRise} K of class ${data.insulationClass}`,
+    });
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, data };
+}
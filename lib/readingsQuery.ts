@@ -0,0 +1,227 @@
+/**
+ * Mechasense - Historical Readings Query
+ *
+ * Backs GET /api/readings: validates the query string and reads SensorReading
+ * either raw (cursor paginated) or aggregated into fixed time buckets with
+ * count/min/mean/max/last per parameter.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { parseRecordTimestamp } from './ingest';
+import { SENSOR_FIELDS, type SensorField } from './ingestSchema';
+
+/** Upper bound on buckets per response, to keep charts and queries cheap */
+export const MAX_BUCKETS = 2000;
+
+/** Default and maximum page size in raw mode */
+export const DEFAULT_RAW_LIMIT = 500;
+export const MAX_RAW_LIMIT = 5000;
+
+/** Bucket sizes used by `bucket=auto`, smallest first */
+const AUTO_BUCKETS_SECONDS = [10, 30, 60, 300, 900, 1800, 3600, 3 * 3600, 6 * 3600, 86400];
+
+/** Target number of points for `bucket=auto` */
+const AUTO_TARGET_POINTS = 300;
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+export interface ReadingsQuery {
+  motorId: string;
+  from: Date;
+  to: Date;
+  parameters: SensorField[];
+  /** Bucket size in seconds, or null for raw mode */
+  bucketSeconds: number | null;
+  cursor: string | null;
+  limit: number;
+}
+
+export interface BucketStats {
+  /** Readings in the bucket with a value for the parameter */
+  count: number;
+  min: number | null;
+  mean: number | null;
+  max: number | null;
+  last: number | null;
+}
+
+export interface ReadingsBucket {
+  start: string;
+  count: number;
+  values: Partial<Record<SensorField, BucketStats>>;
+}
+
+export type ParseResult =
+  | { ok: true; query: ReadingsQuery }
+  | { ok: false; error: string };
+
+/**
+ * Parse a duration such as `30s`, `5m`, `1h`, `1d` or a plain number of seconds
+ */
+export function parseDuration(value: string): number | null {
+  const match = /^(\d+)\s*([smhd]?)$/i.exec(value.trim());
+  if (!match) return null;
+  const seconds = Number(match[1]) * DURATION_UNITS[(match[2] || 's').toLowerCase()];
+  return seconds > 0 ? seconds : null;
+}
+
+/**
+ * Pick the smallest standard bucket that keeps the range under the target point count
+ */
+export function autoBucketSeconds(from: Date, to: Date): number {
+  const rangeSeconds = (to.getTime() - from.getTime()) / 1000;
+  return (
+    AUTO_BUCKETS_SECONDS.find((size) => rangeSeconds / size <= AUTO_TARGET_POINTS) ??
+    AUTO_BUCKETS_SECONDS[AUTO_BUCKETS_SECONDS.length - 1]
+  );
+}
+
+/**
+ * Validate the query string of GET /api/readings.
+ *
+ * - motorId     required
+ * - from, to    epoch ms/s or ISO string; default to = now, from = to - 1h
+ * - parameters  comma separated SensorReading columns; default all
+ * - bucket      `raw`, `auto` (default) or a duration like `5m`
+ * - cursor      raw mode only: id of the last reading of the previous page
+ * - limit       raw mode only: page size
+ */
+export function parseReadingsQuery(searchParams: URLSearchParams, now: Date = new Date()): ParseResult {
+  const motorId = searchParams.get('motorId');
+  if (!motorId) {
+    return { ok: false, error: 'motorId query parameter is required' };
+  }
+
+  const toParam = searchParams.get('to');
+  const to = toParam ? parseRecordTimestamp(toParam) : now;
+  if (!to) {
+    return { ok: false, error: 'to is not a valid date' };
+  }
+
+  const fromParam = searchParams.get('from');
+  const from = fromParam ? parseRecordTimestamp(fromParam) : new Date(to.getTime() - 3600 * 1000);
+  if (!from) {
+    return { ok: false, error: 'from is not a valid date' };
+  }
+  if (from >= to) {
+    return { ok: false, error: 'from must be before to' };
+  }
+
+  let parameters = SENSOR_FIELDS;
+  const parametersParam = searchParams.get('parameters');
+  if (parametersParam) {
+    const requested = parametersParam.split(',').map((p) => p.trim()).filter(Boolean);
+    const unknown = requested.filter((p) => !SENSOR_FIELDS.includes(p as SensorField));
+    if (unknown.length > 0) {
+      return { ok: false, error: `Unknown parameters: ${unknown.join(', ')}` };
+    }
+    parameters = Array.from(new Set(requested)) as SensorField[];
+  }
+  if (parameters.length === 0) {
+    return { ok: false, error: 'parameters must list at least one parameter' };
+  }
+
+  const bucketParam = searchParams.get('bucket') ?? 'auto';
+  let bucketSeconds: number | null;
+  if (bucketParam === 'raw') {
+    bucketSeconds = null;
+  } else if (bucketParam === 'auto') {
+    bucketSeconds = autoBucketSeconds(from, to);
+  } else {
+    bucketSeconds = parseDuration(bucketParam);
+    if (!bucketSeconds) {
+      return { ok: false, error: 'bucket must be raw, auto or a duration like 30s, 5m, 1h' };
+    }
+  }
+
+  if (bucketSeconds && (to.getTime() - from.getTime()) / 1000 / bucketSeconds > MAX_BUCKETS) {
+    return { ok: false, error: `Range too large for bucket size (max ${MAX_BUCKETS} buckets)` };
+  }
+
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam ? Number(limitParam) : DEFAULT_RAW_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_RAW_LIMIT) {
+    return { ok: false, error: `limit must be an integer between 1 and ${MAX_RAW_LIMIT}` };
+  }
+
+  return {
+    ok: true,
+    query: { motorId, from, to, parameters, bucketSeconds, cursor: searchParams.get('cursor'), limit },
+  };
+}
+
+/**
+ * Raw readings in ascending time order, one page at a time.
+ * `nextCursor` is null on the last page.
+ */
+export async function queryRawReadings(query: ReadingsQuery) {
+  const select: Record<string, true> = { id: true, timestamp: true };
+  for (const parameter of query.parameters) select[parameter] = true;
+
+  const rows = await prisma.sensorReading.findMany({
+    where: { motorId: query.motorId, timestamp: { gte: query.from, lt: query.to } },
+    orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+    select,
+    take: query.limit + 1,
+    ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+  });
+
+  const hasMore = rows.length > query.limit;
+  const readings = hasMore ? rows.slice(0, query.limit) : rows;
+
+  return {
+    readings,
+    nextCursor: hasMore ? (readings[readings.length - 1].id as string) : null,
+  };
+}
+
+/**
+ * Readings grouped into buckets of `bucketSeconds`, aligned to the epoch.
+ * Empty buckets are omitted. Null measurements are ignored by the aggregates.
+ */
+export async function queryBucketedReadings(query: ReadingsQuery & { bucketSeconds: number }): Promise<ReadingsBucket[]> {
+  // Column names come from the SENSOR_FIELDS whitelist, never from user input directly
+  const aggregates = query.parameters.map((parameter) => {
+    const column = Prisma.raw(`"${parameter}"`);
+    return Prisma.sql`
+      COUNT(${column})::int AS ${Prisma.raw(`"${parameter}_count"`)},
+      MIN(${column}) AS ${Prisma.raw(`"${parameter}_min"`)},
+      AVG(${column}) AS ${Prisma.raw(`"${parameter}_mean"`)},
+      MAX(${column}) AS ${Prisma.raw(`"${parameter}_max"`)},
+      (ARRAY_AGG(${column} ORDER BY "timestamp" DESC) FILTER (WHERE ${column} IS NOT NULL))[1] AS ${Prisma.raw(`"${parameter}_last"`)}`;
+  });
+
+  const rows = await prisma.$queryRaw<Record<string, unknown>[]>`
+    SELECT
+      TO_TIMESTAMP(FLOOR(EXTRACT(EPOCH FROM "timestamp") / ${query.bucketSeconds}) * ${query.bucketSeconds}) AS "bucket",
+      COUNT(*)::int AS "count",
+      ${Prisma.join(aggregates)}
+    FROM "SensorReading"
+    WHERE "motorId" = ${query.motorId}
+      AND "timestamp" >= ${query.from}
+      AND "timestamp" < ${query.to}
+    GROUP BY 1
+    ORDER BY 1 ASC
+  `;
+
+  const toNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+
+  return rows.map((row) => {
+    const values: ReadingsBucket['values'] = {};
+    for (const parameter of query.parameters) {
+      values[parameter] = {
+        count: Number(row[`${parameter}_count`]),
+        min: toNumber(row[`${parameter}_min`]),
+        mean: toNumber(row[`${parameter}_mean`]),
+        max: toNumber(row[`${parameter}_max`]),
+        last: toNumber(row[`${parameter}_last`]),
+      };
+    }
+    return {
+      start: (row.bucket as Date).toISOString(),
+      count: Number(row.count),
+      values,
+    };
+  });
+}
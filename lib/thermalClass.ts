@@ -0,0 +1,186 @@
+/**
+ * Mechasense - Insulation Class Thermal Limits (IEC 60034-1)
+ *
+ * Judges motor temperature against the insulation class and rated
+ * temperature rise of the motor instead of flat limits:
+ *
+ * - absolute: the winding may reach the reference ambient (40 °C) plus the
+ *   rated rise
+ * - rise: the temperature above the measured ambient may not exceed the
+ *   rated rise, reduced by however much the ambient exceeds 40 °C
+ *
+ * Together these give the allowable rise above the measured ambient, so a
+ * hot afternoon in the workshop does not flag a motor whose own heating is
+ * normal. The IR sensor sees the frame, which runs cooler than the winding,
+ * so both limits are lowered by SURFACE_ALLOWANCE for the surface reading.
+ *
+ * Client-safe: used by the dashboard as well as threshold resolution.
+ */
+
+import type { StatusLevel, ThresholdProfile } from './thresholds';
+
+export type InsulationClass = 'B' | 'F' | 'H';
+
+export const INSULATION_CLASSES: InsulationClass[] = ['B', 'F', 'H'];
+
+/** Class temperature (hot-spot limit) and permissible rise by resistance at 40 °C ambient */
+const CLASS_LIMITS: Record<InsulationClass, { classTemp: number; rise: number }> = {
+  B: { classTemp: 130, rise: 80 },
+  F: { classTemp: 155, rise: 105 },
+  H: { classTemp: 180, rise: 125 },
+};
+
+export const INSULATION_CLASS_LABELS: Record<InsulationClass, string> = {
+  B: 'Class B (130 °C, rise 80 K)',
+  F: 'Class F (155 °C, rise 105 K)',
+  H: 'Class H (180 °C, rise 125 K)',
+};
+
+/** Ambient the rated rise is specified at */
+export const REFERENCE_AMBIENT = 40;
+
+/** Frame surface (IR) is taken to run this much cooler than the winding, K */
+export const SURFACE_ALLOWANCE = 20;
+
+/** Warnings start this far below each limit, K */
+export const THERMAL_WARNING_MARGIN = 10;
+
+/** Lowest rated rise accepted, K (must leave room for the allowances) */
+export const MIN_RATED_TEMP_RISE = 40;
+
+export interface ThermalClass {
+  insulationClass: InsulationClass;
+  classTemp: number;
+  /** Rated rise, K: the nameplate value, or the class rise */
+  ratedRise: number;
+  /** Limits for the frame surface reading, °C and K */
+  surfaceLimit: number;
+  riseLimit: number;
+}
+
+export interface ThermalAssessment {
+  level: StatusLevel;
+  absoluteLevel: StatusLevel;
+  /** null without an ambient reading */
+  riseLevel: StatusLevel | null;
+  rise: number | null;
+  /** Allowable rise of the surface above the measured ambient, K */
+  allowableRise: number | null;
+  /** Kelvin left before the nearer limit */
+  headroom: number;
+  thermalClass: ThermalClass;
+}
+
+/**
+ * Thermal class of a motor. Unknown classes fall back to F; a null or
+ * out-of-range `ratedTempRise` means the class rise.
+ */
+export function thermalClassFor(motor: {
+  insulationClass?: string | null;
+  ratedTempRise?: number | null;
+}): ThermalClass {
+  const insulationClass = INSULATION_CLASSES.includes(motor.insulationClass as InsulationClass)
+    ? (motor.insulationClass as InsulationClass)
+    : 'F';
+  const { classTemp, rise } = CLASS_LIMITS[insulationClass];
+  const rated = motor.ratedTempRise;
+  const ratedRise = rated !== null && rated !== undefined && rated >= MIN_RATED_TEMP_RISE && rated <= rise ? rated : rise;
+
+  return {
+    insulationClass,
+    classTemp,
+    ratedRise,
+    surfaceLimit: REFERENCE_AMBIENT + ratedRise - SURFACE_ALLOWANCE,
+    riseLimit: ratedRise - SURFACE_ALLOWANCE,
+  };
+}
+
+/** Class rise, K: the most a nameplate rise may be */
+export function classTempRise(insulationClass: InsulationClass): number {
+  return CLASS_LIMITS[insulationClass].rise;
+}
+
+/**
+ * Allowable surface rise above the measured ambient: the rise limit,
+ * reduced by however much the ambient exceeds the reference
+ */
+export function allowableRise(ambientTemp: number, thermalClass: ThermalClass): number {
+  return thermalClass.riseLimit - Math.max(0, ambientTemp - REFERENCE_AMBIENT);
+}
+
+function levelAgainst(value: number, limit: number): StatusLevel {
+  if (value > limit) return 'critical';
+  if (value >= limit - THERMAL_WARNING_MARGIN) return 'warning';
+  return 'normal';
+}
+
+const LEVEL_ORDER: StatusLevel[] = ['normal', 'warning', 'critical'];
+
+/**
+ * Classify a surface temperature, absolute and as rise above the ambient
+ * when it is known. `rise` may be given directly (e.g. delta_temp from the
+ * ESP); otherwise it is surface - ambient.
+ */
+export function assessThermal(
+  surfaceTemp: number,
+  ambientTemp: number | null | undefined,
+  thermalClass: ThermalClass,
+  rise?: number | null
+): ThermalAssessment {
+  const hasAmbient = ambientTemp !== null && ambientTemp !== undefined && Number.isFinite(ambientTemp);
+  const riseValue = rise ?? (hasAmbient ? surfaceTemp - ambientTemp : null);
+  const allowable = hasAmbient ? allowableRise(ambientTemp, thermalClass) : riseValue !== null ? thermalClass.riseLimit : null;
+
+  const absoluteLevel = levelAgainst(surfaceTemp, thermalClass.surfaceLimit);
+  const riseHeadroom = riseValue !== null && allowable !== null ? allowable - riseValue : null;
+  const riseLevel = riseHeadroom !== null ? levelAgainst(-riseHeadroom, 0) : null;
+  const level = LEVEL_ORDER[Math.max(LEVEL_ORDER.indexOf(absoluteLevel), riseLevel ? LEVEL_ORDER.indexOf(riseLevel) : 0)];
+
+  return {
+    level,
+    absoluteLevel,
+    riseLevel,
+    rise: riseValue,
+    allowableRise: allowable,
+    headroom: Math.min(thermalClass.surfaceLimit - surfaceTemp, riseHeadroom ?? Infinity),
+    thermalClass,
+  };
+}
+
+/**
+ * Threshold profile for motorSurfaceTemp: critical above the surface limit
+ */
+export function surfaceTempThreshold(thermalClass: ThermalClass): ThresholdProfile {
+  const { surfaceLimit, insulationClass } = thermalClass;
+  return {
+    direction: 'high',
+    warningHigh: surfaceLimit - THERMAL_WARNING_MARGIN,
+    criticalHigh: surfaceLimit,
+    deadband: 3,
+    labels: { warning: `Near class ${insulationClass} limit`, critical: `Over class ${insulationClass} limit` },
+  };
+}
+
+/**
+ * Threshold profile for the rise above ambient (tempGradient, motor surface - ambient).
+ * Static bounds are exact up to the reference ambient; above it the
+ * surface limit is reached first, which is the same allowable rise.
+ */
+export function tempRiseThreshold(thermalClass: ThermalClass): ThresholdProfile {
+  const { riseLimit } = thermalClass;
+  return {
+    direction: 'high',
+    warningHigh: riseLimit - THERMAL_WARNING_MARGIN,
+    criticalHigh: riseLimit,
+    deadband: 2,
+    labels: { warning: 'High Rise', critical: 'Over Rise Limit' },
+  };
+}
+
+/**
+ * Short citation for reports, e.g. "IEC 60034-1 Class F, rise 80 K: surface ≤ 100 °C, rise ≤ 60 K"
+ */
+export function describeThermalClass(thermalClass: ThermalClass): string {
+  const { insulationClass, ratedRise, surfaceLimit, riseLimit } = thermalClass;
+  return `IEC 60034-1 Class ${insulationClass}, rise ${ratedRise} K: surface ≤ ${surfaceLimit} °C, rise ≤ ${riseLimit} K`;
+}
@@ -0,0 +1,101 @@
+/**
+ * Mechasense - Threshold Profile Storage
+ *
+ * Loads a motor's ThresholdProfile rows and resolves them together with its
+ * nameplate ratings into the thresholds map used by lib/thresholds.ts.
+ */
+
+import { Prisma, type ThresholdProfile as ThresholdProfileRow } from '@prisma/client';
+import { prisma } from './prisma';
+import {
+  DEFAULT_THRESHOLDS,
+  defaultThresholds,
+  resolveThresholds,
+  type MotorRatings,
+  type ParameterType,
+  type RatingBasis,
+  type ThresholdDirection,
+  type ThresholdProfile,
+  type ThresholdProfiles,
+} from './thresholds';
+
+export const THRESHOLD_PARAMETERS = Object.keys(DEFAULT_THRESHOLDS) as ParameterType[];
+
+export function isThresholdParameter(value: string): value is ParameterType {
+  return THRESHOLD_PARAMETERS.includes(value as ParameterType);
+}
+
+export function toThresholdProfile(row: ThresholdProfileRow): ThresholdProfile {
+  return {
+    direction: row.direction as ThresholdDirection,
+    warningLow: row.warningLow,
+    warningHigh: row.warningHigh,
+    criticalLow: row.criticalLow,
+    criticalHigh: row.criticalHigh,
+    deadband: row.deadband,
+    relativeTo: row.relativeTo as RatingBasis | null,
+    sustainSeconds: row.sustainSeconds,
+    sustainCount: row.sustainCount,
+    sustainWindow: row.sustainWindow,
+    rateWarning: row.rateWarning,
+    rateCritical: row.rateCritical,
+    rateWindowSeconds: row.rateWindowSeconds,
+    // Custom labels describe the default bounds only
+    labels: DEFAULT_THRESHOLDS[row.parameter as ParameterType]?.labels,
+  };
+}
+
+/**
+ * Stored overrides of a motor, keyed by parameter
+ */
+export function toThresholdOverrides(rows: ThresholdProfileRow[]): ThresholdProfiles {
+  const overrides: ThresholdProfiles = {};
+  for (const row of rows) {
+    if (isThresholdParameter(row.parameter)) overrides[row.parameter] = toThresholdProfile(row);
+  }
+  return overrides;
+}
+
+/**
+ * Profiles in effect for a motor loaded with its `thresholdProfiles`
+ */
+export function motorThresholds(
+  motor: MotorRatings & { thresholdProfiles: ThresholdProfileRow[] }
+): Record<ParameterType, ThresholdProfile> {
+  return resolveThresholds(toThresholdOverrides(motor.thresholdProfiles), motor);
+}
+
+/**
+ * Profiles of a motor: in effect (overrides, then nameplate, then
+ * DEFAULT_THRESHOLDS), its stored overrides, and what applies without them.
+ * Returns null when the motor does not exist.
+ */
+export async function loadMotorThresholds(
+  motorId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<{
+  thresholds: Record<ParameterType, ThresholdProfile>;
+  overrides: ThresholdProfiles;
+  defaults: Record<ParameterType, ThresholdProfile>;
+} | null> {
+  const motor = await db.motor.findUnique({
+    where: { id: motorId },
+    select: {
+      ratedCurrent: true,
+      ratedVoltage: true,
+      ratedPower: true,
+      machineGroup: true,
+      foundationType: true,
+      insulationClass: true,
+      ratedTempRise: true,
+      thresholdProfiles: true,
+    },
+  });
+  if (!motor) return null;
+
+  return {
+    thresholds: motorThresholds(motor),
+    overrides: toThresholdOverrides(motor.thresholdProfiles),
+    defaults: defaultThresholds(motor),
+  };
+}
@@ -3,8 +3,23 @@
  * 
  * This module defines safe operating ranges for all monitored parameters
  * and provides helpers to determine status colors based on current values.
+ * 
+ * Limits are data: DEFAULT_THRESHOLDS holds one ThresholdProfile per
+ * parameter, and a motor can override any of them (ThresholdProfile table,
+ * edited in Settings). Current, voltage and power can be given as
+ * percentages of the motor's nameplate (RATED_THRESHOLDS, resolveThresholds);
+ * vibration and temperature follow the motor's ISO 10816 class and
+ * insulation class.
+ * Every helper takes an optional `thresholds` map with
+ * the motor's resolved profiles and falls back to the defaults.
+ *
+ * All values and bounds are in the canonical units of lib/units.ts.
  */
 
+import { PARAMETER_UNITS } from './units';
+import { vibrationClassFor, vibrationThreshold } from './vibrationSeverity';
+import { surfaceTempThreshold, tempRiseThreshold, thermalClassFor } from './thermalClass';
+
 export type StatusLevel = 'normal' | 'warning' | 'critical';
 
 export interface StatusResult {
@@ -22,487 +37,539 @@ export type ParameterType =
   | 'motorSurfaceTemp'
   | 'bearingTemp'
   | 'dustDensity'
+  | 'soilingLossPercent'
   | 'vibrationRms'
   | 'power'
   | 'apparentPower'
   | 'loadIndex'
   | 'ambientTemp'
   | 'deltaTemp'
+  | 'tempGradient'
   | 'vibrationPeakG'
   | 'crestFactor';
 
+export type ThresholdDirection = 'high' | 'low' | 'band';
+
+/** Nameplate rating a relative profile is expressed against */
+export type RatingBasis = 'ratedCurrent' | 'ratedVoltage' | 'ratedPower';
+
+/**
+ * Warning/critical bounds for one parameter.
+ * - high: warning from warningHigh, critical above criticalHigh
+ * - low:  warning from warningLow, critical below criticalLow
+ * - band: normal within [warningLow, warningHigh], warning within
+ *         [criticalLow, criticalHigh], critical outside (a null bound is open)
+ */
+export interface ThresholdProfile {
+  direction: ThresholdDirection;
+  warningLow?: number | null;
+  warningHigh?: number | null;
+  criticalLow?: number | null;
+  criticalHigh?: number | null;
+  /** Margin a value must clear a bound by before an alert closes */
+  deadband?: number | null;
+  /** When set, bounds and deadband are percentages of this nameplate rating */
+  relativeTo?: RatingBasis | null;
+  /** Status labels shown instead of "Warning" / "Critical" */
+  labels?: { warning?: string; critical?: string };
+  /**
+   * Sustained breach (see lib/alertConditions.ts): a level only alerts once
+   * it has lasted sustainSeconds, or was reached in sustainCount of the
+   * last sustainWindow samples. Without them a single sample alerts.
+   */
+  sustainSeconds?: number | null;
+  sustainCount?: number | null;
+  sustainWindow?: number | null;
+  /**
+   * Rate of change per minute in the bad direction (rising for high,
+   * falling for low, either for band), fitted over rateWindowSeconds
+   */
+  rateWarning?: number | null;
+  rateCritical?: number | null;
+  rateWindowSeconds?: number | null;
+}
+
+export const CONDITION_FIELDS = [
+  'sustainSeconds',
+  'sustainCount',
+  'sustainWindow',
+  'rateWarning',
+  'rateCritical',
+  'rateWindowSeconds',
+] as const;
+
+export type ConditionField = (typeof CONDITION_FIELDS)[number];
+
+/** Longest sustainSeconds / rateWindowSeconds accepted */
+export const MAX_CONDITION_SECONDS = 3600;
+
+/** Longest M-of-K window, in samples */
+export const MAX_SUSTAIN_WINDOW = 100;
+
+export type ThresholdProfiles = Partial<Record<ParameterType, ThresholdProfile>>;
+
+export const THRESHOLD_DIRECTIONS: ThresholdDirection[] = ['high', 'low', 'band'];
+export const RATING_BASES: RatingBasis[] = ['ratedCurrent', 'ratedVoltage', 'ratedPower'];
+
+/**
+ * Default limits, used when a motor has no profile for the parameter
+ */
+export const DEFAULT_THRESHOLDS: Record<ParameterType, ThresholdProfile> = {
+  // Normal range: 200-240V (typical Indonesian grid voltage)
+  gridVoltage: { direction: 'band', warningLow: 200, warningHigh: 240, criticalLow: 190, criticalHigh: 250, deadband: 3 },
+  // Starting current is several times rated for a few seconds
+  motorCurrent: { direction: 'high', warningHigh: 4, criticalHigh: 5.5, deadband: 0.2, sustainSeconds: 10 },
+  powerFactor: { direction: 'low', warningLow: 0.85, criticalLow: 0.7, deadband: 0.02 },
+  // Any deviation outside 49.5-50.5 Hz is critical
+  gridFrequency: { direction: 'band', warningLow: 49.5, warningHigh: 50.5, criticalLow: 49.5, criticalHigh: 50.5, deadband: 0.1 },
+  // Heating faster than 1 °C/min is abnormal well before the limit is reached.
+  // Motors with ratings use the limits of their insulation class instead
+  motorSurfaceTemp: {
+    direction: 'high', warningHigh: 70, criticalHigh: 85, deadband: 3,
+    rateWarning: 1, rateCritical: 2, rateWindowSeconds: 300,
+  },
+  // Same defaults as motor surface temp (grease, not insulation, limits the bearing)
+  bearingTemp: {
+    direction: 'high', warningHigh: 70, criticalHigh: 85, deadband: 3,
+    rateWarning: 1, rateCritical: 2, rateWindowSeconds: 300,
+  },
+  // The optical dust sensor is noisy: 3 of the last 5 samples
+  dustDensity: { direction: 'high', warningHigh: 50, criticalHigh: 100, deadband: 5, sustainCount: 3, sustainWindow: 5 },
+  // Efficiency loss the ESP estimates from dust (dust / 300 µg/m³): maintenance from 5%,
+  // critical from the loss at the critical dust density
+  soilingLossPercent: { direction: 'high', warningHigh: 5, criticalHigh: 33, deadband: 1 },
+  // Vibration velocity (ISO 10816-3 Group 2, rigid: zone C from 2.8 mm/s, zone D from 4.5 mm/s).
+  // Motors with ratings use the zones of their own class instead
+  vibrationRms: { direction: 'high', warningHigh: 2.8, criticalHigh: 4.5, deadband: 0.2, sustainCount: 3, sustainWindow: 5 },
+  // Normal range for small motor: < 500W, Warning: 500-750W, Critical: > 750W
+  power: { direction: 'high', warningHigh: 500, criticalHigh: 750 },
+  // Normal: < 600VA, Warning: 600-900VA, Critical: > 900VA
+  apparentPower: { direction: 'high', warningHigh: 600, criticalHigh: 900 },
+  // Load Index 0-1: Normal < 0.8, Warning 0.8-0.95, Critical > 0.95
+  loadIndex: { direction: 'high', warningHigh: 0.8, criticalHigh: 0.95, labels: { critical: 'Overload' } },
+  // Ambient temp: Normal < 35°C, Warning 35-45°C, Critical > 45°C
+  ambientTemp: { direction: 'high', warningHigh: 35, criticalHigh: 45, labels: { warning: 'Warm', critical: 'Hot' } },
+  // Delta Temp (Bearing - Ambient, from the ESP): Normal < 30°C, Warning 30-50°C, Critical > 50°C
+  deltaTemp: { direction: 'high', warningHigh: 30, criticalHigh: 50, labels: { warning: 'Elevated', critical: 'High Rise' } },
+  // Temp Gradient (Motor surface - Ambient, from the ESP): the firmware flags a hotspot above 15°C
+  tempGradient: {
+    direction: 'high', warningHigh: 15, criticalHigh: 30, deadband: 2, labels: { warning: 'Hotspot' },
+    rateWarning: 1, rateCritical: 2, rateWindowSeconds: 300,
+  },
+  // Vibration Peak (g): Normal < 0.5g, Warning 0.5-1.0g, Critical > 1.0g
+  vibrationPeakG: { direction: 'high', warningHigh: 0.5, criticalHigh: 1.0 },
+  // Crest Factor: Normal 3-5, Warning below 3 or 5-7, Critical > 7 (indicates bearing damage)
+  crestFactor: { direction: 'band', warningLow: 3, warningHigh: 5, criticalLow: null, criticalHigh: 7, labels: { critical: 'Bearing Issue' } },
+};
+
+/**
+ * Nameplate ratings and installation of a motor (see Settings)
+ */
+export interface MotorRatings {
+  ratedCurrent: number;  // A
+  ratedVoltage: number;  // V
+  ratedPower: number;    // kW
+  /** ISO 10816 machine group and foundation (see lib/vibrationSeverity.ts) */
+  machineGroup?: string | null;
+  foundationType?: string | null;
+  /** IEC 60034-1 insulation class and rated rise (see lib/thermalClass.ts) */
+  insulationClass?: string | null;
+  ratedTempRise?: number | null;
+}
+
+/**
+ * Defaults for motors with a nameplate, as percentages of the ratings.
+ * They replace the absolute DEFAULT_THRESHOLDS whenever ratings are known.
+ */
+export const RATED_THRESHOLDS: ThresholdProfiles = {
+  motorCurrent: { direction: 'high', relativeTo: 'ratedCurrent', warningHigh: 100, criticalHigh: 115, deadband: 5, sustainSeconds: 10 },
+  gridVoltage: {
+    direction: 'band',
+    relativeTo: 'ratedVoltage',
+    warningLow: 90,
+    warningHigh: 110,
+    criticalLow: 85,
+    criticalHigh: 115,
+    deadband: 1.5,
+  },
+  // Active power is electrical input; a small motor at full load draws about
+  // rated output / efficiency (~130%)
+  power: { direction: 'high', relativeTo: 'ratedPower', warningHigh: 140, criticalHigh: 160, deadband: 5 },
+};
+
+function ratingValue(basis: RatingBasis, ratings: MotorRatings): number {
+  // Power readings are in W, the nameplate in kW
+  return basis === 'ratedPower' ? ratings.ratedPower * 1000 : ratings[basis];
+}
+
+/**
+ * Convert a relative profile to absolute bounds for a motor (bounds,
+ * deadband and rates are scaled; durations are kept).
+ * Absolute profiles are returned unchanged; without ratings a relative
+ * profile cannot be resolved and null is returned.
+ */
+export function applyRatings(profile: ThresholdProfile, ratings?: MotorRatings | null): ThresholdProfile | null {
+  if (!profile.relativeTo) return profile;
+  if (!ratings) return null;
+
+  const rated = ratingValue(profile.relativeTo, ratings);
+  const scale = (percent: number | null | undefined) =>
+    percent === null || percent === undefined ? percent : (percent / 100) * rated;
+
+  return {
+    ...profile,
+    relativeTo: null,
+    warningLow: scale(profile.warningLow),
+    warningHigh: scale(profile.warningHigh),
+    criticalLow: scale(profile.criticalLow),
+    criticalHigh: scale(profile.criticalHigh),
+    deadband: scale(profile.deadband),
+    rateWarning: scale(profile.rateWarning),
+    rateCritical: scale(profile.rateCritical),
+  };
+}
+
+/**
+ * Defaults for a motor before conversion: nameplate-relative profiles, the
+ * ISO 10816 vibration zones of its class and the limits of its insulation
+ * class when ratings are known, DEFAULT_THRESHOLDS otherwise
+ */
+export function defaultThresholds(ratings?: MotorRatings | null): Record<ParameterType, ThresholdProfile> {
+  return {
+    ...DEFAULT_THRESHOLDS,
+    ...(ratings
+      ? {
+          ...RATED_THRESHOLDS,
+          // Zone bounds of the motor's class, default sustain condition
+          vibrationRms: { ...DEFAULT_THRESHOLDS.vibrationRms, ...vibrationThreshold(vibrationClassFor(ratings)) },
+          // Insulation class limits, default rate conditions
+          motorSurfaceTemp: { ...DEFAULT_THRESHOLDS.motorSurfaceTemp, ...surfaceTempThreshold(thermalClassFor(ratings)) },
+          tempGradient: { ...DEFAULT_THRESHOLDS.tempGradient, ...tempRiseThreshold(thermalClassFor(ratings)) },
+        }
+      : {}),
+  } as Record<ParameterType, ThresholdProfile>;
+}
+
+/**
+ * Absolute profiles in effect for a motor: its stored overrides, then
+ * nameplate-relative defaults, then DEFAULT_THRESHOLDS
+ */
+export function resolveThresholds(
+  overrides?: ThresholdProfiles | null,
+  ratings?: MotorRatings | null
+): Record<ParameterType, ThresholdProfile> {
+  const profiles = { ...defaultThresholds(ratings), ...overrides };
+  const resolved = {} as Record<ParameterType, ThresholdProfile>;
+  for (const parameter of Object.keys(profiles) as ParameterType[]) {
+    resolved[parameter] = applyRatings(profiles[parameter]!, ratings) ?? DEFAULT_THRESHOLDS[parameter];
+  }
+  return resolved;
+}
+
+/**
+ * Profile in effect for a parameter
+ */
+export function getThreshold(parameterType: ParameterType, thresholds?: ThresholdProfiles | null): ThresholdProfile {
+  return thresholds?.[parameterType] ?? DEFAULT_THRESHOLDS[parameterType];
+}
+
+/**
+ * Classify a value against a profile
+ */
+export function classifyValue(value: number, profile: ThresholdProfile): StatusLevel {
+  const { warningLow, warningHigh, criticalLow, criticalHigh } = profile;
+  const below = (bound: number | null | undefined) => bound !== null && bound !== undefined && value < bound;
+  const above = (bound: number | null | undefined) => bound !== null && bound !== undefined && value > bound;
+
+  switch (profile.direction) {
+    case 'high':
+      if (above(criticalHigh)) return 'critical';
+      if (warningHigh !== null && warningHigh !== undefined && value >= warningHigh) return 'warning';
+      return 'normal';
+    case 'low':
+      if (below(criticalLow)) return 'critical';
+      if (warningLow !== null && warningLow !== undefined && value <= warningLow) return 'warning';
+      return 'normal';
+    case 'band':
+      if (!below(warningLow) && !above(warningHigh)) return 'normal';
+      if (!below(criticalLow) && !above(criticalHigh)) return 'warning';
+      return 'critical';
+  }
+}
+
+const STATUS_STYLE: Record<StatusLevel, StatusResult> = {
+  normal: { level: 'normal', label: 'Normal', color: 'text-status-normal', bgColor: 'bg-status-normal' },
+  warning: { level: 'warning', label: 'Warning', color: 'text-status-warning', bgColor: 'bg-status-warning' },
+  critical: { level: 'critical', label: 'Critical', color: 'text-status-critical', bgColor: 'bg-status-critical' },
+};
+
 /**
  * Get status color and label based on parameter value and type
  */
-export function getStatusColor(value: number, parameterType: ParameterType): StatusResult {
-  switch (parameterType) {
-    case 'gridVoltage':
-      // Normal range: 200-240V (typical Indonesian grid voltage)
-      if (value >= 200 && value <= 240) {
-        return {
-          level: 'normal',
-          label: 'Normal',
-          color: 'text-status-normal',
-          bgColor: 'bg-status-normal'
-        };
-      } else if ((value >= 190 && value < 200) || (value > 240 && value <= 250)) {
-        return {
-          level: 'warning',
-          label: 'Warning',
-          color: 'text-status-warning',
-          bgColor: 'bg-status-warning'
-        };
-      } else {
-        return {
-          level: 'critical',
-          label: 'Critical',
-          color: 'text-status-critical',
-          bgColor: 'bg-status-critical'
-        };
-      }
-    
-    case 'motorCurrent':
-      if (value < 4) {
-        return {
-          level: 'normal',
-          label: 'Normal',
-          color: 'text-status-normal',
-          bgColor: 'bg-status-normal'
-        };
-      } else if (value >= 4 && value <= 5.5) {
-        return {
-          level: 'warning',
-          label: 'Warning',
-          color: 'text-status-warning',
-          bgColor: 'bg-status-warning'
-        };
-      } else {
-        return {
-          level: 'critical',
-          label: 'Critical',
-          color: 'text-status-critical',
-          bgColor: 'bg-status-critical'
-        };
-      }
-    
-    case 'powerFactor':
-      if (value > 0.85) {
-        return {
-          level: 'normal',
-          label: 'Normal',
-          color: 'text-status-normal',
-          bgColor: 'bg-status-normal'
-        };
-      } else if (value >= 0.7 && value <= 0.85) {
-        return {
-          level: 'warning',
-          label: 'Warning',
-          color: 'text-status-warning',
-          bgColor: 'bg-status-warning'
-        };
-      } else {
-        return {
-          level: 'critical',
-          label: 'Critical',
-          color: 'text-status-critical',
-          bgColor: 'bg-status-critical'
-        };
-      }
-    
-    case 'gridFrequency':
-      if (value >= 49.5 && value <= 50.5) {
-        return {
-          level: 'normal',
-          label: 'Normal',
-          color: 'text-status-normal',
-          bgColor: 'bg-status-normal'
-        };
-      } else {
-        return {
-          level: 'critical',
-          label: 'Critical',
-          color: 'text-status-critical',
-          bgColor: 'bg-status-critical'
-        };
-      }
-    
-    case 'motorSurfaceTemp':
-      if (value < 70) {
-        return {
-          level: 'normal',
-          label: 'Normal',
-          color: 'text-status-normal',
-          bgColor: 'bg-status-normal'
-        };
-      } else if (value >= 70 && value <= 85) {
-        return {
-          level: 'warning',
-          label: 'Warning',
-          color: 'text-status-warning',
-          bgColor: 'bg-status-warning'
-        };
-      } else {
-        return {
-          level: 'critical',
-          label: 'Critical',
-          color: 'text-status-critical',
-          bgColor: 'bg-status-critical'
-        };
-      }
-    
-    case 'bearingTemp':
-      // Same thresholds as motor surface temp
-      if (value < 70) {
-        return {
-          level: 'normal',
-          label: 'Normal',
-          color: 'text-status-normal',
-          bgColor: 'bg-status-normal'
-        };
-      } else if (value >= 70 && value <= 85) {
-        return {
-          level: 'warning',
-          label: 'Warning',
-          color: 'text-status-warning',
-          bgColor: 'bg-status-warning'
-        };
-      } else {
-        return {
-          level: 'critical',
-          label: 'Critical',
-          color: 'text-status-critical',
-          bgColor: 'bg-status-critical'
-        };
-      }
-    
-    case 'dustDensity':
-      if (value < 50) {
-        return {
-          level: 'normal',
-          label: 'Normal',
-          color: 'text-status-normal',
-          bgColor: 'bg-status-normal'
-        };
-      } else if (value >= 50 && value <= 100) {
-        return {
-          level: 'warning',
-          label: 'Warning',
-          color: 'text-status-warning',
-          bgColor: 'bg-status-warning'
-        };
-      } else {
-        return {
-          level: 'critical',
-          label: 'Critical',
-          color: 'text-status-critical',
-          bgColor: 'bg-status-critical'
-        };
-      }
-    
-    case 'vibrationRms':
-      if (value < 4500) {
-        return {
-          level: 'normal',
-          label: 'Normal',
-          color: 'text-status-normal',
-          bgColor: 'bg-status-normal'
-        };
-      } else if (value >= 4500 && value <= 4700) {
-        return {
-          level: 'warning',
-          label: 'Warning',
-          color: 'text-status-warning',
-          bgColor: 'bg-status-warning'
-        };
-      } else {
-        return {
-          level: 'critical',
-          label: 'Critical',
-          color: 'text-status-critical',
-          bgColor: 'bg-status-critical'
-        };
-      }
-    
-    case 'power':
-      // Normal range for small motor: < 500W, Warning: 500-750W, Critical: > 750W
-      if (value < 500) {
-        return {
-          level: 'normal',
-          label: 'Normal',
-          color: 'text-status-normal',
-          bgColor: 'bg-status-normal'
-        };
-      } else if (value >= 500 && value <= 750) {
-        return {
-          level: 'warning',
-          label: 'Warning',
-          color: 'text-status-warning',
-          bgColor: 'bg-status-warning'
-        };
-      } else {
-        return {
-          level: 'critical',
-          label: 'Critical',
-          color: 'text-status-critical',
-          bgColor: 'bg-status-critical'
-        };
-      }
-    
-    case 'apparentPower':
-      // Normal: < 600VA, Warning: 600-900VA, Critical: > 900VA
-      if (value < 600) {
-        return {
-          level: 'normal',
-          label: 'Normal',
-          color: 'text-status-normal',
-          bgColor: 'bg-status-normal'
-        };
-      } else if (value >= 600 && value <= 900) {
-        return {
-          level: 'warning',
-          label: 'Warning',
-          color: 'text-status-warning',
-          bgColor: 'bg-status-warning'
-        };
-      } else {
-        return {
-          level: 'critical',
-          label: 'Critical',
-          color: 'text-status-critical',
-          bgColor: 'bg-status-critical'
-        };
-      }
-    
-    case 'loadIndex':
-      // Load Index 0-1: Normal < 0.8, Warning 0.8-0.95, Critical > 0.95
-      if (value < 0.8) {
-        return {
-          level: 'normal',
-          label: 'Normal',
-          color: 'text-status-normal',
-          bgColor: 'bg-status-normal'
-        };
-      } else if (value >= 0.8 && value <= 0.95) {
-        return {
-          level: 'warning',
-          label: 'Warning',
-          color: 'text-status-warning',
-          bgColor: 'bg-status-warning'
-        };
-      } else {
-        return {
-          level: 'critical',
-          label: 'Overload',
-          color: 'text-status-critical',
-          bgColor: 'bg-status-critical'
-        };
-      }
-    
-    case 'ambientTemp':
-      // Ambient temp: Normal < 35°C, Warning 35-45°C, Critical > 45°C
-      if (value < 35) {
-        return {
-          level: 'normal',
-          label: 'Normal',
-          color: 'text-status-normal',
-          bgColor: 'bg-status-normal'
-        };
-      } else if (value >= 35 && value <= 45) {
-        return {
-          level: 'warning',
-          label: 'Warm',
-          color: 'text-status-warning',
-          bgColor: 'bg-status-warning'
-        };
-      } else {
-        return {
-          level: 'critical',
-          label: 'Hot',
-          color: 'text-status-critical',
-          bgColor: 'bg-status-critical'
-        };
-      }
-    
-    case 'deltaTemp':
-      // Delta Temp (Motor - Ambient): Normal < 30°C, Warning 30-50°C, Critical > 50°C
-      if (value < 30) {
-        return {
-          level: 'normal',
-          label: 'Normal',
-          color: 'text-status-normal',
-          bgColor: 'bg-status-normal'
-        };
-      } else if (value >= 30 && value <= 50) {
-        return {
-          level: 'warning',
-          label: 'Elevated',
-          color: 'text-status-warning',
-          bgColor: 'bg-status-warning'
-        };
-      } else {
-        return {
-          level: 'critical',
-          label: 'High Rise',
-          color: 'text-status-critical',
-          bgColor: 'bg-status-critical'
-        };
-      }
-    
-    case 'vibrationPeakG':
-      // Vibration Peak (g): Normal < 0.5g, Warning 0.5-1.0g, Critical > 1.0g
-      if (value < 0.5) {
-        return {
-          level: 'normal',
-          label: 'Normal',
-          color: 'text-status-normal',
-          bgColor: 'bg-status-normal'
-        };
-      } else if (value >= 0.5 && value <= 1.0) {
-        return {
-          level: 'warning',
-          label: 'Warning',
-          color: 'text-status-warning',
-          bgColor: 'bg-status-warning'
-        };
-      } else {
-        return {
-          level: 'critical',
-          label: 'Critical',
-          color: 'text-status-critical',
-          bgColor: 'bg-status-critical'
-        };
-      }
-    
-    case 'crestFactor':
-      // Crest Factor: Normal 3-5, Warning 5-7, Critical > 7 (indicates bearing damage)
-      if (value >= 3 && value < 5) {
-        return {
-          level: 'normal',
-          label: 'Normal',
-          color: 'text-status-normal',
-          bgColor: 'bg-status-normal'
-        };
-      } else if (value < 3 || (value >= 5 && value <= 7)) {
-        return {
-          level: 'warning',
-          label: 'Warning',
-          color: 'text-status-warning',
-          bgColor: 'bg-status-warning'
-        };
-      } else {
-        return {
-          level: 'critical',
-          label: 'Bearing Issue',
-          color: 'text-status-critical',
-          bgColor: 'bg-status-critical'
-        };
-      }
-    
-    default:
-      return {
-        level: 'normal',
-        label: 'Unknown',
-        color: 'text-gray-500',
-        bgColor: 'bg-gray-500'
-      };
+export function getStatusColor(value: number, parameterType: ParameterType, thresholds?: ThresholdProfiles | null): StatusResult {
+  const profile = getThreshold(parameterType, thresholds);
+  if (!profile) {
+    return {
+      level: 'normal',
+      label: 'Unknown',
+      color: 'text-gray-500',
+      bgColor: 'bg-gray-500'
+    };
   }
+
+  const level = classifyValue(value, profile);
+  const style = STATUS_STYLE[level];
+  const label = level === 'normal' ? style.label : profile.labels?.[level] ?? style.label;
+  return { ...style, label };
 }
 
 /**
  * Check if value exceeds thresholds and should generate alert
  */
-export function shouldAlert(value: number, parameterType: ParameterType): boolean {
-  const status = getStatusColor(value, parameterType);
+export function shouldAlert(value: number, parameterType: ParameterType, thresholds?: ThresholdProfiles | null): boolean {
+  const status = getStatusColor(value, parameterType, thresholds);
   return status.level === 'warning' || status.level === 'critical';
 }
 
 /**
  * Get severity level for alert generation
  */
-export function getAlertSeverity(value: number, parameterType: ParameterType): 'WARNING' | 'CRITICAL' | null {
-  const status = getStatusColor(value, parameterType);
+export function getAlertSeverity(value: number, parameterType: ParameterType, thresholds?: ThresholdProfiles | null): 'WARNING' | 'CRITICAL' | null {
+  const status = getStatusColor(value, parameterType, thresholds);
   if (status.level === 'critical') return 'CRITICAL';
   if (status.level === 'warning') return 'WARNING';
   return null;
 }
 
+/**
+ * Validate the sustain / rate conditions of a submitted profile
+ */
+function validateConditions(
+  body: Record<string, unknown>
+): { ok: true; conditions: Record<ConditionField, number | null> } | { ok: false; error: string } {
+  const conditions = {} as Record<ConditionField, number | null>;
+  for (const key of CONDITION_FIELDS) {
+    const raw = body[key];
+    if (raw === undefined || raw === null || raw === '') {
+      conditions[key] = null;
+      continue;
+    }
+    const value = typeof raw === 'number' ? raw : Number(raw);
+    if (!Number.isFinite(value) || value <= 0) {
+      return { ok: false, error: `${key} must be a positive number` };
+    }
+    if (key !== 'rateWarning' && key !== 'rateCritical' && !Number.isInteger(value)) {
+      return { ok: false, error: `${key} must be a whole number` };
+    }
+    conditions[key] = value;
+  }
+
+  const { sustainSeconds, sustainCount, sustainWindow, rateWarning, rateCritical, rateWindowSeconds } = conditions;
+
+  if (sustainSeconds !== null && sustainSeconds > MAX_CONDITION_SECONDS) {
+    return { ok: false, error: `sustainSeconds must be at most ${MAX_CONDITION_SECONDS}` };
+  }
+  if ((sustainCount === null) !== (sustainWindow === null)) {
+    return { ok: false, error: 'sustainCount and sustainWindow must be set together' };
+  }
+  if (sustainCount !== null && sustainWindow !== null) {
+    if (sustainCount > sustainWindow) {
+      return { ok: false, error: 'sustainCount must be at most sustainWindow' };
+    }
+    if (sustainWindow > MAX_SUSTAIN_WINDOW) {
+      return { ok: false, error: `sustainWindow must be at most ${MAX_SUSTAIN_WINDOW} samples` };
+    }
+  }
+
+  if (rateWarning === null && rateCritical === null) {
+    // A window without a rate has no effect
+    conditions.rateWindowSeconds = null;
+  } else {
+    if (rateWarning !== null && rateCritical !== null && rateCritical < rateWarning) {
+      return { ok: false, error: 'rateCritical must be at least rateWarning' };
+    }
+    if (rateWindowSeconds === null) {
+      return { ok: false, error: 'rateWindowSeconds is required with a rate condition' };
+    }
+    if (rateWindowSeconds > MAX_CONDITION_SECONDS) {
+      return { ok: false, error: `rateWindowSeconds must be at most ${MAX_CONDITION_SECONDS}` };
+    }
+  }
+
+  return { ok: true, conditions };
+}
+
+/**
+ * Validate a profile submitted from the Settings editor or API.
+ * Bounds must be ordered so that the warning zone lies inside the critical one;
+ * with `relativeTo` they are percentages of that rating.
+ */
+export function validateThresholdProfile(input: unknown): { ok: true; profile: ThresholdProfile } | { ok: false; error: string } {
+  if (typeof input !== 'object' || input === null) {
+    return { ok: false, error: 'Body must be a JSON object' };
+  }
+  const body = input as Record<string, unknown>;
+
+  const direction = body.direction as ThresholdDirection;
+  if (!THRESHOLD_DIRECTIONS.includes(direction)) {
+    return { ok: false, error: `direction must be one of ${THRESHOLD_DIRECTIONS.join(', ')}` };
+  }
+
+  const bounds = {} as Record<'warningLow' | 'warningHigh' | 'criticalLow' | 'criticalHigh' | 'deadband', number | null>;
+  for (const key of ['warningLow', 'warningHigh', 'criticalLow', 'criticalHigh', 'deadband'] as const) {
+    const raw = body[key];
+    if (raw === undefined || raw === null || raw === '') {
+      bounds[key] = null;
+      continue;
+    }
+    const value = typeof raw === 'number' ? raw : Number(raw);
+    if (!Number.isFinite(value)) {
+      return { ok: false, error: `${key} must be a number` };
+    }
+    bounds[key] = value;
+  }
+
+  const { warningLow, warningHigh, criticalLow, criticalHigh, deadband } = bounds;
+
+  const relativeTo = body.relativeTo === undefined || body.relativeTo === null || body.relativeTo === ''
+    ? null
+    : (body.relativeTo as RatingBasis);
+  if (relativeTo !== null && !RATING_BASES.includes(relativeTo)) {
+    return { ok: false, error: `relativeTo must be one of ${RATING_BASES.join(', ')}` };
+  }
+
+  if (deadband !== null && deadband < 0) {
+    return { ok: false, error: 'deadband must not be negative' };
+  }
+
+  const conditionResult = validateConditions(body);
+  if (!conditionResult.ok) {
+    return { ok: false, error: conditionResult.error };
+  }
+  const { conditions } = conditionResult;
+
+  if (direction === 'high') {
+    if (warningHigh === null || criticalHigh === null) {
+      return { ok: false, error: 'warningHigh and criticalHigh are required for direction high' };
+    }
+    if (criticalHigh < warningHigh) {
+      return { ok: false, error: 'criticalHigh must be at least warningHigh' };
+    }
+    return { ok: true, profile: { direction, warningHigh, criticalHigh, deadband, relativeTo, ...conditions } };
+  }
+
+  if (direction === 'low') {
+    if (warningLow === null || criticalLow === null) {
+      return { ok: false, error: 'warningLow and criticalLow are required for direction low' };
+    }
+    if (criticalLow > warningLow) {
+      return { ok: false, error: 'criticalLow must be at most warningLow' };
+    }
+    return { ok: true, profile: { direction, warningLow, criticalLow, deadband, relativeTo, ...conditions } };
+  }
+
+  if (warningLow === null && warningHigh === null) {
+    return { ok: false, error: 'A band needs warningLow and/or warningHigh' };
+  }
+  if (warningLow !== null && warningHigh !== null && warningLow > warningHigh) {
+    return { ok: false, error: 'warningLow must be at most warningHigh' };
+  }
+  if (criticalLow !== null && (warningLow === null || criticalLow > warningLow)) {
+    return { ok: false, error: 'criticalLow must be at most warningLow' };
+  }
+  if (criticalHigh !== null && (warningHigh === null || criticalHigh < warningHigh)) {
+    return { ok: false, error: 'criticalHigh must be at least warningHigh' };
+  }
+  return { ok: true, profile: { direction, warningLow, warningHigh, criticalLow, criticalHigh, deadband, relativeTo, ...conditions } };
+}
+
 /**
  * Parameter display configurations
  */
 export const PARAMETER_CONFIG = {
   gridVoltage: {
     label: 'Grid Voltage',
-    unit: 'V',
+    unit: PARAMETER_UNITS.gridVoltage,
     icon: 'V',
   },
   motorCurrent: {
     label: 'Motor Current',
-    unit: 'A',
+    unit: PARAMETER_UNITS.motorCurrent,
     icon: 'I',
   },
   powerFactor: {
     label: 'Power Factor',
-    unit: '',
+    unit: PARAMETER_UNITS.powerFactor,
     icon: 'PF',
   },
   gridFrequency: {
     label: 'Grid Frequency',
-    unit: 'Hz',
+    unit: PARAMETER_UNITS.gridFrequency,
     icon: 'f',
   },
   motorSurfaceTemp: {
     label: 'Motor Surface Temp',
-    unit: '°C',
+    unit: PARAMETER_UNITS.motorSurfaceTemp,
     icon: 'T',
   },
   bearingTemp: {
     label: 'Bearing Temp',
-    unit: '°C',
+    unit: PARAMETER_UNITS.bearingTemp,
     icon: 'T',
   },
   dustDensity: {
     label: 'Dust Density',
-    unit: 'µg/m³',
+    unit: PARAMETER_UNITS.dustDensity,
+    icon: 'D',
+  },
+  soilingLossPercent: {
+    label: 'Soiling Loss',
+    unit: PARAMETER_UNITS.soilingLossPercent,
     icon: 'D',
   },
   vibrationRms: {
     label: 'Vibration RMS',
-    unit: 'mm/s',
+    unit: PARAMETER_UNITS.vibrationRms,
     icon: 'V',
   },
   power: {
     label: 'Active Power',
-    unit: 'W',
+    unit: PARAMETER_UNITS.power,
     icon: 'P',
   },
   apparentPower: {
     label: 'Apparent Power',
-    unit: 'VA',
+    unit: PARAMETER_UNITS.apparentPower,
     icon: 'S',
   },
   loadIndex: {
     label: 'Load Index',
-    unit: '',
+    unit: PARAMETER_UNITS.loadIndex,
     icon: 'L',
   },
   ambientTemp: {
     label: 'Ambient Temp',
-    unit: '°C',
+    unit: PARAMETER_UNITS.ambientTemp,
     icon: 'T',
   },
   deltaTemp: {
     label: 'Delta Temp',
-    unit: '°C',
+    unit: PARAMETER_UNITS.deltaTemp,
     icon: 'ΔT',
   },
+  tempGradient: {
+    label: 'Temp Gradient',
+    unit: PARAMETER_UNITS.tempGradient,
+    icon: 'TG',
+  },
   vibrationPeakG: {
     label: 'Vibration Peak',
-    unit: 'g',
+    unit: PARAMETER_UNITS.vibrationPeakG,
     icon: 'G',
   },
   crestFactor: {
     label: 'Crest Factor',
-    unit: '',
+    unit: PARAMETER_UNITS.crestFactor,
     icon: 'CF',
   },
 } as const;
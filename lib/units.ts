@@ -0,0 +1,207 @@
+/**
+ * Mechasense - Units & Quantities
+ *
+ * Every monitored parameter has one canonical unit (PARAMETER_UNITS).
+ * Thresholds, the health score and the database all work in canonical
+ * units; values entering the system (ingest, Firebase, ML requests) carry
+ * their unit as a Quantity and are converted with toCanonical().
+ *
+ * Converting between different dimensions (e.g. acceleration in g to
+ * velocity in mm/s) throws UnitMismatchError instead of comparing
+ * incompatible numbers.
+ *
+ * Temperature rises (deltaTemp, tempGradient) are differences: a rise of
+ * 10 K is a rise of 10 °C, so they convert without the 273.15 offset.
+ */
+
+import type { ParameterType } from './thresholds';
+
+export type Dimension =
+  | 'acceleration'
+  | 'velocity'
+  | 'temperature'
+  | 'power'
+  | 'apparentPower'
+  | 'energy'
+  | 'voltage'
+  | 'current'
+  | 'frequency'
+  | 'concentration'
+  | 'ratio';
+
+interface UnitSpec {
+  dimension: Dimension;
+  /** value_in_base = value * factor + offset */
+  factor: number;
+  offset?: number;
+}
+
+const UNITS = {
+  // Acceleration (base m/s²)
+  'g': { dimension: 'acceleration', factor: 9.80665 },
+  'm/s²': { dimension: 'acceleration', factor: 1 },
+  'mm/s²': { dimension: 'acceleration', factor: 0.001 },
+  // Velocity (base m/s)
+  'm/s': { dimension: 'velocity', factor: 1 },
+  'mm/s': { dimension: 'velocity', factor: 0.001 },
+  // Temperature (base K)
+  'K': { dimension: 'temperature', factor: 1 },
+  '°C': { dimension: 'temperature', factor: 1, offset: 273.15 },
+  // Power (base W)
+  'W': { dimension: 'power', factor: 1 },
+  'kW': { dimension: 'power', factor: 1000 },
+  'VA': { dimension: 'apparentPower', factor: 1 },
+  'kVA': { dimension: 'apparentPower', factor: 1000 },
+  'Wh': { dimension: 'energy', factor: 1 },
+  'kWh': { dimension: 'energy', factor: 1000 },
+  // Electrical
+  'V': { dimension: 'voltage', factor: 1 },
+  'A': { dimension: 'current', factor: 1 },
+  'mA': { dimension: 'current', factor: 0.001 },
+  'Hz': { dimension: 'frequency', factor: 1 },
+  // Environmental (base µg/m³)
+  'µg/m³': { dimension: 'concentration', factor: 1 },
+  'mg/m³': { dimension: 'concentration', factor: 1000 },
+  // Dimensionless (base fraction)
+  '': { dimension: 'ratio', factor: 1 },
+  '%': { dimension: 'ratio', factor: 0.01 },
+} satisfies Record<string, UnitSpec>;
+
+export type Unit = keyof typeof UNITS;
+
+export interface Quantity {
+  value: number;
+  unit: Unit;
+}
+
+/**
+ * Canonical unit of every parameter. Stored readings and threshold profiles
+ * use these units.
+ */
+export const PARAMETER_UNITS: Record<ParameterType, Unit> = {
+  gridVoltage: 'V',
+  motorCurrent: 'A',
+  powerFactor: '',
+  gridFrequency: 'Hz',
+  motorSurfaceTemp: '°C',
+  bearingTemp: '°C',
+  dustDensity: 'µg/m³',
+  soilingLossPercent: '%',
+  // Vibration velocity RMS, as in ISO 10816
+  vibrationRms: 'mm/s',
+  power: 'W',
+  apparentPower: 'VA',
+  loadIndex: '',
+  ambientTemp: '°C',
+  deltaTemp: '°C',
+  tempGradient: '°C',
+  vibrationPeakG: 'g',
+  crestFactor: '',
+};
+
+/** Parameters (and ingest fields) that are temperature differences rather than temperatures */
+const TEMPERATURE_DIFFERENCES: string[] = ['deltaTemp', 'tempGradient'];
+
+export function isTemperatureDifference(parameter: string): boolean {
+  return TEMPERATURE_DIFFERENCES.includes(parameter);
+}
+
+export class UnitMismatchError extends Error {
+  constructor(
+    public readonly from: string,
+    public readonly to: string,
+    context?: string
+  ) {
+    super(`Cannot convert ${from || '(ratio)'} to ${to || '(ratio)'}${context ? ` for ${context}` : ''}`);
+    this.name = 'UnitMismatchError';
+  }
+}
+
+export function isUnit(value: unknown): value is Unit {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(UNITS, value);
+}
+
+export function dimensionOf(unit: Unit): Dimension {
+  return UNITS[unit].dimension;
+}
+
+export function quantity(value: number, unit: Unit): Quantity {
+  return { value, unit };
+}
+
+/**
+ * Convert a quantity to another unit of the same dimension. A `difference`
+ * (e.g. a temperature rise) is scaled without the unit offsets.
+ */
+export function convert(q: Quantity, to: Unit, context?: string, { difference = false } = {}): Quantity {
+  const from: UnitSpec = UNITS[q.unit];
+  const target: UnitSpec = UNITS[to];
+  if (!from || !target || from.dimension !== target.dimension) {
+    throw new UnitMismatchError(q.unit, to, context);
+  }
+  if (q.unit === to) return q;
+
+  const offset = (spec: UnitSpec) => (difference ? 0 : spec.offset ?? 0);
+  const base = q.value * from.factor + offset(from);
+  return { value: (base - offset(target)) / target.factor, unit: to };
+}
+
+/**
+ * Value of a parameter in its canonical unit
+ */
+export function toCanonical(parameter: ParameterType, q: Quantity): number {
+  return convert(q, PARAMETER_UNITS[parameter], parameter, {
+    difference: isTemperatureDifference(parameter),
+  }).value;
+}
+
+/**
+ * Parse `{ value, unit }` from untrusted JSON. Returns null when the shape
+ * or the unit is not recognised.
+ */
+export function parseQuantity(input: unknown): Quantity | null {
+  if (typeof input !== 'object' || input === null) return null;
+  const { value, unit } = input as Record<string, unknown>;
+  const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  if (!Number.isFinite(number) || !isUnit(unit)) return null;
+  return { value: number, unit };
+}
+
+/** Parameter values in canonical units */
+export type CanonicalReading = Partial<Record<ParameterType, number>>;
+
+/**
+ * Convert unit-tagged request values (`{ parameter: { value, unit } }`) to
+ * canonical units; other keys are ignored. Throws UnitMismatchError for
+ * incompatible units and TypeError for values without a unit.
+ */
+export function toCanonicalReading(input: unknown, path: string): CanonicalReading {
+  const reading: CanonicalReading = {};
+  if (input === undefined || input === null) return reading;
+  if (typeof input !== 'object') throw new TypeError(`${path} must be an object`);
+
+  for (const [key, raw] of Object.entries(input as Record<string, unknown>)) {
+    if (!(key in PARAMETER_UNITS)) continue;
+    const parameter = key as ParameterType;
+    const q = parseQuantity(raw);
+    if (!q) throw new TypeError(`${path}.${key} must be { value, unit }`);
+    reading[parameter] = toCanonical(parameter, q);
+  }
+  return reading;
+}
+
+/**
+ * Velocity RMS of a vibration whose acceleration RMS is known, assuming
+ * the energy sits at one frequency: v = a / (2πf).
+ * This is an explicit approximation, never applied implicitly by convert().
+ */
+export function accelerationToVelocity(acceleration: Quantity, frequencyHz: number): Quantity {
+  if (dimensionOf(acceleration.unit) !== 'acceleration') {
+    throw new UnitMismatchError(acceleration.unit, 'm/s²', 'accelerationToVelocity');
+  }
+  if (!(frequencyHz > 0)) {
+    throw new RangeError('accelerationToVelocity needs a positive frequency');
+  }
+  const metresPerSecond2 = convert(acceleration, 'm/s²').value;
+  return convert({ value: metresPerSecond2 / (2 * Math.PI * frequencyHz), unit: 'm/s' }, 'mm/s');
+}
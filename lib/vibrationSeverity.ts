@@ -0,0 +1,144 @@
+/**
+ * Mechasense - Vibration Severity (ISO 10816 / 20816)
+ *
+ * Classifies vibration velocity RMS (mm/s) into the evaluation zones of the
+ * standard, using the machine group and foundation type of the motor:
+ *
+ * - Zone A: newly commissioned machines
+ * - Zone B: acceptable for unrestricted long-term operation
+ * - Zone C: unsatisfactory for long-term operation, plan maintenance
+ * - Zone D: severe enough to cause damage
+ *
+ * Client-safe: used by the dashboard as well as threshold resolution.
+ */
+
+import type { StatusLevel, ThresholdProfile } from './thresholds';
+
+export type VibrationZone = 'A' | 'B' | 'C' | 'D';
+
+/**
+ * - class1: ISO 10816-1 Class I, small machines up to 15 kW
+ * - group2: ISO 10816-3 Group 2, medium machines 15-300 kW
+ * - group1: ISO 10816-3 Group 1, large machines 300 kW-50 MW
+ */
+export type MachineGroup = 'class1' | 'group2' | 'group1';
+
+export type FoundationType = 'rigid' | 'flexible';
+
+export const MACHINE_GROUPS: MachineGroup[] = ['class1', 'group2', 'group1'];
+export const FOUNDATION_TYPES: FoundationType[] = ['rigid', 'flexible'];
+
+export const MACHINE_GROUP_LABELS: Record<MachineGroup, string> = {
+  class1: 'Class I (≤ 15 kW)',
+  group2: 'Group 2 (15-300 kW)',
+  group1: 'Group 1 (300 kW-50 MW)',
+};
+
+/** Zone boundaries in mm/s RMS */
+export interface ZoneBoundaries {
+  ab: number;
+  bc: number;
+  cd: number;
+}
+
+const ZONE_BOUNDARIES: Record<MachineGroup, Record<FoundationType, ZoneBoundaries>> = {
+  // ISO 10816-1 does not distinguish foundations for Class I
+  class1: {
+    rigid: { ab: 0.71, bc: 1.8, cd: 4.5 },
+    flexible: { ab: 0.71, bc: 1.8, cd: 4.5 },
+  },
+  group2: {
+    rigid: { ab: 1.4, bc: 2.8, cd: 4.5 },
+    flexible: { ab: 2.3, bc: 4.5, cd: 7.1 },
+  },
+  group1: {
+    rigid: { ab: 2.3, bc: 4.5, cd: 7.1 },
+    flexible: { ab: 3.5, bc: 7.1, cd: 11.0 },
+  },
+};
+
+export interface VibrationClass {
+  group: MachineGroup;
+  foundation: FoundationType;
+  standard: 'ISO 10816-1' | 'ISO 10816-3';
+  boundaries: ZoneBoundaries;
+}
+
+export interface VibrationSeverity {
+  zone: VibrationZone;
+  level: StatusLevel;
+  description: string;
+  vibrationClass: VibrationClass;
+}
+
+const ZONE_INFO: Record<VibrationZone, { level: StatusLevel; description: string }> = {
+  A: { level: 'normal', description: 'Newly commissioned condition' },
+  B: { level: 'normal', description: 'Acceptable for long-term operation' },
+  C: { level: 'warning', description: 'Unsatisfactory for long-term operation' },
+  D: { level: 'critical', description: 'Severe, may cause damage' },
+};
+
+/**
+ * Machine group implied by rated power (kW)
+ */
+export function machineGroupFor(ratedPowerKw: number): MachineGroup {
+  if (ratedPowerKw <= 15) return 'class1';
+  if (ratedPowerKw <= 300) return 'group2';
+  return 'group1';
+}
+
+/**
+ * Vibration class of a motor. `machineGroup` null means derived from the
+ * rated power; unknown values fall back to the derived group / rigid.
+ */
+export function vibrationClassFor(motor: {
+  ratedPower: number;
+  machineGroup?: string | null;
+  foundationType?: string | null;
+}): VibrationClass {
+  const group = MACHINE_GROUPS.includes(motor.machineGroup as MachineGroup)
+    ? (motor.machineGroup as MachineGroup)
+    : machineGroupFor(motor.ratedPower);
+  const foundation = FOUNDATION_TYPES.includes(motor.foundationType as FoundationType)
+    ? (motor.foundationType as FoundationType)
+    : 'rigid';
+
+  return {
+    group,
+    foundation,
+    standard: group === 'class1' ? 'ISO 10816-1' : 'ISO 10816-3',
+    boundaries: ZONE_BOUNDARIES[group][foundation],
+  };
+}
+
+/**
+ * Zone of a velocity RMS reading (mm/s)
+ */
+export function classifyVibration(velocityRms: number, vibrationClass: VibrationClass): VibrationSeverity {
+  const { ab, bc, cd } = vibrationClass.boundaries;
+  const zone: VibrationZone = velocityRms < ab ? 'A' : velocityRms < bc ? 'B' : velocityRms < cd ? 'C' : 'D';
+  return { zone, ...ZONE_INFO[zone], vibrationClass };
+}
+
+/**
+ * Threshold profile for vibrationRms: warning in zone C, critical in zone D
+ */
+export function vibrationThreshold(vibrationClass: VibrationClass): ThresholdProfile {
+  const { bc, cd } = vibrationClass.boundaries;
+  return {
+    direction: 'high',
+    warningHigh: bc,
+    criticalHigh: cd,
+    deadband: Number((bc * 0.05).toFixed(2)),
+    labels: { warning: 'Zone C', critical: 'Zone D' },
+  };
+}
+
+/**
+ * Short citation for reports, e.g. "ISO 10816-3 Group 2, rigid: A/B 1.4, B/C 2.8, C/D 4.5 mm/s"
+ */
+export function describeVibrationClass(vibrationClass: VibrationClass): string {
+  const { standard, group, foundation, boundaries } = vibrationClass;
+  const name = MACHINE_GROUP_LABELS[group].replace(/ \(.*\)$/, '');
+  return `${standard} ${name}, ${foundation}: A/B ${boundaries.ab}, B/C ${boundaries.bc}, C/D ${boundaries.cd} mm/s`;
+}
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "SensorReading" ADD COLUMN     "validationErrors" TEXT,
+ALTER COLUMN "gridVoltage" DROP NOT NULL,
+ALTER COLUMN "motorCurrent" DROP NOT NULL,
+ALTER COLUMN "powerConsumption" DROP NOT NULL,
+ALTER COLUMN "powerFactor" DROP NOT NULL,
+ALTER COLUMN "dailyEnergyKwh" DROP NOT NULL,
+ALTER COLUMN "gridFrequency" DROP NOT NULL,
+ALTER COLUMN "vibrationRms" DROP NOT NULL,
+ALTER COLUMN "rotorUnbalanceScore" DROP NOT NULL,
+ALTER COLUMN "bearingHealthScore" DROP NOT NULL,
+ALTER COLUMN "motorSurfaceTemp" DROP NOT NULL,
+ALTER COLUMN "bearingTemp" DROP NOT NULL,
+ALTER COLUMN "dustDensity" DROP NOT NULL,
+ALTER COLUMN "soilingLossPercent" DROP NOT NULL;
@@ -0,0 +1,65 @@
+-- AlterTable
+ALTER TABLE "SensorReading" ADD COLUMN     "deviceId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Device" (
+    "id" TEXT NOT NULL,
+    "motorId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "lastSeenAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Device_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DeviceKey" (
+    "id" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "secret" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "lastUsedAt" TIMESTAMP(3),
+
+    CONSTRAINT "DeviceKey_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DeviceNonce" (
+    "id" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DeviceNonce_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Device_motorId_idx" ON "Device"("motorId");
+
+-- CreateIndex
+CREATE INDEX "DeviceKey_deviceId_idx" ON "DeviceKey"("deviceId");
+
+-- CreateIndex
+CREATE INDEX "DeviceNonce_createdAt_idx" ON "DeviceNonce"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeviceNonce_deviceId_nonce_key" ON "DeviceNonce"("deviceId", "nonce");
+
+-- CreateIndex
+CREATE INDEX "SensorReading_deviceId_idx" ON "SensorReading"("deviceId");
+
+-- AddForeignKey
+ALTER TABLE "Device" ADD CONSTRAINT "Device_motorId_fkey" FOREIGN KEY ("motorId") REFERENCES "Motor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DeviceKey" ADD CONSTRAINT "DeviceKey_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "Device"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DeviceNonce" ADD CONSTRAINT "DeviceNonce_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "Device"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SensorReading" ADD CONSTRAINT "SensorReading_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "Device"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Alert" ADD COLUMN     "clearingSince" TIMESTAMP(3),
+ADD COLUMN     "lastSeenAt" TIMESTAMP(3),
+ADD COLUMN     "occurrences" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "peakValue" DOUBLE PRECISION;
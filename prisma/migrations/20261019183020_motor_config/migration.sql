@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Motor" ADD COLUMN     "alertEmail" TEXT,
+ADD COLUMN     "pollingIntervalSec" INTEGER NOT NULL DEFAULT 2;
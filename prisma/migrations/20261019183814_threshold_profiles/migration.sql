@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ThresholdProfile" (
+    "id" TEXT NOT NULL,
+    "motorId" TEXT NOT NULL,
+    "parameter" TEXT NOT NULL,
+    "direction" TEXT NOT NULL,
+    "warningLow" DOUBLE PRECISION,
+    "warningHigh" DOUBLE PRECISION,
+    "criticalLow" DOUBLE PRECISION,
+    "criticalHigh" DOUBLE PRECISION,
+    "deadband" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ThresholdProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ThresholdProfile_motorId_parameter_key" ON "ThresholdProfile"("motorId", "parameter");
+
+-- AddForeignKey
+ALTER TABLE "ThresholdProfile" ADD CONSTRAINT "ThresholdProfile_motorId_fkey" FOREIGN KEY ("motorId") REFERENCES "Motor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
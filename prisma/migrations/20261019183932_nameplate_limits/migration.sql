@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ThresholdProfile" ADD COLUMN     "relativeTo" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Motor" ADD COLUMN     "foundationType" TEXT NOT NULL DEFAULT 'rigid',
+ADD COLUMN     "machineGroup" TEXT;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "SensorReading" ADD COLUMN     "tempGradient" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "ThresholdProfile" ADD COLUMN     "rateCritical" DOUBLE PRECISION,
+ADD COLUMN     "rateWarning" DOUBLE PRECISION,
+ADD COLUMN     "rateWindowSeconds" INTEGER,
+ADD COLUMN     "sustainCount" INTEGER,
+ADD COLUMN     "sustainSeconds" INTEGER,
+ADD COLUMN     "sustainWindow" INTEGER;
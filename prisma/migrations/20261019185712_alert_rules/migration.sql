@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "AlertRule" (
+    "id" TEXT NOT NULL,
+    "motorId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "expression" TEXT NOT NULL,
+    "severity" TEXT NOT NULL DEFAULT 'WARNING',
+    "message" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AlertRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AlertRule_motorId_enabled_idx" ON "AlertRule"("motorId", "enabled");
+
+-- AddForeignKey
+ALTER TABLE "AlertRule" ADD CONSTRAINT "AlertRule_motorId_fkey" FOREIGN KEY ("motorId") REFERENCES "Motor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
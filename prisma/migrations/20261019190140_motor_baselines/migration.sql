@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "MotorBaseline" (
+    "id" TEXT NOT NULL,
+    "motorId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "trainingStart" TIMESTAMP(3) NOT NULL,
+    "trainingEnd" TIMESTAMP(3) NOT NULL,
+    "sampleCount" INTEGER NOT NULL,
+    "loadBands" TEXT,
+    "statistics" TEXT NOT NULL,
+    "warningZ" DOUBLE PRECISION NOT NULL DEFAULT 4,
+    "criticalZ" DOUBLE PRECISION NOT NULL DEFAULT 6,
+    "note" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "supersededAt" TIMESTAMP(3),
+
+    CONSTRAINT "MotorBaseline_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MotorBaseline_motorId_status_idx" ON "MotorBaseline"("motorId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MotorBaseline_motorId_version_key" ON "MotorBaseline"("motorId", "version");
+
+-- AddForeignKey
+ALTER TABLE "MotorBaseline" ADD CONSTRAINT "MotorBaseline_motorId_fkey" FOREIGN KEY ("motorId") REFERENCES "Motor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
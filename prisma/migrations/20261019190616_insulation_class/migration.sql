@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Motor" ADD COLUMN     "insulationClass" TEXT NOT NULL DEFAULT 'F',
+ADD COLUMN     "ratedTempRise" DOUBLE PRECISION;
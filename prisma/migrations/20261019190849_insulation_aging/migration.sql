@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "InsulationAging" (
+    "motorId" TEXT NOT NULL,
+    "equivalentHours" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "monitoredHours" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "recentAgingHours" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "recentElapsedHours" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "lastTimestamp" TIMESTAMP(3),
+    "lastSurfaceTemp" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InsulationAging_pkey" PRIMARY KEY ("motorId")
+);
+
+-- AddForeignKey
+ALTER TABLE "InsulationAging" ADD CONSTRAINT "InsulationAging_motorId_fkey" FOREIGN KEY ("motorId") REFERENCES "Motor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
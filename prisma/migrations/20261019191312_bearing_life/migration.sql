@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "BearingComponent" (
+    "id" TEXT NOT NULL,
+    "motorId" TEXT NOT NULL,
+    "position" TEXT NOT NULL,
+    "designation" TEXT,
+    "bearingType" TEXT NOT NULL DEFAULT 'ball',
+    "dynamicLoadRating" DOUBLE PRECISION NOT NULL,
+    "equivalentLoad" DOUBLE PRECISION NOT NULL,
+    "speedRpm" DOUBLE PRECISION NOT NULL,
+    "installedAt" TIMESTAMP(3) NOT NULL,
+    "runningHours" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "consumedHours" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "lastTimestamp" TIMESTAMP(3),
+    "lastRunning" BOOLEAN,
+    "lastLifeFactor" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BearingComponent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BearingComponent_motorId_idx" ON "BearingComponent"("motorId");
+
+-- AddForeignKey
+ALTER TABLE "BearingComponent" ADD CONSTRAINT "BearingComponent_motorId_fkey" FOREIGN KEY ("motorId") REFERENCES "Motor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
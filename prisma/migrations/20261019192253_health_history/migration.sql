@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "HealthAnalysis" ADD COLUMN     "confidence" DOUBLE PRECISION,
+ADD COLUMN     "factors" TEXT,
+ADD COLUMN     "healthScore" DOUBLE PRECISION,
+ADD COLUMN     "readingId" TEXT,
+ADD COLUMN     "subIndices" TEXT,
+ALTER COLUMN "healthScoreMl" DROP NOT NULL;
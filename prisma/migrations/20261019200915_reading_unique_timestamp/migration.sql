@@ -0,0 +1,11 @@
+/*
+  Warnings:
+
+  - A unique constraint covering the columns `[motorId,timestamp]` on the table `SensorReading` will be added. If there are existing duplicate values, this will fail.
+
+*/
+-- DropIndex
+DROP INDEX "SensorReading_motorId_timestamp_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SensorReading_motorId_timestamp_key" ON "SensorReading"("motorId", "timestamp");
@@ -4,6 +4,18 @@
  */
 
 import { PrismaClient } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { computeBaseline } from '../lib/baseline';
+import { EMPTY_AGING_STATE, integrateAging } from '../lib/insulationAging';
+import { thermalClassFor } from '../lib/thermalClass';
+import { EMPTY_BEARING_STATE, advanceBearingLife, bearingSampleFor } from '../lib/bearingLife';
+import { vibrationClassFor } from '../lib/vibrationSeverity';
+import { isHealthAnalysisDue, scoreStoredReading, toHealthAnalysisData } from '../lib/healthHistory';
+import { motorThresholds } from '../lib/thresholdProfiles';
+import { readingValues } from '../lib/alertRules';
+import { diagnose } from '../lib/expert-system/diagnosisEngine';
+import { applyAlertLifecycle } from '../lib/alertLifecycle';
+import { evaluateThresholds } from '../lib/ingest';
 
 const prisma = new PrismaClient();
 
@@ -32,16 +44,68 @@ async function main() {
       id: 'default-motor-1',
       name: 'Motor Utama Lantai 2',
       location: 'Workshop Area A',
-      ratedPower: 7.5, // kW
-      ratedCurrent: 15.0, // A
-      ratedVoltage: 380.0, // V
+      ratedPower: 0.75, // kW
+      ratedCurrent: 4.0, // A
+      ratedVoltage: 220.0, // V
+      insulationClass: 'F',
+      ratedTempRise: 80, // K: class F insulation, class B rise
+      pollingIntervalSec: 2,
     },
   });
   
   console.log(`[SUCCESS] Created motor: ${motor.name} (${motor.id})`);
   
+  // Register the ESP32 board for this motor
+  console.log('Registering device...');
+  const device = await prisma.device.create({
+    data: {
+      motorId: motor.id,
+      name: 'ESP32 Workshop A',
+      keys: { create: { secret: randomBytes(32).toString('hex') } },
+    },
+    include: { keys: true },
+  });
+  
+  console.log(`[SUCCESS] Registered device: ${device.name} (${device.id})`);
+  console.log(`  Key ID: ${device.keys[0].id}`);
+  console.log(`  Secret: ${device.keys[0].secret}`);
+  
+  // Example compound alert rules (see lib/alertRules.ts)
+  console.log('Creating alert rules...');
+  await prisma.alertRule.createMany({
+    data: [
+      {
+        motorId: motor.id,
+        name: 'Bearing damage',
+        severity: 'CRITICAL',
+        message: 'Vibrasi dan suhu bearing tinggi: kemungkinan kerusakan bearing',
+        expression: JSON.stringify({
+          op: 'and',
+          args: [
+            { op: 'compare', parameter: 'vibrationRms', comparator: '>', value: 4.5 },
+            { op: 'compare', parameter: 'bearingTemp', comparator: '>', value: 85 },
+          ],
+        }),
+      },
+      {
+        motorId: motor.id,
+        name: 'Low power factor at normal current',
+        severity: 'WARNING',
+        message: 'Power factor rendah pada arus normal: periksa kapasitor / winding',
+        expression: JSON.stringify({
+          op: 'and',
+          args: [
+            { op: 'not', arg: { op: 'level', parameter: 'powerFactor', level: 'normal' } },
+            { op: 'level', parameter: 'motorCurrent', level: 'normal' },
+          ],
+        }),
+      },
+    ],
+  });
+  
   // Generate sensor readings (last 24 hours, every 5 minutes = 288 readings)
   console.log('Generating sensor readings...');
+  const thresholds = motorThresholds({ ...motor, thresholdProfiles: [] });
   const now = new Date();
   const readings = [];
   const readingsCount = 100; // Generate 100 readings for demo
@@ -56,16 +120,17 @@ async function main() {
     const baseVoltage = 220;
     const baseCurrent = 3.5;
     const baseTemp = 65;
-    const baseVibration = 2.0;
+    const baseVibration = 1.2; // ISO 10816 class I: zone B below 1.8 mm/s
     
     const reading = await prisma.sensorReading.create({
       data: {
         motorId: motor.id,
+        deviceId: device.id,
         timestamp,
         
         // PZEM-004T Wattmeter data
         gridVoltage: isAnomaly ? randomBetween(210, 235) : randomBetween(baseVoltage - 5, baseVoltage + 5),
-        motorCurrent: isAnomaly ? randomBetween(4.5, 6) : randomBetween(baseCurrent - 0.5, baseCurrent + 0.5),
+        motorCurrent: isAnomaly ? randomBetween(4.5, 6) : randomBetween(baseCurrent - 0.4, baseCurrent + 0.4),
         powerConsumption: randomBetween(700, 900),
         powerFactor: isAnomaly ? randomBetween(0.65, 0.75) : randomBetween(0.85, 0.95),
         dailyEnergyKwh: randomBetween(15, 25) + (readingsCount - i) * 0.05,
@@ -86,7 +151,7 @@ async function main() {
         bearingTemp: isAnomaly ? randomBetween(70, 88) : randomBetween(baseTemp - 3, baseTemp + 3),
         
         // GP2Y1010 Dust Sensor
-        dustDensity: isAnomaly ? randomBetween(80, 120) : randomBetween(20, 60),
+        dustDensity: isAnomaly ? randomBetween(80, 120) : randomBetween(20, 45),
         soilingLossPercent: randomBetween(1, 8),
         
         rawPayload: JSON.stringify({
@@ -99,64 +164,10 @@ async function main() {
     
     readings.push(reading);
     
-    // Create alerts for anomalies
-    if (isAnomaly) {
-      if (reading.gridVoltage > 230) {
-        await prisma.alert.create({
-          data: {
-            motorId: motor.id,
-            timestamp,
-            severity: 'CRITICAL',
-            parameter: 'gridVoltage',
-            value: reading.gridVoltage,
-            message: `Grid Voltage melampaui batas aman: ${reading.gridVoltage.toFixed(1)} V`,
-            status: 'OPEN',
-          },
-        });
-      }
-      
-      if (reading.motorCurrent > 5.5) {
-        await prisma.alert.create({
-          data: {
-            motorId: motor.id,
-            timestamp,
-            severity: 'CRITICAL',
-            parameter: 'motorCurrent',
-            value: reading.motorCurrent,
-            message: `Motor Current melampaui batas aman: ${reading.motorCurrent.toFixed(2)} A`,
-            status: 'OPEN',
-          },
-        });
-      }
-      
-      if (reading.motorSurfaceTemp > 85) {
-        await prisma.alert.create({
-          data: {
-            motorId: motor.id,
-            timestamp,
-            severity: 'CRITICAL',
-            parameter: 'motorSurfaceTemp',
-            value: reading.motorSurfaceTemp,
-            message: `Motor Temperature melampaui batas aman: ${reading.motorSurfaceTemp.toFixed(1)} °C`,
-            status: 'OPEN',
-          },
-        });
-      }
-      
-      if (reading.vibrationRms > 4.5) {
-        await prisma.alert.create({
-          data: {
-            motorId: motor.id,
-            timestamp,
-            severity: 'CRITICAL',
-            parameter: 'vibrationRms',
-            value: reading.vibrationRms,
-            message: `Vibration RMS melampaui batas aman: ${reading.vibrationRms.toFixed(2)} mm/s`,
-            status: 'OPEN',
-          },
-        });
-      }
-    }
+    // Alerts as ingest raises them: one per parameter, updated while open (see lib/alertLifecycle.ts)
+    await prisma.$transaction((tx) =>
+      applyAlertLifecycle(tx, motor.id, timestamp, evaluateThresholds(reading, thresholds), thresholds)
+    );
     
     // Progress indicator
     if ((readingsCount - i) % 20 === 0) {
@@ -166,20 +177,75 @@ async function main() {
   
   console.log(`[SUCCESS] Created ${readings.length} sensor readings`);
   
-  // Create some health analyses
+  // Baseline learned from the generated readings (see lib/baseline.ts)
+  console.log('Learning baseline...');
+  const baseline = computeBaseline(readings, null, motor.ratedCurrent);
+  if (baseline.ok) {
+    await prisma.motorBaseline.create({
+      data: {
+        motorId: motor.id,
+        version: 1,
+        trainingStart: readings[0].timestamp,
+        trainingEnd: readings[readings.length - 1].timestamp,
+        sampleCount: readings.length,
+        statistics: JSON.stringify(baseline.statistics),
+        note: 'Seed data',
+      },
+    });
+    console.log('[SUCCESS] Created baseline version 1');
+  }
+  
+  // Insulation aging over the generated readings (see lib/insulationAging.ts)
+  console.log('Accumulating insulation aging...');
+  const aging = integrateAging(
+    EMPTY_AGING_STATE,
+    readings
+      .filter((r) => r.motorSurfaceTemp !== null)
+      .map((r) => ({ timestamp: r.timestamp, surfaceTemp: r.motorSurfaceTemp! })),
+    thermalClassFor(motor)
+  );
+  await prisma.insulationAging.create({ data: { motorId: motor.id, ...aging } });
+  console.log(`[SUCCESS] Insulation aging: ${aging.equivalentHours.toFixed(2)} equivalent hours`);
+  
+  // Bearings with their life over the generated readings (see lib/bearingLife.ts)
+  console.log('Creating bearings...');
+  const vibrationClass = vibrationClassFor(motor);
+  let bearingLife = EMPTY_BEARING_STATE;
+  for (const reading of readings) {
+    const sample = bearingSampleFor(reading, motor.ratedCurrent, vibrationClass);
+    if (sample) bearingLife = advanceBearingLife(bearingLife, sample);
+  }
+  const installedAt = readings[0].timestamp;
+  await prisma.bearingComponent.createMany({
+    data: [
+      { motorId: motor.id, position: 'Drive end', designation: '6204-2RS', dynamicLoadRating: 13.5, equivalentLoad: 0.8, speedRpm: 1450, installedAt, ...bearingLife },
+      { motorId: motor.id, position: 'Non-drive end', designation: '6203-2RS', dynamicLoadRating: 9.95, equivalentLoad: 0.6, speedRpm: 1450, installedAt, ...bearingLife },
+    ],
+  });
+  console.log(`[SUCCESS] Created 2 bearings: ${bearingLife.runningHours.toFixed(2)} running hours`);
+  
+  // Health history over the generated readings, as ingest stores it (see lib/healthHistory.ts)
   console.log('Creating health analyses...');
-  const healthAnalysis = await prisma.healthAnalysis.create({
+  const analyses = [];
+  for (const reading of readings) {
+    const result = scoreStoredReading(reading, thresholds);
+    if (!isHealthAnalysisDue(analyses[analyses.length - 1] ?? null, result, reading.timestamp)) continue;
+    analyses.push(await prisma.healthAnalysis.create({
+      data: { motorId: motor.id, timestamp: reading.timestamp, readingId: reading.id, ...toHealthAnalysisData(result) },
+    }));
+  }
+  // The expert diagnosis of the latest reading goes with the latest analysis
+  const report = diagnose({ values: readingValues(readings[readings.length - 1]), thresholds });
+  const healthAnalysis = await prisma.healthAnalysis.update({
+    where: { id: analyses[analyses.length - 1].id },
     data: {
-      motorId: motor.id,
-      healthScoreMl: 82,
-      healthCategory: 'Healthy',
-      expertDiagnosis: 'Motor dalam kondisi normal dengan performa optimal',
-      expertRecommendation: 'Lanjutkan monitoring berkala. Lakukan maintenance preventif sesuai jadwal.',
-      rawRulesMatched: JSON.stringify([]),
+      expertDiagnosis: report.diagnosis,
+      expertRecommendation: report.recommendation,
+      rawRulesMatched: JSON.stringify(report.diagnoses),
     },
   });
   
-  console.log(`[SUCCESS] Created health analysis: Score ${healthAnalysis.healthScoreMl}`);
+  console.log(`[SUCCESS] Created ${analyses.length} health analyses: latest score ${healthAnalysis.healthScore}`);
   
   // Get alert count
   const alertCount = await prisma.alert.count({
@@ -191,6 +257,10 @@ async function main() {
   console.log('\n[COMPLETE] Database seeding completed successfully!');
   console.log('\nSummary:');
   console.log(`  - Motors: 1`);
+  console.log(`  - Devices: 1`);
+  console.log(`  - Alert Rules: 2`);
+  console.log(`  - Baselines: ${baseline.ok ? 1 : 0}`);
+  console.log(`  - Bearings: 2`);
   console.log(`  - Sensor Readings: ${readings.length}`);
   console.log(`  - Health Analyses: 1`);
   console.log(`  - Active Alerts: ${alertCount}`);
@@ -6,4 +6,54 @@ export interface Alert {
   timestamp?: number; // gunakan Unix timestamp
   parameter?: string;
   value?: number;
+  peakValue?: number | null;
+  occurrences?: number;
+  acknowledgedBy?: string | null;
+  closedBy?: string | null;
+}
+
+/** Alert as stored in the database (GET /api/alerts) */
+export interface StoredAlert {
+  id: string;
+  motorId: string;
+  timestamp: string;
+  severity: "WARNING" | "CRITICAL";
+  parameter: string;
+  value: number;
+  message: string;
+  status: "OPEN" | "CLOSED" | "ACKNOWLEDGED";
+  lastSeenAt: string | null;
+  peakValue: number | null;
+  occurrences: number;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+  closedAt: string | null;
+  closedBy: string | null;
+}
+
+export interface AlertEvent {
+  id: string;
+  action: "ACKNOWLEDGE" | "CLOSE" | "REOPEN" | "ESCALATE" | "AUTO_CLOSE";
+  actor: string;
+  comment: string | null;
+  fromStatus: string;
+  toStatus: string;
+  createdAt: string;
+}
+
+/** Map a stored alert to the shape AlertList renders */
+export function toListAlert(alert: StoredAlert): Alert {
+  return {
+    id: alert.id,
+    severity: alert.severity === "CRITICAL" ? "high" : "medium",
+    message: alert.message,
+    status: alert.status,
+    timestamp: new Date(alert.lastSeenAt ?? alert.timestamp).getTime(),
+    parameter: alert.parameter,
+    value: alert.value,
+    peakValue: alert.peakValue,
+    occurrences: alert.occurrences,
+    acknowledgedBy: alert.acknowledgedBy,
+    closedBy: alert.closedBy,
+  };
 }